@@ -16,15 +16,25 @@ import { AdminLayout } from '@/components/layouts/AdminLayout';
 import { UserOverview } from '@/components/user/sections/UserOverview';
 import { UserTransactions } from '@/components/user/sections/UserTransactions';
 import { UserGoals } from '@/components/user/sections/UserGoals';
+import { UserBudgets } from '@/components/user/sections/UserBudgets';
+import { UserNetWorth } from '@/components/user/sections/UserNetWorth';
+import { UserDebts } from '@/components/user/sections/UserDebts';
 import { UserAnalytics } from '@/components/user/sections/UserAnalytics';
 import { UserSettings } from '@/components/user/sections/UserSettings';
 import { ClientDocuments } from '@/components/client/sections/ClientDocuments';
+import { ClientInvoices } from '@/components/client/sections/ClientInvoices';
+import { ClientBills } from '@/components/client/sections/ClientBills';
+import { ClientReports } from '@/components/client/sections/ClientReports';
 import { ClientSettings } from '@/components/client/sections/ClientSettings';
 
 import { AccountantOverview } from '@/components/accountant/sections/AccountantOverview';
 import { AccountantClients } from '@/components/accountant/sections/AccountantClients';
 import { AccountantTasks } from '@/components/accountant/sections/AccountantTasks';
 import { AccountantReports } from '@/components/accountant/sections/AccountantReports';
+import { AccountantJournal } from '@/components/accountant/sections/AccountantJournal';
+import { AccountantReconciliation } from '@/components/accountant/sections/AccountantReconciliation';
+import { AccountantReceivables } from '@/components/accountant/sections/AccountantReceivables';
+import { AccountantPayables } from '@/components/accountant/sections/AccountantPayables';
 
 import { AdminOverview } from '@/components/admin/sections/AdminOverview';
 import { AdminUsers } from '@/components/admin/sections/AdminUsers';
@@ -216,8 +226,14 @@ const AppRoutes = () => {
         <Route path="overview" element={<UserOverview />} />
         <Route path="transactions" element={<UserTransactions />} />
         <Route path="goals" element={<UserGoals />} />
+        <Route path="budgets" element={<UserBudgets />} />
+        <Route path="net-worth" element={<UserNetWorth />} />
+        <Route path="debts" element={<UserDebts />} />
         <Route path="analytics" element={<UserAnalytics />} />
+        <Route path="invoices" element={<ClientInvoices />} />
+        <Route path="bills" element={<ClientBills />} />
         <Route path="documents" element={<ClientDocuments />} />
+        <Route path="reports" element={<ClientReports />} />
         <Route path="settings" element={<UserSettings />} />
       </Route>
       
@@ -237,6 +253,10 @@ const AppRoutes = () => {
         <Route path="clients" element={<AccountantClients />} />
         <Route path="tasks" element={<AccountantTasks />} />
         <Route path="reports" element={<AccountantReports />} />
+        <Route path="journal" element={<AccountantJournal />} />
+        <Route path="reconciliation" element={<AccountantReconciliation />} />
+        <Route path="receivables" element={<AccountantReceivables />} />
+        <Route path="payables" element={<AccountantPayables />} />
       </Route>
       
 
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { downloadReportPdf } from '@/lib/reportPdf';
+import type { ReportData } from '@/types';
 import { AddClientModal } from '@/components/modals/AddClientModal';
 import { AddTaskModal } from '@/components/modals/AddTaskModal';
 import { GenerateReportModal } from '@/components/modals/GenerateReportModal';
@@ -369,21 +371,30 @@ export const AccountantDashboard: React.FC = () => {
     alert(`Report Review: ${report.title}\n\nClient: ${report.client}\nType: ${report.type.replace('_', ' ')}\nStatus: ${report.status.replace('_', ' ')}\nCreated: ${new Date(report.createdDate).toLocaleDateString()}\nDue: ${new Date(report.dueDate).toLocaleDateString()}\n\nThis would open the full report for review in production.`);
   };
 
-  const handleDownloadReport = (report: Report) => {
-    // Simulate report download
-    const reportData = `${report.title}\n\nClient: ${report.client}\nType: ${report.type.replace('_', ' ')}\nGenerated: ${new Date().toLocaleDateString()}\n\nThis is a sample report. In production, this would contain actual financial data and calculations based on the client's business transactions.\n\nReport Status: ${report.status.replace('_', ' ')}\nCreated: ${new Date(report.createdDate).toLocaleDateString()}\nDue Date: ${new Date(report.dueDate).toLocaleDateString()}`;
-    
-    const blob = new Blob([reportData], { type: 'text/plain' });
-    const url = window.URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${report.title.replace(/\s+/g, '_')}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    window.URL.revokeObjectURL(url);
+  const handleDownloadReport = async (report: Report) => {
+    try {
+      const { data, error: reportError } = await supabase
+        .from('reports')
+        .select('data, title, status, business:businesses(name)')
+        .eq('id', report.id)
+        .single();
+
+      if (reportError) throw reportError;
+      if (!data?.data) {
+        alert(`${report.title} has no figures yet. Generate the report before downloading it.`);
+        return;
+      }
+
+      downloadReportPdf(data.data as unknown as ReportData, {
+        title: data.title,
+        businessName: data.business?.name || report.client,
+        status: data.status.replace('_', ' '),
+        preparedBy: user?.email
+      });
+    } catch (err: any) {
+      console.error('Error downloading report:', err);
+      setError(err.message || 'Failed to download report');
+    }
   };
 
   const handleExportReports = () => {
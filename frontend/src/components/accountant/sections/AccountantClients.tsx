@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { BusinessAccountsModal } from '@/components/modals/BusinessAccountsModal';
+import { PeriodCloseModal } from '@/components/modals/PeriodCloseModal';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -42,7 +44,9 @@ import {
   MoreHorizontal,
   UserPlus,
   Archive,
-  CheckCircle
+  CheckCircle,
+  Landmark,
+  Lock
 } from 'lucide-react';
 
 // Interface definitions
@@ -85,6 +89,8 @@ export const AccountantClients: React.FC = () => {
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [showClientModal, setShowClientModal] = useState(false);
   const [showAddClientModal, setShowAddClientModal] = useState(false);
+  const [accountsBusiness, setAccountsBusiness] = useState<Business | null>(null);
+  const [periodCloseBusiness, setPeriodCloseBusiness] = useState<Business | null>(null);
 
   // Load clients data
   useEffect(() => {
@@ -603,9 +609,27 @@ export const AccountantClients: React.FC = () => {
                             <p className="text-sm text-gray-500">{business.industry}</p>
                           )}
                         </div>
-                        <div className="text-right">
-                          <p className="font-medium">{formatCurrency(business.total_revenue)}</p>
-                          <p className="text-sm text-gray-500">{formatCurrency(business.monthly_fee)}/month</p>
+                        <div className="flex items-center gap-3">
+                          <div className="text-right">
+                            <p className="font-medium">{formatCurrency(business.total_revenue)}</p>
+                            <p className="text-sm text-gray-500">{formatCurrency(business.monthly_fee)}/month</p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setAccountsBusiness(business)}
+                          >
+                            <Landmark className="h-3 w-3 mr-1" />
+                            Accounts
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPeriodCloseBusiness(business)}
+                          >
+                            <Lock className="h-3 w-3 mr-1" />
+                            Close Periods
+                          </Button>
                         </div>
                       </div>
                     ))}
@@ -627,6 +651,26 @@ export const AccountantClients: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Business Accounts Modal */}
+      {accountsBusiness && (
+        <BusinessAccountsModal
+          isOpen={!!accountsBusiness}
+          onClose={() => setAccountsBusiness(null)}
+          businessId={accountsBusiness.id}
+          businessName={accountsBusiness.name}
+        />
+      )}
+
+      {/* Period Close Modal */}
+      {periodCloseBusiness && (
+        <PeriodCloseModal
+          isOpen={!!periodCloseBusiness}
+          onClose={() => setPeriodCloseBusiness(null)}
+          businessId={periodCloseBusiness.id}
+          businessName={periodCloseBusiness.name}
+        />
+      )}
+
       {/* Add Client Modal Placeholder */}
       <Dialog open={showAddClientModal} onOpenChange={setShowAddClientModal}>
         <DialogContent>
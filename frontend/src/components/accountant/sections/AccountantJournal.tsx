@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts, getAccountLabel } from '@/lib/accounts';
+import { ADJUSTMENT_TYPES, fetchJournalEntries, summarizeJournalLines } from '@/lib/ledger';
+import { JournalEntryModal } from '@/components/modals/JournalEntryModal';
+import { formatCurrency, formatDate } from '@/types';
+import type { Account, JournalEntry, JournalEntrySource } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { AlertCircle, BookOpen, FileText, Plus, RefreshCw } from 'lucide-react';
+
+interface ClientBusiness {
+  id: string;
+  name: string;
+  owner_id: string;
+}
+
+type SourceFilter = 'all' | JournalEntrySource;
+
+export const AccountantJournal: React.FC = () => {
+  const [businesses, setBusinesses] = useState<ClientBusiness[]>([]);
+  const [selectedBusinessId, setSelectedBusinessId] = useState('');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('manual');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showEntryModal, setShowEntryModal] = useState(false);
+
+  const selectedBusiness = businesses.find(b => b.id === selectedBusinessId);
+
+  useEffect(() => {
+    loadBusinesses();
+  }, []);
+
+  useEffect(() => {
+    if (selectedBusinessId) {
+      loadLedger();
+    }
+  }, [selectedBusinessId, sourceFilter]);
+
+  const loadBusinesses = async () => {
+    try {
+      setLoading(true);
+      const { data, error: businessError } = await supabase
+        .from('businesses')
+        .select('id, name, owner_id')
+        .order('name');
+
+      if (businessError) throw businessError;
+
+      setBusinesses(data || []);
+      if (data && data.length > 0) {
+        setSelectedBusinessId(data[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error loading businesses:', err);
+      setError(err.message || 'Failed to load client businesses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLedger = async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+
+      const [businessAccounts, journalEntries] = await Promise.all([
+        fetchBusinessAccounts(selectedBusinessId, { includeInactive: true }),
+        fetchJournalEntries(
+          { businessId: selectedBusinessId },
+          sourceFilter === 'all' ? {} : { source: sourceFilter }
+        )
+      ]);
+
+      setAccounts(businessAccounts);
+      // Most recent entries first
+      setEntries(journalEntries.reverse());
+    } catch (err: any) {
+      console.error('Error loading journal entries:', err);
+      setError(err.message || 'Failed to load journal entries');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const getAccountName = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account ? getAccountLabel(account) : 'Unknown account';
+  };
+
+  const getAdjustmentLabel = (entry: JournalEntry) => {
+    if (entry.source === 'transaction') return 'Transaction';
+    return ADJUSTMENT_TYPES.find(t => t.value === entry.adjustment_type)?.label || 'Manual';
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">General Journal</h2>
+          <p className="text-gray-600">Post accruals, depreciation and reclassifications to client ledgers</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            onClick={loadLedger}
+            disabled={refreshing || !selectedBusinessId}
+            variant="outline"
+            size="sm"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={() => setShowEntryModal(true)} disabled={!selectedBusiness}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Journal Entry
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <Select value={selectedBusinessId} onValueChange={setSelectedBusinessId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client business" />
+                </SelectTrigger>
+                <SelectContent>
+                  {businesses.map(business => (
+                    <SelectItem key={business.id} value={business.id}>{business.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Select value={sourceFilter} onValueChange={(value) => setSourceFilter(value as SourceFilter)}>
+              <SelectTrigger className="w-full md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="manual">Manual & adjusting entries</SelectItem>
+                <SelectItem value="transaction">Posted from transactions</SelectItem>
+                <SelectItem value="all">All entries</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Journal Entries</CardTitle>
+          <CardDescription>
+            {selectedBusiness ? `${entries.length} entries for ${selectedBusiness.name}` : 'Select a business'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="text-center py-8">
+              <BookOpen className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No journal entries yet</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {entries.map(entry => {
+                const totals = summarizeJournalLines(entry.lines);
+                return (
+                  <div key={entry.id} className="border rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-gray-900">{entry.memo || 'No memo'}</p>
+                          <Badge variant="outline">{getAdjustmentLabel(entry)}</Badge>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {formatDate(entry.entry_date)}
+                          {entry.reference && ` • Ref ${entry.reference}`}
+                        </p>
+                      </div>
+                      {entry.document_id && (
+                        <Badge variant="info">
+                          <FileText className="h-3 w-3 mr-1" />
+                          Supporting document
+                        </Badge>
+                      )}
+                    </div>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {entry.lines.map((line, index) => (
+                          <tr key={line.id || index} className="border-t">
+                            <td className={`py-1 ${line.credit > 0 ? 'pl-8' : ''}`}>
+                              {getAccountName(line.account_id)}
+                              {line.description && (
+                                <span className="text-xs text-gray-400 ml-2">{line.description}</span>
+                              )}
+                            </td>
+                            <td className="py-1 text-right tabular-nums w-32">
+                              {line.debit > 0 && formatCurrency(line.debit)}
+                            </td>
+                            <td className="py-1 text-right tabular-nums w-32">
+                              {line.credit > 0 && formatCurrency(line.credit)}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="border-t font-medium">
+                          <td className="py-1">Total</td>
+                          <td className="py-1 text-right tabular-nums">{formatCurrency(totals.debits)}</td>
+                          <td className="py-1 text-right tabular-nums">{formatCurrency(totals.credits)}</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedBusiness && (
+        <JournalEntryModal
+          isOpen={showEntryModal}
+          onClose={() => setShowEntryModal(false)}
+          businessId={selectedBusiness.id}
+          businessName={selectedBusiness.name}
+          ownerId={selectedBusiness.owner_id}
+          onEntryPosted={loadLedger}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import {
+  BILL_STATUS_LABELS,
+  BILL_STATUS_VARIANTS,
+  buildPayablesAging,
+  fetchBills,
+  getBillBalance,
+  isBillOpen
+} from '@/lib/bills';
+import { getDaysPastDue } from '@/lib/aging';
+import { toISODate } from '@/lib/reports';
+import { AgingReport } from '@/components/reports/AgingReport';
+import { formatCurrency, formatDate } from '@/types';
+import type { Bill } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+
+interface ClientBusiness {
+  id: string;
+  name: string;
+}
+
+export const AccountantPayables: React.FC = () => {
+  const [businesses, setBusinesses] = useState<ClientBusiness[]>([]);
+  const [selectedBusinessId, setSelectedBusinessId] = useState('');
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [asOf, setAsOf] = useState(toISODate(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBusinesses();
+  }, []);
+
+  useEffect(() => {
+    if (selectedBusinessId) {
+      loadBills();
+    }
+  }, [selectedBusinessId]);
+
+  const loadBusinesses = async () => {
+    try {
+      setLoading(true);
+      const { data, error: businessError } = await supabase
+        .from('businesses')
+        .select('id, name')
+        .order('name');
+
+      if (businessError) throw businessError;
+
+      setBusinesses(data || []);
+      if (data && data.length > 0) {
+        setSelectedBusinessId(data[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error loading businesses:', err);
+      setError(err.message || 'Failed to load client businesses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadBills = async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+      setBills(await fetchBills(selectedBusinessId));
+    } catch (err: any) {
+      console.error('Error loading bills:', err);
+      setError(err.message || 'Failed to load bills');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const aging = useMemo(() => buildPayablesAging(bills, asOf), [bills, asOf]);
+  const openBills = useMemo(() => bills.filter(isBillOpen), [bills]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Payables</h2>
+          <p className="text-gray-600">What your clients owe their vendors and when it is due</p>
+        </div>
+        <Button
+          onClick={loadBills}
+          disabled={refreshing || !selectedBusinessId}
+          variant="outline"
+          size="sm"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Client Business</Label>
+              <Select value={selectedBusinessId} onValueChange={setSelectedBusinessId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client business" />
+                </SelectTrigger>
+                <SelectContent>
+                  {businesses.map(business => (
+                    <SelectItem key={business.id} value={business.id}>{business.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="aging-as-of">As Of</Label>
+              <input
+                id="aging-as-of"
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value || toISODate(new Date()))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex flex-col justify-end">
+              <p className="text-sm text-gray-500">Total outstanding</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(aging.total)}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts Payable Aging</CardTitle>
+          <CardDescription>Unpaid bill balances by vendor and days past due</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AgingReport report={aging} partyLabel="Vendor" emptyLabel="No unpaid bills for this business" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Bills</CardTitle>
+          <CardDescription>{openBills.length} bills with a balance owed</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openBills.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Nothing outstanding</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="border-b bg-gray-50">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Vendor</th>
+                    <th className="text-left p-2 font-medium">Category</th>
+                    <th className="text-left p-2 font-medium">Due</th>
+                    <th className="text-left p-2 font-medium">Pay On</th>
+                    <th className="text-right p-2 font-medium">Days Past Due</th>
+                    <th className="text-left p-2 font-medium">Status</th>
+                    <th className="text-right p-2 font-medium">Amount</th>
+                    <th className="text-right p-2 font-medium">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openBills.map(bill => {
+                    const daysPastDue = getDaysPastDue(bill.due_date, asOf);
+                    return (
+                      <tr key={bill.id} className="border-b">
+                        <td className="p-2">
+                          <p className="font-medium">{bill.vendor?.name}</p>
+                          {bill.bill_number && <p className="text-xs text-gray-500">{bill.bill_number}</p>}
+                        </td>
+                        <td className="p-2 text-sm">{bill.category}</td>
+                        <td className="p-2 text-sm">{formatDate(bill.due_date)}</td>
+                        <td className="p-2 text-sm">{bill.scheduled_payment_date ? formatDate(bill.scheduled_payment_date) : '—'}</td>
+                        <td className={`p-2 text-right ${daysPastDue > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {daysPastDue > 0 ? daysPastDue : '—'}
+                        </td>
+                        <td className="p-2">
+                          <Badge variant={BILL_STATUS_VARIANTS[bill.status]}>{BILL_STATUS_LABELS[bill.status]}</Badge>
+                        </td>
+                        <td className="p-2 text-right tabular-nums">{formatCurrency(bill.amount)}</td>
+                        <td className="p-2 text-right tabular-nums font-medium">{formatCurrency(getBillBalance(bill))}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_VARIANTS,
+  buildReceivablesAging,
+  fetchInvoices,
+  getInvoiceBalance,
+  getInvoiceStatus,
+  isInvoiceOpen
+} from '@/lib/invoices';
+import { getDaysPastDue } from '@/lib/aging';
+import { toISODate } from '@/lib/reports';
+import { AgingReport } from '@/components/reports/AgingReport';
+import { formatCurrency, formatDate } from '@/types';
+import type { Invoice } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+
+interface ClientBusiness {
+  id: string;
+  name: string;
+}
+
+export const AccountantReceivables: React.FC = () => {
+  const [businesses, setBusinesses] = useState<ClientBusiness[]>([]);
+  const [selectedBusinessId, setSelectedBusinessId] = useState('');
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [asOf, setAsOf] = useState(toISODate(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBusinesses();
+  }, []);
+
+  useEffect(() => {
+    if (selectedBusinessId) {
+      loadInvoices();
+    }
+  }, [selectedBusinessId]);
+
+  const loadBusinesses = async () => {
+    try {
+      setLoading(true);
+      const { data, error: businessError } = await supabase
+        .from('businesses')
+        .select('id, name')
+        .order('name');
+
+      if (businessError) throw businessError;
+
+      setBusinesses(data || []);
+      if (data && data.length > 0) {
+        setSelectedBusinessId(data[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error loading businesses:', err);
+      setError(err.message || 'Failed to load client businesses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadInvoices = async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+      setInvoices(await fetchInvoices(selectedBusinessId));
+    } catch (err: any) {
+      console.error('Error loading invoices:', err);
+      setError(err.message || 'Failed to load invoices');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const aging = useMemo(() => buildReceivablesAging(invoices, asOf), [invoices, asOf]);
+  // Oldest first, the order they are usually chased in
+  const openInvoices = useMemo(
+    () => invoices.filter(isInvoiceOpen).sort((a, b) => a.due_date.localeCompare(b.due_date)),
+    [invoices]
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Receivables</h2>
+          <p className="text-gray-600">What customers owe your clients and how long it has been outstanding</p>
+        </div>
+        <Button
+          onClick={loadInvoices}
+          disabled={refreshing || !selectedBusinessId}
+          variant="outline"
+          size="sm"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Client Business</Label>
+              <Select value={selectedBusinessId} onValueChange={setSelectedBusinessId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client business" />
+                </SelectTrigger>
+                <SelectContent>
+                  {businesses.map(business => (
+                    <SelectItem key={business.id} value={business.id}>{business.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="aging-as-of">As Of</Label>
+              <input
+                id="aging-as-of"
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value || toISODate(new Date()))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex flex-col justify-end">
+              <p className="text-sm text-gray-500">Total outstanding</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(aging.total)}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts Receivable Aging</CardTitle>
+          <CardDescription>Unpaid invoice balances by customer and days past due</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AgingReport report={aging} partyLabel="Customer" emptyLabel="No unpaid invoices for this business" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Invoices</CardTitle>
+          <CardDescription>{openInvoices.length} invoices with a balance due</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openInvoices.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Nothing outstanding</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="border-b bg-gray-50">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Number</th>
+                    <th className="text-left p-2 font-medium">Customer</th>
+                    <th className="text-left p-2 font-medium">Due</th>
+                    <th className="text-right p-2 font-medium">Days Past Due</th>
+                    <th className="text-left p-2 font-medium">Status</th>
+                    <th className="text-right p-2 font-medium">Total</th>
+                    <th className="text-right p-2 font-medium">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openInvoices.map(invoice => {
+                    const status = getInvoiceStatus(invoice, asOf);
+                    const daysPastDue = getDaysPastDue(invoice.due_date, asOf);
+                    return (
+                      <tr key={invoice.id} className="border-b">
+                        <td className="p-2 font-medium">{invoice.invoice_number}</td>
+                        <td className="p-2">{invoice.customer?.name}</td>
+                        <td className="p-2 text-sm">{formatDate(invoice.due_date)}</td>
+                        <td className={`p-2 text-right ${daysPastDue > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {daysPastDue > 0 ? daysPastDue : '—'}
+                        </td>
+                        <td className="p-2">
+                          <Badge variant={INVOICE_STATUS_VARIANTS[status]}>{INVOICE_STATUS_LABELS[status]}</Badge>
+                        </td>
+                        <td className="p-2 text-right tabular-nums">{formatCurrency(invoice.total)}</td>
+                        <td className="p-2 text-right tabular-nums font-medium">{formatCurrency(getInvoiceBalance(invoice))}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,457 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts, getAccountLabel } from '@/lib/accounts';
+import { fetchBusinessTransactions } from '@/lib/reports';
+import type { LedgerTransaction } from '@/lib/reports';
+import {
+  buildReconciliationReport,
+  completeReconciliation,
+  fetchReconciledTransactionIds,
+  fetchReconciliations,
+  getAccountActivity,
+  getBeginningBalance,
+  summarizeReconciliation
+} from '@/lib/reconciliation';
+import { ReconciliationReport } from '@/components/reports/ReconciliationReport';
+import { formatCurrency, formatDate } from '@/types';
+import type { Account, Reconciliation } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { AlertCircle, CheckCircle, FileText, Loader2, RefreshCw, Scale } from 'lucide-react';
+
+interface ClientBusiness {
+  id: string;
+  name: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const AccountantReconciliation: React.FC = () => {
+  const [businesses, setBusinesses] = useState<ClientBusiness[]>([]);
+  const [selectedBusinessId, setSelectedBusinessId] = useState('');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  const [transactions, setTransactions] = useState<LedgerTransaction[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [reconciledIds, setReconciledIds] = useState<Set<string>>(new Set());
+  const [statementDate, setStatementDate] = useState(today());
+  const [statementBalance, setStatementBalance] = useState('');
+  const [clearedIds, setClearedIds] = useState<Set<string>>(new Set());
+  const [viewingReport, setViewingReport] = useState<Reconciliation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedBusiness = businesses.find(b => b.id === selectedBusinessId);
+  const account = accounts.find(a => a.id === selectedAccountId);
+  // Bank and card accounts are the ones that have statements
+  const reconcilableAccounts = accounts.filter(a => a.type === 'asset' || a.type === 'liability');
+
+  useEffect(() => {
+    loadBusinesses();
+  }, []);
+
+  useEffect(() => {
+    if (selectedBusinessId) {
+      setSelectedAccountId('');
+      loadWorkspace();
+    }
+  }, [selectedBusinessId]);
+
+  useEffect(() => {
+    setClearedIds(new Set());
+  }, [selectedAccountId]);
+
+  const loadBusinesses = async () => {
+    try {
+      setLoading(true);
+      const { data, error: businessError } = await supabase
+        .from('businesses')
+        .select('id, name')
+        .order('name');
+
+      if (businessError) throw businessError;
+
+      setBusinesses(data || []);
+      if (data && data.length > 0) {
+        setSelectedBusinessId(data[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error loading businesses:', err);
+      setError(err.message || 'Failed to load client businesses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadWorkspace = async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+
+      const [businessAccounts, businessTransactions, completed, reconciled] = await Promise.all([
+        fetchBusinessAccounts(selectedBusinessId),
+        // The full history, so items left outstanding on earlier statements can still clear
+        fetchBusinessTransactions(selectedBusinessId, { end: '9999-12-31' }),
+        fetchReconciliations(selectedBusinessId),
+        fetchReconciledTransactionIds(selectedBusinessId)
+      ]);
+
+      setAccounts(businessAccounts);
+      setTransactions(businessTransactions);
+      setReconciliations(completed);
+      setReconciledIds(reconciled);
+      setClearedIds(new Set());
+    } catch (err: any) {
+      console.error('Error loading reconciliation workspace:', err);
+      setError(err.message || 'Failed to load reconciliation data');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const accountReconciliations = reconciliations.filter(r => r.account_id === selectedAccountId);
+  const lastReconciled = accountReconciliations[0];
+  const beginningBalance = account ? getBeginningBalance(account, reconciliations) : 0;
+  const endingBalance = parseFloat(statementBalance);
+  const lines = account
+    ? getAccountActivity(account, accounts, transactions)
+      .filter(line => !reconciledIds.has(line.transaction_id) && line.date <= statementDate)
+    : [];
+  const summary = summarizeReconciliation(
+    beginningBalance,
+    isNaN(endingBalance) ? 0 : endingBalance,
+    lines,
+    clearedIds
+  );
+  // Card statements list charges where bank statements list deposits
+  const increaseLabel = account?.type === 'liability' ? 'Charges' : 'Deposits';
+  const canFinish = !!account && !isNaN(endingBalance) && summary.is_balanced &&
+    (!lastReconciled || statementDate > lastReconciled.statement_date);
+
+  const toggleCleared = (transactionId: string) => {
+    setClearedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setClearedIds(clearedIds.size === lines.length ? new Set() : new Set(lines.map(line => line.transaction_id)));
+  };
+
+  const handleFinish = async () => {
+    if (!account || !canFinish) return;
+
+    if (!confirm(`Finish reconciling ${account.name} through ${formatDate(statementDate)}? Cleared transactions will be locked.`)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const report = buildReconciliationReport(beginningBalance, endingBalance, lines, clearedIds);
+      await completeReconciliation(account.id, statementDate, endingBalance, report);
+      setStatementBalance('');
+      await loadWorkspace();
+    } catch (err: any) {
+      console.error('Error completing reconciliation:', err);
+      setError(err.message || 'Failed to complete reconciliation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getAccountName = (accountId: string) => {
+    const match = accounts.find(a => a.id === accountId);
+    return match ? getAccountLabel(match) : 'Unknown account';
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Bank Reconciliation</h2>
+          <p className="text-gray-600">Match client bank and card accounts to their statements</p>
+        </div>
+        <Button
+          onClick={loadWorkspace}
+          disabled={refreshing || !selectedBusinessId}
+          variant="outline"
+          size="sm"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Statement */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Client Business</Label>
+              <Select value={selectedBusinessId} onValueChange={setSelectedBusinessId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client business" />
+                </SelectTrigger>
+                <SelectContent>
+                  {businesses.map(business => (
+                    <SelectItem key={business.id} value={business.id}>{business.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Account</Label>
+              <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reconcilableAccounts.map(a => (
+                    <SelectItem key={a.id} value={a.id}>{getAccountLabel(a)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="statementDate">Statement Date</Label>
+              <Input
+                id="statementDate"
+                type="date"
+                value={statementDate}
+                onChange={(e) => setStatementDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="statementBalance">Statement Ending Balance</Label>
+              <Input
+                id="statementBalance"
+                type="number"
+                step="0.01"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+          {lastReconciled && (
+            <p className="text-xs text-gray-500 mt-3">
+              Last reconciled through {formatDate(lastReconciled.statement_date)} at{' '}
+              {formatCurrency(lastReconciled.statement_ending_balance)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {account && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Transactions */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Unreconciled Transactions</CardTitle>
+              <CardDescription>
+                Tick each transaction that appears on the statement ({clearedIds.size} of {lines.length} cleared)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {lines.length === 0 ? (
+                <div className="text-center py-8">
+                  <Scale className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No unreconciled transactions up to the statement date</p>
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-gray-600">
+                    <tr>
+                      <th className="w-10 p-2">
+                        <input
+                          type="checkbox"
+                          checked={clearedIds.size === lines.length}
+                          onChange={toggleAll}
+                        />
+                      </th>
+                      <th className="text-left p-2">Date</th>
+                      <th className="text-left p-2">Description</th>
+                      <th className="text-right p-2">{increaseLabel}</th>
+                      <th className="text-right p-2">Payments</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map(line => (
+                      <tr
+                        key={line.transaction_id}
+                        className={`border-t cursor-pointer ${clearedIds.has(line.transaction_id) ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                        onClick={() => toggleCleared(line.transaction_id)}
+                      >
+                        <td className="p-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={clearedIds.has(line.transaction_id)}
+                            onChange={() => toggleCleared(line.transaction_id)}
+                            onClick={(e) => e.stopPropagation()}
+                          />
+                        </td>
+                        <td className="p-2 whitespace-nowrap">{formatDate(line.date)}</td>
+                        <td className="p-2">{line.description || 'No description'}</td>
+                        <td className="p-2 text-right tabular-nums">
+                          {line.amount > 0 && formatCurrency(line.amount)}
+                        </td>
+                        <td className="p-2 text-right tabular-nums">
+                          {line.amount < 0 && formatCurrency(Math.abs(line.amount))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+              <CardDescription>{account.name}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Beginning balance</span>
+                <span className="tabular-nums">{formatCurrency(beginningBalance)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Cleared {increaseLabel.toLowerCase()}</span>
+                <span className="tabular-nums">{formatCurrency(summary.cleared_deposits)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Cleared payments</span>
+                <span className="tabular-nums">{formatCurrency(summary.cleared_payments)}</span>
+              </div>
+              <div className="flex justify-between border-t pt-2 font-medium">
+                <span>Cleared balance</span>
+                <span className="tabular-nums">{formatCurrency(summary.cleared_balance)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Statement ending balance</span>
+                <span className="tabular-nums">{isNaN(endingBalance) ? '—' : formatCurrency(endingBalance)}</span>
+              </div>
+              <div className={`flex justify-between border-t pt-2 text-base font-bold ${summary.is_balanced ? 'text-green-600' : 'text-red-600'}`}>
+                <span>Difference</span>
+                <span className="tabular-nums">{isNaN(endingBalance) ? '—' : formatCurrency(summary.difference)}</span>
+              </div>
+
+              {lastReconciled && statementDate <= lastReconciled.statement_date && (
+                <p className="text-xs text-red-600">
+                  The statement date must be after {formatDate(lastReconciled.statement_date)}
+                </p>
+              )}
+
+              <Button className="w-full mt-4" onClick={handleFinish} disabled={saving || !canFinish}>
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                )}
+                Finish Reconciliation
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Completed Reconciliations</CardTitle>
+          <CardDescription>
+            {selectedBusiness ? `${reconciliations.length} for ${selectedBusiness.name}` : 'Select a business'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reconciliations.length === 0 ? (
+            <p className="text-sm text-gray-400">No reconciliations completed yet</p>
+          ) : (
+            <div className="space-y-2">
+              {reconciliations.map(reconciliation => (
+                <div key={reconciliation.id} className="flex items-center justify-between p-3 rounded-lg bg-gray-50">
+                  <div>
+                    <p className="font-medium text-gray-900">{getAccountName(reconciliation.account_id)}</p>
+                    <p className="text-xs text-gray-500">
+                      Statement {formatDate(reconciliation.statement_date)} •{' '}
+                      Ending balance {formatCurrency(reconciliation.statement_ending_balance)} •{' '}
+                      {reconciliation.report.cleared?.length ?? 0} cleared
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setViewingReport(reconciliation)}>
+                    <FileText className="h-3 w-3 mr-1" />
+                    Report
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewingReport} onOpenChange={() => setViewingReport(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Reconciliation Report</DialogTitle>
+          </DialogHeader>
+          {viewingReport && (
+            <ReconciliationReport
+              report={viewingReport.report}
+              accountName={getAccountName(viewingReport.account_id)}
+              statementDate={viewingReport.statement_date}
+              businessName={selectedBusiness?.name}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,12 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { GenerateReportModal } from '@/components/modals/GenerateReportModal';
+import { ReportSchedulesModal } from '@/components/modals/ReportSchedulesModal';
+import { CustomReportBuilderModal } from '@/components/modals/CustomReportBuilderModal';
+import { ReportViewer } from '@/components/reports/ReportViewer';
+import { ReportReviewPanel } from '@/components/reports/ReportReviewPanel';
+import { ReportVersionCompare } from '@/components/reports/ReportVersionCompare';
+import { downloadReportPdf } from '@/lib/reportPdf';
+import { REPORT_STATUS_TRANSITIONS, REPORT_TRANSITION_LABELS, transitionReport } from '@/lib/reportWorkflow';
+import { canRegenerateReport, regenerateReport } from '@/lib/reportVersions';
+import { generateScheduledReports } from '@/lib/reportSchedules';
+import type { ReportData, ReportType } from '@/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Textarea } from '@/components/ui/textarea';
 import { 
   Select,
   SelectContent,
@@ -47,22 +59,36 @@ import {
   Send,
   Printer,
   Mail,
-  Share
+  Share,
+  CalendarClock,
+  LayoutTemplate
 } from 'lucide-react';
 
 // Interface definitions
 interface Report {
   id: string;
   title: string;
-  type: 'monthly' | 'quarterly' | 'annual' | 'tax' | 'audit' | 'analysis' | 'compliance' | 'custom';
+  type: ReportType | 'custom';
   status: 'draft' | 'pending_review' | 'approved' | 'published' | 'rejected' | 'archived';
   client_id: string;
   client_name: string;
-  period_start: string;
-  period_end: string;
+  business_id: string;
+  business_name: string;
+  period?: string;
+  period_start?: string;
+  period_end?: string;
   generated_by: string;
   reviewed_by?: string;
+  reviewed_by_name?: string;
+  reviewed_at?: string;
   approved_by?: string;
+  approved_by_name?: string;
+  approved_at?: string;
+  published_at?: string;
+  rejection_reason?: string;
+  current_version?: number;
+  published_version?: number;
+  schedule_id?: string;
   created_at: string;
   updated_at: string;
   due_date?: string;
@@ -70,6 +96,7 @@ interface Report {
   file_url?: string;
   file_size?: number;
   download_count?: number;
+  data?: ReportData | null;
 }
 
 interface Client {
@@ -78,22 +105,12 @@ interface Client {
   email: string;
 }
 
-interface ReportTemplate {
-  id: string;
-  name: string;
-  type: string;
-  description: string;
-}
-
 const reportTypes = [
-  { value: 'monthly', label: 'Monthly Report', color: 'blue', icon: Calendar },
-  { value: 'quarterly', label: 'Quarterly Report', color: 'green', icon: BarChart3 },
-  { value: 'annual', label: 'Annual Report', color: 'purple', icon: TrendingUp },
-  { value: 'tax', label: 'Tax Report', color: 'red', icon: FileBarChart },
-  { value: 'audit', label: 'Audit Report', color: 'orange', icon: CheckCircle },
-  { value: 'analysis', label: 'Analysis Report', color: 'teal', icon: PieChart },
-  { value: 'compliance', label: 'Compliance Report', color: 'indigo', icon: AlertCircle },
-  { value: 'custom', label: 'Custom Report', color: 'gray', icon: FileText }
+  { value: 'profit_loss', label: 'Profit & Loss', color: 'blue', icon: TrendingUp },
+  { value: 'balance_sheet', label: 'Balance Sheet', color: 'green', icon: BarChart3 },
+  { value: 'cash_flow', label: 'Cash Flow Statement', color: 'purple', icon: DollarSign },
+  { value: 'tax_summary', label: 'Tax Summary', color: 'red', icon: FileBarChart },
+  { value: 'custom', label: 'Custom Report', color: 'gray', icon: PieChart }
 ];
 
 const reportStatuses = [
@@ -105,6 +122,16 @@ const reportStatuses = [
   { value: 'archived', label: 'Archived', color: 'gray' }
 ];
 
+// Icons for the buttons that move a report to each status
+const transitionIcons: Record<Report['status'], React.ElementType> = {
+  draft: Edit,
+  pending_review: Send,
+  approved: CheckCircle,
+  rejected: XCircle,
+  published: Share,
+  archived: Archive
+};
+
 export const AccountantReports: React.FC = () => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
@@ -123,18 +150,14 @@ export const AccountantReports: React.FC = () => {
   
   // Modal states
   const [showGenerateModal, setShowGenerateModal] = useState(false);
+  const [showSchedulesModal, setShowSchedulesModal] = useState(false);
+  const [showBuilderModal, setShowBuilderModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
-  
-  // Form state
-  const [reportForm, setReportForm] = useState({
-    title: '',
-    type: 'monthly' as Report['type'],
-    client_id: '',
-    period_start: '',
-    period_end: '',
-    notes: ''
-  });
+  const [rejectingReport, setRejectingReport] = useState<Report | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [transitioning, setTransitioning] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   // Load data
   useEffect(() => {
@@ -149,6 +172,7 @@ export const AccountantReports: React.FC = () => {
       filtered = filtered.filter(report =>
         report.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
         report.client_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        report.business_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         report.notes?.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
@@ -217,97 +241,45 @@ export const AccountantReports: React.FC = () => {
 
   const loadReports = async () => {
     try {
-      // For now, we'll generate demo reports since we don't have a reports table yet
-      // In a real implementation, this would query a reports table
-      const demoReports: Report[] = [
-        {
-          id: '1',
-          title: 'Q3 2024 Financial Report - Tech Startup LLC',
-          type: 'quarterly',
-          status: 'approved',
-          client_id: 'client-1',
-          client_name: 'Tech Startup LLC',
-          period_start: '2024-07-01',
-          period_end: '2024-09-30',
-          generated_by: user?.id || 'accountant-1',
-          approved_by: user?.id || 'accountant-1',
-          created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          notes: 'Strong quarterly performance with 25% revenue growth',
-          file_size: 2458000,
-          download_count: 5
-        },
-        {
-          id: '2',
-          title: 'Monthly Financial Summary - October 2024',
-          type: 'monthly',
-          status: 'pending_review',
-          client_id: 'client-2',
-          client_name: 'Real Estate Pro',
-          period_start: '2024-10-01',
-          period_end: '2024-10-31',
-          generated_by: user?.id || 'accountant-1',
-          created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          due_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
-          notes: 'Pending review for property investment analysis',
-          file_size: 1850000,
-          download_count: 0
-        },
-        {
-          id: '3',
-          title: 'Tax Preparation Report 2024',
-          type: 'tax',
-          status: 'draft',
-          client_id: 'client-3',
-          client_name: 'Small Business Inc',
-          period_start: '2024-01-01',
-          period_end: '2024-12-31',
-          generated_by: user?.id || 'accountant-1',
-          created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date().toISOString(),
-          due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-          notes: 'Annual tax filing preparation in progress',
-          file_size: 3200000,
-          download_count: 0
-        },
-        {
-          id: '4',
-          title: 'Compliance Audit Report - Q2 2024',
-          type: 'compliance',
-          status: 'published',
-          client_id: 'client-2',
-          client_name: 'Real Estate Pro',
-          period_start: '2024-04-01',
-          period_end: '2024-06-30',
-          generated_by: user?.id || 'accountant-1',
-          approved_by: user?.id || 'accountant-1',
-          created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-          notes: 'All compliance requirements met successfully',
-          file_size: 1950000,
-          download_count: 12
-        },
-        {
-          id: '5',
-          title: 'Annual Financial Analysis 2023',
-          type: 'annual',
-          status: 'archived',
-          client_id: 'client-1',
-          client_name: 'Tech Startup LLC',
-          period_start: '2023-01-01',
-          period_end: '2023-12-31',
-          generated_by: user?.id || 'accountant-1',
-          approved_by: user?.id || 'accountant-1',
-          created_at: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000).toISOString(),
-          notes: 'Archived after successful year-end review',
-          file_size: 4100000,
-          download_count: 8
-        }
-      ];
-
-      setReports(demoReports);
+      const { data: reportRows, error } = await supabase
+        .from('reports')
+        .select('*, reviewer:users!reports_reviewed_by_fkey(full_name, email), approver:users!reports_approved_by_fkey(full_name, email)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const transformedReports: Report[] = (reportRows || []).map(row => ({
+        id: row.id,
+        title: row.title,
+        type: row.type as Report['type'],
+        status: (row.status || 'draft') as Report['status'],
+        client_id: row.client_id,
+        client_name: row.client_name,
+        business_id: row.business_id,
+        business_name: row.business_name,
+        period: row.period || undefined,
+        period_start: row.period_start || undefined,
+        period_end: row.period_end || undefined,
+        generated_by: row.created_by || '',
+        reviewed_by: row.reviewed_by || undefined,
+        reviewed_by_name: row.reviewer?.full_name || row.reviewer?.email,
+        reviewed_at: row.reviewed_at || undefined,
+        approved_by: row.approved_by || undefined,
+        approved_by_name: row.approver?.full_name || row.approver?.email,
+        approved_at: row.approved_at || undefined,
+        published_at: row.published_at || undefined,
+        rejection_reason: row.rejection_reason || undefined,
+        current_version: row.current_version ?? undefined,
+        published_version: row.published_version ?? undefined,
+        schedule_id: row.schedule_id || undefined,
+        created_at: row.created_at || new Date().toISOString(),
+        updated_at: row.updated_at || row.created_at || new Date().toISOString(),
+        due_date: row.due_date,
+        data: row.data as unknown as ReportData | null
+      }));
+
+      setReports(transformedReports);
+      setSelectedReport(prev => prev ? transformedReports.find(report => report.id === prev.id) || null : null);
     } catch (err: any) {
       console.error('Error loading reports:', err);
       throw err;
@@ -343,72 +315,107 @@ export const AccountantReports: React.FC = () => {
     setRefreshing(false);
   };
 
-  const handleGenerateReport = async () => {
+  const handleReportGenerated = async () => {
     try {
-      // In a real implementation, this would create a report in the database
-      const newReport: Report = {
-        id: Date.now().toString(),
-        title: reportForm.title,
-        type: reportForm.type,
-        status: 'draft',
-        client_id: reportForm.client_id,
-        client_name: clients.find(c => c.id === reportForm.client_id)?.name || '',
-        period_start: reportForm.period_start,
-        period_end: reportForm.period_end,
-        generated_by: user?.id || 'accountant-1',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        notes: reportForm.notes,
-        file_size: Math.floor(Math.random() * 3000000) + 500000, // Random file size
-        download_count: 0
-      };
-
-      setReports([newReport, ...reports]);
-      setShowGenerateModal(false);
-      resetForm();
+      await loadReports();
     } catch (err: any) {
-      console.error('Error generating report:', err);
-      setError(err.message || 'Failed to generate report');
+      setError(err.message || 'Failed to load reports');
     }
   };
 
-  const handleUpdateReportStatus = async (reportId: string, newStatus: Report['status']) => {
+  // A schedule whose run day is today creates its report straight away
+  const handleSchedulesChanged = async () => {
     try {
-      const updatedReports = reports.map(report => 
-        report.id === reportId 
-          ? { 
-              ...report, 
-              status: newStatus, 
-              updated_at: new Date().toISOString(),
-              approved_by: newStatus === 'approved' ? user?.id : report.approved_by
-            }
-          : report
-      );
-      setReports(updatedReports);
+      if (await generateScheduledReports() > 0) {
+        await loadReports();
+      }
+    } catch (err: any) {
+      console.error('Error generating scheduled reports:', err);
+      setError(err.message || 'Failed to generate scheduled reports');
+    }
+  };
+
+  const handleUpdateReportStatus = async (report: Report, newStatus: Report['status'], reason?: string) => {
+    try {
+      setTransitioning(true);
+      setActionError(null);
+      // The database checks the move and records who reviewed and approved the report
+      await transitionReport(report.id, report.status, newStatus, reason);
+      await loadReports();
+      return true;
     } catch (err: any) {
       console.error('Error updating report status:', err);
-      setError(err.message || 'Failed to update report');
+      setActionError(err.message || 'Failed to update report');
+      return false;
+    } finally {
+      setTransitioning(false);
     }
   };
 
-  const handleDeleteReport = async (reportId: string) => {
+  const handleTransition = (report: Report, newStatus: Report['status']) => {
+    if (newStatus === 'rejected') {
+      setRejectingReport(report);
+      setRejectionReason('');
+      setActionError(null);
+      return;
+    }
+    if (newStatus === 'archived' && !confirm(`Archive "${report.title}"? Archived reports cannot be reopened.`)) {
+      return;
+    }
+    if (newStatus === 'published' && !confirm(`Publish "${report.title}" to ${report.client_name}?`)) {
+      return;
+    }
+
+    handleUpdateReportStatus(report, newStatus);
+  };
+
+  const handleRegenerateReport = async (report: Report) => {
     try {
-      setReports(reports.filter(report => report.id !== reportId));
+      setTransitioning(true);
+      setActionError(null);
+      const version = await regenerateReport(report, report.data);
+      if (version === null) {
+        alert('The figures have not changed since the current version, so no new version was created.');
+        return;
+      }
+      await loadReports();
     } catch (err: any) {
-      console.error('Error deleting report:', err);
-      setError(err.message || 'Failed to delete report');
+      console.error('Error regenerating report:', err);
+      setActionError(err.message || 'Failed to regenerate report');
+    } finally {
+      setTransitioning(false);
     }
   };
 
-  const resetForm = () => {
-    setReportForm({
-      title: '',
-      type: 'monthly',
-      client_id: '',
-      period_start: '',
-      period_end: '',
-      notes: ''
-    });
+  const handleConfirmRejection = async () => {
+    if (!rejectingReport) return;
+    if (!rejectionReason.trim()) {
+      setActionError('Give the preparer a reason for the rejection');
+      return;
+    }
+
+    if (await handleUpdateReportStatus(rejectingReport, 'rejected', rejectionReason)) {
+      setRejectingReport(null);
+    }
+  };
+
+  const handleDownloadReport = (report: Report) => {
+    if (!report.data) {
+      setError(`${report.title} has no figures to download`);
+      return;
+    }
+
+    try {
+      downloadReportPdf(report.data, {
+        title: report.title,
+        businessName: report.business_name,
+        status: reportStatuses.find(s => s.value === report.status)?.label,
+        preparedBy: user?.email
+      });
+    } catch (err: any) {
+      console.error('Error downloading report:', err);
+      setError(err.message || 'Failed to download report');
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -508,6 +515,14 @@ export const AccountantReports: React.FC = () => {
             <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowBuilderModal(true)}>
+            <LayoutTemplate className="h-4 w-4 mr-2" />
+            Report Builder
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowSchedulesModal(true)}>
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Schedules
+          </Button>
           <Button onClick={() => setShowGenerateModal(true)}>
             <Plus className="h-4 w-4 mr-2" />
             Generate Report
@@ -651,6 +666,13 @@ export const AccountantReports: React.FC = () => {
         </CardContent>
       </Card>
 
+      {actionError && !rejectingReport && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{actionError}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Reports List */}
       <Card>
         <CardHeader>
@@ -702,14 +724,32 @@ export const AccountantReports: React.FC = () => {
                           {getTypeIcon(report.type)}
                           <span className="ml-1">{reportTypes.find(t => t.value === report.type)?.label}</span>
                         </Badge>
+                        {report.schedule_id && (
+                          <Badge variant="info">
+                            <CalendarClock className="h-3 w-3 mr-1" />
+                            Scheduled
+                          </Badge>
+                        )}
+                        {report.current_version && (
+                          <Badge variant="outline">
+                            v{report.current_version}
+                            {report.published_version && report.published_version !== report.current_version && ` (v${report.published_version} published)`}
+                          </Badge>
+                        )}
                         <Badge variant="outline">
                           <Users className="h-3 w-3 mr-1" />
                           {report.client_name}
                         </Badge>
                         <Badge variant="outline">
-                          <Calendar className="h-3 w-3 mr-1" />
-                          {formatDate(report.period_start)} - {formatDate(report.period_end)}
+                          <Building className="h-3 w-3 mr-1" />
+                          {report.business_name}
                         </Badge>
+                        {report.period_start && report.period_end && (
+                          <Badge variant="outline">
+                            <Calendar className="h-3 w-3 mr-1" />
+                            {formatDate(report.period_start)} - {formatDate(report.period_end)}
+                          </Badge>
+                        )}
                       </div>
                       
                       {report.notes && (
@@ -743,58 +783,45 @@ export const AccountantReports: React.FC = () => {
                         <Eye className="h-3 w-3" />
                       </Button>
                       
-                      {report.status === 'draft' && (
-                        <Button 
-                          size="sm" 
+                      {canRegenerateReport(report) && (
+                        <Button
+                          size="sm"
                           variant="outline"
-                          onClick={() => handleUpdateReportStatus(report.id, 'pending_review')}
+                          onClick={() => handleRegenerateReport(report)}
+                          disabled={transitioning}
+                          title="Regenerate figures as a new version"
                         >
-                          <Send className="h-3 w-3" />
+                          <RefreshCw className="h-3 w-3" />
                         </Button>
                       )}
-                      
-                      {report.status === 'pending_review' && (
-                        <>
-                          <Button 
-                            size="sm" 
-                            variant="outline"
-                            onClick={() => handleUpdateReportStatus(report.id, 'approved')}
-                          >
-                            <CheckCircle className="h-3 w-3" />
-                          </Button>
-                          <Button 
-                            size="sm" 
+
+                      {REPORT_STATUS_TRANSITIONS[report.status].map(status => {
+                        const Icon = transitionIcons[status];
+                        return (
+                          <Button
+                            key={status}
+                            size="sm"
                             variant="outline"
-                            onClick={() => handleUpdateReportStatus(report.id, 'rejected')}
+                            onClick={() => handleTransition(report, status)}
+                            disabled={transitioning}
+                            title={REPORT_TRANSITION_LABELS[status]}
                           >
-                            <XCircle className="h-3 w-3" />
+                            <Icon className="h-3 w-3" />
                           </Button>
-                        </>
-                      )}
+                        );
+                      })}
                       
-                      {report.status === 'approved' && (
-                        <Button 
-                          size="sm" 
+                      {(report.status === 'published' || report.status === 'approved') && (
+                        <Button
+                          size="sm"
                           variant="outline"
-                          onClick={() => handleUpdateReportStatus(report.id, 'published')}
+                          onClick={() => handleDownloadReport(report)}
+                          disabled={!report.data}
+                          title="Download PDF"
                         >
-                          <Share className="h-3 w-3" />
-                        </Button>
-                      )}
-                      
-                      {(report.status === 'published' || report.status === 'approved') && (
-                        <Button size="sm" variant="outline">
                           <Download className="h-3 w-3" />
                         </Button>
                       )}
-                      
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => handleDeleteReport(report.id)}
-                      >
-                        <Archive className="h-3 w-3" />
-                      </Button>
                     </div>
                   </div>
                 </div>
@@ -805,113 +832,29 @@ export const AccountantReports: React.FC = () => {
       </Card>
 
       {/* Generate Report Modal */}
-      <Dialog open={showGenerateModal} onOpenChange={setShowGenerateModal}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle className="flex items-center space-x-2">
-              <Plus className="h-5 w-5" />
-              <span>Generate New Report</span>
-            </DialogTitle>
-            <DialogDescription>
-              Create a new financial report for a client
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium text-gray-700">Report Title</label>
-              <Input
-                value={reportForm.title}
-                onChange={(e) => setReportForm({...reportForm, title: e.target.value})}
-                placeholder="Enter report title"
-              />
-            </div>
-            
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="text-sm font-medium text-gray-700">Report Type</label>
-                <Select value={reportForm.type} onValueChange={(value: Report['type']) => setReportForm({...reportForm, type: value})}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {reportTypes.map(type => (
-                      <SelectItem key={type.value} value={type.value}>
-                        {type.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div>
-                <label className="text-sm font-medium text-gray-700">Client</label>
-                <Select value={reportForm.client_id} onValueChange={(value) => setReportForm({...reportForm, client_id: value})}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select client" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {clients.map(client => (
-                      <SelectItem key={client.id} value={client.id}>
-                        {client.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-            
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="text-sm font-medium text-gray-700">Period Start</label>
-                <Input
-                  type="date"
-                  value={reportForm.period_start}
-                  onChange={(e) => setReportForm({...reportForm, period_start: e.target.value})}
-                />
-              </div>
-              
-              <div>
-                <label className="text-sm font-medium text-gray-700">Period End</label>
-                <Input
-                  type="date"
-                  value={reportForm.period_end}
-                  onChange={(e) => setReportForm({...reportForm, period_end: e.target.value})}
-                />
-              </div>
-            </div>
-            
-            <div>
-              <label className="text-sm font-medium text-gray-700">Notes (Optional)</label>
-              <Textarea
-                value={reportForm.notes}
-                onChange={(e) => setReportForm({...reportForm, notes: e.target.value})}
-                placeholder="Add any additional notes or comments"
-                rows={3}
-              />
-            </div>
-          </div>
+      <GenerateReportModal
+        isOpen={showGenerateModal}
+        onClose={() => setShowGenerateModal(false)}
+        onReportGenerated={handleReportGenerated}
+      />
 
-          <DialogFooter>
-            <Button variant="outline" onClick={() => {
-              setShowGenerateModal(false);
-              resetForm();
-            }}>
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleGenerateReport}
-              disabled={!reportForm.title || !reportForm.client_id || !reportForm.period_start || !reportForm.period_end}
-            >
-              Generate Report
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {/* Report Schedules Modal */}
+      <ReportSchedulesModal
+        isOpen={showSchedulesModal}
+        onClose={() => setShowSchedulesModal(false)}
+        onSchedulesChanged={handleSchedulesChanged}
+      />
+
+      {/* Custom Report Builder Modal */}
+      <CustomReportBuilderModal
+        isOpen={showBuilderModal}
+        onClose={() => setShowBuilderModal(false)}
+        onReportGenerated={handleReportGenerated}
+      />
 
       {/* View Report Modal */}
       <Dialog open={showViewModal} onOpenChange={setShowViewModal}>
-        <DialogContent className="max-w-3xl">
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center space-x-2">
               <FileText className="h-5 w-5" />
@@ -924,6 +867,22 @@ export const AccountantReports: React.FC = () => {
           
           {selectedReport && (
             <div className="space-y-6">
+              {actionError && !rejectingReport && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{actionError}</AlertDescription>
+                </Alert>
+              )}
+
+              {selectedReport.rejection_reason && (selectedReport.status === 'rejected' || selectedReport.status === 'draft') && (
+                <Alert variant="destructive">
+                  <XCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    Rejected{selectedReport.reviewed_by_name ? ` by ${selectedReport.reviewed_by_name}` : ''}: {selectedReport.rejection_reason}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Report Info */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -938,23 +897,55 @@ export const AccountantReports: React.FC = () => {
                   <label className="text-sm font-medium text-gray-600">Client</label>
                   <p className="text-gray-900">{selectedReport.client_name}</p>
                 </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Business</label>
+                  <p className="text-gray-900">{selectedReport.business_name}</p>
+                </div>
                 <div>
                   <label className="text-sm font-medium text-gray-600">Status</label>
                   <Badge className={getStatusColor(selectedReport.status)}>
                     {reportStatuses.find(s => s.value === selectedReport.status)?.label}
                   </Badge>
                 </div>
+                {selectedReport.reviewed_by_name && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Reviewed By</label>
+                    <p className="text-gray-900">
+                      {selectedReport.reviewed_by_name}
+                      {selectedReport.reviewed_at && <span className="text-sm text-gray-500"> • {formatDate(selectedReport.reviewed_at)}</span>}
+                    </p>
+                  </div>
+                )}
+                {selectedReport.approved_by_name && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Approved By</label>
+                    <p className="text-gray-900">
+                      {selectedReport.approved_by_name}
+                      {selectedReport.approved_at && <span className="text-sm text-gray-500"> • {formatDate(selectedReport.approved_at)}</span>}
+                    </p>
+                  </div>
+                )}
+                {selectedReport.published_at && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Published</label>
+                    <p className="text-gray-900">{formatDate(selectedReport.published_at)}</p>
+                  </div>
+                )}
               </div>
 
               {/* Period and Dates */}
               <div className="grid grid-cols-3 gap-4">
                 <div>
                   <label className="text-sm font-medium text-gray-600">Period Start</label>
-                  <p className="text-gray-900">{formatDate(selectedReport.period_start)}</p>
+                  <p className="text-gray-900">
+                    {selectedReport.period_start ? formatDate(selectedReport.period_start) : '—'}
+                  </p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-600">Period End</label>
-                  <p className="text-gray-900">{formatDate(selectedReport.period_end)}</p>
+                  <p className="text-gray-900">
+                    {selectedReport.period_end ? formatDate(selectedReport.period_end) : '—'}
+                  </p>
                 </div>
                 {selectedReport.due_date && (
                   <div>
@@ -964,6 +955,11 @@ export const AccountantReports: React.FC = () => {
                 )}
               </div>
 
+              {/* Financial Statement */}
+              <div className="border rounded-lg p-4">
+                <ReportViewer data={selectedReport.data} businessName={selectedReport.business_name} title={selectedReport.title} />
+              </div>
+
               {/* File Info */}
               {selectedReport.file_size && (
                 <div className="grid grid-cols-2 gap-4">
@@ -997,6 +993,26 @@ export const AccountantReports: React.FC = () => {
                   <p>{formatDate(selectedReport.updated_at)}</p>
                 </div>
               </div>
+
+              {/* Versions */}
+              <div className="border-t pt-4">
+                <ReportVersionCompare
+                  report={selectedReport}
+                  currentVersion={selectedReport.current_version}
+                  publishedVersion={selectedReport.published_version}
+                />
+              </div>
+
+              {/* Review */}
+              {user?.id && (
+                <div className="border-t pt-4">
+                  <ReportReviewPanel
+                    reportId={selectedReport.id}
+                    userId={user.id}
+                    refreshKey={selectedReport.status}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -1004,8 +1020,24 @@ export const AccountantReports: React.FC = () => {
             <Button variant="outline" onClick={() => setShowViewModal(false)}>
               Close
             </Button>
+            {selectedReport && canRegenerateReport(selectedReport) && (
+              <Button variant="outline" onClick={() => handleRegenerateReport(selectedReport)} disabled={transitioning}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Regenerate
+              </Button>
+            )}
+            {selectedReport && REPORT_STATUS_TRANSITIONS[selectedReport.status].map(status => (
+              <Button
+                key={status}
+                variant={status === 'rejected' || status === 'archived' ? 'outline' : 'default'}
+                onClick={() => handleTransition(selectedReport, status)}
+                disabled={transitioning}
+              >
+                {REPORT_TRANSITION_LABELS[status]}
+              </Button>
+            ))}
             {selectedReport?.status === 'approved' || selectedReport?.status === 'published' ? (
-              <Button>
+              <Button onClick={() => handleDownloadReport(selectedReport)} disabled={!selectedReport.data}>
                 <Download className="h-4 w-4 mr-2" />
                 Download Report
               </Button>
@@ -1013,6 +1045,49 @@ export const AccountantReports: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Reject Report Dialog */}
+      <Dialog open={!!rejectingReport} onOpenChange={(open) => !open && setRejectingReport(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Report</DialogTitle>
+            <DialogDescription>
+              {rejectingReport?.title} goes back to its preparer, who can revise it as a draft and resubmit it
+            </DialogDescription>
+          </DialogHeader>
+
+          {actionError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{actionError}</AlertDescription>
+            </Alert>
+          )}
+
+          <div>
+            <Label htmlFor="rejection-reason">Reason *</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="What needs to change before this report can be approved"
+              rows={4}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingReport(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmRejection}
+              disabled={transitioning || !rejectionReason.trim()}
+            >
+              Reject Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -43,7 +44,8 @@ import {
   Minus,
   Play,
   Pause,
-  MoreHorizontal
+  MoreHorizontal,
+  FileText
 } from 'lucide-react';
 
 // Interface definitions
@@ -57,6 +59,7 @@ interface Task {
   client_id?: string;
   client_name?: string;
   assigned_to?: string;
+  report_id?: string;
   due_date: string;
   created_at: string;
   updated_at: string;
@@ -183,78 +186,31 @@ export const AccountantTasks: React.FC = () => {
 
   const loadTasks = async () => {
     try {
-      // For now, we'll generate demo tasks since we don't have a tasks table yet
-      // In a real implementation, this would query a tasks table
-      const demoTasks: Task[] = [
-        {
-          id: '1',
-          title: 'Review Q3 Financial Statements',
-          description: 'Complete review of quarterly financial statements and prepare recommendations',
-          type: 'review',
-          priority: 'high',
-          status: 'pending',
-          client_id: 'client-1',
-          client_name: 'Tech Startup LLC',
-          due_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days from now
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        },
-        {
-          id: '2',
-          title: 'Tax Filing for Real Estate Business',
-          description: 'Prepare and file annual tax returns for real estate investment business',
-          type: 'filing',
-          priority: 'urgent',
-          status: 'in_progress',
-          client_id: 'client-2',
-          client_name: 'Real Estate Pro',
-          due_date: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString(), // 1 day from now
-          created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date().toISOString()
-        },
-        {
-          id: '3',
-          title: 'Monthly Consultation Meeting',
-          description: 'Scheduled consultation to discuss financial strategy and planning',
-          type: 'consultation',
-          priority: 'medium',
-          status: 'pending',
-          client_id: 'client-3',
-          client_name: 'Small Business Inc',
-          due_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 1 week from now
-          created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date().toISOString()
-        },
-        {
-          id: '4',
-          title: 'Expense Report Analysis',
-          description: 'Analyze expense patterns and identify cost optimization opportunities',
-          type: 'analysis',
-          priority: 'low',
-          status: 'completed',
-          client_id: 'client-1',
-          client_name: 'Tech Startup LLC',
-          due_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days ago
-          created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          updated_at: new Date().toISOString(),
-          completed_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
-        },
-        {
-          id: '5',
-          title: 'Compliance Check',
-          description: 'Quarterly compliance review for regulatory requirements',
-          type: 'compliance',
-          priority: 'high',
-          status: 'pending',
-          client_id: 'client-2',
-          client_name: 'Real Estate Pro',
-          due_date: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(), // 5 days from now
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }
-      ];
-
-      setTasks(demoTasks);
+      const { data: taskRows, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .order('due_date');
+
+      if (error) throw error;
+
+      const transformedTasks: Task[] = (taskRows || []).map(row => ({
+        id: row.id,
+        title: row.title,
+        description: row.description || '',
+        type: (row.type || 'other') as Task['type'],
+        priority: (row.priority || 'medium') as Task['priority'],
+        status: (row.status || 'pending') as Task['status'],
+        client_id: row.client_id,
+        client_name: row.client_name,
+        assigned_to: row.assigned_to || undefined,
+        report_id: row.report_id || undefined,
+        due_date: row.due_date,
+        created_at: row.created_at || new Date().toISOString(),
+        updated_at: row.updated_at || row.created_at || new Date().toISOString(),
+        completed_at: row.completed_at || undefined
+      }));
+
+      setTasks(transformedTasks);
     } catch (err: any) {
       console.error('Error loading tasks:', err);
       throw err;
@@ -292,17 +248,19 @@ export const AccountantTasks: React.FC = () => {
 
   const handleAddTask = async () => {
     try {
-      // In a real implementation, this would create a task in the database
-      const newTask: Task = {
-        id: Date.now().toString(),
-        ...taskForm,
-        status: 'pending',
-        client_name: clients.find(c => c.id === taskForm.client_id)?.name,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-
-      setTasks([newTask, ...tasks]);
+      const { error } = await supabase
+        .from('tasks')
+        .insert({
+          ...taskForm,
+          status: 'pending',
+          client_name: clients.find(c => c.id === taskForm.client_id)?.name || 'Unknown Client',
+          created_by: user?.id,
+          assigned_to: user?.id
+        });
+
+      if (error) throw error;
+
+      await loadTasks();
       setShowAddTaskModal(false);
       resetForm();
     } catch (err: any) {
@@ -313,17 +271,17 @@ export const AccountantTasks: React.FC = () => {
 
   const handleUpdateTaskStatus = async (taskId: string, newStatus: Task['status']) => {
     try {
-      const updatedTasks = tasks.map(task => 
-        task.id === taskId 
-          ? { 
-              ...task, 
-              status: newStatus, 
-              updated_at: new Date().toISOString(),
-              completed_at: newStatus === 'completed' ? new Date().toISOString() : undefined
-            }
-          : task
-      );
-      setTasks(updatedTasks);
+      const { error } = await supabase
+        .from('tasks')
+        .update({
+          status: newStatus,
+          completed_at: newStatus === 'completed' ? new Date().toISOString() : null
+        })
+        .eq('id', taskId);
+
+      if (error) throw error;
+
+      await loadTasks();
     } catch (err: any) {
       console.error('Error updating task status:', err);
       setError(err.message || 'Failed to update task');
@@ -332,6 +290,13 @@ export const AccountantTasks: React.FC = () => {
 
   const handleDeleteTask = async (taskId: string) => {
     try {
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('id', taskId);
+
+      if (error) throw error;
+
       setTasks(tasks.filter(task => task.id !== taskId));
     } catch (err: any) {
       console.error('Error deleting task:', err);
@@ -702,6 +667,17 @@ export const AccountantTasks: React.FC = () => {
                               {task.client_name}
                             </Badge>
                           )}
+                          {task.assigned_to && task.assigned_to === user?.id && (
+                            <Badge variant="info">Assigned to you</Badge>
+                          )}
+                          {task.report_id && (
+                            <Link to="/accountant/reports">
+                              <Badge variant="outline" className="hover:bg-gray-100">
+                                <FileText className="h-3 w-3 mr-1" />
+                                Open report
+                              </Badge>
+                            </Link>
+                          )}
                         </div>
                         
                         <div className="flex items-center space-x-4 text-xs text-gray-500">
@@ -879,7 +855,7 @@ export const AccountantTasks: React.FC = () => {
             </Button>
             <Button 
               onClick={handleAddTask}
-              disabled={!taskForm.title || !taskForm.description || !taskForm.due_date}
+              disabled={!taskForm.title || !taskForm.description || !taskForm.client_id || !taskForm.due_date}
             >
               Add Task
             </Button>
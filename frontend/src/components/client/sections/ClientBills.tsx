@@ -0,0 +1,875 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts } from '@/lib/accounts';
+import {
+  BILL_STATUS_LABELS,
+  BILL_STATUS_VARIANTS,
+  approveBill,
+  buildPayablesAging,
+  canApproveBills,
+  deleteBill,
+  deleteBillPayment,
+  fetchBills,
+  fetchBusinessRole,
+  fetchVendors,
+  getBillBalance,
+  getBillPaymentDate,
+  isBillOpen,
+  isBillOverdue,
+  saveVendor,
+  scheduleBillPayment,
+  setVendorActive,
+  voidBill
+} from '@/lib/bills';
+import type { VendorInput } from '@/lib/bills';
+import { PAYMENT_TERMS } from '@/lib/invoices';
+import { toISODate } from '@/lib/reports';
+import { AgingReport } from '@/components/reports/AgingReport';
+import { BillsCalendar } from '@/components/reports/BillsCalendar';
+import { BillModal } from '@/components/modals/BillModal';
+import { PayBillModal } from '@/components/modals/PayBillModal';
+import { formatCurrency, formatDate } from '@/types';
+import type { Account, Bill, BillStatus, Vendor } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  Ban,
+  CalendarClock,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  DollarSign,
+  Edit2,
+  FileText,
+  Loader2,
+  Paperclip,
+  Plus,
+  Trash2,
+  Truck
+} from 'lucide-react';
+
+interface Business {
+  id: string;
+  name: string;
+  owner_id: string;
+  status: string;
+}
+
+const BILL_CATEGORIES = [
+  'Cost of Goods Sold',
+  'Inventory Purchases',
+  'Office Rent',
+  'Utilities',
+  'Software Subscriptions',
+  'Office Supplies',
+  'Marketing',
+  'Travel',
+  'Professional Services',
+  'Insurance',
+  'Equipment',
+  'Meals & Entertainment',
+  'Other Expenses'
+];
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const emptyVendorForm = (): VendorInput => ({
+  name: '',
+  email: '',
+  phone: '',
+  address: '',
+  payment_terms_days: 30,
+  default_category: '',
+  notes: ''
+});
+
+export const ClientBills: React.FC = () => {
+  const { user } = useAuth();
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
+  const [businessRole, setBusinessRole] = useState<string | null>(null);
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<BillStatus | 'all' | 'open' | 'overdue'>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [isBillModalOpen, setIsBillModalOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
+  const [schedulingBill, setSchedulingBill] = useState<Bill | null>(null);
+  const [scheduleDate, setScheduleDate] = useState('');
+
+  const [isVendorDialogOpen, setIsVendorDialogOpen] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [vendorForm, setVendorForm] = useState<VendorInput>(emptyVendorForm());
+  const [savingVendor, setSavingVendor] = useState(false);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadBusinesses();
+    } else if (user === null) {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (selectedBusiness?.id) {
+      loadData(selectedBusiness.id);
+      loadAccounts(selectedBusiness.id);
+      loadBusinessRole(selectedBusiness);
+    }
+  }, [selectedBusiness?.id]);
+
+  const loadBusinesses = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('businesses')
+        .select('id, name, owner_id, status')
+        .eq('owner_id', user?.id)
+        .eq('status', 'active')
+        .order('name');
+
+      if (fetchError) throw fetchError;
+
+      setBusinesses(data || []);
+      if (data && data.length > 0) {
+        setSelectedBusiness(data[0]);
+      } else {
+        setLoading(false);
+      }
+    } catch (err: any) {
+      console.error('Error loading businesses:', err);
+      setError(err.message || 'Failed to load businesses');
+      setLoading(false);
+    }
+  };
+
+  const loadData = async (businessId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [billData, vendorData] = await Promise.all([
+        fetchBills(businessId),
+        fetchVendors(businessId, { includeInactive: true })
+      ]);
+      setBills(billData);
+      setVendors(vendorData);
+    } catch (err: any) {
+      console.error('Error loading bills:', err);
+      setError(err.message || 'Failed to load bills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAccounts = async (businessId: string) => {
+    try {
+      const businessAccounts = await fetchBusinessAccounts(businessId);
+      setAccounts(businessAccounts.filter(account => account.type === 'asset' || account.type === 'liability'));
+    } catch (err: any) {
+      // Payments fall back to the default account
+      console.error('Error loading accounts:', err);
+      setAccounts([]);
+    }
+  };
+
+  const loadBusinessRole = async (business: Business) => {
+    try {
+      setBusinessRole(await fetchBusinessRole(business.id));
+    } catch (err: any) {
+      // The database still checks the role when a bill is approved or paid
+      console.warn('Could not load business role:', err);
+      setBusinessRole(business.owner_id === user?.id ? 'owner' : null);
+    }
+  };
+
+  const reload = () => {
+    if (selectedBusiness) loadData(selectedBusiness.id);
+  };
+
+  const today = toISODate(new Date());
+  const aging = useMemo(() => buildPayablesAging(bills), [bills]);
+  const activeVendors = useMemo(() => vendors.filter(vendor => vendor.is_active), [vendors]);
+  const categories = useMemo(() => {
+    const used = bills.map(bill => bill.category).concat(vendors.map(vendor => vendor.default_category || ''));
+    return [...new Set([...BILL_CATEGORIES, ...used.filter(Boolean)])];
+  }, [bills, vendors]);
+
+  const filteredBills = useMemo(() => bills.filter(bill => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return isBillOpen(bill);
+    if (statusFilter === 'overdue') return isBillOverdue(bill, today);
+    return bill.status === statusFilter;
+  }), [bills, statusFilter, today]);
+
+  const summary = useMemo(() => {
+    const open = bills.filter(isBillOpen);
+    const nextWeek = toISODate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+    const dueSoon = open.filter(bill => getBillPaymentDate(bill) >= today && getBillPaymentDate(bill) <= nextWeek);
+    const overdue = open.filter(bill => isBillOverdue(bill, today));
+    return {
+      outstanding: open.reduce((sum, bill) => sum + getBillBalance(bill), 0),
+      openCount: open.length,
+      dueSoon: dueSoon.reduce((sum, bill) => sum + getBillBalance(bill), 0),
+      dueSoonCount: dueSoon.length,
+      overdue: overdue.reduce((sum, bill) => sum + getBillBalance(bill), 0),
+      overdueCount: overdue.length,
+      pendingCount: bills.filter(bill => bill.status === 'pending_approval').length
+    };
+  }, [bills, today]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setError(null);
+      await action();
+      reload();
+    } catch (err: any) {
+      console.error(`Error: ${failure}:`, err);
+      setError(err.message || failure);
+    }
+  };
+
+  const handleApprove = (bill: Bill) =>
+    runAction(() => approveBill(bill.id), 'Failed to approve bill');
+
+  const handleVoid = (bill: Bill) => {
+    if (!confirm(`Void this bill from ${bill.vendor?.name}? It will no longer count as owed.`)) return;
+    runAction(() => voidBill(bill.id), 'Failed to void bill');
+  };
+
+  const handleDelete = (bill: Bill) => {
+    if (!confirm(`Delete this bill from ${bill.vendor?.name}? This cannot be undone.`)) return;
+    runAction(() => deleteBill(bill.id), 'Failed to delete bill');
+  };
+
+  const handleDeletePayment = (paymentId: string) => {
+    if (!confirm('Remove this payment? The expense transaction it created will be deleted too.')) return;
+    runAction(() => deleteBillPayment(paymentId), 'Failed to remove payment');
+  };
+
+  const openSchedule = (bill: Bill) => {
+    setSchedulingBill(bill);
+    setScheduleDate(bill.scheduled_payment_date || bill.due_date);
+  };
+
+  const handleSchedule = async (date: string | null) => {
+    if (!schedulingBill) return;
+    const bill = schedulingBill;
+    setSchedulingBill(null);
+    await runAction(() => scheduleBillPayment(bill.id, date), 'Failed to schedule payment');
+  };
+
+  const openAttachment = (filePath?: string) => {
+    if (!filePath) return;
+    const { data } = supabase.storage.from('documents').getPublicUrl(filePath);
+    window.open(data.publicUrl, '_blank');
+  };
+
+  const openBillModal = (bill: Bill | null) => {
+    setEditingBill(bill);
+    setIsBillModalOpen(true);
+  };
+
+  const openVendorDialog = (vendor: Vendor | null) => {
+    setEditingVendor(vendor);
+    setVendorForm(vendor ? {
+      name: vendor.name,
+      email: vendor.email || '',
+      phone: vendor.phone || '',
+      address: vendor.address || '',
+      payment_terms_days: vendor.payment_terms_days,
+      default_category: vendor.default_category || '',
+      notes: vendor.notes || ''
+    } : emptyVendorForm());
+    setIsVendorDialogOpen(true);
+  };
+
+  const handleSaveVendor = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setSavingVendor(true);
+      setError(null);
+      await saveVendor(selectedBusiness.id, vendorForm, editingVendor?.id);
+      setIsVendorDialogOpen(false);
+      setVendors(await fetchVendors(selectedBusiness.id, { includeInactive: true }));
+    } catch (err: any) {
+      console.error('Error saving vendor:', err);
+      setError(err.message || 'Failed to save vendor');
+    } finally {
+      setSavingVendor(false);
+    }
+  };
+
+  const handleToggleVendor = (vendor: Vendor) =>
+    runAction(() => setVendorActive(vendor.id, !vendor.is_active), 'Failed to update vendor');
+
+  if (loading && bills.length === 0 && vendors.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!selectedBusiness) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <p className="text-lg text-gray-600 mb-4">No business found</p>
+          <p className="text-gray-500">You need to have a business to track bills.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = !!businessRole && businessRole !== 'viewer';
+  const canApprove = canApproveBills(businessRole);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Bills</h1>
+          <p className="text-gray-600">Approve, schedule and pay what {selectedBusiness.name} owes its vendors</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {businesses.length > 1 && (
+            <select
+              value={selectedBusiness.id}
+              onChange={(e) => setSelectedBusiness(businesses.find(b => b.id === e.target.value) || null)}
+              className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+            >
+              {businesses.map(business => (
+                <option key={business.id} value={business.id}>{business.name}</option>
+              ))}
+            </select>
+          )}
+          {canEdit && (
+            <Button
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={() => openBillModal(null)}
+              disabled={activeVendors.length === 0}
+              title={activeVendors.length === 0 ? 'Add a vendor first' : undefined}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Enter Bill
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+            <DollarSign className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{formatCurrency(summary.outstanding)}</div>
+            <p className="text-xs text-muted-foreground">{summary.openCount} unpaid bills</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Next 7 Days</CardTitle>
+            <CalendarClock className="h-4 w-4 text-yellow-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">{formatCurrency(summary.dueSoon)}</div>
+            <p className="text-xs text-muted-foreground">{summary.dueSoonCount} bills to pay</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(summary.overdue)}</div>
+            <p className="text-xs text-muted-foreground">{summary.overdueCount} past their due date</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Approval</CardTitle>
+            <FileText className="h-4 w-4 text-gray-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.pendingCount}</div>
+            <p className="text-xs text-muted-foreground">
+              {canApprove ? 'Ready for your review' : 'Waiting on an owner or manager'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="bills" className="space-y-6">
+        <TabsList className="grid grid-cols-4 w-full">
+          <TabsTrigger value="bills">Bills</TabsTrigger>
+          <TabsTrigger value="calendar">Upcoming</TabsTrigger>
+          <TabsTrigger value="aging">Payables Aging</TabsTrigger>
+          <TabsTrigger value="vendors">Vendors</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="bills">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>All Bills</CardTitle>
+                <CardDescription>{filteredBills.length} bills</CardDescription>
+              </div>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as BillStatus | 'all' | 'open' | 'overdue')}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="open">Unpaid</option>
+                <option value="overdue">Overdue</option>
+                <option value="all">All statuses</option>
+                {(Object.keys(BILL_STATUS_LABELS) as BillStatus[]).map(status => (
+                  <option key={status} value={status}>{BILL_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </CardHeader>
+            <CardContent>
+              {filteredBills.length === 0 ? (
+                <div className="text-center py-8">
+                  <FileText className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No bills found</p>
+                  {vendors.length === 0 && (
+                    <p className="text-sm text-gray-400">Add a vendor to enter your first bill</p>
+                  )}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="border-b bg-gray-50">
+                      <tr>
+                        <th className="w-8"></th>
+                        <th className="text-left p-2 font-medium">Vendor</th>
+                        <th className="text-left p-2 font-medium">Category</th>
+                        <th className="text-left p-2 font-medium">Due</th>
+                        <th className="text-left p-2 font-medium">Pay On</th>
+                        <th className="text-left p-2 font-medium">Status</th>
+                        <th className="text-right p-2 font-medium">Amount</th>
+                        <th className="text-right p-2 font-medium">Balance</th>
+                        {canEdit && <th className="text-right p-2 font-medium">Actions</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredBills.map(bill => {
+                        const expanded = expandedId === bill.id;
+                        const overdue = isBillOverdue(bill, today);
+                        const payable = bill.status === 'approved' || bill.status === 'partially_paid';
+                        return (
+                          <React.Fragment key={bill.id}>
+                            <tr className="border-b hover:bg-gray-50">
+                              <td className="p-2">
+                                <button
+                                  onClick={() => setExpandedId(expanded ? null : bill.id)}
+                                  className="text-gray-400 hover:text-gray-600"
+                                >
+                                  {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                </button>
+                              </td>
+                              <td className="p-2">
+                                <p className="font-medium">{bill.vendor?.name}</p>
+                                {bill.bill_number && <p className="text-xs text-gray-500">{bill.bill_number}</p>}
+                              </td>
+                              <td className="p-2 text-sm">{bill.category}</td>
+                              <td className={`p-2 text-sm ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                                {formatDate(bill.due_date)}
+                              </td>
+                              <td className="p-2 text-sm text-gray-600">
+                                {bill.scheduled_payment_date ? formatDate(bill.scheduled_payment_date) : '—'}
+                              </td>
+                              <td className="p-2">
+                                <div className="flex items-center gap-1">
+                                  <Badge variant={BILL_STATUS_VARIANTS[bill.status]}>{BILL_STATUS_LABELS[bill.status]}</Badge>
+                                  {overdue && <Badge variant="destructive">Overdue</Badge>}
+                                </div>
+                              </td>
+                              <td className="p-2 text-right tabular-nums">{formatCurrency(bill.amount)}</td>
+                              <td className="p-2 text-right tabular-nums">
+                                {bill.status === 'void' ? '—' : formatCurrency(getBillBalance(bill))}
+                              </td>
+                              {canEdit && (
+                                <td className="p-2">
+                                  <div className="flex justify-end gap-1">
+                                    {bill.status === 'pending_approval' && (
+                                      <>
+                                        {canApprove && (
+                                          <Button size="sm" variant="outline" onClick={() => handleApprove(bill)}>
+                                            <CheckCircle className="h-4 w-4 mr-1 text-green-600" />
+                                            Approve
+                                          </Button>
+                                        )}
+                                        <Button size="sm" variant="ghost" onClick={() => openBillModal(bill)} title="Edit">
+                                          <Edit2 className="h-4 w-4" />
+                                        </Button>
+                                        <Button size="sm" variant="ghost" onClick={() => handleDelete(bill)} title="Delete">
+                                          <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                      </>
+                                    )}
+                                    {isBillOpen(bill) && (
+                                      <Button size="sm" variant="ghost" onClick={() => openSchedule(bill)} title="Schedule payment">
+                                        <CalendarClock className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    {payable && canApprove && (
+                                      <Button size="sm" variant="outline" onClick={() => setPayingBill(bill)}>
+                                        <DollarSign className="h-4 w-4 mr-1" />
+                                        Pay
+                                      </Button>
+                                    )}
+                                    {bill.status !== 'void' && bill.status !== 'paid' && bill.payments.length === 0 && (
+                                      <Button size="sm" variant="ghost" onClick={() => handleVoid(bill)} title="Void">
+                                        <Ban className="h-4 w-4 text-red-600" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                </td>
+                              )}
+                            </tr>
+                            {expanded && (
+                              <tr className="border-b bg-gray-50">
+                                <td></td>
+                                <td colSpan={canEdit ? 8 : 7} className="p-3">
+                                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+                                    <div className="space-y-1">
+                                      <p className="font-semibold text-gray-900">Details</p>
+                                      <p className="text-gray-700">{bill.description || 'No description'}</p>
+                                      <p className="text-gray-500">Billed {formatDate(bill.bill_date)}</p>
+                                      {bill.approved_at && (
+                                        <p className="text-gray-500">Approved {formatDate(bill.approved_at)}</p>
+                                      )}
+                                      {bill.attachments.length > 0 && (
+                                        <div className="pt-1 space-y-1">
+                                          {bill.attachments.map(attachment => (
+                                            <button
+                                              key={attachment.document_id}
+                                              onClick={() => openAttachment(attachment.file_path)}
+                                              className="flex items-center gap-1 text-blue-600 hover:underline"
+                                            >
+                                              <Paperclip className="h-3 w-3" />
+                                              {attachment.filename}
+                                            </button>
+                                          ))}
+                                        </div>
+                                      )}
+                                    </div>
+                                    <div className="space-y-1">
+                                      <p className="font-semibold text-gray-900">Payments</p>
+                                      {bill.payments.length === 0 ? (
+                                        <p className="text-gray-400">No payments recorded</p>
+                                      ) : (
+                                        bill.payments.map(payment => (
+                                          <div key={payment.id} className="flex justify-between items-center">
+                                            <span className="text-gray-700">
+                                              {formatDate(payment.payment_date)}
+                                              {payment.method && ` • ${payment.method}`}
+                                              {payment.reference && ` • ${payment.reference}`}
+                                            </span>
+                                            <span className="flex items-center gap-2">
+                                              <span className="tabular-nums text-red-600">{formatCurrency(payment.amount)}</span>
+                                              {canApprove && (
+                                                <Button size="sm" variant="ghost" onClick={() => handleDeletePayment(payment.id)}>
+                                                  <Trash2 className="h-3 w-3 text-red-600" />
+                                                </Button>
+                                              )}
+                                            </span>
+                                          </div>
+                                        ))
+                                      )}
+                                    </div>
+                                  </div>
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="calendar">
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming Bills</CardTitle>
+              <CardDescription>Unpaid bills on the day they are scheduled to be paid, or due</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BillsCalendar bills={bills} onSelectBill={canEdit ? openSchedule : undefined} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="aging">
+          <Card>
+            <CardHeader>
+              <CardTitle>Accounts Payable Aging</CardTitle>
+              <CardDescription>Unpaid bill balances by vendor and days past due</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AgingReport report={aging} partyLabel="Vendor" emptyLabel="You don't owe any vendors right now" />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="vendors">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Vendors</CardTitle>
+                <CardDescription>{activeVendors.length} active vendors</CardDescription>
+              </div>
+              {canEdit && (
+                <Button variant="outline" onClick={() => openVendorDialog(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Vendor
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {vendors.length === 0 ? (
+                <div className="text-center py-8">
+                  <Truck className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No vendors yet</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {vendors.map(vendor => {
+                    const owed = aging.rows.find(row => row.party_id === vendor.id)?.total || 0;
+                    return (
+                      <div
+                        key={vendor.id}
+                        className={`flex items-center justify-between p-4 border rounded-lg ${vendor.is_active ? '' : 'opacity-60'}`}
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-gray-900">{vendor.name}</p>
+                            {!vendor.is_active && <Badge variant="outline">Inactive</Badge>}
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {[vendor.email, vendor.phone, vendor.default_category].filter(Boolean).join(' • ') || 'No details'}
+                            {' • '}
+                            {PAYMENT_TERMS.find(term => term.days === vendor.payment_terms_days)?.label || `Net ${vendor.payment_terms_days}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {owed > 0 && (
+                            <span className="text-sm text-gray-700">Owed {formatCurrency(owed)}</span>
+                          )}
+                          {canEdit && (
+                            <>
+                              <Button size="sm" variant="ghost" onClick={() => openVendorDialog(vendor)}>
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleToggleVendor(vendor)}>
+                                {vendor.is_active ? 'Deactivate' : 'Reactivate'}
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {user && (
+        <BillModal
+          isOpen={isBillModalOpen}
+          onClose={() => setIsBillModalOpen(false)}
+          businessId={selectedBusiness.id}
+          ownerId={selectedBusiness.owner_id}
+          userId={user.id}
+          vendors={activeVendors}
+          categories={categories}
+          bill={editingBill}
+          onSaved={reload}
+        />
+      )}
+
+      <PayBillModal
+        isOpen={!!payingBill}
+        onClose={() => setPayingBill(null)}
+        bill={payingBill}
+        accounts={accounts}
+        onPaid={reload}
+      />
+
+      <Dialog open={!!schedulingBill} onOpenChange={(open) => !open && setSchedulingBill(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Schedule Payment</DialogTitle>
+            <DialogDescription>
+              {schedulingBill?.vendor?.name} • {schedulingBill && formatCurrency(getBillBalance(schedulingBill))} due{' '}
+              {schedulingBill && formatDate(schedulingBill.due_date)}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="schedule-date">Pay On</Label>
+            <Input
+              id="schedule-date"
+              type="date"
+              value={scheduleDate}
+              onChange={(e) => setScheduleDate(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <DialogFooter>
+            {schedulingBill?.scheduled_payment_date && (
+              <Button variant="outline" onClick={() => handleSchedule(null)}>
+                Clear
+              </Button>
+            )}
+            <Button onClick={() => handleSchedule(scheduleDate || null)} disabled={!scheduleDate}>
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isVendorDialogOpen} onOpenChange={setIsVendorDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingVendor ? 'Edit Vendor' : 'Add Vendor'}</DialogTitle>
+            <DialogDescription>New bills from this vendor use their terms and category</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="vendor-name">Name *</Label>
+              <Input
+                id="vendor-name"
+                value={vendorForm.name}
+                onChange={(e) => setVendorForm(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="vendor-email">Email</Label>
+                <Input
+                  id="vendor-email"
+                  type="email"
+                  value={vendorForm.email || ''}
+                  onChange={(e) => setVendorForm(prev => ({ ...prev, email: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="vendor-phone">Phone</Label>
+                <Input
+                  id="vendor-phone"
+                  value={vendorForm.phone || ''}
+                  onChange={(e) => setVendorForm(prev => ({ ...prev, phone: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="vendor-address">Address</Label>
+              <Textarea
+                id="vendor-address"
+                value={vendorForm.address || ''}
+                onChange={(e) => setVendorForm(prev => ({ ...prev, address: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="vendor-terms">Payment Terms</Label>
+                <select
+                  id="vendor-terms"
+                  value={vendorForm.payment_terms_days}
+                  onChange={(e) => setVendorForm(prev => ({ ...prev, payment_terms_days: parseInt(e.target.value) }))}
+                  className={selectClassName}
+                >
+                  {PAYMENT_TERMS.map(term => (
+                    <option key={term.days} value={term.days}>{term.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="vendor-category">Default Category</Label>
+                <select
+                  id="vendor-category"
+                  value={vendorForm.default_category || ''}
+                  onChange={(e) => setVendorForm(prev => ({ ...prev, default_category: e.target.value }))}
+                  className={selectClassName}
+                >
+                  <option value="">None</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="vendor-notes">Notes</Label>
+              <Textarea
+                id="vendor-notes"
+                value={vendorForm.notes || ''}
+                onChange={(e) => setVendorForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsVendorDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveVendor} disabled={savingVendor || !vendorForm.name.trim()}>
+              {savingVendor && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingVendor ? 'Update Vendor' : 'Add Vendor'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { isStatementFile } from '@/lib/bankImport';
+import { BankImportModal } from '@/components/modals/BankImportModal';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Upload, File, Download, Eye, Trash2, Plus, X, Edit } from 'lucide-react';
+import { Upload, File, Download, Eye, Trash2, Plus, X, Edit, FileSpreadsheet } from 'lucide-react';
 
 interface Document {
   id: string;
@@ -13,6 +15,7 @@ interface Document {
   size: string;
   uploadDate: string;
   category: string;
+  filePath?: string;
 }
 
 export const ClientDocuments: React.FC = () => {
@@ -30,6 +33,7 @@ export const ClientDocuments: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState('All Documents');
   const [uploadCategory, setUploadCategory] = useState('Receipts');
   const [editingDocument, setEditingDocument] = useState<string | null>(null);
+  const [statementFile, setStatementFile] = useState<File | null>(null);
 
   // Load documents when user is available
   useEffect(() => {
@@ -79,7 +83,8 @@ export const ClientDocuments: React.FC = () => {
         type: doc.file_type || 'PDF',
         size: formatFileSize(doc.file_size || 0),
         uploadDate: doc.created_at?.split('T')[0] || new Date().toISOString().split('T')[0],
-        category: doc.category || 'Other'
+        category: doc.category || 'Other',
+        filePath: doc.file_path
       }));
 
       setDocuments(transformedDocuments);
@@ -110,6 +115,9 @@ export const ClientDocuments: React.FC = () => {
       case 'jpg':
       case 'jpeg':
       case 'png': return 'IMAGE';
+      case 'csv':
+      case 'ofx':
+      case 'qfx': return 'STATEMENT';
       default: return 'OTHER';
     }
   };
@@ -143,7 +151,9 @@ export const ClientDocuments: React.FC = () => {
                              'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
                              'image/jpeg', 'image/png', 'image/jpg'];
         
-        if (!allowedTypes.includes(file.type)) {
+        // Bank statement exports often have no registered MIME type, so check the extension
+        const isStatement = uploadCategory === 'Bank Statements' && isStatementFile(file.name);
+        if (!allowedTypes.includes(file.type) && !isStatement) {
           setError(`File ${file.name} has an unsupported format. Please use PDF, DOC, XLS, JPG, or PNG.`);
           return;
         }
@@ -258,6 +268,12 @@ export const ClientDocuments: React.FC = () => {
         fileInputRef.current.value = '';
       }
 
+      // Offer to import the transactions of an uploaded statement export
+      const uploadedStatement = fileArray.find(file => isStatementFile(file.name));
+      if (uploadCategory === 'Bank Statements' && uploadedStatement) {
+        setStatementFile(uploadedStatement);
+      }
+
     } catch (err: any) {
       console.error('Upload error:', err);
       setError(err.message || 'Failed to upload files');
@@ -389,6 +405,22 @@ export const ClientDocuments: React.FC = () => {
     ? documents 
     : documents.filter(doc => doc.category === selectedCategory);
 
+  const handleImportStatement = async (document: Document) => {
+    if (!document.filePath) return;
+
+    try {
+      const { data, error: downloadError } = await supabase.storage
+        .from('documents')
+        .download(document.filePath);
+
+      if (downloadError) throw downloadError;
+      setStatementFile(new window.File([data], document.name));
+    } catch (err: any) {
+      console.error('Error downloading statement:', err);
+      setError(err.message || 'Failed to open the bank statement');
+    }
+  };
+
   const getFileIcon = (type: string) => {
     return <File className="h-5 w-5 text-blue-600" />;
   };
@@ -508,7 +540,10 @@ export const ClientDocuments: React.FC = () => {
                 <p className="text-gray-600 mb-2">
                   {dragActive ? 'Drop files here to upload' : 'Drop files here or click to upload'}
                 </p>
-                <p className="text-sm text-gray-500">Supports PDF, DOC, XLS, JPG, PNG (Max 10MB)</p>
+                <p className="text-sm text-gray-500">
+                  Supports PDF, DOC, XLS, JPG, PNG (Max 10MB)
+                  {uploadCategory === 'Bank Statements' && ' • CSV, OFX and QFX statements can be imported as transactions'}
+                </p>
                 <Button 
                   type="button"
                   variant="outline" 
@@ -533,7 +568,7 @@ export const ClientDocuments: React.FC = () => {
             ref={fileInputRef}
             type="file"
             multiple
-            accept=".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png"
+            accept={`.pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png${uploadCategory === 'Bank Statements' ? ',.csv,.ofx,.qfx' : ''}`}
             onChange={handleFileInputChange}
             className="hidden"
             style={{ display: 'none' }}
@@ -632,6 +667,12 @@ export const ClientDocuments: React.FC = () => {
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {document.category === 'Bank Statements' && document.filePath && isStatementFile(document.name) && (
+                      <Button variant="outline" size="sm" onClick={() => handleImportStatement(document)}>
+                        <FileSpreadsheet className="h-4 w-4 mr-1" />
+                        Import
+                      </Button>
+                    )}
                     <Button variant="outline" size="sm">
                       <Eye className="h-4 w-4" />
                     </Button>
@@ -654,6 +695,12 @@ export const ClientDocuments: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      <BankImportModal
+        isOpen={!!statementFile}
+        onClose={() => setStatementFile(null)}
+        initialFile={statementFile}
+      />
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,925 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts } from '@/lib/accounts';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_VARIANTS,
+  PAYMENT_TERMS,
+  buildReceivablesAging,
+  deleteInvoice,
+  deleteInvoicePayment,
+  fetchCustomers,
+  fetchInvoices,
+  getInvoiceBalance,
+  getInvoiceStatus,
+  getNextInvoiceNumber,
+  isInvoiceOpen,
+  markOverdueInvoices,
+  saveCustomer,
+  sendInvoice,
+  setCustomerActive,
+  voidInvoice
+} from '@/lib/invoices';
+import type { CustomerInput } from '@/lib/invoices';
+import {
+  INVOICE_TEMPLATE_LAYOUTS,
+  canIssueCreditNote,
+  deleteInvoiceTemplate,
+  downloadInvoicePdf,
+  fetchInvoiceTemplates,
+  generateInvoiceDocument,
+  getInvoiceDocumentUrl,
+  getInvoiceTemplate
+} from '@/lib/invoiceDocuments';
+import type { InvoiceDocumentKind } from '@/lib/invoiceDocuments';
+import { AgingReport } from '@/components/reports/AgingReport';
+import { InvoiceModal } from '@/components/modals/InvoiceModal';
+import { RecordPaymentModal } from '@/components/modals/RecordPaymentModal';
+import { InvoiceTemplateModal } from '@/components/modals/InvoiceTemplateModal';
+import { formatCurrency, formatDate } from '@/types';
+import type { Account, Customer, Invoice, InvoiceStatus, InvoiceTemplate } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  Ban,
+  ChevronDown,
+  ChevronRight,
+  DollarSign,
+  Edit2,
+  FileDown,
+  FileMinus,
+  FileText,
+  Loader2,
+  Palette,
+  Plus,
+  Send,
+  Trash2,
+  Users
+} from 'lucide-react';
+
+interface Business {
+  id: string;
+  name: string;
+  owner_id: string;
+  status: string;
+  address?: string | null;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const emptyCustomerForm = (): CustomerInput => ({
+  name: '',
+  email: '',
+  phone: '',
+  address: '',
+  payment_terms_days: 30,
+  notes: ''
+});
+
+export const ClientInvoices: React.FC = () => {
+  const { user } = useAuth();
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all' | 'open'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [isInvoiceModalOpen, setIsInvoiceModalOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<InvoiceTemplate | null>(null);
+
+  const [isCustomerDialogOpen, setIsCustomerDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [customerForm, setCustomerForm] = useState<CustomerInput>(emptyCustomerForm());
+  const [savingCustomer, setSavingCustomer] = useState(false);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadBusinesses();
+    } else if (user === null) {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (selectedBusiness?.id) {
+      loadData(selectedBusiness.id);
+      loadAccounts(selectedBusiness.id);
+    }
+  }, [selectedBusiness?.id]);
+
+  const loadBusinesses = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('businesses')
+        .select('id, name, owner_id, status, address')
+        .eq('owner_id', user?.id)
+        .eq('status', 'active')
+        .order('name');
+
+      if (fetchError) throw fetchError;
+
+      setBusinesses(data || []);
+      if (data && data.length > 0) {
+        setSelectedBusiness(data[0]);
+      } else {
+        setLoading(false);
+      }
+    } catch (err: any) {
+      console.error('Error loading businesses:', err);
+      setError(err.message || 'Failed to load businesses');
+      setLoading(false);
+    }
+  };
+
+  const loadData = async (businessId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Flag anything that fell due since the nightly run; the list is still usable if this fails
+      try {
+        await markOverdueInvoices();
+      } catch (err) {
+        console.warn('Could not update overdue invoices:', err);
+      }
+
+      const [invoiceData, customerData, templateData] = await Promise.all([
+        fetchInvoices(businessId),
+        fetchCustomers(businessId, { includeInactive: true }),
+        fetchInvoiceTemplates(businessId)
+      ]);
+      setInvoices(invoiceData);
+      setCustomers(customerData);
+      setTemplates(templateData);
+    } catch (err: any) {
+      console.error('Error loading invoices:', err);
+      setError(err.message || 'Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAccounts = async (businessId: string) => {
+    try {
+      const businessAccounts = await fetchBusinessAccounts(businessId);
+      setAccounts(businessAccounts.filter(account => account.type === 'asset'));
+    } catch (err: any) {
+      // Payments fall back to the default account
+      console.error('Error loading accounts:', err);
+      setAccounts([]);
+    }
+  };
+
+  const reload = () => {
+    if (selectedBusiness) loadData(selectedBusiness.id);
+  };
+
+  const aging = useMemo(() => buildReceivablesAging(invoices), [invoices]);
+  const nextInvoiceNumber = useMemo(() => getNextInvoiceNumber(invoices), [invoices]);
+  const activeCustomers = useMemo(() => customers.filter(customer => customer.is_active), [customers]);
+
+  const filteredInvoices = useMemo(() => invoices.filter(invoice => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return isInvoiceOpen(invoice);
+    return getInvoiceStatus(invoice) === statusFilter;
+  }), [invoices, statusFilter]);
+
+  const summary = useMemo(() => {
+    const open = invoices.filter(isInvoiceOpen);
+    const overdue = open.filter(invoice => getInvoiceStatus(invoice) === 'overdue');
+    return {
+      outstanding: open.reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0),
+      openCount: open.length,
+      overdue: overdue.reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0),
+      overdueCount: overdue.length,
+      drafts: invoices.filter(invoice => invoice.status === 'draft').length
+    };
+  }, [invoices]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setError(null);
+      await action();
+      reload();
+    } catch (err: any) {
+      console.error(`Error: ${failure}:`, err);
+      setError(err.message || failure);
+    }
+  };
+
+  const issuer = { name: selectedBusiness?.name || '', address: selectedBusiness?.address };
+
+  // Sending also saves the PDF that goes to the customer
+  const handleSend = async (invoice: Invoice) => {
+    try {
+      setError(null);
+      await sendInvoice(invoice.id);
+    } catch (err: any) {
+      console.error('Error sending invoice:', err);
+      setError(err.message || 'Failed to send invoice');
+      return;
+    }
+
+    try {
+      if (user) {
+        await generateInvoiceDocument(
+          { ...invoice, status: 'sent', sent_at: new Date().toISOString() },
+          issuer,
+          getInvoiceTemplate(templates, invoice.template_id),
+          user.id
+        );
+      }
+    } catch (err: any) {
+      console.error('Error saving invoice PDF:', err);
+      setError(`Invoice sent, but its PDF could not be saved: ${err.message || 'unknown error'}`);
+    } finally {
+      reload();
+    }
+  };
+
+  const handleGenerateDocument = async (invoice: Invoice, kind: InvoiceDocumentKind) => {
+    if (!user) return;
+
+    try {
+      setGeneratingId(invoice.id);
+      setError(null);
+      const template = getInvoiceTemplate(templates, invoice.template_id);
+      if (invoice.status === 'draft') {
+        await downloadInvoicePdf(invoice, issuer, template);
+        return;
+      }
+      const filePath = await generateInvoiceDocument(invoice, issuer, template, user.id, kind);
+      window.open(getInvoiceDocumentUrl(filePath), '_blank');
+      reload();
+    } catch (err: any) {
+      console.error('Error generating invoice PDF:', err);
+      setError(err.message || 'Failed to create PDF');
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  const openTemplateModal = (template: InvoiceTemplate | null) => {
+    setEditingTemplate(template);
+    setIsTemplateModalOpen(true);
+  };
+
+  const handleDeleteTemplate = (template: InvoiceTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Invoices using it will print with the default.`)) return;
+    runAction(() => deleteInvoiceTemplate(template.id), 'Failed to delete template');
+  };
+
+  const handleVoid = (invoice: Invoice) => {
+    if (!confirm(`Void invoice ${invoice.invoice_number}? It will no longer count as owed.`)) return;
+    runAction(() => voidInvoice(invoice.id), 'Failed to void invoice');
+  };
+
+  const handleDelete = (invoice: Invoice) => {
+    if (!confirm(`Delete draft ${invoice.invoice_number}? This cannot be undone.`)) return;
+    runAction(() => deleteInvoice(invoice.id), 'Failed to delete invoice');
+  };
+
+  const handleDeletePayment = (paymentId: string) => {
+    if (!confirm('Remove this payment? The income transaction it created will be deleted too.')) return;
+    runAction(() => deleteInvoicePayment(paymentId), 'Failed to remove payment');
+  };
+
+  const openInvoiceModal = (invoice: Invoice | null) => {
+    setEditingInvoice(invoice);
+    setIsInvoiceModalOpen(true);
+  };
+
+  const openCustomerDialog = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setCustomerForm(customer ? {
+      name: customer.name,
+      email: customer.email || '',
+      phone: customer.phone || '',
+      address: customer.address || '',
+      payment_terms_days: customer.payment_terms_days,
+      notes: customer.notes || ''
+    } : emptyCustomerForm());
+    setIsCustomerDialogOpen(true);
+  };
+
+  const handleSaveCustomer = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setSavingCustomer(true);
+      setError(null);
+      await saveCustomer(selectedBusiness.id, customerForm, editingCustomer?.id);
+      setIsCustomerDialogOpen(false);
+      setCustomers(await fetchCustomers(selectedBusiness.id, { includeInactive: true }));
+    } catch (err: any) {
+      console.error('Error saving customer:', err);
+      setError(err.message || 'Failed to save customer');
+    } finally {
+      setSavingCustomer(false);
+    }
+  };
+
+  const handleToggleCustomer = (customer: Customer) =>
+    runAction(() => setCustomerActive(customer.id, !customer.is_active), 'Failed to update customer');
+
+  if (loading && invoices.length === 0 && customers.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!selectedBusiness) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <p className="text-lg text-gray-600 mb-4">No business found</p>
+          <p className="text-gray-500">You need to have a business to send invoices.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = selectedBusiness.owner_id === user?.id;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+          <p className="text-gray-600">Bill customers and track what you are owed by {selectedBusiness.name}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {businesses.length > 1 && (
+            <select
+              value={selectedBusiness.id}
+              onChange={(e) => setSelectedBusiness(businesses.find(b => b.id === e.target.value) || null)}
+              className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+            >
+              {businesses.map(business => (
+                <option key={business.id} value={business.id}>{business.name}</option>
+              ))}
+            </select>
+          )}
+          {canEdit && (
+            <Button
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={() => openInvoiceModal(null)}
+              disabled={activeCustomers.length === 0}
+              title={activeCustomers.length === 0 ? 'Add a customer first' : undefined}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Invoice
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+            <DollarSign className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{formatCurrency(summary.outstanding)}</div>
+            <p className="text-xs text-muted-foreground">{summary.openCount} open invoices</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(summary.overdue)}</div>
+            <p className="text-xs text-muted-foreground">{summary.overdueCount} past their due date</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <FileText className="h-4 w-4 text-gray-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.drafts}</div>
+            <p className="text-xs text-muted-foreground">Not yet sent</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="invoices" className="space-y-6">
+        <TabsList className="grid grid-cols-4 w-full">
+          <TabsTrigger value="invoices">Invoices</TabsTrigger>
+          <TabsTrigger value="aging">Receivables Aging</TabsTrigger>
+          <TabsTrigger value="customers">Customers</TabsTrigger>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="invoices">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>All Invoices</CardTitle>
+                <CardDescription>{filteredInvoices.length} invoices</CardDescription>
+              </div>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | 'all' | 'open')}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All statuses</option>
+                <option value="open">Open</option>
+                {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(status => (
+                  <option key={status} value={status}>{INVOICE_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </CardHeader>
+            <CardContent>
+              {filteredInvoices.length === 0 ? (
+                <div className="text-center py-8">
+                  <FileText className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No invoices found</p>
+                  {customers.length === 0 && (
+                    <p className="text-sm text-gray-400">Add a customer to create your first invoice</p>
+                  )}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="border-b bg-gray-50">
+                      <tr>
+                        <th className="w-8"></th>
+                        <th className="text-left p-2 font-medium">Number</th>
+                        <th className="text-left p-2 font-medium">Customer</th>
+                        <th className="text-left p-2 font-medium">Issued</th>
+                        <th className="text-left p-2 font-medium">Due</th>
+                        <th className="text-left p-2 font-medium">Status</th>
+                        <th className="text-right p-2 font-medium">Total</th>
+                        <th className="text-right p-2 font-medium">Balance</th>
+                        {canEdit && <th className="text-right p-2 font-medium">Actions</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredInvoices.map(invoice => {
+                        const status = getInvoiceStatus(invoice);
+                        const expanded = expandedId === invoice.id;
+                        return (
+                          <React.Fragment key={invoice.id}>
+                            <tr className="border-b hover:bg-gray-50">
+                              <td className="p-2">
+                                <button
+                                  onClick={() => setExpandedId(expanded ? null : invoice.id)}
+                                  className="text-gray-400 hover:text-gray-600"
+                                >
+                                  {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                </button>
+                              </td>
+                              <td className="p-2 font-medium">{invoice.invoice_number}</td>
+                              <td className="p-2">{invoice.customer?.name}</td>
+                              <td className="p-2 text-sm">{formatDate(invoice.issue_date)}</td>
+                              <td className="p-2 text-sm">{formatDate(invoice.due_date)}</td>
+                              <td className="p-2">
+                                <Badge variant={INVOICE_STATUS_VARIANTS[status]}>{INVOICE_STATUS_LABELS[status]}</Badge>
+                              </td>
+                              <td className="p-2 text-right tabular-nums">{formatCurrency(invoice.total)}</td>
+                              <td className="p-2 text-right tabular-nums">
+                                {invoice.status === 'void' ? '—' : formatCurrency(getInvoiceBalance(invoice))}
+                              </td>
+                              {canEdit && (
+                                <td className="p-2">
+                                  <div className="flex justify-end gap-1">
+                                    {invoice.status === 'draft' && (
+                                      <>
+                                        <Button size="sm" variant="ghost" onClick={() => openInvoiceModal(invoice)} title="Edit">
+                                          <Edit2 className="h-4 w-4" />
+                                        </Button>
+                                        <Button size="sm" variant="ghost" onClick={() => handleSend(invoice)} title="Mark as sent">
+                                          <Send className="h-4 w-4 text-blue-600" />
+                                        </Button>
+                                        <Button size="sm" variant="ghost" onClick={() => handleDelete(invoice)} title="Delete">
+                                          <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                      </>
+                                    )}
+                                    {invoice.status !== 'void' && (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => handleGenerateDocument(invoice, 'invoice')}
+                                        disabled={generatingId === invoice.id}
+                                        title={invoice.status === 'draft' ? 'Preview PDF' : 'Save and open PDF'}
+                                      >
+                                        {generatingId === invoice.id
+                                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                                          : <FileDown className="h-4 w-4" />}
+                                      </Button>
+                                    )}
+                                    {canIssueCreditNote(invoice) && (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => handleGenerateDocument(invoice, 'credit_note')}
+                                        disabled={generatingId === invoice.id}
+                                        title={invoice.credit_note_document_id ? 'Re-issue credit note' : 'Issue credit note'}
+                                      >
+                                        <FileMinus className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    {isInvoiceOpen(invoice) && (
+                                      <Button size="sm" variant="outline" onClick={() => setPayingInvoice(invoice)}>
+                                        <DollarSign className="h-4 w-4 mr-1" />
+                                        Record Payment
+                                      </Button>
+                                    )}
+                                    {invoice.status !== 'draft' && invoice.status !== 'void' && invoice.payments.length === 0 && (
+                                      <Button size="sm" variant="ghost" onClick={() => handleVoid(invoice)} title="Void">
+                                        <Ban className="h-4 w-4 text-red-600" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                </td>
+                              )}
+                            </tr>
+                            {expanded && (
+                              <tr className="border-b bg-gray-50">
+                                <td></td>
+                                <td colSpan={canEdit ? 8 : 7} className="p-3">
+                                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+                                    <div className="space-y-1">
+                                      <p className="font-semibold text-gray-900">Line Items</p>
+                                      {invoice.line_items.map(line => (
+                                        <div key={line.id} className="flex justify-between">
+                                          <span className="text-gray-700">
+                                            {line.description} • {line.quantity} × {formatCurrency(line.unit_price)}
+                                            {line.discount_percent > 0 && ` less ${line.discount_percent}%`}
+                                            {line.tax_rate > 0 && ` + ${line.tax_rate}% tax`}
+                                          </span>
+                                          <span className="tabular-nums">{formatCurrency(line.amount)}</span>
+                                        </div>
+                                      ))}
+                                      <div className="flex justify-between border-t pt-1 text-gray-600">
+                                        <span>Discounts {formatCurrency(invoice.discount_total)} • Tax {formatCurrency(invoice.tax_total)}</span>
+                                        <span className="font-medium text-gray-900 tabular-nums">{formatCurrency(invoice.total)}</span>
+                                      </div>
+                                      {invoice.notes && <p className="text-gray-500 pt-1">{invoice.notes}</p>}
+                                      {(invoice.pdf_file_path || invoice.credit_note_file_path) && (
+                                        <div className="flex flex-wrap gap-3 pt-2">
+                                          {invoice.pdf_file_path && (
+                                            <a
+                                              href={getInvoiceDocumentUrl(invoice.pdf_file_path)}
+                                              target="_blank"
+                                              rel="noreferrer"
+                                              className="flex items-center gap-1 text-blue-600 hover:underline"
+                                            >
+                                              <FileText className="h-3 w-3" />
+                                              Invoice PDF
+                                              {invoice.pdf_generated_at && ` (${formatDate(invoice.pdf_generated_at)})`}
+                                            </a>
+                                          )}
+                                          {invoice.credit_note_file_path && (
+                                            <a
+                                              href={getInvoiceDocumentUrl(invoice.credit_note_file_path)}
+                                              target="_blank"
+                                              rel="noreferrer"
+                                              className="flex items-center gap-1 text-blue-600 hover:underline"
+                                            >
+                                              <FileMinus className="h-3 w-3" />
+                                              Credit note
+                                            </a>
+                                          )}
+                                        </div>
+                                      )}
+                                    </div>
+                                    <div className="space-y-1">
+                                      <p className="font-semibold text-gray-900">Payments</p>
+                                      {invoice.payments.length === 0 ? (
+                                        <p className="text-gray-400">No payments recorded</p>
+                                      ) : (
+                                        invoice.payments.map(payment => (
+                                          <div key={payment.id} className="flex justify-between items-center">
+                                            <span className="text-gray-700">
+                                              {formatDate(payment.payment_date)}
+                                              {payment.method && ` • ${payment.method}`}
+                                              {payment.reference && ` • ${payment.reference}`}
+                                            </span>
+                                            <span className="flex items-center gap-2">
+                                              <span className="tabular-nums text-green-600">{formatCurrency(payment.amount)}</span>
+                                              {canEdit && (
+                                                <Button size="sm" variant="ghost" onClick={() => handleDeletePayment(payment.id)}>
+                                                  <Trash2 className="h-3 w-3 text-red-600" />
+                                                </Button>
+                                              )}
+                                            </span>
+                                          </div>
+                                        ))
+                                      )}
+                                    </div>
+                                  </div>
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="aging">
+          <Card>
+            <CardHeader>
+              <CardTitle>Accounts Receivable Aging</CardTitle>
+              <CardDescription>Unpaid balances of sent invoices by customer and days past due</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AgingReport report={aging} partyLabel="Customer" emptyLabel="No customer owes you money right now" />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="customers">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Customers</CardTitle>
+                <CardDescription>{activeCustomers.length} active customers</CardDescription>
+              </div>
+              {canEdit && (
+                <Button variant="outline" onClick={() => openCustomerDialog(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Customer
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {customers.length === 0 ? (
+                <div className="text-center py-8">
+                  <Users className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No customers yet</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {customers.map(customer => {
+                    const owed = aging.rows.find(row => row.party_id === customer.id)?.total || 0;
+                    return (
+                      <div
+                        key={customer.id}
+                        className={`flex items-center justify-between p-4 border rounded-lg ${customer.is_active ? '' : 'opacity-60'}`}
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-gray-900">{customer.name}</p>
+                            {!customer.is_active && <Badge variant="outline">Inactive</Badge>}
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {[customer.email, customer.phone].filter(Boolean).join(' • ') || 'No contact details'}
+                            {' • '}
+                            {PAYMENT_TERMS.find(term => term.days === customer.payment_terms_days)?.label || `Net ${customer.payment_terms_days}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {owed > 0 && (
+                            <span className="text-sm text-gray-700">Owes {formatCurrency(owed)}</span>
+                          )}
+                          {canEdit && (
+                            <>
+                              <Button size="sm" variant="ghost" onClick={() => openCustomerDialog(customer)}>
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleToggleCustomer(customer)}>
+                                {customer.is_active ? 'Deactivate' : 'Reactivate'}
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="templates">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Invoice Templates</CardTitle>
+                <CardDescription>Logo, colours and payment instructions printed on your invoice PDFs</CardDescription>
+              </div>
+              {canEdit && (
+                <Button variant="outline" onClick={() => openTemplateModal(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Template
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {templates.length === 0 ? (
+                <div className="text-center py-8">
+                  <Palette className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No templates yet</p>
+                  <p className="text-sm text-gray-400">Invoices use a plain layout until you add one</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {templates.map(template => (
+                    <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <span
+                          className="h-8 w-8 rounded border"
+                          style={{ backgroundColor: template.accent_color }}
+                        ></span>
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-gray-900">{template.name}</p>
+                            {template.is_default && <Badge variant="info">Default</Badge>}
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {INVOICE_TEMPLATE_LAYOUTS.find(layout => layout.value === template.layout)?.label} layout
+                            {template.logo_path && ' • Logo'}
+                            {template.payment_instructions && ' • Payment instructions'}
+                          </p>
+                        </div>
+                      </div>
+                      {canEdit && (
+                        <div className="flex items-center gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => openTemplateModal(template)}>
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDeleteTemplate(template)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {user && (
+        <InvoiceModal
+          isOpen={isInvoiceModalOpen}
+          onClose={() => setIsInvoiceModalOpen(false)}
+          businessId={selectedBusiness.id}
+          userId={user.id}
+          customers={activeCustomers}
+          templates={templates}
+          invoice={editingInvoice}
+          nextInvoiceNumber={nextInvoiceNumber}
+          onSaved={reload}
+        />
+      )}
+
+      {user && (
+        <InvoiceTemplateModal
+          isOpen={isTemplateModalOpen}
+          onClose={() => setIsTemplateModalOpen(false)}
+          businessId={selectedBusiness.id}
+          userId={user.id}
+          template={editingTemplate}
+          isFirstTemplate={templates.length === 0}
+          onSaved={reload}
+        />
+      )}
+
+      <RecordPaymentModal
+        isOpen={!!payingInvoice}
+        onClose={() => setPayingInvoice(null)}
+        invoice={payingInvoice}
+        accounts={accounts}
+        onRecorded={reload}
+      />
+
+      <Dialog open={isCustomerDialogOpen} onOpenChange={setIsCustomerDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingCustomer ? 'Edit Customer' : 'Add Customer'}</DialogTitle>
+            <DialogDescription>New invoices for this customer use their payment terms</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="customer-name">Name *</Label>
+              <Input
+                id="customer-name"
+                value={customerForm.name}
+                onChange={(e) => setCustomerForm(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="customer-email">Email</Label>
+                <Input
+                  id="customer-email"
+                  type="email"
+                  value={customerForm.email || ''}
+                  onChange={(e) => setCustomerForm(prev => ({ ...prev, email: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="customer-phone">Phone</Label>
+                <Input
+                  id="customer-phone"
+                  value={customerForm.phone || ''}
+                  onChange={(e) => setCustomerForm(prev => ({ ...prev, phone: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="customer-address">Address</Label>
+              <Textarea
+                id="customer-address"
+                value={customerForm.address || ''}
+                onChange={(e) => setCustomerForm(prev => ({ ...prev, address: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-terms">Payment Terms</Label>
+              <select
+                id="customer-terms"
+                value={customerForm.payment_terms_days}
+                onChange={(e) => setCustomerForm(prev => ({ ...prev, payment_terms_days: parseInt(e.target.value) }))}
+                className={selectClassName}
+              >
+                {PAYMENT_TERMS.map(term => (
+                  <option key={term.days} value={term.days}>{term.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="customer-notes">Notes</Label>
+              <Textarea
+                id="customer-notes"
+                value={customerForm.notes || ''}
+                onChange={(e) => setCustomerForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCustomerDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveCustomer} disabled={savingCustomer || !customerForm.name.trim()}>
+              {savingCustomer && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingCustomer ? 'Update Customer' : 'Add Customer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
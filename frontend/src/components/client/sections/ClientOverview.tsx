@@ -2,6 +2,10 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
+import { buildReceivablesAging, fetchInvoices } from '@/lib/invoices';
+import type { AgingReport as AgingReportData } from '@/lib/aging';
+import { AgingReport } from '@/components/reports/AgingReport';
+import { CashFlowForecastPanel } from '@/components/reports/CashFlowForecastPanel';
 import { 
   Card, 
   CardContent, 
@@ -21,7 +25,8 @@ import {
   Settings,
   Activity,
   Building,
-  PieChart
+  PieChart,
+  Receipt
 } from 'lucide-react';
 
 interface BusinessMetrics {
@@ -60,6 +65,7 @@ export const ClientOverview: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
+  const [receivables, setReceivables] = useState<AgingReportData | null>(null);
 
   // Load user's businesses and financial data
   useEffect(() => {
@@ -102,7 +108,8 @@ export const ClientOverview: React.FC = () => {
         
         await Promise.all([
           loadBusinessMetrics(firstBusiness.id),
-          loadTransactions(firstBusiness.id)
+          loadTransactions(firstBusiness.id),
+          loadReceivables(firstBusiness.id)
         ]);
       }
 
@@ -197,6 +204,15 @@ export const ClientOverview: React.FC = () => {
     }
   }, []);
 
+  const loadReceivables = useCallback(async (businessId: string) => {
+    try {
+      setReceivables(buildReceivablesAging(await fetchInvoices(businessId)));
+    } catch (err: any) {
+      console.error('Error loading receivables:', err);
+      setReceivables(null);
+    }
+  }, []);
+
   const formatCurrency = useMemo(() => {
     const formatter = new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -431,6 +447,46 @@ export const ClientOverview: React.FC = () => {
         </Card>
       </div>
 
+      {/* Accounts Receivable */}
+      {receivables && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Accounts Receivable</CardTitle>
+              <CardDescription>
+                {formatCurrency(receivables.total)} owed by customers, by days past due
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('/user/invoices')}>
+              <Receipt className="h-4 w-4 mr-2" />
+              Invoices
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <AgingReport report={receivables} partyLabel="Customer" emptyLabel="No unpaid invoices" />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cash Flow Forecast */}
+      {selectedBusiness && user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cash Flow Forecast</CardTitle>
+            <CardDescription>
+              Where cash is heading, from recurring and scheduled items and your usual income and spending
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CashFlowForecastPanel
+              book={{ businessId: selectedBusiness.id }}
+              userId={user.id}
+              canEditScenarios={selectedBusiness.owner_id === user.id}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* AI Assistant Preview */}
       <Card>
         <CardHeader>
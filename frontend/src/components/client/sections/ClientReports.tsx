@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { ReportViewer } from '@/components/reports/ReportViewer';
+import { downloadReportPdf } from '@/lib/reportPdf';
+import { formatDate } from '@/types';
+import type { ReportData } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Download, Eye, FileText, Loader2 } from 'lucide-react';
+
+interface PublishedReport {
+  id: string;
+  title: string;
+  type: string;
+  business_name: string;
+  period_start: string | null;
+  period_end: string | null;
+  updated_at: string | null;
+  published_at: string | null;
+  published_version: number | null;
+  data: ReportData | null;
+}
+
+const reportTypeLabels: Record<string, string> = {
+  profit_loss: 'Profit & Loss',
+  balance_sheet: 'Balance Sheet',
+  cash_flow: 'Cash Flow',
+  tax_summary: 'Tax Summary',
+  custom: 'Custom'
+};
+
+export const ClientReports: React.FC = () => {
+  const { user } = useAuth();
+  const [reports, setReports] = useState<PublishedReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedReport, setSelectedReport] = useState<PublishedReport | null>(null);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadReports();
+    } else if (user === null) {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadReports = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Reports are addressed to the client directly or to one of their businesses
+      const businessIds = (user?.businesses || []).map(business => business.id);
+      const recipients = [`client_id.eq.${user!.id}`];
+      if (businessIds.length > 0) {
+        recipients.push(`business_id.in.(${businessIds.join(',')})`);
+      }
+
+      // Drafts and reports still under review stay with the accountant
+      const { data, error: fetchError } = await supabase
+        .from('reports')
+        .select('id, title, type, business_name, period_start, period_end, updated_at, published_at, published_version, data')
+        .eq('status', 'published')
+        .or(recipients.join(','))
+        .order('period_end', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      setReports((data || []).map(row => ({
+        ...row,
+        data: row.data as unknown as ReportData | null
+      })));
+    } catch (err: any) {
+      console.error('Error loading reports:', err);
+      setError(err.message || 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = (report: PublishedReport) => {
+    if (!report.data) return;
+
+    try {
+      downloadReportPdf(report.data, {
+        title: report.title,
+        businessName: report.business_name,
+        subtitle: report.published_version ? `Version ${report.published_version}` : undefined
+      });
+    } catch (err: any) {
+      console.error('Error downloading report:', err);
+      setError(err.message || 'Failed to download report');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Financial Reports</CardTitle>
+          <CardDescription>Statements published by your accountant</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reports.length === 0 ? (
+            <div className="text-center py-8">
+              <FileText className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No reports have been published yet</p>
+              <p className="text-sm text-gray-400">
+                Your accountant will publish statements here once they are reviewed
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {reports.map(report => (
+                <div
+                  key={report.id}
+                  className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-gray-900">{report.title}</p>
+                      <Badge variant="outline">{reportTypeLabels[report.type] || report.type}</Badge>
+                      {report.published_version && (
+                        <Badge variant="secondary">Version {report.published_version}</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {report.business_name}
+                      {report.period_start && report.period_end && (
+                        <> • {formatDate(report.period_start)} – {formatDate(report.period_end)}</>
+                      )}
+                      {report.published_at && <> • Published {formatDate(report.published_at)}</>}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setSelectedReport(report)}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      View
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownload(report)}
+                      disabled={!report.data}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      PDF
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedReport} onOpenChange={() => setSelectedReport(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedReport?.title}</DialogTitle>
+            {selectedReport?.published_version && (
+              <DialogDescription>
+                Version {selectedReport.published_version}
+                {selectedReport.published_at && `, published ${formatDate(selectedReport.published_at)}`}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {selectedReport?.data && (
+            <div className="flex justify-end">
+              <Button size="sm" variant="outline" onClick={() => handleDownload(selectedReport)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </Button>
+            </div>
+          )}
+          {selectedReport && (
+            <ReportViewer data={selectedReport.data} businessName={selectedReport.business_name} title={selectedReport.title} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
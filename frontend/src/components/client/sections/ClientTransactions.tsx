@@ -1,6 +1,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts, getAccountLabel } from '@/lib/accounts';
+import { fetchPeriodCloses, findClosedPeriod } from '@/lib/periods';
+import { fetchReconciledTransactionIds } from '@/lib/reconciliation';
+import { categorizeTransaction, fetchCategorizationRules } from '@/lib/categorization';
+import { BankImportModal } from '@/components/modals/BankImportModal';
+import { CategorizationRulesModal } from '@/components/modals/CategorizationRulesModal';
+import { SplitTransactionModal } from '@/components/modals/SplitTransactionModal';
+import { SPLIT_CATEGORY, isSplitCategory } from '@/lib/splits';
+import type { Account, CategorizationRule, PeriodClose } from '@/types';
 import { 
   Card, 
   CardContent, 
@@ -38,7 +47,11 @@ import {
   Calendar,
   DollarSign,
   Tag,
-  Search
+  Search,
+  Lock,
+  Upload,
+  Wand2,
+  Split
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
@@ -50,6 +63,7 @@ interface Transaction {
   description: string;
   category: string;
   date: string;
+  account_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -67,9 +81,15 @@ interface TransactionFormData {
   description: string;
   category: string;
   date: string;
+  account_id: string;
 }
 
+// Select value for transactions posted to the business's default account
+const DEFAULT_ACCOUNT = 'default';
+
 const EXPENSE_CATEGORIES = [
+  'Cost of Goods Sold',
+  'Inventory Purchases',
   'Office Rent',
   'Utilities',
   'Software Subscriptions',
@@ -98,6 +118,10 @@ export const ClientTransactions: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [periodCloses, setPeriodCloses] = useState<PeriodClose[]>([]);
+  const [reconciledIds, setReconciledIds] = useState<Set<string>>(new Set());
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -113,6 +137,9 @@ export const ClientTransactions: React.FC = () => {
 
   // Modal states
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isRulesModalOpen, setIsRulesModalOpen] = useState(false);
+  const [splittingTransaction, setSplittingTransaction] = useState<Transaction | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   
@@ -122,7 +149,8 @@ export const ClientTransactions: React.FC = () => {
     amount: '',
     description: '',
     category: '',
-    date: new Date().toISOString().split('T')[0]
+    date: new Date().toISOString().split('T')[0],
+    account_id: DEFAULT_ACCOUNT
   });
 
   // Load user businesses on mount
@@ -151,6 +179,10 @@ export const ClientTransactions: React.FC = () => {
   useEffect(() => {
     if (selectedBusiness?.id) {
       loadTransactions();
+      loadAccounts();
+      loadPeriodCloses();
+      loadReconciledIds();
+      loadRules();
     }
     // Remove the problematic loading dependency that was causing loops
   }, [selectedBusiness?.id]);
@@ -272,6 +304,63 @@ export const ClientTransactions: React.FC = () => {
     }
   };
 
+  const loadAccounts = async () => {
+    if (!selectedBusiness?.id) return;
+
+    try {
+      // Money moves through asset and liability accounts; the category picks the
+      // income or expense account the ledger posts the other side of the entry to
+      const businessAccounts = await fetchBusinessAccounts(selectedBusiness.id);
+      setAccounts(businessAccounts.filter(account => account.type === 'asset' || account.type === 'liability'));
+    } catch (err: any) {
+      // Accounts are optional; transactions fall back to the default account
+      console.error('Error loading accounts:', err);
+      setAccounts([]);
+    }
+  };
+
+  const loadPeriodCloses = async () => {
+    if (!selectedBusiness?.id) return;
+
+    try {
+      setPeriodCloses(await fetchPeriodCloses(selectedBusiness.id));
+    } catch (err: any) {
+      // The database still rejects changes in closed periods
+      console.error('Error loading closed periods:', err);
+      setPeriodCloses([]);
+    }
+  };
+
+  const loadReconciledIds = async () => {
+    if (!selectedBusiness?.id) return;
+
+    try {
+      setReconciledIds(await fetchReconciledTransactionIds(selectedBusiness.id));
+    } catch (err: any) {
+      // The database still rejects changes to reconciled transactions
+      console.error('Error loading reconciled transactions:', err);
+      setReconciledIds(new Set());
+    }
+  };
+
+  const loadRules = async () => {
+    if (!selectedBusiness?.id) return;
+
+    try {
+      setRules(await fetchCategorizationRules({ businessId: selectedBusiness.id }));
+    } catch (err: any) {
+      // Without rules, transactions are saved with the category entered
+      console.error('Error loading categorization rules:', err);
+      setRules([]);
+    }
+  };
+
+  const getLockReason = (transaction: Transaction): string | null => {
+    if (findClosedPeriod(periodCloses, transaction.date)) return 'Closed';
+    if (reconciledIds.has(transaction.id)) return 'Reconciled';
+    return null;
+  };
+
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedBusiness?.id) return;
@@ -282,13 +371,23 @@ export const ClientTransactions: React.FC = () => {
         throw new Error('Please enter a valid amount');
       }
 
+      if (findClosedPeriod(periodCloses, formData.date) ||
+          (editingTransaction && findClosedPeriod(periodCloses, editingTransaction.date))) {
+        throw new Error('This period has been closed by your accountant and can no longer be changed');
+      }
+
+      if (editingTransaction && reconciledIds.has(editingTransaction.id)) {
+        throw new Error('This transaction has been reconciled and can only be changed by your accountant');
+      }
+
       const transactionData = {
         business_id: selectedBusiness.id,
         type: formData.type,
         amount: formData.type === 'expense' ? -Math.abs(amount) : Math.abs(amount),
         description: formData.description.trim(),
         category: formData.category,
-        date: formData.date
+        date: formData.date,
+        account_id: formData.account_id === DEFAULT_ACCOUNT ? null : formData.account_id
       };
 
       if (editingTransaction) {
@@ -305,10 +404,17 @@ export const ClientTransactions: React.FC = () => {
         setIsEditModalOpen(false);
         setEditingTransaction(null);
       } else {
-        // Create new transaction
+        // New transactions pick up tags and notes from the first matching rule,
+        // and its category when none was chosen
+        const result = categorizeTransaction(rules, transactionData);
         const { error } = await supabase
           .from('transactions')
-          .insert(transactionData);
+          .insert({
+            ...transactionData,
+            category: transactionData.category || result?.category || '',
+            tags: result?.tags || [],
+            notes: result?.notes || null
+          });
 
         if (error) throw error;
         setIsAddModalOpen(false);
@@ -320,7 +426,8 @@ export const ClientTransactions: React.FC = () => {
         amount: '',
         description: '',
         category: '',
-        date: new Date().toISOString().split('T')[0]
+        date: new Date().toISOString().split('T')[0],
+        account_id: DEFAULT_ACCOUNT
       });
 
       // Reload transactions
@@ -329,7 +436,7 @@ export const ClientTransactions: React.FC = () => {
       console.error('Error saving transaction:', err);
       setError(err.message || 'Failed to save transaction');
     }
-  }, [selectedBusiness, formData, editingTransaction, loadTransactions]);
+  }, [selectedBusiness, formData, editingTransaction, periodCloses, reconciledIds, rules, loadTransactions]);
 
   const handleEdit = (transaction: Transaction) => {
     setEditingTransaction(transaction);
@@ -338,7 +445,8 @@ export const ClientTransactions: React.FC = () => {
       amount: Math.abs(transaction.amount).toString(),
       description: transaction.description,
       category: transaction.category,
-      date: transaction.date
+      date: transaction.date,
+      account_id: transaction.account_id || DEFAULT_ACCOUNT
     });
     setIsEditModalOpen(true);
   };
@@ -410,7 +518,11 @@ export const ClientTransactions: React.FC = () => {
       <div className="grid grid-cols-2 gap-4">
         <div>
           <Label htmlFor="type">Type</Label>
-          <Select value={formData.type} onValueChange={(value: 'income' | 'expense') => setFormData(prev => ({ ...prev, type: value, category: '' }))}>
+          <Select
+            value={formData.type}
+            disabled={isSplitCategory(formData.category)}
+            onValueChange={(value: 'income' | 'expense') => setFormData(prev => ({ ...prev, type: value, category: '' }))}
+          >
             <SelectTrigger>
               <SelectValue placeholder="Select type" />
             </SelectTrigger>
@@ -429,12 +541,16 @@ export const ClientTransactions: React.FC = () => {
             min="0"
             placeholder="0.00"
             value={formData.amount}
+            disabled={isSplitCategory(formData.category)}
             onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
             required
             autoFocus={false}
           />
         </div>
       </div>
+      {isSplitCategory(formData.category) && (
+        <p className="text-xs text-gray-500">This transaction is split. Remove the split to change its type, amount or category.</p>
+      )}
 
       <div>
         <Label htmlFor="description">Description</Label>
@@ -450,16 +566,26 @@ export const ClientTransactions: React.FC = () => {
       <div className="grid grid-cols-2 gap-4">
         <div>
           <Label htmlFor="category">Category</Label>
-          <Select value={formData.category} onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}>
+          <Select
+            value={formData.category}
+            disabled={isSplitCategory(formData.category)}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+          >
             <SelectTrigger>
               <SelectValue placeholder="Select category" />
             </SelectTrigger>
             <SelectContent>
+              {isSplitCategory(formData.category) && (
+                <SelectItem value={SPLIT_CATEGORY}>{SPLIT_CATEGORY}</SelectItem>
+              )}
               {(formData.type === 'income' ? INCOME_CATEGORIES : EXPENSE_CATEGORIES).map(category => (
                 <SelectItem key={category} value={category}>{category}</SelectItem>
               ))}
             </SelectContent>
           </Select>
+          {!editingTransaction && rules.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">Leave empty to categorize with your rules</p>
+          )}
         </div>
         <div>
           <Label htmlFor="date">Date</Label>
@@ -473,13 +599,30 @@ export const ClientTransactions: React.FC = () => {
         </div>
       </div>
 
+      {accounts.length > 0 && (
+        <div>
+          <Label htmlFor="account">{formData.type === 'income' ? 'Deposited To' : 'Paid From'}</Label>
+          <Select value={formData.account_id} onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value }))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_ACCOUNT}>Default account</SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{getAccountLabel(account)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <DialogFooter>
         <Button type="submit" className="w-full">
           {editingTransaction ? 'Update Transaction' : 'Add Transaction'}
         </Button>
       </DialogFooter>
     </form>
-  ), [formData, handleSubmit, editingTransaction]);
+  ), [formData, handleSubmit, editingTransaction, accounts, rules]);
 
   if (loading && !isInitialized) {
     return (
@@ -525,23 +668,33 @@ export const ClientTransactions: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Transactions</h1>
           <p className="text-gray-600">Manage your income and expenses for {selectedBusiness.name}</p>
         </div>
-        <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-blue-600 hover:bg-blue-700">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Transaction
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Add New Transaction</DialogTitle>
-              <DialogDescription>
-                Add a new income or expense transaction to your business.
-              </DialogDescription>
-            </DialogHeader>
-            {TransactionForm}
-          </DialogContent>
-        </Dialog>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsRulesModalOpen(true)}>
+            <Wand2 className="h-4 w-4 mr-2" />
+            Rules
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Statement
+          </Button>
+          <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-blue-600 hover:bg-blue-700">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Transaction
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Add New Transaction</DialogTitle>
+                <DialogDescription>
+                  Add a new income or expense transaction to your business.
+                </DialogDescription>
+              </DialogHeader>
+              {TransactionForm}
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -699,24 +852,40 @@ export const ClientTransactions: React.FC = () => {
                     <div className={`text-lg font-semibold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
                       {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
                     </div>
-                    <div className="flex space-x-1">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEdit(transaction)}
-                        className="h-8 w-8 p-0"
-                      >
-                        <Edit2 className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDelete(transaction.id)}
-                        className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    {getLockReason(transaction) ? (
+                      <div className="flex items-center text-xs text-gray-500">
+                        <Lock className="h-4 w-4 mr-1" />
+                        {getLockReason(transaction)}
+                      </div>
+                    ) : (
+                      <div className="flex space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Split across categories"
+                          onClick={() => setSplittingTransaction(transaction)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Split className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(transaction)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(transaction.id)}
+                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -737,6 +906,33 @@ export const ClientTransactions: React.FC = () => {
           {TransactionForm}
         </DialogContent>
       </Dialog>
+
+      <BankImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        defaultBook={{ businessId: selectedBusiness.id }}
+        onImported={loadTransactions}
+      />
+
+      <SplitTransactionModal
+        isOpen={!!splittingTransaction}
+        onClose={() => setSplittingTransaction(null)}
+        transaction={splittingTransaction}
+        categories={splittingTransaction?.type === 'income' ? INCOME_CATEGORIES : EXPENSE_CATEGORIES}
+        onSaved={loadTransactions}
+      />
+
+      <CategorizationRulesModal
+        isOpen={isRulesModalOpen}
+        onClose={() => {
+          setIsRulesModalOpen(false);
+          loadRules();
+        }}
+        book={{ businessId: selectedBusiness.id }}
+        bookName={selectedBusiness.name}
+        categories={[...INCOME_CATEGORIES, ...EXPENSE_CATEGORIES]}
+        onApplied={loadTransactions}
+      />
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,14 +1,20 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLocation, Link } from 'react-router-dom';
 import { DashboardLayout } from './DashboardLayout';
+import { NotificationsMenu } from '@/components/ui/notifications-menu';
+import { generateScheduledReports } from '@/lib/reportSchedules';
 import { cn } from '@/lib/utils';
 import {
   BarChart3,
   Users,
   CheckSquare,
   FileText,
-  Briefcase
+  BookOpen,
+  Scale,
+  Briefcase,
+  Receipt,
+  CalendarClock
 } from 'lucide-react';
 
 interface AccountantLayoutProps {
@@ -46,12 +52,45 @@ const navigation: NavItem[] = [
     href: '/accountant/reports',
     icon: FileText,
     description: 'Generate and review reports'
+  },
+  {
+    name: 'Journal',
+    href: '/accountant/journal',
+    icon: BookOpen,
+    description: 'Post manual and adjusting journal entries'
+  },
+  {
+    name: 'Reconciliation',
+    href: '/accountant/reconciliation',
+    icon: Scale,
+    description: 'Reconcile bank and card accounts to statements'
+  },
+  {
+    name: 'Receivables',
+    href: '/accountant/receivables',
+    icon: Receipt,
+    description: 'Aging of unpaid client invoices'
+  },
+  {
+    name: 'Payables',
+    href: '/accountant/payables',
+    icon: CalendarClock,
+    description: 'Aging of unpaid client bills'
   }
 ];
 
 export const AccountantLayout: React.FC<AccountantLayoutProps> = ({ children }) => {
   const { user } = useAuth();
   const location = useLocation();
+  const [scheduleRun, setScheduleRun] = useState(0);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    // Create the scheduled reports that came due since the last visit
+    generateScheduledReports()
+      .catch(err => console.error('Error generating scheduled reports:', err))
+      .finally(() => setScheduleRun(run => run + 1));
+  }, [user?.id]);
 
   const getCurrentSectionName = () => {
     const currentPath = location.pathname;
@@ -62,7 +101,11 @@ export const AccountantLayout: React.FC<AccountantLayoutProps> = ({ children })
   const subtitle = `Manage clients and financial operations • ${user?.email}`;
 
   return (
-    <DashboardLayout title="Accountant Dashboard" subtitle={subtitle}>
+    <DashboardLayout
+      title="Accountant Dashboard"
+      subtitle={subtitle}
+      actions={<NotificationsMenu refreshKey={scheduleRun} />}
+    >
       <div className="flex gap-8">
         {/* Sidebar Navigation */}
         <div className="w-64 flex-shrink-0">
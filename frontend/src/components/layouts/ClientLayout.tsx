@@ -13,7 +13,9 @@ import {
   Building,
   Activity,
   DollarSign,
-  FileText
+  FileText,
+  Receipt,
+  CalendarClock
 } from 'lucide-react';
 
 interface ClientLayoutProps {
@@ -46,6 +48,18 @@ const navigation: NavItem[] = [
     icon: Activity,
     description: 'View and manage financial transactions'
   },
+  {
+    name: 'Invoices',
+    href: '/client/invoices',
+    icon: Receipt,
+    description: 'Bill customers and track receivables'
+  },
+  {
+    name: 'Bills',
+    href: '/client/bills',
+    icon: CalendarClock,
+    description: 'Approve, schedule and pay vendor bills'
+  },
   {
     name: 'Documents',
     href: '/client/documents',
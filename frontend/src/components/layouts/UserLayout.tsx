@@ -10,9 +10,14 @@ import {
   Target,
   PieChart,
   Upload,
+  FileText,
   Settings,
   User,
-  Wallet
+  Wallet,
+  Landmark,
+  CreditCard,
+  Receipt,
+  CalendarClock
 } from 'lucide-react';
 
 interface UserLayoutProps {
@@ -45,18 +50,54 @@ const navigation: NavItem[] = [
     icon: Target,
     description: 'Create and track financial goals'
   },
+  {
+    name: 'Budgets',
+    href: '/user/budgets',
+    icon: Wallet,
+    description: 'Set spending limits and track them by category'
+  },
+  {
+    name: 'Net Worth',
+    href: '/user/net-worth',
+    icon: Landmark,
+    description: 'Track your accounts, assets and debts over time'
+  },
+  {
+    name: 'Debt Payoff',
+    href: '/user/debts',
+    icon: CreditCard,
+    description: 'Plan how to pay down credit cards and loans'
+  },
   {
     name: 'Analytics',
     href: '/user/analytics',
     icon: PieChart,
     description: 'Personal finance analytics and insights'
   },
+  {
+    name: 'Invoices',
+    href: '/user/invoices',
+    icon: Receipt,
+    description: 'Bill customers and track what your business is owed'
+  },
+  {
+    name: 'Bills',
+    href: '/user/bills',
+    icon: CalendarClock,
+    description: 'Approve, schedule and pay vendor bills'
+  },
   {
     name: 'Documents',
     href: '/user/documents',
     icon: Upload,
     description: 'Upload receipts and financial documents'
   },
+  {
+    name: 'Reports',
+    href: '/user/reports',
+    icon: FileText,
+    description: 'Financial statements published by your accountant'
+  },
   {
     name: 'Settings',
     href: '/user/settings',
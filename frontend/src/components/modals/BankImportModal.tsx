@@ -0,0 +1,664 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts, fetchUserAccounts, getAccountLabel } from '@/lib/accounts';
+import {
+  STATEMENT_DATE_FORMATS,
+  applyCsvMapping,
+  categorizeStatementRow,
+  deleteImportProfile,
+  detectDelimiter,
+  detectStatementFormat,
+  fetchExistingTransactions,
+  fetchImportProfiles,
+  findDuplicateRows,
+  guessCsvMapping,
+  importStatementRows,
+  parseCsv,
+  parseOfx,
+  saveImportProfile
+} from '@/lib/bankImport';
+import type { StatementParseResult } from '@/lib/bankImport';
+import { fetchCategorizationRules } from '@/lib/categorization';
+import type { LedgerBook } from '@/lib/ledger';
+import { fetchPeriodCloses, findClosedPeriod } from '@/lib/periods';
+import { formatCurrency, formatDate } from '@/types';
+import type {
+  Account,
+  BankImportProfile,
+  CategorizationRule,
+  CsvColumnMapping,
+  PeriodClose,
+  StatementDateFormat,
+  StatementFormat,
+  StatementRow
+} from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, CheckCircle, FileSpreadsheet, Loader2, Save, Trash2, Upload } from 'lucide-react';
+
+interface BankImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialFile?: File | null;
+  defaultBook?: LedgerBook;
+  onImported?: (count: number) => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+interface PreviewRow extends StatementRow {
+  duplicate: boolean;
+  locked: boolean; // dated in a closed period
+  include: boolean;
+  category: string | null; // assigned by a categorization rule
+}
+
+interface OwnedBusiness {
+  id: string;
+  name: string;
+}
+
+const PERSONAL_BOOK = 'personal';
+const NONE = 'none';
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+export const BankImportModal: React.FC<BankImportModalProps> = ({
+  isOpen,
+  onClose,
+  initialFile,
+  defaultBook,
+  onImported
+}) => {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [profiles, setProfiles] = useState<BankImportProfile[]>([]);
+  const [profileName, setProfileName] = useState('');
+  const [businesses, setBusinesses] = useState<OwnedBusiness[]>([]);
+  const [target, setTarget] = useState(PERSONAL_BOOK);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState(NONE);
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const book: LedgerBook = target === PERSONAL_BOOK ? { userId: user?.id } : { businessId: target };
+  const table = format === 'csv' && mapping ? parseCsv(content, mapping.delimiter) : [];
+
+  useEffect(() => {
+    if (isOpen && user?.id) {
+      resetWizard();
+      loadBusinesses();
+      loadProfiles();
+      if (initialFile) {
+        readFile(initialFile);
+      }
+    }
+  }, [isOpen, user?.id, initialFile]);
+
+  useEffect(() => {
+    if (isOpen && user?.id) {
+      loadAccounts();
+      // Duplicates and closed periods depend on the book being imported into
+      if (step === 'preview') {
+        handleContinue();
+      }
+    }
+  }, [isOpen, user?.id, target]);
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setContent('');
+    setMapping(null);
+    setProfileName('');
+    setTarget(defaultBook?.businessId || PERSONAL_BOOK);
+    setAccountId(NONE);
+    setRows([]);
+    setRules([]);
+    setParseErrors([]);
+    setImportedCount(0);
+    setError(null);
+  };
+
+  const loadBusinesses = async () => {
+    const { data, error: businessError } = await supabase
+      .from('businesses')
+      .select('id, name')
+      .eq('owner_id', user!.id)
+      .order('name');
+
+    if (businessError) {
+      console.warn('Could not load businesses:', businessError);
+      return;
+    }
+
+    // Accountants importing for a client business may not own it
+    const owned = data || [];
+    if (defaultBook?.businessId && !owned.some(b => b.id === defaultBook.businessId)) {
+      const { data: client } = await supabase
+        .from('businesses')
+        .select('id, name')
+        .eq('id', defaultBook.businessId)
+        .single();
+      if (client) owned.unshift(client);
+    }
+    setBusinesses(owned);
+  };
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await fetchImportProfiles(user!.id));
+    } catch (err) {
+      console.warn('Could not load import profiles:', err);
+      setProfiles([]);
+    }
+  };
+
+  const loadAccounts = async () => {
+    try {
+      const bookAccounts = target === PERSONAL_BOOK
+        ? await fetchUserAccounts(user!.id)
+        : await fetchBusinessAccounts(target);
+      // Statements come from bank and card accounts
+      setAccounts(bookAccounts.filter(account => account.type === 'asset' || account.type === 'liability'));
+    } catch (err) {
+      console.warn('Could not load accounts:', err);
+      setAccounts([]);
+    }
+    setAccountId(NONE);
+  };
+
+  const readFile = async (file: File) => {
+    try {
+      setError(null);
+      const text = await file.text();
+      const statementFormat = detectStatementFormat(file.name, text);
+
+      setFileName(file.name);
+      setContent(text);
+      setFormat(statementFormat);
+
+      if (statementFormat === 'csv') {
+        const delimiter = detectDelimiter(text);
+        setMapping(guessCsvMapping(parseCsv(text, delimiter), delimiter));
+        setStep('mapping');
+      } else {
+        await buildPreview(parseOfx(text));
+      }
+    } catch (err: any) {
+      console.error('Error reading statement:', err);
+      setError(err.message || 'Failed to read the statement file');
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      readFile(file);
+    }
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const applyProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    const { id, user_id, name, created_at, updated_at, ...profileMapping } = profile;
+    setMapping(profileMapping);
+    setProfileName(name);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!mapping || !user?.id || !profileName.trim()) return;
+
+    try {
+      const saved = await saveImportProfile(user.id, profileName, mapping);
+      setProfiles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err: any) {
+      console.error('Error saving import profile:', err);
+      setError(err.message || 'Failed to save the bank profile');
+    }
+  };
+
+  const handleDeleteProfile = async (profileId: string) => {
+    try {
+      await deleteImportProfile(profileId);
+      setProfiles(prev => prev.filter(p => p.id !== profileId));
+    } catch (err: any) {
+      console.error('Error deleting import profile:', err);
+      setError(err.message || 'Failed to delete the bank profile');
+    }
+  };
+
+  const buildPreview = async (result: StatementParseResult) => {
+    setParseErrors(result.errors);
+
+    if (result.rows.length === 0) {
+      setError('No transactions could be read from this file');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+
+      const dates = result.rows.map(row => row.date).sort();
+      const [existing, closes, bookRules] = await Promise.all([
+        fetchExistingTransactions(book, dates[0], dates[dates.length - 1]),
+        book.businessId ? fetchPeriodCloses(book.businessId) : Promise.resolve([] as PeriodClose[]),
+        fetchCategorizationRules(book).catch(err => {
+          console.warn('Could not load categorization rules:', err);
+          return [] as CategorizationRule[];
+        })
+      ]);
+      const duplicates = findDuplicateRows(result.rows, existing);
+
+      setRules(bookRules);
+      setRows(result.rows.map((row, index) => {
+        const locked = !!findClosedPeriod(closes, row.date);
+        return {
+          ...row,
+          duplicate: duplicates[index],
+          locked,
+          include: !duplicates[index] && !locked,
+          category: categorizeStatementRow(row, bookRules)?.category || null
+        };
+      }));
+      setStep('preview');
+    } catch (err: any) {
+      console.error('Error checking for duplicates:', err);
+      setError(err.message || 'Failed to check for duplicate transactions');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (format === 'csv') {
+      if (!mapping) return;
+      buildPreview(applyCsvMapping(table, mapping));
+    } else {
+      buildPreview(parseOfx(content));
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setRows(prev => prev.map((row, i) => (i === index && !row.locked ? { ...row, include: !row.include } : row)));
+  };
+
+  const selectedRows = rows.filter(row => row.include);
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      const count = await importStatementRows(book, selectedRows, {
+        accountId: accountId === NONE ? null : accountId,
+        rules
+      });
+      setImportedCount(count);
+      setStep('done');
+      onImported?.(count);
+    } catch (err: any) {
+      console.error('Error importing transactions:', err);
+      setError(err.message || 'Failed to import transactions');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const columnOptions = (table[0] || []).map((name, index) => ({
+    value: index,
+    label: mapping?.has_header ? name || `Column ${index + 1}` : `Column ${index + 1} (${name})`
+  }));
+
+  const renderColumnSelect = (
+    id: string,
+    label: string,
+    value: number | null,
+    onChange: (value: number | null) => void,
+    optional = false
+  ) => (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className={selectClassName}
+      >
+        {optional && <option value="">Not used</option>}
+        {columnOptions.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+  const categorizedCount = rows.filter(row => row.include && row.category).length;
+  const lockedCount = rows.filter(row => row.locked).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            <span>Import Bank Statement</span>
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV, OFX or QFX export from your bank.'}
+            {step === 'mapping' && `Tell us which columns of ${fileName} hold the date, description and amount.`}
+            {step === 'preview' && `Review the transactions read from ${fileName} before importing them.`}
+            {step === 'done' && 'Import complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'upload' && (
+          <div
+            className="border-2 border-dashed border-gray-300 hover:border-blue-400 rounded-lg p-8 text-center cursor-pointer"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600 mb-2">Click to choose a statement file</p>
+            <p className="text-sm text-gray-500">Supports CSV, OFX and QFX</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.ofx,.qfx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4">
+            {profiles.length > 0 && (
+              <div className="border rounded-lg p-3 space-y-2">
+                <Label>Saved bank profiles</Label>
+                <div className="flex flex-wrap gap-2">
+                  {profiles.map(profile => (
+                    <div key={profile.id} className="flex items-center border rounded-md">
+                      <Button size="sm" variant="ghost" onClick={() => applyProfile(profile.id)}>
+                        {profile.name}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDeleteProfile(profile.id)}>
+                        <Trash2 className="h-3 w-3 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="delimiter">Delimiter</Label>
+                <select
+                  id="delimiter"
+                  value={mapping.delimiter}
+                  onChange={(e) => updateMapping({ delimiter: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value=",">Comma</option>
+                  <option value=";">Semicolon</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value="|">Pipe</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="dateFormat">Date Format</Label>
+                <select
+                  id="dateFormat"
+                  value={mapping.date_format}
+                  onChange={(e) => updateMapping({ date_format: e.target.value as StatementDateFormat })}
+                  className={selectClassName}
+                >
+                  {STATEMENT_DATE_FORMATS.map(dateFormat => (
+                    <option key={dateFormat.value} value={dateFormat.value}>{dateFormat.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col justify-end space-y-1 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={mapping.has_header}
+                    onChange={(e) => updateMapping({ has_header: e.target.checked })}
+                  />
+                  First row is a header
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={mapping.invert_amounts}
+                    onChange={(e) => updateMapping({ invert_amounts: e.target.checked })}
+                  />
+                  Charges are positive
+                </label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {renderColumnSelect('dateColumn', 'Date Column', mapping.date_column,
+                (value) => updateMapping({ date_column: value ?? 0 }))}
+              {renderColumnSelect('descriptionColumn', 'Description Column', mapping.description_column,
+                (value) => updateMapping({ description_column: value ?? 0 }))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {renderColumnSelect('amountColumn', 'Amount Column', mapping.amount_column,
+                (value) => updateMapping({ amount_column: value }), true)}
+              {renderColumnSelect('debitColumn', 'Money Out Column', mapping.debit_column,
+                (value) => updateMapping({ debit_column: value }), true)}
+              {renderColumnSelect('creditColumn', 'Money In Column', mapping.credit_column,
+                (value) => updateMapping({ credit_column: value }), true)}
+            </div>
+            <p className="text-xs text-gray-500">
+              Use a single signed amount column, or separate money out and money in columns.
+            </p>
+
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="w-full text-xs">
+                <tbody>
+                  {table.slice(0, 6).map((cells, rowIndex) => (
+                    <tr key={rowIndex} className={`border-t ${rowIndex === 0 && mapping.has_header ? 'bg-gray-50 font-medium' : ''}`}>
+                      {cells.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="p-2 whitespace-nowrap">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="profileName">Save mapping as bank profile</Label>
+                <Input
+                  id="profileName"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="e.g. Chase Checking"
+                />
+              </div>
+              <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Profile
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="importTarget">Import Into</Label>
+                <select
+                  id="importTarget"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value={PERSONAL_BOOK}>Personal transactions</option>
+                  {businesses.map(business => (
+                    <option key={business.id} value={business.id}>{business.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="importAccount">Bank Account</Label>
+                <select
+                  id="importAccount"
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value={NONE}>Default account</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{getAccountLabel(account)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="info">{rows.length} read</Badge>
+              {categorizedCount > 0 && <Badge variant="success">{categorizedCount} categorized by rules</Badge>}
+              {duplicateCount > 0 && <Badge variant="warning">{duplicateCount} already imported</Badge>}
+              {lockedCount > 0 && <Badge variant="secondary">{lockedCount} in closed periods</Badge>}
+              {parseErrors.length > 0 && <Badge variant="destructive">{parseErrors.length} unreadable</Badge>}
+            </div>
+
+            {parseErrors.length > 0 && (
+              <div className="text-xs text-red-600 space-y-1 max-h-20 overflow-y-auto">
+                {parseErrors.map(message => <p key={message}>{message}</p>)}
+              </div>
+            )}
+
+            <div className="border rounded-lg max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="w-10 p-2"></th>
+                    <th className="text-left p-2">Date</th>
+                    <th className="text-left p-2">Description</th>
+                    <th className="text-left p-2">Category</th>
+                    <th className="text-right p-2">Amount</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={row.external_id} className={`border-t ${row.include ? '' : 'text-gray-400'}`}>
+                      <td className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={row.include}
+                          disabled={row.locked}
+                          onChange={() => toggleRow(index)}
+                        />
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{formatDate(row.date)}</td>
+                      <td className="p-2">{row.description || '—'}</td>
+                      <td className={`p-2 ${row.category ? '' : 'text-gray-400'}`}>{row.category || 'Uncategorized'}</td>
+                      <td className={`p-2 text-right tabular-nums ${row.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(row.amount)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {row.locked ? (
+                          <Badge variant="secondary">Closed period</Badge>
+                        ) : row.duplicate && (
+                          <Badge variant="warning">Duplicate</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <p className="text-gray-900 font-medium">
+              Imported {importedCount} transaction{importedCount === 1 ? '' : 's'}
+            </p>
+            <p className="text-sm text-gray-500">
+              Transactions no rule matched are filed under "Uncategorized" until you categorize them.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'done' ? (
+            <Button onClick={onClose}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              {step !== 'upload' && (
+                <Button variant="outline" onClick={() => setStep(step === 'preview' && format === 'csv' ? 'mapping' : 'upload')}>
+                  Back
+                </Button>
+              )}
+              {step === 'mapping' && (
+                <Button onClick={handleContinue} disabled={working}>
+                  {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Preview
+                </Button>
+              )}
+              {step === 'preview' && (
+                <Button onClick={handleImport} disabled={working || selectedRows.length === 0}>
+                  {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {selectedRows.length} Transaction{selectedRows.length === 1 ? '' : 's'}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
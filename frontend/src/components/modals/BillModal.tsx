@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { saveBill, validateBill } from '@/lib/bills';
+import type { BillInput } from '@/lib/bills';
+import { PAYMENT_TERMS, getDueDate } from '@/lib/invoices';
+import { toISODate } from '@/lib/reports';
+import type { Bill, Vendor } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, Paperclip } from 'lucide-react';
+
+interface BillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  ownerId?: string;
+  userId: string;
+  vendors: Vendor[];
+  categories: string[];
+  bill?: Bill | null;
+  onSaved?: () => void;
+}
+
+interface SupportingDocument {
+  id: string;
+  filename: string;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+export const BillModal: React.FC<BillModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  ownerId,
+  userId,
+  vendors,
+  categories,
+  bill,
+  onSaved
+}) => {
+  const [vendorId, setVendorId] = useState('');
+  const [billNumber, setBillNumber] = useState('');
+  const [billDate, setBillDate] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [scheduledDate, setScheduledDate] = useState('');
+  const [category, setCategory] = useState('');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [documentIds, setDocumentIds] = useState<Set<string>>(new Set());
+  const [documents, setDocuments] = useState<SupportingDocument[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      if (bill) {
+        setVendorId(bill.vendor_id);
+        setBillNumber(bill.bill_number || '');
+        setBillDate(bill.bill_date);
+        setDueDate(bill.due_date);
+        setScheduledDate(bill.scheduled_payment_date || '');
+        setCategory(bill.category);
+        setAmount(String(bill.amount));
+        setDescription(bill.description || '');
+        setDocumentIds(new Set(bill.attachments.map(attachment => attachment.document_id)));
+      } else {
+        const today = toISODate(new Date());
+        setVendorId('');
+        setBillNumber('');
+        setBillDate(today);
+        setDueDate(getDueDate(today, 30));
+        setScheduledDate('');
+        setCategory('');
+        setAmount('');
+        setDescription('');
+        setDocumentIds(new Set());
+      }
+      setError(null);
+      loadDocuments();
+    }
+  }, [isOpen, bill]);
+
+  const loadDocuments = async () => {
+    // Client uploads are stored against the owner's id, accountant uploads against the business
+    const owners = [businessId, ownerId].filter(Boolean) as string[];
+    const { data, error: documentsError } = await supabase
+      .from('documents')
+      .select('id, filename')
+      .in('business_id', owners)
+      .order('created_at', { ascending: false });
+
+    if (documentsError) {
+      console.warn('Could not load supporting documents:', documentsError);
+      setDocuments([]);
+      return;
+    }
+    setDocuments(data || []);
+  };
+
+  // A vendor brings its usual terms and expense category
+  const handleVendorChange = (id: string) => {
+    setVendorId(id);
+    const vendor = vendors.find(v => v.id === id);
+    if (vendor) {
+      if (billDate) setDueDate(getDueDate(billDate, vendor.payment_terms_days));
+      if (vendor.default_category && !category) setCategory(vendor.default_category);
+    }
+  };
+
+  const handleBillDateChange = (date: string) => {
+    setBillDate(date);
+    const vendor = vendors.find(v => v.id === vendorId);
+    if (date) setDueDate(getDueDate(date, vendor?.payment_terms_days ?? 30));
+  };
+
+  const toggleDocument = (id: string) => {
+    setDocumentIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const input: BillInput = {
+      vendor_id: vendorId,
+      bill_number: billNumber,
+      bill_date: billDate,
+      due_date: dueDate,
+      scheduled_payment_date: scheduledDate || null,
+      category,
+      description,
+      amount: parseFloat(amount),
+      document_ids: [...documentIds]
+    };
+    const validationError = validateBill(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveBill(businessId, userId, input, bill?.id);
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving bill:', err);
+      setError(err.message || 'Failed to save bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const categoryOptions = category && !categories.includes(category) ? [category, ...categories] : categories;
+  const termsHint = PAYMENT_TERMS.find(term => term.days === vendors.find(v => v.id === vendorId)?.payment_terms_days);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{bill ? 'Edit Bill' : 'Enter Bill'}</DialogTitle>
+          <DialogDescription>
+            New bills wait for approval by a business owner or manager before they can be paid
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bill-vendor">Vendor *</Label>
+              <select
+                id="bill-vendor"
+                value={vendorId}
+                onChange={(e) => handleVendorChange(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Select a vendor</option>
+                {vendors.map(vendor => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+              {termsHint && <p className="text-xs text-gray-500 mt-1">Terms: {termsHint.label}</p>}
+            </div>
+            <div>
+              <Label htmlFor="bill-number">Vendor's Bill Number</Label>
+              <Input
+                id="bill-number"
+                value={billNumber}
+                onChange={(e) => setBillNumber(e.target.value)}
+                placeholder="Optional"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="bill-date">Bill Date *</Label>
+              <Input
+                id="bill-date"
+                type="date"
+                value={billDate}
+                onChange={(e) => handleBillDateChange(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="bill-due-date">Due Date *</Label>
+              <Input
+                id="bill-due-date"
+                type="date"
+                value={dueDate}
+                min={billDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="bill-scheduled-date">Pay On</Label>
+              <Input
+                id="bill-scheduled-date"
+                type="date"
+                value={scheduledDate}
+                min={billDate}
+                onChange={(e) => setScheduledDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bill-category">Expense Category *</Label>
+              <select
+                id="bill-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Select a category</option>
+                {categoryOptions.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="bill-amount">Amount *</Label>
+              <Input
+                id="bill-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bill-description">Description</Label>
+            <Textarea
+              id="bill-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the bill is for"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            {documents.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Upload the vendor's invoice in Documents to attach it here
+              </p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto border rounded-md divide-y">
+                {documents.map(document => (
+                  <label key={document.id} className="flex items-center gap-2 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={documentIds.has(document.id)}
+                      onChange={() => toggleDocument(document.id)}
+                    />
+                    <Paperclip className="h-3 w-3 text-gray-400" />
+                    {document.filename}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {bill ? 'Update Bill' : 'Save Bill'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,447 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import {
+  ACCOUNT_SUBTYPES,
+  ACCOUNT_TYPES,
+  BALANCE_SHEET_ACCOUNT_TYPES,
+  ensureChartOfAccounts,
+  fetchBusinessAccounts,
+  getAccountLabel,
+  getAccountSubtypeLabel,
+  sortChartOfAccounts
+} from '@/lib/accounts';
+import { formatCurrency } from '@/types';
+import type { Account, AccountType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  Edit,
+  Landmark,
+  Loader2,
+  Plus,
+  Power,
+  Star,
+  X
+} from 'lucide-react';
+
+interface BusinessAccountsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  businessName: string;
+}
+
+interface AccountFormData {
+  accountNumber: string;
+  name: string;
+  type: AccountType;
+  subtype: string;
+  parentId: string;
+  openingBalance: string;
+  openingBalanceDate: string;
+  isDefault: boolean;
+}
+
+const NO_PARENT = '';
+
+const emptyForm: AccountFormData = {
+  accountNumber: '',
+  name: '',
+  type: 'asset',
+  subtype: 'bank',
+  parentId: NO_PARENT,
+  openingBalance: '0',
+  openingBalanceDate: '',
+  isDefault: false
+};
+
+export const BusinessAccountsModal: React.FC<BusinessAccountsModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  businessName
+}) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [formData, setFormData] = useState<AccountFormData>(emptyForm);
+
+  useEffect(() => {
+    if (isOpen && businessId) {
+      loadAccounts();
+    }
+  }, [isOpen, businessId]);
+
+  const loadAccounts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // Make sure the business has the standard header accounts to post against
+      await ensureChartOfAccounts({ businessId });
+      setAccounts(await fetchBusinessAccounts(businessId, { includeInactive: true }));
+    } catch (err: any) {
+      console.error('Error loading accounts:', err);
+      setError(err.message || 'Failed to load accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAddForm = () => {
+    setEditingAccount(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const openEditForm = (account: Account) => {
+    setEditingAccount(account);
+    setFormData({
+      accountNumber: account.account_number || '',
+      name: account.name,
+      type: account.type,
+      subtype: account.subtype,
+      parentId: account.parent_id || NO_PARENT,
+      openingBalance: account.opening_balance.toString(),
+      openingBalanceDate: account.opening_balance_date || '',
+      isDefault: !!account.is_default
+    });
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleTypeChange = (type: AccountType) => {
+    setFormData(prev => ({
+      ...prev,
+      type,
+      subtype: ACCOUNT_SUBTYPES[type][0].value,
+      parentId: NO_PARENT,
+      // Only asset accounts can receive unassigned transactions
+      isDefault: type === 'asset' ? prev.isDefault : false
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      setError('Account name is required');
+      return;
+    }
+
+    const openingBalance = parseFloat(formData.openingBalance || '0');
+    if (isNaN(openingBalance)) {
+      setError('Opening balance must be a valid number');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Only one account can be the default per business
+      if (formData.isDefault) {
+        const { error: resetError } = await supabase
+          .from('accounts')
+          .update({ is_default: false })
+          .eq('business_id', businessId)
+          .eq('is_default', true);
+
+        if (resetError) throw resetError;
+      }
+
+      // Income and expense accounts start every period at zero
+      const carriesBalance = BALANCE_SHEET_ACCOUNT_TYPES.includes(formData.type);
+      const accountData = {
+        business_id: businessId,
+        account_number: formData.accountNumber.trim() || null,
+        name: formData.name.trim(),
+        type: formData.type,
+        subtype: formData.subtype,
+        parent_id: formData.parentId || null,
+        opening_balance: carriesBalance ? openingBalance : 0,
+        opening_balance_date: carriesBalance ? formData.openingBalanceDate || null : null,
+        is_default: formData.isDefault
+      };
+
+      if (editingAccount) {
+        const { error: updateError } = await supabase
+          .from('accounts')
+          .update(accountData)
+          .eq('id', editingAccount.id);
+
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from('accounts')
+          .insert(accountData);
+
+        if (insertError) throw insertError;
+      }
+
+      setShowForm(false);
+      setEditingAccount(null);
+      await loadAccounts();
+    } catch (err: any) {
+      console.error('Error saving account:', err);
+      setError(err.message || 'Failed to save account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async (account: Account) => {
+    try {
+      setError(null);
+      const { error: statusError } = await supabase
+        .from('accounts')
+        .update({
+          status: account.status === 'inactive' ? 'active' : 'inactive',
+          is_default: false
+        })
+        .eq('id', account.id);
+
+      if (statusError) throw statusError;
+      await loadAccounts();
+    } catch (err: any) {
+      console.error('Error updating account status:', err);
+      setError(err.message || 'Failed to update account');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Landmark className="h-5 w-5" />
+            <span>Chart of Accounts</span>
+          </DialogTitle>
+          <DialogDescription>
+            Ledger accounts for {businessName}. Transactions post to these accounts as balanced
+            journal entries; opening balances must balance (assets = liabilities + equity)
+            for the balance sheet to tie out.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {ACCOUNT_TYPES.map(({ value: type, label }) => {
+              const accountsOfType = sortChartOfAccounts(accounts.filter(a => a.type === type));
+              return (
+                <div key={type}>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">{label} Accounts</h4>
+                  {accountsOfType.length === 0 ? (
+                    <p className="text-sm text-gray-400 pl-2">None yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {accountsOfType.map(({ account, depth }) => (
+                        <div
+                          key={account.id}
+                          className={`flex items-center justify-between p-3 rounded-lg ${
+                            account.status === 'inactive' ? 'bg-gray-100 opacity-60' : 'bg-gray-50'
+                          }`}
+                          style={{ marginLeft: depth * 24 }}
+                        >
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium text-gray-900">{getAccountLabel(account)}</p>
+                              {account.is_default && (
+                                <Badge variant="info">
+                                  <Star className="h-3 w-3 mr-1" />
+                                  Default
+                                </Badge>
+                              )}
+                              {account.status === 'inactive' && (
+                                <Badge variant="outline">Inactive</Badge>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {getAccountSubtypeLabel(account.type, account.subtype)}
+                              {account.opening_balance_date && ` • opening as of ${account.opening_balance_date}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {BALANCE_SHEET_ACCOUNT_TYPES.includes(account.type) && (
+                              <span className="text-sm font-medium tabular-nums">
+                                {formatCurrency(account.opening_balance)}
+                              </span>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => openEditForm(account)}>
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleToggleStatus(account)}>
+                              <Power className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {showForm ? (
+              <div className="border rounded-lg p-4 space-y-4">
+                <h4 className="font-medium text-gray-900">
+                  {editingAccount ? 'Edit Account' : 'New Account'}
+                </h4>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="accountNumber">Number</Label>
+                    <Input
+                      id="accountNumber"
+                      value={formData.accountNumber}
+                      onChange={(e) => setFormData(prev => ({ ...prev, accountNumber: e.target.value }))}
+                      placeholder="1010"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor="accountName">Account Name *</Label>
+                    <Input
+                      id="accountName"
+                      value={formData.name}
+                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="Business Checking"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="accountType">Type</Label>
+                    <select
+                      id="accountType"
+                      value={formData.type}
+                      onChange={(e) => handleTypeChange(e.target.value as AccountType)}
+                      className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                    >
+                      {ACCOUNT_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="accountSubtype">Subtype</Label>
+                    <select
+                      id="accountSubtype"
+                      value={formData.subtype}
+                      onChange={(e) => setFormData(prev => ({ ...prev, subtype: e.target.value }))}
+                      className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                    >
+                      {ACCOUNT_SUBTYPES[formData.type].map(subtype => (
+                        <option key={subtype.value} value={subtype.value}>{subtype.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="accountParent">Parent Account</Label>
+                  <select
+                    id="accountParent"
+                    value={formData.parentId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, parentId: e.target.value }))}
+                    className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={NO_PARENT}>None (top level)</option>
+                    {accounts
+                      .filter(a => a.type === formData.type && a.id !== editingAccount?.id)
+                      .map(a => (
+                        <option key={a.id} value={a.id}>{getAccountLabel(a)}</option>
+                      ))}
+                  </select>
+                </div>
+                {BALANCE_SHEET_ACCOUNT_TYPES.includes(formData.type) && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="openingBalance">Opening Balance</Label>
+                      <Input
+                        id="openingBalance"
+                        type="number"
+                        step="0.01"
+                        value={formData.openingBalance}
+                        onChange={(e) => setFormData(prev => ({ ...prev, openingBalance: e.target.value }))}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="openingBalanceDate">Balance As Of</Label>
+                      <Input
+                        id="openingBalanceDate"
+                        type="date"
+                        value={formData.openingBalanceDate}
+                        onChange={(e) => setFormData(prev => ({ ...prev, openingBalanceDate: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                )}
+                {formData.type === 'asset' && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="isDefault">Default account</Label>
+                      <p className="text-xs text-gray-500">
+                        Transactions without an account are posted here
+                      </p>
+                    </div>
+                    <Switch
+                      id="isDefault"
+                      checked={formData.isDefault}
+                      onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isDefault: checked }))}
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setShowForm(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {editingAccount ? 'Save Account' : 'Add Account'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={openAddForm} className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Account
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { fetchBusinessAccounts } from '@/lib/accounts';
+import { deleteBusinessBudget, fetchBusinessBudgets, saveBusinessBudget } from '@/lib/reportComparisons';
+import { formatCurrency, formatDate } from '@/types';
+import type { BusinessBudget } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  Loader2,
+  PiggyBank,
+  Plus,
+  Trash2,
+  X
+} from 'lucide-react';
+
+interface BusinessBudgetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  businessName: string;
+  userId?: string;
+}
+
+interface BudgetFormData {
+  category: string;
+  periodStart: string;
+  periodEnd: string;
+  amount: string;
+}
+
+// New budgets default to the current calendar year
+const emptyForm = (): BudgetFormData => {
+  const year = new Date().getFullYear();
+  return { category: '', periodStart: `${year}-01-01`, periodEnd: `${year}-12-31`, amount: '' };
+};
+
+export const BusinessBudgetsModal: React.FC<BusinessBudgetsModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  businessName,
+  userId
+}) => {
+  const [budgets, setBudgets] = useState<BusinessBudget[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<BudgetFormData>(emptyForm);
+
+  useEffect(() => {
+    if (isOpen && businessId) {
+      loadBudgets();
+    }
+  }, [isOpen, businessId]);
+
+  const loadBudgets = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [budgetRows, accounts] = await Promise.all([
+        fetchBusinessBudgets(businessId),
+        fetchBusinessAccounts(businessId)
+      ]);
+      setBudgets(budgetRows);
+      // Profit & loss lines are named after income and expense accounts
+      setCategories(accounts
+        .filter(account => account.type === 'income' || account.type === 'expense')
+        .map(account => account.name));
+    } catch (err: any) {
+      console.error('Error loading budgets:', err);
+      setError(err.message || 'Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAddForm = () => {
+    setFormData(emptyForm());
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    const amount = parseFloat(formData.amount);
+    if (isNaN(amount)) {
+      setError('Budget amount must be a valid number');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveBusinessBudget(businessId, userId, {
+        category: formData.category,
+        period_start: formData.periodStart,
+        period_end: formData.periodEnd,
+        amount
+      });
+      setShowForm(false);
+      await loadBudgets();
+    } catch (err: any) {
+      console.error('Error saving budget:', err);
+      setError(err.message || 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: BusinessBudget) => {
+    if (!confirm(`Delete the ${budget.category} budget?`)) return;
+
+    try {
+      setError(null);
+      await deleteBusinessBudget(budget.id);
+      await loadBudgets();
+    } catch (err: any) {
+      console.error('Error deleting budget:', err);
+      setError(err.message || 'Failed to delete budget');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <PiggyBank className="h-5 w-5" />
+            <span>Budgets</span>
+          </DialogTitle>
+          <DialogDescription>
+            Planned amounts for {businessName}, by profit & loss line. Budget columns on
+            reports prorate each budget to the days it shares with the report period.
+            Saving a budget for a line and start date that already has one replaces it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {budgets.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-4">No budgets yet</p>
+            ) : (
+              <div className="space-y-2">
+                {budgets.map(budget => (
+                  <div key={budget.id} className="flex items-center justify-between p-3 rounded-lg bg-gray-50">
+                    <div>
+                      <p className="font-medium text-gray-900">{budget.category}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(budget.period_start)} – {formatDate(budget.period_end)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium tabular-nums">{formatCurrency(budget.amount)}</span>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(budget)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {showForm ? (
+              <div className="border rounded-lg p-4 space-y-4">
+                <h4 className="font-medium text-gray-900">New Budget</h4>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <Label htmlFor="budgetCategory">Line *</Label>
+                    <Input
+                      id="budgetCategory"
+                      list="budgetCategories"
+                      value={formData.category}
+                      onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+                      placeholder="Sales Revenue"
+                    />
+                    <datalist id="budgetCategories">
+                      {categories.map(category => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div>
+                    <Label htmlFor="budgetAmount">Amount *</Label>
+                    <Input
+                      id="budgetAmount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="budgetStart">Period Start *</Label>
+                    <Input
+                      id="budgetStart"
+                      type="date"
+                      value={formData.periodStart}
+                      onChange={(e) => setFormData(prev => ({ ...prev, periodStart: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="budgetEnd">Period End *</Label>
+                    <Input
+                      id="budgetEnd"
+                      type="date"
+                      value={formData.periodEnd}
+                      onChange={(e) => setFormData(prev => ({ ...prev, periodEnd: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setShowForm(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving || !userId}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save Budget
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={openAddForm} className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Budget
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,577 @@
+import React, { useState, useEffect } from 'react';
+import {
+  RULE_DESCRIPTION_OPERATORS,
+  applyRuleToTransactions,
+  deleteCategorizationRule,
+  fetchCategorizationHistory,
+  fetchCategorizationRules,
+  previewRule,
+  saveCategorizationRule,
+  validateRule
+} from '@/lib/categorization';
+import type { CategorizableTransaction, CategorizationRuleInput } from '@/lib/categorization';
+import type { LedgerBook } from '@/lib/ledger';
+import { formatCurrency, formatDate } from '@/types';
+import type { CategorizationRule, RuleDescriptionOperator } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, CheckCircle, Edit, History, Loader2, Plus, Trash2, Wand2 } from 'lucide-react';
+
+interface CategorizationRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  book: LedgerBook;
+  bookName?: string;
+  categories: string[];
+  onApplied?: () => void;
+}
+
+interface RuleForm {
+  name: string;
+  priority: string;
+  is_active: boolean;
+  description_operator: RuleDescriptionOperator | '';
+  description_pattern: string;
+  counterparty: string;
+  min_amount: string;
+  max_amount: string;
+  transaction_type: 'income' | 'expense' | '';
+  category: string;
+  tags: string;
+  notes: string;
+}
+
+const emptyForm: RuleForm = {
+  name: '',
+  priority: '100',
+  is_active: true,
+  description_operator: 'contains',
+  description_pattern: '',
+  counterparty: '',
+  min_amount: '',
+  max_amount: '',
+  transaction_type: '',
+  category: '',
+  tags: '',
+  notes: ''
+};
+
+const PREVIEW_ROWS = 50;
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const parseAmount = (value: string): number | null => {
+  const amount = parseFloat(value);
+  return isNaN(amount) ? null : Math.abs(amount);
+};
+
+const toRuleInput = (form: RuleForm): CategorizationRuleInput => ({
+  name: form.name,
+  priority: parseInt(form.priority) || 0,
+  is_active: form.is_active,
+  description_operator: form.description_operator || null,
+  description_pattern: form.description_pattern,
+  counterparty: form.counterparty,
+  min_amount: parseAmount(form.min_amount),
+  max_amount: parseAmount(form.max_amount),
+  transaction_type: form.transaction_type || null,
+  category: form.category.trim(),
+  tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  notes: form.notes
+});
+
+const toForm = (rule: CategorizationRule): RuleForm => ({
+  name: rule.name,
+  priority: String(rule.priority),
+  is_active: rule.is_active,
+  description_operator: rule.description_operator || '',
+  description_pattern: rule.description_pattern || '',
+  counterparty: rule.counterparty || '',
+  min_amount: rule.min_amount === null ? '' : String(rule.min_amount),
+  max_amount: rule.max_amount === null ? '' : String(rule.max_amount),
+  transaction_type: rule.transaction_type || '',
+  category: rule.category,
+  tags: rule.tags.join(', '),
+  notes: rule.notes || ''
+});
+
+const describeRule = (rule: CategorizationRule): string => {
+  const conditions: string[] = [];
+  if (rule.transaction_type) conditions.push(rule.transaction_type);
+  if (rule.description_operator && rule.description_pattern) {
+    conditions.push(rule.description_operator === 'regex'
+      ? `description matches /${rule.description_pattern}/`
+      : `description contains "${rule.description_pattern}"`);
+  }
+  if (rule.counterparty) conditions.push(`counterparty "${rule.counterparty}"`);
+  if (rule.min_amount !== null) conditions.push(`at least ${formatCurrency(rule.min_amount)}`);
+  if (rule.max_amount !== null) conditions.push(`at most ${formatCurrency(rule.max_amount)}`);
+
+  return conditions.length > 0 ? conditions.join(', ') : 'every transaction';
+};
+
+export const CategorizationRulesModal: React.FC<CategorizationRulesModalProps> = ({
+  isOpen,
+  onClose,
+  book,
+  bookName,
+  categories,
+  onApplied
+}) => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [history, setHistory] = useState<CategorizableTransaction[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [matches, setMatches] = useState<CategorizableTransaction[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setHistory(null);
+      closeForm();
+      setMessage(null);
+      loadRules();
+    }
+  }, [isOpen, book.businessId, book.userId]);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRules(await fetchCategorizationRules(book));
+    } catch (err: any) {
+      console.error('Error loading categorization rules:', err);
+      setError(err.message || 'Failed to load categorization rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Past transactions are loaded once, the first time a rule is tested or applied
+  const loadHistory = async (): Promise<CategorizableTransaction[]> => {
+    if (history) return history;
+    const transactions = await fetchCategorizationHistory(book);
+    setHistory(transactions);
+    return transactions;
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(emptyForm);
+    setMatches(null);
+  };
+
+  const openForm = (rule?: CategorizationRule) => {
+    setEditingId(rule?.id || null);
+    setForm(rule ? toForm(rule) : emptyForm);
+    setMatches(null);
+    setError(null);
+    setMessage(null);
+    setShowForm(true);
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setMatches(null);
+  };
+
+  const handleTest = async () => {
+    const input = toRuleInput(form);
+    const validationError = validateRule({ ...input, name: input.name || 'Test', category: input.category || 'Test' });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      const transactions = await loadHistory();
+      setMatches(previewRule({ ...input, id: editingId || 'draft', business_id: null, user_id: null }, transactions));
+    } catch (err: any) {
+      console.error('Error testing categorization rule:', err);
+      setError(err.message || 'Failed to test the rule');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const input = toRuleInput(form);
+    const validationError = validateRule(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      await saveCategorizationRule(book, input, editingId || undefined);
+      closeForm();
+      await loadRules();
+    } catch (err: any) {
+      console.error('Error saving categorization rule:', err);
+      setError(err.message || 'Failed to save the rule');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    try {
+      const { id, business_id, user_id, created_by, created_at, updated_at, ...input } = rule;
+      const saved = await saveCategorizationRule(book, { ...input, is_active: !rule.is_active }, id);
+      setRules(prev => prev.map(r => (r.id === saved.id ? saved : r)));
+    } catch (err: any) {
+      console.error('Error updating categorization rule:', err);
+      setError(err.message || 'Failed to update the rule');
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Transactions it already categorized keep their category.`)) return;
+
+    try {
+      await deleteCategorizationRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      if (editingId === rule.id) closeForm();
+    } catch (err: any) {
+      console.error('Error deleting categorization rule:', err);
+      setError(err.message || 'Failed to delete the rule');
+    }
+  };
+
+  const handleApply = async (rule: CategorizationRule) => {
+    try {
+      setWorking(true);
+      setError(null);
+      setMessage(null);
+
+      const transactions = await loadHistory();
+      const matching = previewRule(rule, transactions);
+      if (matching.length === 0) {
+        setMessage(`"${rule.name}" does not match any past transactions.`);
+        return;
+      }
+      if (!confirm(`Set the category of ${matching.length} past transaction${matching.length === 1 ? '' : 's'} to "${rule.category}"?`)) return;
+
+      const summary = await applyRuleToTransactions(book, rule, transactions);
+      setHistory(null);
+      setMessage(
+        `Updated ${summary.updated} transaction${summary.updated === 1 ? '' : 's'}` +
+        (summary.skipped > 0 ? `; ${summary.skipped} in closed periods or otherwise locked were left unchanged.` : '.')
+      );
+      onApplied?.();
+    } catch (err: any) {
+      console.error('Error applying categorization rule:', err);
+      setError(err.message || 'Failed to apply the rule');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Wand2 className="h-5 w-5" />
+            <span>Categorization Rules{bookName ? ` - ${bookName}` : ''}</span>
+          </DialogTitle>
+          <DialogDescription>
+            New and imported transactions are categorized by the first active rule they match, lowest priority number first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {showForm ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="ruleName">Rule Name</Label>
+                <Input
+                  id="ruleName"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. Coffee shops"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rulePriority">Priority</Label>
+                <Input
+                  id="rulePriority"
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => updateForm({ priority: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="border rounded-lg p-3 space-y-3">
+              <p className="text-sm font-medium text-gray-700">When a transaction matches all of</p>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="ruleOperator">Description</Label>
+                  <select
+                    id="ruleOperator"
+                    value={form.description_operator}
+                    onChange={(e) => updateForm({ description_operator: e.target.value as RuleDescriptionOperator | '' })}
+                    className={selectClassName}
+                  >
+                    <option value="">Any description</option>
+                    {RULE_DESCRIPTION_OPERATORS.map(operator => (
+                      <option key={operator.value} value={operator.value}>{operator.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="rulePattern">Text</Label>
+                  <Input
+                    id="rulePattern"
+                    value={form.description_pattern}
+                    disabled={!form.description_operator}
+                    onChange={(e) => updateForm({ description_pattern: e.target.value })}
+                    placeholder={form.description_operator === 'regex' ? 'e.g. ^(uber|lyft)\\b' : 'e.g. starbucks'}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="ruleCounterparty">Counterparty</Label>
+                  <Input
+                    id="ruleCounterparty"
+                    value={form.counterparty}
+                    onChange={(e) => updateForm({ counterparty: e.target.value })}
+                    placeholder="Any"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="ruleType">Type</Label>
+                  <select
+                    id="ruleType"
+                    value={form.transaction_type}
+                    onChange={(e) => updateForm({ transaction_type: e.target.value as 'income' | 'expense' | '' })}
+                    className={selectClassName}
+                  >
+                    <option value="">Income or expense</option>
+                    <option value="income">Income</option>
+                    <option value="expense">Expense</option>
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="ruleMinAmount">Min Amount</Label>
+                  <Input
+                    id="ruleMinAmount"
+                    type="number"
+                    step="0.01"
+                    value={form.min_amount}
+                    onChange={(e) => updateForm({ min_amount: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="ruleMaxAmount">Max Amount</Label>
+                  <Input
+                    id="ruleMaxAmount"
+                    type="number"
+                    step="0.01"
+                    value={form.max_amount}
+                    onChange={(e) => updateForm({ max_amount: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="border rounded-lg p-3 space-y-3">
+              <p className="text-sm font-medium text-gray-700">Then</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="ruleCategory">Set Category</Label>
+                  <Input
+                    id="ruleCategory"
+                    list="ruleCategoryOptions"
+                    value={form.category}
+                    onChange={(e) => updateForm({ category: e.target.value })}
+                  />
+                  <datalist id="ruleCategoryOptions">
+                    {categories.map(category => <option key={category} value={category} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <Label htmlFor="ruleTags">Add Tags</Label>
+                  <Input
+                    id="ruleTags"
+                    value={form.tags}
+                    onChange={(e) => updateForm({ tags: e.target.value })}
+                    placeholder="Comma separated"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="ruleNotes">Notes</Label>
+                <Input
+                  id="ruleNotes"
+                  value={form.notes}
+                  onChange={(e) => updateForm({ notes: e.target.value })}
+                  placeholder="Added to transactions without notes"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => updateForm({ is_active: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+
+            {matches && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  Matches {matches.length} of {history?.length || 0} past transaction{history?.length === 1 ? '' : 's'}
+                </p>
+                {matches.length > 0 && (
+                  <div className="border rounded-lg max-h-60 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                        <tr>
+                          <th className="text-left p-2">Date</th>
+                          <th className="text-left p-2">Description</th>
+                          <th className="text-left p-2">Category</th>
+                          <th className="text-right p-2">Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {matches.slice(0, PREVIEW_ROWS).map(transaction => (
+                          <tr key={transaction.id} className="border-t">
+                            <td className="p-2 whitespace-nowrap">{transaction.date && formatDate(transaction.date)}</td>
+                            <td className="p-2">{transaction.description || '—'}</td>
+                            <td className="p-2 whitespace-nowrap">
+                              {transaction.category === form.category.trim() ? (
+                                transaction.category
+                              ) : (
+                                <>
+                                  <span className="text-gray-400 line-through mr-1">{transaction.category || 'None'}</span>
+                                  {form.category.trim() || '—'}
+                                </>
+                              )}
+                            </td>
+                            <td className="p-2 text-right tabular-nums">{formatCurrency(Math.abs(transaction.amount))}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {matches.length > PREVIEW_ROWS && (
+                      <p className="text-xs text-gray-500 p-2">Showing the {PREVIEW_ROWS} most recent matches</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Wand2 className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+            <p>No rules yet. Add one to categorize transactions automatically.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400 tabular-nums">#{rule.priority}</span>
+                    <span className="font-medium text-gray-900">{rule.name}</span>
+                    {!rule.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600 truncate">
+                    When {describeRule(rule)} → <span className="font-medium">{rule.category}</span>
+                    {rule.tags.length > 0 && ` + tags ${rule.tags.join(', ')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button size="sm" variant="ghost" onClick={() => handleToggle(rule)}>
+                    {rule.is_active ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleApply(rule)} disabled={working}>
+                    <History className="h-4 w-4 mr-1" />
+                    Apply to Past
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => openForm(rule)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {showForm ? (
+            <>
+              <Button variant="outline" onClick={closeForm}>
+                Cancel
+              </Button>
+              <Button variant="outline" onClick={handleTest} disabled={working}>
+                {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Test Against History
+              </Button>
+              <Button onClick={handleSave} disabled={working}>
+                {editingId ? 'Update Rule' : 'Save Rule'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={() => openForm()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
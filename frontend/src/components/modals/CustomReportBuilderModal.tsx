@@ -0,0 +1,734 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { ACCOUNT_TYPES } from '@/lib/accounts';
+import { getReportDateRange } from '@/lib/reports';
+import {
+  CATEGORY_ACCOUNT_TYPES,
+  CUSTOM_REPORT_PERIOD_COLUMNS,
+  CUSTOM_REPORT_ROW_SOURCES,
+  DEFAULT_CUSTOM_REPORT_DEFINITION,
+  deleteReportTemplate,
+  fetchReportTemplates,
+  runCustomReport,
+  saveReportTemplate,
+  validateCustomReportDefinition
+} from '@/lib/customReports';
+import type { Json } from '@/lib/database.types';
+import { TRANSACTION_STATUSES } from '@/types';
+import type {
+  CustomReportDefinition,
+  CustomReportPeriodColumn,
+  CustomReportRowSource,
+  ReportPeriod,
+  ReportTemplate,
+  TransactionStatus
+} from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  CheckCircle,
+  Edit,
+  LayoutTemplate,
+  Loader2,
+  Play,
+  Plus,
+  Trash2,
+  X
+} from 'lucide-react';
+
+interface CustomReportBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReportGenerated: () => void;
+}
+
+interface ClientOption {
+  id: string;
+  name: string;
+  businesses: { id: string; name: string }[];
+}
+
+interface TemplateFormData {
+  name: string;
+  description: string;
+  definition: CustomReportDefinition;
+  names: string; // comma separated
+  tags: string; // comma separated
+}
+
+interface RunFormData {
+  title: string;
+  clientId: string;
+  businessIds: string[];
+  period: ReportPeriod;
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const emptyTemplateForm = (): TemplateFormData => ({
+  name: '',
+  description: '',
+  definition: DEFAULT_CUSTOM_REPORT_DEFINITION,
+  names: '',
+  tags: ''
+});
+
+const emptyRunForm = (title: string): RunFormData => {
+  const range = getReportDateRange('monthly');
+  return {
+    title,
+    clientId: '',
+    businessIds: [],
+    period: 'monthly',
+    periodStart: range.start,
+    periodEnd: range.end,
+    dueDate: ''
+  };
+};
+
+const parseList = (text: string): string[] =>
+  text.split(',').map(item => item.trim()).filter(Boolean);
+
+const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values.filter(item => item !== value), value] : values.filter(item => item !== value);
+
+// One-line outline of a template for the list
+const summarizeDefinition = (definition: CustomReportDefinition): string => {
+  const rows = CUSTOM_REPORT_ROW_SOURCES.find(source => source.value === definition.rows.source)?.label;
+  const columns = CUSTOM_REPORT_PERIOD_COLUMNS
+    .filter(column => definition.columns.periods.includes(column.value))
+    .map(column => column.label.toLowerCase())
+    .join(', ');
+  return `${rows} by ${columns}${definition.columns.by_business ? ', per business' : ''}`;
+};
+
+export const CustomReportBuilderModal: React.FC<CustomReportBuilderModalProps> = ({
+  isOpen,
+  onClose,
+  onReportGenerated
+}) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ReportTemplate | null>(null);
+  const [templateForm, setTemplateForm] = useState<TemplateFormData>(emptyTemplateForm());
+  const [runningTemplate, setRunningTemplate] = useState<ReportTemplate | null>(null);
+  const [runForm, setRunForm] = useState<RunFormData>(emptyRunForm(''));
+
+  useEffect(() => {
+    if (isOpen) {
+      loadData();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    // Custom ranges are entered by hand, the others follow the selected period
+    if (runForm.period === 'custom') return;
+
+    const range = getReportDateRange(runForm.period);
+    setRunForm(prev => ({ ...prev, periodStart: range.start, periodEnd: range.end }));
+  }, [runForm.period]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [templateRows, businessResult] = await Promise.all([
+        fetchReportTemplates(),
+        supabase
+          .from('businesses')
+          .select('id, name, owner_id, owner:users(full_name, email)')
+          .order('name')
+      ]);
+
+      if (businessResult.error) throw businessResult.error;
+
+      // Templates run for one client at a time, across any of their businesses
+      const clientsById = new Map<string, ClientOption>();
+      (businessResult.data || []).forEach(business => {
+        const client = clientsById.get(business.owner_id) || {
+          id: business.owner_id,
+          name: business.owner?.full_name || business.owner?.email || 'Unknown Client',
+          businesses: []
+        };
+        client.businesses.push({ id: business.id, name: business.name });
+        clientsById.set(business.owner_id, client);
+      });
+
+      setTemplates(templateRows);
+      setClients(Array.from(clientsById.values()).sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err: any) {
+      console.error('Error loading report templates:', err);
+      setError(err.message || 'Failed to load report templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDefinition = (update: (definition: CustomReportDefinition) => CustomReportDefinition) => {
+    setTemplateForm(prev => ({ ...prev, definition: update(prev.definition) }));
+  };
+
+  const openAddForm = () => {
+    setEditingTemplate(null);
+    setRunningTemplate(null);
+    setTemplateForm(emptyTemplateForm());
+    setShowForm(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const openEditForm = (template: ReportTemplate) => {
+    setEditingTemplate(template);
+    setRunningTemplate(null);
+    setTemplateForm({
+      name: template.name,
+      description: template.description || '',
+      definition: template.definition,
+      names: template.definition.rows.names.join(', '),
+      tags: template.definition.filters.tags.join(', ')
+    });
+    setShowForm(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const openRunForm = (template: ReportTemplate) => {
+    setRunningTemplate(template);
+    setShowForm(false);
+    setRunForm(emptyRunForm(template.name));
+    setError(null);
+    setSuccess(null);
+  };
+
+  // Categories only exist for income and expenses
+  const handleRowSourceChange = (source: CustomReportRowSource) => {
+    updateDefinition(definition => {
+      const accountTypes = source === 'category'
+        ? definition.rows.account_types.filter(type => CATEGORY_ACCOUNT_TYPES.includes(type))
+        : definition.rows.account_types;
+      return {
+        ...definition,
+        rows: { ...definition.rows, source, account_types: accountTypes.length > 0 ? accountTypes : CATEGORY_ACCOUNT_TYPES }
+      };
+    });
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { definition } = templateForm;
+      await saveReportTemplate(
+        {
+          name: templateForm.name,
+          description: templateForm.description,
+          definition: {
+            ...definition,
+            rows: { ...definition.rows, names: parseList(templateForm.names) },
+            filters: { ...definition.filters, tags: parseList(templateForm.tags) }
+          }
+        },
+        user.id,
+        editingTemplate?.id
+      );
+      setShowForm(false);
+      setEditingTemplate(null);
+      await loadData();
+    } catch (err: any) {
+      console.error('Error saving report template:', err);
+      setError(err.message || 'Failed to save report template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: ReportTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Reports already run from it are kept.`)) return;
+
+    try {
+      setError(null);
+      await deleteReportTemplate(template.id);
+      if (runningTemplate?.id === template.id) setRunningTemplate(null);
+      await loadData();
+    } catch (err: any) {
+      console.error('Error deleting report template:', err);
+      setError(err.message || 'Failed to delete report template');
+    }
+  };
+
+  const handleRunClientChange = (clientId: string) => {
+    const client = clients.find(option => option.id === clientId);
+    setRunForm(prev => ({
+      ...prev,
+      clientId,
+      businessIds: client ? client.businesses.map(business => business.id) : []
+    }));
+  };
+
+  const handleRunTemplate = async () => {
+    if (!runningTemplate || !user?.id) return;
+
+    const client = clients.find(option => option.id === runForm.clientId);
+    const businesses = (client?.businesses || []).filter(business => runForm.businessIds.includes(business.id));
+    if (!runForm.title.trim() || !client || businesses.length === 0 || !runForm.dueDate) {
+      setError('Please fill in all required fields');
+      return;
+    }
+    if (!runForm.periodStart || !runForm.periodEnd || runForm.periodStart > runForm.periodEnd) {
+      setError('Please select a valid reporting period');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const reportData = await runCustomReport(
+        runningTemplate.definition,
+        businesses,
+        { start: runForm.periodStart, end: runForm.periodEnd },
+        runningTemplate.id
+      );
+
+      const { error: reportError } = await supabase
+        .from('reports')
+        .insert({
+          title: runForm.title.trim(),
+          client_id: client.id,
+          client_name: client.name,
+          business_id: businesses[0].id,
+          business_name: businesses.map(business => business.name).join(', '),
+          type: 'custom',
+          template_id: runningTemplate.id,
+          due_date: runForm.dueDate,
+          period: runForm.period,
+          period_start: runForm.periodStart,
+          period_end: runForm.periodEnd,
+          data: reportData as unknown as Json,
+          generated_at: reportData.generated_at,
+          status: 'draft',
+          created_by: user.id
+        });
+
+      if (reportError) {
+        throw new Error(`Failed to create report: ${reportError.message}`);
+      }
+
+      setSuccess(`Report "${runForm.title.trim()}" created for ${client.name}`);
+      setRunningTemplate(null);
+      onReportGenerated();
+    } catch (err: any) {
+      console.error('Error running custom report:', err);
+      setError(err.message || 'Failed to run custom report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const { definition } = templateForm;
+  const definitionError = validateCustomReportDefinition(definition);
+  const rowTypes = definition.rows.source === 'category'
+    ? ACCOUNT_TYPES.filter(type => CATEGORY_ACCOUNT_TYPES.includes(type.value))
+    : ACCOUNT_TYPES;
+  const runClient = clients.find(option => option.id === runForm.clientId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <LayoutTemplate className="h-5 w-5" />
+            <span>Report Builder</span>
+          </DialogTitle>
+          <DialogDescription>
+            Lay out a report once, save it as a template and run it for any client.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription className="text-green-800">{success}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-4">No report templates yet</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900">{template.name}</p>
+                        {(template.definition.filters.tags.length > 0 || template.definition.filters.statuses.length > 0) && (
+                          <Badge variant="info">Filtered</Badge>
+                        )}
+                      </div>
+                      {template.description && (
+                        <p className="text-xs text-gray-600">{template.description}</p>
+                      )}
+                      <p className="text-xs text-gray-500">{summarizeDefinition(template.definition)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" variant="outline" onClick={() => openRunForm(template)}>
+                        <Play className="h-3 w-3 mr-1" />
+                        Run
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openEditForm(template)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeleteTemplate(template)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {runningTemplate && (
+              <div className="border rounded-lg p-4 space-y-4">
+                <h4 className="font-medium text-gray-900">Run "{runningTemplate.name}"</h4>
+                <div>
+                  <Label htmlFor="runTitle">Report Title *</Label>
+                  <Input
+                    id="runTitle"
+                    value={runForm.title}
+                    onChange={(e) => setRunForm(prev => ({ ...prev, title: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="runClient">Client *</Label>
+                  <select
+                    id="runClient"
+                    value={runForm.clientId}
+                    onChange={(e) => handleRunClientChange(e.target.value)}
+                    className={selectClassName}
+                  >
+                    <option value="">Select a client</option>
+                    {clients.map(client => (
+                      <option key={client.id} value={client.id}>{client.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {runClient && runClient.businesses.length > 1 && (
+                  <div className="space-y-1">
+                    <Label>Businesses *</Label>
+                    {runClient.businesses.map(business => (
+                      <label key={business.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={runForm.businessIds.includes(business.id)}
+                          onChange={(e) => setRunForm(prev => ({
+                            ...prev,
+                            businessIds: toggle(prev.businessIds, business.id, e.target.checked)
+                          }))}
+                        />
+                        {business.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="runPeriod">Report Period</Label>
+                    <select
+                      id="runPeriod"
+                      value={runForm.period}
+                      onChange={(e) => setRunForm(prev => ({ ...prev, period: e.target.value as ReportPeriod }))}
+                      className={selectClassName}
+                    >
+                      <option value="monthly">Monthly</option>
+                      <option value="quarterly">Quarterly</option>
+                      <option value="yearly">Yearly</option>
+                      <option value="custom">Custom Range</option>
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="runDueDate">Due Date *</Label>
+                    <Input
+                      id="runDueDate"
+                      type="date"
+                      value={runForm.dueDate}
+                      onChange={(e) => setRunForm(prev => ({ ...prev, dueDate: e.target.value }))}
+                      min={new Date().toISOString().split('T')[0]}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="runPeriodStart">Period Start *</Label>
+                    <Input
+                      id="runPeriodStart"
+                      type="date"
+                      value={runForm.periodStart}
+                      onChange={(e) => setRunForm(prev => ({ ...prev, periodStart: e.target.value }))}
+                      disabled={runForm.period !== 'custom'}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="runPeriodEnd">Period End *</Label>
+                    <Input
+                      id="runPeriodEnd"
+                      type="date"
+                      value={runForm.periodEnd}
+                      onChange={(e) => setRunForm(prev => ({ ...prev, periodEnd: e.target.value }))}
+                      disabled={runForm.period !== 'custom'}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setRunningTemplate(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleRunTemplate} disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Report
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {showForm ? (
+              <div className="border rounded-lg p-4 space-y-4">
+                <h4 className="font-medium text-gray-900">
+                  {editingTemplate ? 'Edit Template' : 'New Template'}
+                </h4>
+                <div>
+                  <Label htmlFor="templateName">Name *</Label>
+                  <Input
+                    id="templateName"
+                    value={templateForm.name}
+                    onChange={(e) => setTemplateForm(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="Monthly expenses by category"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="templateDescription">Description</Label>
+                  <Textarea
+                    id="templateDescription"
+                    rows={2}
+                    value={templateForm.description}
+                    onChange={(e) => setTemplateForm(prev => ({ ...prev, description: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Rows</Label>
+                  {CUSTOM_REPORT_ROW_SOURCES.map(source => (
+                    <label key={source.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        name="rowSource"
+                        className="mt-1"
+                        checked={definition.rows.source === source.value}
+                        onChange={() => handleRowSourceChange(source.value)}
+                      />
+                      <span>
+                        <span className="font-medium text-gray-900">{source.label}</span>
+                        <span className="block text-xs text-gray-500">{source.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                  <div className="flex flex-wrap gap-4 pt-1">
+                    {rowTypes.map(type => (
+                      <label key={type.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={definition.rows.account_types.includes(type.value)}
+                          onChange={(e) => updateDefinition(prev => ({
+                            ...prev,
+                            rows: { ...prev.rows, account_types: toggle(prev.rows.account_types, type.value, e.target.checked) }
+                          }))}
+                        />
+                        {type.label}
+                      </label>
+                    ))}
+                  </div>
+                  {definition.rows.source !== 'account_type' && (
+                    <div>
+                      <Label htmlFor="templateNames">Only These Rows</Label>
+                      <Input
+                        id="templateNames"
+                        value={templateForm.names}
+                        onChange={(e) => setTemplateForm(prev => ({ ...prev, names: e.target.value }))}
+                        placeholder="Rent, Utilities, Payroll"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Account or category names, separated by commas. Leave empty for every row.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Columns</Label>
+                  {CUSTOM_REPORT_PERIOD_COLUMNS.map(column => (
+                    <label key={column.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={definition.columns.periods.includes(column.value)}
+                        onChange={(e) => updateDefinition(prev => ({
+                          ...prev,
+                          columns: {
+                            ...prev.columns,
+                            periods: toggle<CustomReportPeriodColumn>(prev.columns.periods, column.value, e.target.checked)
+                          }
+                        }))}
+                      />
+                      <span>
+                        <span className="font-medium text-gray-900">{column.label}</span>
+                        <span className="block text-xs text-gray-500">{column.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={definition.columns.by_business}
+                      onChange={(e) => updateDefinition(prev => ({
+                        ...prev,
+                        columns: { ...prev.columns, by_business: e.target.checked }
+                      }))}
+                    />
+                    Separate columns for each business, followed by their total
+                  </label>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Filters</Label>
+                  <div>
+                    <Label htmlFor="templateTags" className="text-xs text-gray-600">Tags</Label>
+                    <Input
+                      id="templateTags"
+                      value={templateForm.tags}
+                      onChange={(e) => setTemplateForm(prev => ({ ...prev, tags: e.target.value }))}
+                      placeholder="travel, client-project"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-4">
+                    {Object.values(TRANSACTION_STATUSES).map(status => (
+                      <label key={status} className="flex items-center gap-2 text-sm cursor-pointer capitalize">
+                        <input
+                          type="checkbox"
+                          checked={definition.filters.statuses.includes(status)}
+                          onChange={(e) => updateDefinition(prev => ({
+                            ...prev,
+                            filters: {
+                              ...prev.filters,
+                              statuses: toggle<TransactionStatus>(prev.filters.statuses, status, e.target.checked)
+                            }
+                          }))}
+                        />
+                        {status}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Without a status, every transaction except rejected ones is included. Manual journal
+                    entries have no tags or status and are left out while a filter is set.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Subtotals</Label>
+                  {definition.rows.source !== 'account_type' && (
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={definition.subtotals.by_group}
+                        onChange={(e) => updateDefinition(prev => ({
+                          ...prev,
+                          subtotals: { ...prev.subtotals, by_group: e.target.checked }
+                        }))}
+                      />
+                      A subtotal for each account type
+                    </label>
+                  )}
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={definition.subtotals.grand_total}
+                      onChange={(e) => updateDefinition(prev => ({
+                        ...prev,
+                        subtotals: { ...prev.subtotals, grand_total: e.target.checked }
+                      }))}
+                    />
+                    A grand total of every row
+                  </label>
+                </div>
+
+                {definitionError && <p className="text-xs text-red-600">{definitionError}</p>}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setShowForm(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSaveTemplate} disabled={saving || !!definitionError}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {editingTemplate ? 'Save Template' : 'Add Template'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={openAddForm} className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                New Template
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { supabase } from '../../lib/supabase';
+import { downloadPdf } from '../../lib/pdf';
+import { ReportPdfWriter } from '../../lib/reportPdf';
 import { Button } from '../ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
@@ -103,40 +105,72 @@ export const ExportBusinessModal: React.FC<ExportBusinessModalProps> = ({ busine
   };
 
   const exportToPDF = (data: any[]) => {
-    // For PDF export, we'll create a simple text-based report
-    const reportContent = `
-SWIFTBOOKS BUSINESS EXPORT REPORT
-Generated: ${new Date().toLocaleString()}
-Total Businesses: ${data.length}
+    const today = new Date().toISOString().split('T')[0];
+    const writer = new ReportPdfWriter({
+      title: 'Business Export Report',
+      businessName: 'SwiftBooks',
+      period: `As of ${formatDate(today)}`,
+      subtitle: `${data.length} business${data.length !== 1 ? 'es' : ''} on the platform`
+    });
 
-${'='.repeat(60)}
+    const totalRevenue = data.reduce((sum, business) => sum + (business.revenue || 0), 0);
+    const totalTransactions = data.reduce((sum, business) => sum + (business.transactionCount || 0), 0);
+    writer.cover([
+      ['Businesses', String(data.length)],
+      ['Total Revenue', formatCurrency(totalRevenue)],
+      ['Transactions', totalTransactions.toLocaleString('en-US')]
+    ]);
 
-${data.map((business, index) => `
-BUSINESS #${index + 1}
-${'-'.repeat(30)}
-Name: ${business.name}
-Owner: ${business.owner} (${business.ownerEmail})
-Industry: ${business.industry}
-Status: ${business.status.toUpperCase()}
-Revenue: ${formatCurrency(business.revenue)}
-Transactions: ${business.transactionCount}
-Employees: ${business.employeeCount || 1}
-Created: ${formatDate(business.createdDate)}
-Last Activity: ${formatDate(business.lastActivity)}
-${business.subscription ? `Subscription: ${business.subscription.toUpperCase()} plan` : ''}
-`).join('\n')}
+    const statusCounts = data.reduce<Record<string, number>>((counts, business) => {
+      counts[business.status] = (counts[business.status] || 0) + 1;
+      return counts;
+    }, {});
+    const statusColors: Record<string, string> = { active: '#16a34a', inactive: '#9ca3af', suspended: '#dc2626' };
 
-${'='.repeat(60)}
-End of Report
-    `.trim();
+    writer.heading('Summary');
+    writer.barChart(
+      'Businesses by status',
+      Object.entries(statusCounts).map(([status, count]) => ({
+        label: status.charAt(0).toUpperCase() + status.slice(1),
+        value: count,
+        color: statusColors[status]
+      })),
+      (value) => String(value)
+    );
+    writer.barChart(
+      'Top businesses by revenue',
+      [...data]
+        .sort((a, b) => (b.revenue || 0) - (a.revenue || 0))
+        .slice(0, 10)
+        .map(business => ({ label: business.name, value: business.revenue || 0 })),
+      formatCurrency
+    );
 
-    const blob = new Blob([reportContent], { type: 'text/plain;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `businesses-report-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    writer.heading('Businesses');
+    writer.table(
+      [
+        { label: 'Business', width: 0.24 },
+        { label: 'Owner', width: 0.22 },
+        { label: 'Industry', width: 0.14 },
+        { label: 'Status', width: 0.1 },
+        { label: 'Revenue', width: 0.14, align: 'right' },
+        { label: 'Txns', width: 0.07, align: 'right' },
+        { label: 'Created', width: 0.09, align: 'right' }
+      ],
+      data.map(business => ({
+        cells: [
+          business.name,
+          business.ownerEmail || business.owner,
+          business.industry || '',
+          business.status,
+          formatCurrency(business.revenue || 0),
+          String(business.transactionCount || 0),
+          new Date(business.createdDate).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', year: '2-digit' })
+        ]
+      }))
+    );
+
+    downloadPdf(writer.finish(), `businesses-report-${today}.pdf`);
   };
 
   const handleExport = async () => {
@@ -190,7 +224,7 @@ End of Report
       case 'json':
         return 'Structured data format, ideal for developers and data processing';
       case 'pdf':
-        return 'Formatted text report, suitable for documentation and sharing';
+        return 'Paginated report with summary charts and a business table, suitable for printing and sharing';
       default:
         return '';
     }
@@ -241,7 +275,7 @@ End of Report
                 <SelectItem value="pdf">
                   <div className="flex items-center space-x-2">
                     <FileText className="h-4 w-4 text-red-600" />
-                    <span>Text Report</span>
+                    <span>PDF (Report)</span>
                   </div>
                 </SelectItem>
               </SelectContent>
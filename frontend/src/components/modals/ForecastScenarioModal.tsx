@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import { saveCashFlowScenario, validateScenario } from '@/lib/forecast';
+import type { LedgerBook } from '@/lib/ledger';
+import { toISODate } from '@/lib/reports';
+import type { CashFlowScenario, ForecastAdjustment, ForecastAdjustmentKind } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface ForecastScenarioModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  book: LedgerBook;
+  userId: string;
+  scenario?: CashFlowScenario | null;
+  onSaved?: () => void;
+}
+
+// Amounts are entered as positive numbers with a direction
+interface AdjustmentFormRow {
+  kind: ForecastAdjustmentKind;
+  label: string;
+  amount: string;
+  direction: 'in' | 'out';
+  start_date: string;
+  end_date: string;
+}
+
+const KIND_OPTIONS: { value: ForecastAdjustmentKind; label: string }[] = [
+  { value: 'recurring', label: 'Every month' },
+  { value: 'one_time', label: 'One time' },
+  { value: 'percent_change', label: 'Percentage change' }
+];
+
+const PRESETS: { label: string; row: Partial<AdjustmentFormRow> }[] = [
+  { label: 'New hire', row: { kind: 'recurring', label: 'New hire', direction: 'out' } },
+  { label: 'Price change', row: { kind: 'percent_change', label: 'Price change', direction: 'in' } },
+  { label: 'Large purchase', row: { kind: 'one_time', label: 'Large purchase', direction: 'out' } },
+  { label: 'Other', row: { kind: 'recurring', label: '', direction: 'in' } }
+];
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const newRow = (row: Partial<AdjustmentFormRow> = {}): AdjustmentFormRow => ({
+  kind: 'recurring',
+  label: '',
+  amount: '',
+  direction: 'out',
+  start_date: toISODate(new Date(new Date().getFullYear(), new Date().getMonth() + 1, 1)),
+  end_date: '',
+  ...row
+});
+
+const toFormRow = (adjustment: ForecastAdjustment): AdjustmentFormRow => {
+  const direction = adjustment.kind === 'percent_change'
+    ? (adjustment.applies_to === 'expense' ? 'out' : 'in')
+    : (adjustment.amount >= 0 ? 'in' : 'out');
+  return {
+    kind: adjustment.kind,
+    label: adjustment.label,
+    amount: String(adjustment.kind === 'percent_change' ? adjustment.amount : Math.abs(adjustment.amount)),
+    direction,
+    start_date: adjustment.start_date,
+    end_date: adjustment.end_date || ''
+  };
+};
+
+const toAdjustment = (row: AdjustmentFormRow): ForecastAdjustment => {
+  const amount = parseFloat(row.amount);
+  if (row.kind === 'percent_change') {
+    return {
+      kind: row.kind,
+      label: row.label,
+      amount,
+      start_date: row.start_date,
+      end_date: row.end_date || null,
+      applies_to: row.direction === 'in' ? 'income' : 'expense'
+    };
+  }
+  return {
+    kind: row.kind,
+    label: row.label,
+    amount: row.direction === 'in' ? Math.abs(amount) : -Math.abs(amount),
+    start_date: row.start_date,
+    end_date: row.kind === 'recurring' ? row.end_date || null : null
+  };
+};
+
+export const ForecastScenarioModal: React.FC<ForecastScenarioModalProps> = ({
+  isOpen,
+  onClose,
+  book,
+  userId,
+  scenario,
+  onSaved
+}) => {
+  const [name, setName] = useState('');
+  const [rows, setRows] = useState<AdjustmentFormRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(scenario?.name || '');
+      setRows(scenario ? scenario.adjustments.map(toFormRow) : []);
+      setError(null);
+    }
+  }, [isOpen, scenario]);
+
+  const updateRow = (index: number, changes: Partial<AdjustmentFormRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    const input = { name, adjustments: rows.map(toAdjustment) };
+    const validationError = validateScenario(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveCashFlowScenario(book, userId, input, scenario?.id);
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving scenario:', err);
+      setError(err.message || 'Failed to save scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{scenario ? 'Edit Scenario' : 'New Scenario'}</DialogTitle>
+          <DialogDescription>
+            Changes are laid over the baseline forecast so you can compare the outcome
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scenario-name">Scenario Name *</Label>
+            <Input
+              id="scenario-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Hire a developer in March"
+            />
+          </div>
+
+          {rows.map((row, index) => (
+            <div key={index} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={row.label}
+                  onChange={(e) => updateRow(index, { label: e.target.value })}
+                  placeholder="What changes"
+                />
+                <Button size="sm" variant="ghost" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div>
+                  <Label className="text-xs">When</Label>
+                  <select
+                    value={row.kind}
+                    onChange={(e) => updateRow(index, { kind: e.target.value as ForecastAdjustmentKind })}
+                    className={selectClassName}
+                  >
+                    {KIND_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label className="text-xs">{row.kind === 'percent_change' ? 'Applies to' : 'Direction'}</Label>
+                  <select
+                    value={row.direction}
+                    onChange={(e) => updateRow(index, { direction: e.target.value as 'in' | 'out' })}
+                    className={selectClassName}
+                  >
+                    <option value="in">{row.kind === 'percent_change' ? 'Income' : 'Money in'}</option>
+                    <option value="out">{row.kind === 'percent_change' ? 'Spending' : 'Money out'}</option>
+                  </select>
+                </div>
+                <div>
+                  <Label className="text-xs">{row.kind === 'percent_change' ? 'Change (%)' : 'Amount'}</Label>
+                  <Input
+                    type="number"
+                    step={row.kind === 'percent_change' ? '0.1' : '0.01'}
+                    value={row.amount}
+                    onChange={(e) => updateRow(index, { amount: e.target.value })}
+                    placeholder={row.kind === 'percent_change' ? 'e.g., 10 or -5' : '0.00'}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">{row.kind === 'one_time' ? 'Date' : 'Starts'}</Label>
+                  <Input
+                    type="date"
+                    value={row.start_date}
+                    onChange={(e) => updateRow(index, { start_date: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                {row.kind !== 'one_time' && (
+                  <div>
+                    <Label className="text-xs">Ends</Label>
+                    <Input
+                      type="date"
+                      value={row.end_date}
+                      min={row.start_date}
+                      onChange={(e) => updateRow(index, { end_date: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {PRESETS.map(preset => (
+              <Button key={preset.label} size="sm" variant="outline" onClick={() => setRows(prev => [...prev, newRow(preset.row)])}>
+                <Plus className="h-3 w-3 mr-1" />
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {scenario ? 'Update Scenario' : 'Save Scenario'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { getReportDateRange } from '@/lib/reports';
+import {
+  DEFAULT_VARIANCE_THRESHOLD,
+  REPORT_COMPARISON_OPTIONS,
+  generateComparativeReportData
+} from '@/lib/reportComparisons';
+import type { Json } from '@/lib/database.types';
+import type { ReportComparisonKind, ReportPeriod } from '@/types';
+import { BusinessBudgetsModal } from './BusinessBudgetsModal';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,7 +30,9 @@ import {
   CheckCircle,
   FileText,
   Calendar,
-  Building
+  Building,
+  Columns,
+  PiggyBank
 } from 'lucide-react';
 
 interface GenerateReportModalProps {
@@ -49,7 +60,11 @@ interface ReportFormData {
   businessId: string;
   type: 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'tax_summary';
   dueDate: string;
-  period: string;
+  period: ReportPeriod;
+  periodStart: string;
+  periodEnd: string;
+  comparisons: ReportComparisonKind[];
+  varianceThreshold: string;
 }
 
 export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
@@ -64,14 +79,20 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClientBusinesses, setSelectedClientBusinesses] = useState<Business[]>([]);
   
+  const defaultRange = getReportDateRange('monthly');
   const [formData, setFormData] = useState<ReportFormData>({
     title: '',
     clientId: '',
     businessId: '',
     type: 'profit_loss',
     dueDate: '',
-    period: 'monthly'
+    period: 'monthly',
+    periodStart: defaultRange.start,
+    periodEnd: defaultRange.end,
+    comparisons: [],
+    varianceThreshold: DEFAULT_VARIANCE_THRESHOLD.toString()
   });
+  const [showBudgets, setShowBudgets] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -94,6 +115,18 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
     }));
   }, [formData.type]);
 
+  useEffect(() => {
+    // Custom ranges are entered by hand, the others follow the selected period
+    if (formData.period === 'custom') return;
+
+    const range = getReportDateRange(formData.period);
+    setFormData(prev => ({
+      ...prev,
+      periodStart: range.start,
+      periodEnd: range.end
+    }));
+  }, [formData.period]);
+
   useEffect(() => {
     // Update available businesses when client changes
     const selectedClient = clients.find(c => c.id === formData.clientId);
@@ -106,7 +139,7 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
       // Load clients with their businesses
       const { data: clientData, error: clientError } = await supabase
         .from('users')
-        .select('id, full_name as name, email')
+        .select('id, name:full_name, email')
         .eq('role', 'user')
         .order('full_name');
 
@@ -139,6 +172,19 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
     setSuccess(null);
   };
 
+  const handleComparisonToggle = (kind: ReportComparisonKind, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      comparisons: checked
+        ? REPORT_COMPARISON_OPTIONS.map(option => option.value).filter(value => value === kind || prev.comparisons.includes(value))
+        : prev.comparisons.filter(value => value !== kind)
+    }));
+  };
+
+  // Budgets are only kept for profit & loss lines
+  const isComparisonAvailable = (kind: ReportComparisonKind) =>
+    formData.type !== 'tax_summary' && (kind !== 'budget' || formData.type === 'profit_loss');
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -147,6 +193,18 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
       return;
     }
 
+    if (!formData.periodStart || !formData.periodEnd || formData.periodStart > formData.periodEnd) {
+      setError('Please select a valid reporting period');
+      return;
+    }
+
+    const comparisons = formData.comparisons.filter(isComparisonAvailable);
+    const varianceThreshold = parseFloat(formData.varianceThreshold);
+    if (comparisons.length > 0 && (isNaN(varianceThreshold) || varianceThreshold < 0)) {
+      setError('Variance threshold must be a positive percentage');
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -154,6 +212,14 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
       // Find selected client and business
       const selectedClient = clients.find(c => c.id === formData.clientId);
       const selectedBusiness = selectedClientBusinesses.find(b => b.id === formData.businessId);
+
+      // Compute the statement figures from the business ledger, with any comparative columns
+      const reportData = await generateComparativeReportData(
+        formData.type,
+        formData.businessId,
+        { start: formData.periodStart, end: formData.periodEnd },
+        comparisons.length > 0 ? { columns: comparisons, variance_threshold: varianceThreshold } : null
+      );
       
       // Create report record
       const { error: reportError } = await supabase
@@ -167,6 +233,10 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
           type: formData.type,
           due_date: formData.dueDate,
           period: formData.period,
+          period_start: formData.periodStart,
+          period_end: formData.periodEnd,
+          data: reportData as unknown as Json,
+          generated_at: reportData ? new Date().toISOString() : null,
           status: 'draft',
           created_by: user?.id
         });
@@ -178,13 +248,18 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
       setSuccess(`Report "${formData.title}" created successfully!`);
       
       // Reset form
+      const resetRange = getReportDateRange('monthly');
       setFormData({
         title: '',
         clientId: '',
         businessId: '',
         type: 'profit_loss',
         dueDate: '',
-        period: 'monthly'
+        period: 'monthly',
+        periodStart: resetRange.start,
+        periodEnd: resetRange.end,
+        comparisons: [],
+        varianceThreshold: DEFAULT_VARIANCE_THRESHOLD.toString()
       });
 
       // Notify parent component
@@ -304,7 +379,7 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
               <select
                 id="period"
                 value={formData.period}
-                onChange={(e) => handleInputChange('period', e.target.value)}
+                onChange={(e) => handleInputChange('period', e.target.value as ReportPeriod)}
                 className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
               >
                 <option value="monthly">Monthly</option>
@@ -326,6 +401,101 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
             </div>
           </div>
 
+          {formData.type === 'balance_sheet' ? (
+            <div>
+              <Label htmlFor="periodEnd">As of Date *</Label>
+              <Input
+                id="periodEnd"
+                type="date"
+                value={formData.periodEnd}
+                onChange={(e) => handleInputChange('periodEnd', e.target.value)}
+                disabled={formData.period !== 'custom'}
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Balance sheets show account balances at the end of the selected period.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="periodStart">Period Start *</Label>
+                <Input
+                  id="periodStart"
+                  type="date"
+                  value={formData.periodStart}
+                  onChange={(e) => handleInputChange('periodStart', e.target.value)}
+                  disabled={formData.period !== 'custom'}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="periodEnd">Period End *</Label>
+                <Input
+                  id="periodEnd"
+                  type="date"
+                  value={formData.periodEnd}
+                  onChange={(e) => handleInputChange('periodEnd', e.target.value)}
+                  disabled={formData.period !== 'custom'}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          {formData.type !== 'tax_summary' && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2">
+                  <Columns className="h-4 w-4" />
+                  Comparison Columns
+                </Label>
+                {formData.type === 'profit_loss' && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setShowBudgets(true)}
+                    disabled={!formData.businessId}
+                  >
+                    <PiggyBank className="h-3 w-3 mr-1" />
+                    Manage Budgets
+                  </Button>
+                )}
+              </div>
+              {REPORT_COMPARISON_OPTIONS.filter(option => isComparisonAvailable(option.value)).map(option => (
+                <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={formData.comparisons.includes(option.value)}
+                    onChange={(e) => handleComparisonToggle(option.value, e.target.checked)}
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+              {formData.comparisons.some(isComparisonAvailable) && (
+                <div>
+                  <Label htmlFor="varianceThreshold">Highlight Variances Above (%)</Label>
+                  <Input
+                    id="varianceThreshold"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={formData.varianceThreshold}
+                    onChange={(e) => handleInputChange('varianceThreshold', e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Each column shows the dollar and percentage variance of every line.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose}>
               <X className="h-4 w-4 mr-2" />
@@ -346,6 +516,16 @@ export const GenerateReportModal: React.FC<GenerateReportModalProps> = ({
             </Button>
           </DialogFooter>
         </form>
+
+        {formData.businessId && (
+          <BusinessBudgetsModal
+            isOpen={showBudgets}
+            onClose={() => setShowBudgets(false)}
+            businessId={formData.businessId}
+            businessName={selectedClientBusinesses.find(b => b.id === formData.businessId)?.name || ''}
+            userId={user?.id}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
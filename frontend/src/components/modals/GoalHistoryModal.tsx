@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { deleteGoalContribution, getGoalProgressSeries, projectGoalCompletion } from '@/lib/goals';
+import { formatCurrency, formatDate } from '@/types';
+import type { GoalContribution } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, History, Trash2 } from 'lucide-react';
+
+export interface GoalHistoryGoal {
+  id: string;
+  title: string;
+  target_amount: number;
+  current_amount: number;
+  deadline: string | null;
+}
+
+interface GoalHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  goal: GoalHistoryGoal | null;
+  contributions: GoalContribution[];
+  onChanged?: () => void;
+}
+
+const KIND_LABELS: Record<GoalContribution['kind'], string> = {
+  contribution: 'Contribution',
+  starting_balance: 'Starting balance',
+  adjustment: 'Adjustment'
+};
+
+export const GoalHistoryModal: React.FC<GoalHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  goal,
+  contributions,
+  onChanged
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (contribution: GoalContribution) => {
+    if (!confirm(`Remove this ${formatCurrency(Math.abs(contribution.amount))} entry? The goal's saved amount will change.`)) return;
+
+    try {
+      setError(null);
+      await deleteGoalContribution(contribution.id);
+      onChanged?.();
+    } catch (err: any) {
+      console.error('Error deleting contribution:', err);
+      setError(err.message || 'Failed to delete contribution');
+    }
+  };
+
+  if (!isOpen || !goal) return null;
+
+  const series = getGoalProgressSeries(contributions);
+  const projection = projectGoalCompletion(goal, contributions);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>{goal.title} History</span>
+          </DialogTitle>
+          <DialogDescription>
+            {formatCurrency(goal.current_amount)} saved of {formatCurrency(goal.target_amount)}
+            {projection.monthlyRate > 0 && ` • averaging ${formatCurrency(projection.monthlyRate)} a month`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {series.length > 0 ? (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={series} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickFormatter={(date: string) => formatDate(date)} fontSize={12} />
+                <YAxis tickFormatter={(value: number) => formatCurrency(value)} fontSize={12} width={90} />
+                <Tooltip
+                  labelFormatter={(date: string) => formatDate(date)}
+                  formatter={(value: number) => [formatCurrency(value), 'Saved']}
+                />
+                <ReferenceLine
+                  y={goal.target_amount}
+                  stroke="#16a34a"
+                  strokeDasharray="4 4"
+                  label={{ value: 'Target', position: 'insideTopRight', fontSize: 12 }}
+                />
+                <Area type="stepAfter" dataKey="amount" stroke="#2563eb" fill="#bfdbfe" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-center py-8 text-gray-500">No money has been added to this goal yet.</p>
+        )}
+
+        {contributions.length > 0 && (
+          <div className="space-y-2">
+            {[...contributions].reverse().map(contribution => (
+              <div key={contribution.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{formatDate(contribution.contribution_date)}</span>
+                    {contribution.kind !== 'contribution' && (
+                      <Badge variant="secondary">{KIND_LABELS[contribution.kind]}</Badge>
+                    )}
+                    {contribution.transaction_id && <Badge variant="outline">Linked transaction</Badge>}
+                  </div>
+                  {contribution.note && <p className="text-sm text-gray-600">{contribution.note}</p>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`font-semibold ${contribution.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {contribution.amount >= 0 ? '+' : '-'}{formatCurrency(Math.abs(contribution.amount))}
+                  </span>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(contribution)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
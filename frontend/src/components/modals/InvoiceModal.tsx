@@ -0,0 +1,425 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  PAYMENT_TERMS,
+  calculateInvoiceTotals,
+  calculateLineAmount,
+  getDueDate,
+  saveInvoice,
+  validateInvoice
+} from '@/lib/invoices';
+import type { InvoiceInput, InvoiceLineInput } from '@/lib/invoices';
+import { toISODate } from '@/lib/reports';
+import { formatCurrency } from '@/types';
+import type { Customer, Invoice, InvoiceTemplate } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface InvoiceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  userId: string;
+  customers: Customer[];
+  templates?: InvoiceTemplate[];
+  invoice?: Invoice | null;
+  nextInvoiceNumber: string;
+  onSaved?: () => void;
+}
+
+interface LineFormRow {
+  description: string;
+  quantity: string;
+  unit_price: string;
+  discount_percent: string;
+  tax_rate: string;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const newLine = (): LineFormRow => ({
+  description: '',
+  quantity: '1',
+  unit_price: '',
+  discount_percent: '0',
+  tax_rate: '0'
+});
+
+const toLineInput = (row: LineFormRow): InvoiceLineInput => ({
+  description: row.description,
+  quantity: parseFloat(row.quantity),
+  unit_price: parseFloat(row.unit_price),
+  discount_percent: parseFloat(row.discount_percent) || 0,
+  tax_rate: parseFloat(row.tax_rate) || 0
+});
+
+export const InvoiceModal: React.FC<InvoiceModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  userId,
+  customers,
+  templates = [],
+  invoice,
+  nextInvoiceNumber,
+  onSaved
+}) => {
+  const [customerId, setCustomerId] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [issueDate, setIssueDate] = useState('');
+  const [termsDays, setTermsDays] = useState(30);
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [lines, setLines] = useState<LineFormRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      if (invoice) {
+        setCustomerId(invoice.customer_id);
+        setInvoiceNumber(invoice.invoice_number);
+        setIssueDate(invoice.issue_date);
+        setTermsDays(invoice.payment_terms_days);
+        setDueDate(invoice.due_date);
+        setNotes(invoice.notes || '');
+        setTemplateId(invoice.template_id || '');
+        setLines(invoice.line_items.map(line => ({
+          description: line.description,
+          quantity: String(line.quantity),
+          unit_price: String(line.unit_price),
+          discount_percent: String(line.discount_percent),
+          tax_rate: String(line.tax_rate)
+        })));
+      } else {
+        const today = toISODate(new Date());
+        setCustomerId('');
+        setInvoiceNumber(nextInvoiceNumber);
+        setIssueDate(today);
+        setTermsDays(30);
+        setDueDate(getDueDate(today, 30));
+        setNotes('');
+        setTemplateId('');
+        setLines([newLine()]);
+      }
+      setError(null);
+    }
+  }, [isOpen, invoice, nextInvoiceNumber]);
+
+  const lineInputs = useMemo(() => lines.map(toLineInput), [lines]);
+  const totals = useMemo(
+    () => calculateInvoiceTotals(lineInputs.filter(line => !isNaN(line.quantity) && !isNaN(line.unit_price))),
+    [lineInputs]
+  );
+
+  const updateLine = (index: number, changes: Partial<LineFormRow>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Picking a customer or changing terms recalculates the due date
+  const handleCustomerChange = (id: string) => {
+    setCustomerId(id);
+    const customer = customers.find(c => c.id === id);
+    if (customer) {
+      setTermsDays(customer.payment_terms_days);
+      if (issueDate) setDueDate(getDueDate(issueDate, customer.payment_terms_days));
+    }
+  };
+
+  const handleTermsChange = (days: number) => {
+    setTermsDays(days);
+    if (issueDate) setDueDate(getDueDate(issueDate, days));
+  };
+
+  const handleIssueDateChange = (date: string) => {
+    setIssueDate(date);
+    if (date) setDueDate(getDueDate(date, termsDays));
+  };
+
+  const handleSave = async () => {
+    const input: InvoiceInput = {
+      customer_id: customerId,
+      invoice_number: invoiceNumber,
+      issue_date: issueDate,
+      payment_terms_days: termsDays,
+      due_date: dueDate,
+      notes,
+      template_id: templateId || null,
+      line_items: lineInputs
+    };
+    const validationError = validateInvoice(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveInvoice(businessId, userId, input, invoice?.id);
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving invoice:', err);
+      setError(err.message || 'Failed to save invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const termOptions = PAYMENT_TERMS.some(term => term.days === termsDays)
+    ? PAYMENT_TERMS
+    : [...PAYMENT_TERMS, { days: termsDays, label: `Net ${termsDays}` }];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{invoice ? `Edit Invoice ${invoice.invoice_number}` : 'New Invoice'}</DialogTitle>
+          <DialogDescription>
+            Invoices are saved as drafts until you mark them as sent
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="invoice-customer">Customer *</Label>
+              <select
+                id="invoice-customer"
+                value={customerId}
+                onChange={(e) => handleCustomerChange(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Select a customer</option>
+                {customers.map(customer => (
+                  <option key={customer.id} value={customer.id}>{customer.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="invoice-number">Invoice Number *</Label>
+              <Input
+                id="invoice-number"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="invoice-issue-date">Issue Date *</Label>
+              <Input
+                id="invoice-issue-date"
+                type="date"
+                value={issueDate}
+                onChange={(e) => handleIssueDateChange(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invoice-terms">Terms</Label>
+              <select
+                id="invoice-terms"
+                value={termsDays}
+                onChange={(e) => handleTermsChange(parseInt(e.target.value))}
+                className={selectClassName}
+              >
+                {termOptions.map(term => (
+                  <option key={term.days} value={term.days}>{term.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="invoice-due-date">Due Date *</Label>
+              <Input
+                id="invoice-due-date"
+                type="date"
+                value={dueDate}
+                min={issueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Line Items *</Label>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-gray-50">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Description</th>
+                    <th className="text-right p-2 font-medium w-20">Qty</th>
+                    <th className="text-right p-2 font-medium w-28">Price</th>
+                    <th className="text-right p-2 font-medium w-20">Disc %</th>
+                    <th className="text-right p-2 font-medium w-20">Tax %</th>
+                    <th className="text-right p-2 font-medium w-28">Amount</th>
+                    <th className="w-10"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line, index) => {
+                    const input = lineInputs[index];
+                    const amount = isNaN(input.quantity) || isNaN(input.unit_price) ? 0 : calculateLineAmount(input);
+                    return (
+                      <tr key={index} className="border-b">
+                        <td className="p-1">
+                          <Input
+                            value={line.description}
+                            onChange={(e) => updateLine(index, { description: e.target.value })}
+                            placeholder="Product or service"
+                          />
+                        </td>
+                        <td className="p-1">
+                          <Input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="p-1">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(index, { unit_price: e.target.value })}
+                            placeholder="0.00"
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="p-1">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="100"
+                            value={line.discount_percent}
+                            onChange={(e) => updateLine(index, { discount_percent: e.target.value })}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="p-1">
+                          <Input
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            max="100"
+                            value={line.tax_rate}
+                            onChange={(e) => updateLine(index, { tax_rate: e.target.value })}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="p-2 text-right tabular-nums">{formatCurrency(amount)}</td>
+                        <td className="p-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={lines.length === 1}
+                            onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setLines(prev => [...prev, newLine()])}>
+              <Plus className="h-3 w-3 mr-1" />
+              Add Line
+            </Button>
+          </div>
+
+          <div className="flex justify-end">
+            <div className="w-64 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span className="tabular-nums">{formatCurrency(totals.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Discounts</span>
+                <span className="tabular-nums">-{formatCurrency(totals.discount_total)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Tax</span>
+                <span className="tabular-nums">{formatCurrency(totals.tax_total)}</span>
+              </div>
+              <div className="flex justify-between border-t pt-1 font-semibold">
+                <span>Total</span>
+                <span className="tabular-nums">{formatCurrency(totals.total)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice-notes">Notes</Label>
+            <Textarea
+              id="invoice-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Shown to the customer, e.g. payment instructions"
+              rows={2}
+            />
+          </div>
+
+          {templates.length > 0 && (
+            <div>
+              <Label htmlFor="invoice-template">PDF Template</Label>
+              <select
+                id="invoice-template"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Business default</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {invoice ? 'Update Invoice' : 'Save Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
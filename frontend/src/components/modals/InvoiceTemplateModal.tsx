@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import {
+  DEFAULT_ACCENT_COLOR,
+  INVOICE_TEMPLATE_LAYOUTS,
+  getInvoiceDocumentUrl,
+  saveInvoiceTemplate,
+  uploadTemplateLogo,
+  validateInvoiceTemplate
+} from '@/lib/invoiceDocuments';
+import type { InvoiceTemplateInput } from '@/lib/invoiceDocuments';
+import type { InvoiceTemplate } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, ImagePlus, Loader2, X } from 'lucide-react';
+
+interface InvoiceTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  userId: string;
+  template?: InvoiceTemplate | null;
+  isFirstTemplate?: boolean;
+  onSaved?: () => void;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+export const InvoiceTemplateModal: React.FC<InvoiceTemplateModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  userId,
+  template,
+  isFirstTemplate,
+  onSaved
+}) => {
+  const [form, setForm] = useState<InvoiceTemplateInput>({
+    name: '',
+    layout: 'classic',
+    accent_color: DEFAULT_ACCENT_COLOR,
+    logo_path: null,
+    payment_instructions: '',
+    notes: '',
+    is_default: false
+  });
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(template ? {
+        name: template.name,
+        layout: template.layout,
+        accent_color: template.accent_color,
+        logo_path: template.logo_path || null,
+        payment_instructions: template.payment_instructions || '',
+        notes: template.notes || '',
+        is_default: template.is_default
+      } : {
+        name: isFirstTemplate ? 'Standard' : '',
+        layout: 'classic',
+        accent_color: DEFAULT_ACCENT_COLOR,
+        logo_path: null,
+        payment_instructions: '',
+        notes: '',
+        is_default: !!isFirstTemplate
+      });
+      setError(null);
+    }
+  }, [isOpen, template, isFirstTemplate]);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setUploadingLogo(true);
+      setError(null);
+      const logoPath = await uploadTemplateLogo(userId, file);
+      setForm(prev => ({ ...prev, logo_path: logoPath }));
+    } catch (err: any) {
+      console.error('Error uploading logo:', err);
+      setError(err.message || 'Failed to upload logo');
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = validateInvoiceTemplate(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveInvoiceTemplate(businessId, form, template?.id);
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving invoice template:', err);
+      setError(err.message || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Invoice Template' : 'New Invoice Template'}</DialogTitle>
+          <DialogDescription>
+            How your invoices and credit notes look when they are saved as PDFs
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-layout">Layout</Label>
+              <select
+                id="template-layout"
+                value={form.layout}
+                onChange={(e) => setForm(prev => ({ ...prev, layout: e.target.value as InvoiceTemplateInput['layout'] }))}
+                className={selectClassName}
+              >
+                {INVOICE_TEMPLATE_LAYOUTS.map(layout => (
+                  <option key={layout.value} value={layout.value}>{layout.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {INVOICE_TEMPLATE_LAYOUTS.find(layout => layout.value === form.layout)?.description}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="template-color">Accent Colour</Label>
+              <div className="flex items-center gap-2 mt-1">
+                <input
+                  type="color"
+                  value={form.accent_color}
+                  onChange={(e) => setForm(prev => ({ ...prev, accent_color: e.target.value }))}
+                  className="h-10 w-12 rounded border border-gray-300"
+                />
+                <Input
+                  id="template-color"
+                  value={form.accent_color}
+                  onChange={(e) => setForm(prev => ({ ...prev, accent_color: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Logo</Label>
+              <div className="flex items-center gap-2 mt-1">
+                {form.logo_path ? (
+                  <>
+                    <img
+                      src={getInvoiceDocumentUrl(form.logo_path)}
+                      alt="Logo"
+                      className="h-10 max-w-[120px] object-contain border rounded"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setForm(prev => ({ ...prev, logo_path: null }))}
+                      title="Remove logo"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+                    {uploadingLogo ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+                    Upload image
+                    <input
+                      type="file"
+                      accept=".jpg,.jpeg,.png"
+                      className="hidden"
+                      onChange={handleLogoChange}
+                      disabled={uploadingLogo}
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="template-payment">Payment Instructions</Label>
+            <Textarea
+              id="template-payment"
+              value={form.payment_instructions || ''}
+              onChange={(e) => setForm(prev => ({ ...prev, payment_instructions: e.target.value }))}
+              placeholder="Bank name, account and routing numbers, or how to pay online"
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="template-notes">Notes</Label>
+            <Textarea
+              id="template-notes"
+              value={form.notes || ''}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="Printed on every invoice, e.g. late payment terms or a thank-you"
+              rows={2}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.is_default}
+              onChange={(e) => setForm(prev => ({ ...prev, is_default: e.target.checked }))}
+            />
+            Use for invoices that don't pick a template
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || uploadingLogo}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {template ? 'Update Template' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
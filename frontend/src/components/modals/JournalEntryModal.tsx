@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { fetchBusinessAccounts, getAccountLabel, sortChartOfAccounts } from '@/lib/accounts';
+import {
+  ADJUSTMENT_TYPES,
+  postJournalEntry,
+  summarizeJournalLines,
+  validateJournalEntry
+} from '@/lib/ledger';
+import type { ManualJournalEntryInput } from '@/lib/ledger';
+import { fetchPeriodCloses, findClosedPeriod } from '@/lib/periods';
+import { formatCurrency, formatDate } from '@/types';
+import type { Account, AdjustmentType, PeriodClose } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, BookOpen, CheckCircle, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface JournalEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  businessName: string;
+  ownerId?: string;
+  onEntryPosted?: () => void;
+}
+
+interface LineFormData {
+  key: number;
+  accountId: string;
+  description: string;
+  debit: string;
+  credit: string;
+}
+
+interface SupportingDocument {
+  id: string;
+  filename: string;
+}
+
+let nextLineKey = 0;
+const createLine = (): LineFormData => ({
+  key: nextLineKey++,
+  accountId: '',
+  description: '',
+  debit: '',
+  credit: ''
+});
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const JournalEntryModal: React.FC<JournalEntryModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  businessName,
+  ownerId,
+  onEntryPosted
+}) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [documents, setDocuments] = useState<SupportingDocument[]>([]);
+  const [periodCloses, setPeriodCloses] = useState<PeriodClose[]>([]);
+  const [entryDate, setEntryDate] = useState(today());
+  const [adjustmentType, setAdjustmentType] = useState<AdjustmentType>('accrual');
+  const [memo, setMemo] = useState('');
+  const [reference, setReference] = useState('');
+  const [documentId, setDocumentId] = useState('');
+  const [lines, setLines] = useState<LineFormData[]>([createLine(), createLine()]);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && businessId) {
+      resetForm();
+      loadAccounts();
+      loadDocuments();
+      loadPeriodCloses();
+    }
+  }, [isOpen, businessId]);
+
+  const resetForm = () => {
+    setEntryDate(today());
+    setAdjustmentType('accrual');
+    setMemo('');
+    setReference('');
+    setDocumentId('');
+    setLines([createLine(), createLine()]);
+    setError(null);
+  };
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await fetchBusinessAccounts(businessId));
+    } catch (err: any) {
+      console.error('Error loading accounts:', err);
+      setError(err.message || 'Failed to load the chart of accounts');
+    }
+  };
+
+  const loadDocuments = async () => {
+    // Client uploads are stored against the owner's id, accountant uploads against the business
+    const owners = [businessId, ownerId].filter(Boolean) as string[];
+    const { data, error: documentsError } = await supabase
+      .from('documents')
+      .select('id, filename')
+      .in('business_id', owners)
+      .order('created_at', { ascending: false });
+
+    if (documentsError) {
+      console.warn('Could not load supporting documents:', documentsError);
+      setDocuments([]);
+      return;
+    }
+    setDocuments(data || []);
+  };
+
+  const loadPeriodCloses = async () => {
+    try {
+      setPeriodCloses(await fetchPeriodCloses(businessId));
+    } catch (err) {
+      // The database still rejects entries in closed periods
+      console.warn('Could not load closed periods:', err);
+      setPeriodCloses([]);
+    }
+  };
+
+  const updateLine = (key: number, field: keyof Omit<LineFormData, 'key'>, value: string) => {
+    setLines(prev => prev.map(line => {
+      if (line.key !== key) return line;
+      // A line is either a debit or a credit; typing in one clears the other
+      if (field === 'debit' && value) return { ...line, debit: value, credit: '' };
+      if (field === 'credit' && value) return { ...line, credit: value, debit: '' };
+      return { ...line, [field]: value };
+    }));
+    setError(null);
+  };
+
+  const removeLine = (key: number) => {
+    setLines(prev => prev.filter(line => line.key !== key));
+  };
+
+  const toEntryInput = (): ManualJournalEntryInput => ({
+    entry_date: entryDate,
+    memo,
+    reference,
+    document_id: documentId || null,
+    adjustment_type: adjustmentType,
+    lines: lines.map(line => ({
+      account_id: line.accountId,
+      description: line.description,
+      debit: parseFloat(line.debit) || 0,
+      credit: parseFloat(line.credit) || 0
+    }))
+  });
+
+  const entry = toEntryInput();
+  const totals = summarizeJournalLines(entry.lines);
+  const closedPeriod = findClosedPeriod(periodCloses, entryDate);
+
+  const handlePost = async () => {
+    const validationError = validateJournalEntry(entry);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (closedPeriod) {
+      setError(`The period ${formatDate(closedPeriod.period_start)} – ${formatDate(closedPeriod.period_end)} is closed`);
+      return;
+    }
+
+    try {
+      setPosting(true);
+      setError(null);
+      await postJournalEntry(businessId, entry);
+      onEntryPosted?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error posting journal entry:', err);
+      setError(err.message || 'Failed to post journal entry');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const chart = sortChartOfAccounts(accounts);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <BookOpen className="h-5 w-5" />
+            <span>New Journal Entry</span>
+          </DialogTitle>
+          <DialogDescription>
+            Post an adjusting entry to the ledger of {businessName}. Debits must equal credits.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="entryDate">Entry Date *</Label>
+              <Input
+                id="entryDate"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+              />
+              {closedPeriod && (
+                <p className="text-xs text-red-600 mt-1">This date falls in a closed period</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="adjustmentType">Adjustment Type</Label>
+              <select
+                id="adjustmentType"
+                value={adjustmentType}
+                onChange={(e) => setAdjustmentType(e.target.value as AdjustmentType)}
+                className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              >
+                {ADJUSTMENT_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="reference">Reference</Label>
+              <Input
+                id="reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="INV-1042, depreciation schedule..."
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="memo">Memo *</Label>
+            <Textarea
+              id="memo"
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              placeholder="Why is this entry being made?"
+              rows={2}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="supportingDocument">Supporting Document</Label>
+            <select
+              id="supportingDocument"
+              value={documentId}
+              onChange={(e) => setDocumentId(e.target.value)}
+              className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">None</option>
+              {documents.map(document => (
+                <option key={document.id} value={document.id}>{document.filename}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left p-2 w-1/3">Account</th>
+                  <th className="text-left p-2">Description</th>
+                  <th className="text-right p-2 w-32">Debit</th>
+                  <th className="text-right p-2 w-32">Credit</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map(line => (
+                  <tr key={line.key} className="border-t">
+                    <td className="p-2">
+                      <select
+                        value={line.accountId}
+                        onChange={(e) => updateLine(line.key, 'accountId', e.target.value)}
+                        className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Select account</option>
+                        {chart.map(({ account, depth }) => (
+                          <option key={account.id} value={account.id}>
+                            {'\u00A0'.repeat(depth * 4)}{getAccountLabel(account)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        value={line.description}
+                        onChange={(e) => updateLine(line.key, 'description', e.target.value)}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="text-right"
+                        value={line.debit}
+                        onChange={(e) => updateLine(line.key, 'debit', e.target.value)}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="text-right"
+                        value={line.credit}
+                        onChange={(e) => updateLine(line.key, 'credit', e.target.value)}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => removeLine(line.key)}
+                        disabled={lines.length <= 2}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-medium">
+                <tr className="border-t">
+                  <td className="p-2" colSpan={2}>
+                    <Button size="sm" variant="outline" onClick={() => setLines(prev => [...prev, createLine()])}>
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add Line
+                    </Button>
+                  </td>
+                  <td className="p-2 text-right tabular-nums">{formatCurrency(totals.debits)}</td>
+                  <td className="p-2 text-right tabular-nums">{formatCurrency(totals.credits)}</td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {totals.is_balanced ? (
+            <p className="flex items-center text-sm text-green-700">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Entry is balanced
+            </p>
+          ) : (
+            <p className="flex items-center text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              Out of balance by {formatCurrency(Math.abs(totals.difference))}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handlePost} disabled={posting || !totals.is_balanced || !!closedPeriod}>
+            {posting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Post Entry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
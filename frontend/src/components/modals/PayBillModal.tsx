@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { getAccountLabel } from '@/lib/accounts';
+import { getBillBalance, recordBillPayment } from '@/lib/bills';
+import { PAYMENT_METHODS } from '@/lib/invoices';
+import { toISODate } from '@/lib/reports';
+import { formatCurrency } from '@/types';
+import type { Account, Bill } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface PayBillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bill: Bill | null;
+  accounts: Account[];
+  onPaid?: () => void;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+export const PayBillModal: React.FC<PayBillModalProps> = ({
+  isOpen,
+  onClose,
+  bill,
+  accounts,
+  onPaid
+}) => {
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [method, setMethod] = useState(PAYMENT_METHODS[0]);
+  const [reference, setReference] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const balance = bill ? getBillBalance(bill) : 0;
+
+  useEffect(() => {
+    if (isOpen && bill) {
+      const today = toISODate(new Date());
+      setAmount(getBillBalance(bill).toFixed(2));
+      // Default to the scheduled date when it has come round
+      setPaymentDate(bill.scheduled_payment_date && bill.scheduled_payment_date <= today ? bill.scheduled_payment_date : today);
+      setMethod(PAYMENT_METHODS[0]);
+      setReference('');
+      setAccountId('');
+      setError(null);
+    }
+  }, [isOpen, bill]);
+
+  const handleSave = async () => {
+    if (!bill) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      setError('Enter a payment amount greater than 0');
+      return;
+    }
+    if (value > balance) {
+      setError(`The payment is more than the ${formatCurrency(balance)} still owed`);
+      return;
+    }
+    if (!paymentDate) {
+      setError('Payment date is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await recordBillPayment(bill.id, {
+        amount: value,
+        payment_date: paymentDate,
+        method,
+        reference,
+        account_id: accountId || null
+      });
+      onPaid?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error paying bill:', err);
+      setError(err.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !bill) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay Bill</DialogTitle>
+          <DialogDescription>
+            {bill.vendor?.name}{bill.bill_number && ` • ${bill.bill_number}`} • {formatCurrency(balance)} owed.
+            The payment is added to your transactions as a {bill.category} expense.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bill-payment-amount">Amount *</Label>
+              <Input
+                id="bill-payment-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={balance}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="bill-payment-date">Payment Date *</Label>
+              <Input
+                id="bill-payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bill-payment-method">Method</Label>
+              <select
+                id="bill-payment-method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                className={selectClassName}
+              >
+                {PAYMENT_METHODS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="bill-payment-reference">Reference</Label>
+              <Input
+                id="bill-payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Check or transfer number"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {accounts.length > 0 && (
+            <div>
+              <Label htmlFor="bill-payment-account">Paid From</Label>
+              <select
+                id="bill-payment-account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Default account</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{getAccountLabel(account)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { closePeriod, fetchPeriodCloses, getRecentPeriods, reopenPeriod } from '@/lib/periods';
+import { formatDate, formatDateTime } from '@/types';
+import type { PeriodClose, PeriodType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, Lock, Unlock, X } from 'lucide-react';
+
+interface PeriodCloseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessId: string;
+  businessName: string;
+}
+
+export const PeriodCloseModal: React.FC<PeriodCloseModalProps> = ({
+  isOpen,
+  onClose,
+  businessId,
+  businessName
+}) => {
+  const { user } = useAuth();
+  const [closes, setCloses] = useState<PeriodClose[]>([]);
+  const [periodType, setPeriodType] = useState<PeriodType>('month');
+  const [selectedPeriod, setSelectedPeriod] = useState(0);
+  const [reopening, setReopening] = useState<PeriodClose | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const periods = getRecentPeriods(periodType, periodType === 'quarter' ? 8 : 12);
+
+  useEffect(() => {
+    if (isOpen && businessId) {
+      loadCloses();
+    }
+  }, [isOpen, businessId]);
+
+  const loadCloses = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setCloses(await fetchPeriodCloses(businessId));
+    } catch (err: any) {
+      console.error('Error loading closed periods:', err);
+      setError(err.message || 'Failed to load closed periods');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isClosed = (start: string, end: string) => {
+    return closes.some(c => c.status === 'closed' && c.period_start === start && c.period_end === end);
+  };
+
+  const handleClosePeriod = async () => {
+    const period = periods[selectedPeriod];
+    if (!period || !user?.id) return;
+
+    if (!confirm(`Close ${period.label} for ${businessName}? Transactions dated in it will be locked.`)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await closePeriod(businessId, period, user.id);
+      await loadCloses();
+    } catch (err: any) {
+      console.error('Error closing period:', err);
+      setError(err.message || 'Failed to close period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!reopening) return;
+
+    if (!reopenReason.trim()) {
+      setError('Please explain why the period is being reopened');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await reopenPeriod(reopening.id, reopenReason);
+      setReopening(null);
+      setReopenReason('');
+      await loadCloses();
+    } catch (err: any) {
+      console.error('Error reopening period:', err);
+      setError(err.message || 'Failed to reopen period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Lock className="h-5 w-5" />
+            <span>Period Close</span>
+          </DialogTitle>
+          <DialogDescription>
+            Close completed months or quarters for {businessName}. Transactions and journal
+            entries dated in a closed period cannot be added, changed or deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="periodType">Period Type</Label>
+              <select
+                id="periodType"
+                value={periodType}
+                onChange={(e) => {
+                  setPeriodType(e.target.value as PeriodType);
+                  setSelectedPeriod(0);
+                }}
+                className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="month">Month</option>
+                <option value="quarter">Quarter</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="period">Period</Label>
+              <select
+                id="period"
+                value={selectedPeriod}
+                onChange={(e) => setSelectedPeriod(Number(e.target.value))}
+                className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+              >
+                {periods.map((period, index) => (
+                  <option key={period.start} value={index}>
+                    {period.label}{isClosed(period.start, period.end) ? ' (closed)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <Button
+            onClick={handleClosePeriod}
+            disabled={saving || !periods[selectedPeriod] ||
+              isClosed(periods[selectedPeriod].start, periods[selectedPeriod].end)}
+            className="w-full"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+            Close Period
+          </Button>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Close History</h4>
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : closes.length === 0 ? (
+            <p className="text-sm text-gray-400 pl-2">No periods have been closed yet</p>
+          ) : (
+            <div className="space-y-2">
+              {closes.map(close => (
+                <div key={close.id} className="p-3 rounded-lg bg-gray-50 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900">
+                          {formatDate(close.period_start)} – {formatDate(close.period_end)}
+                        </p>
+                        <Badge variant={close.status === 'closed' ? 'warning' : 'outline'}>
+                          {close.status === 'closed' ? 'Closed' : 'Reopened'}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {close.closed_at && `Closed ${formatDateTime(close.closed_at)}`}
+                        {close.reopened_at && ` • Reopened ${formatDateTime(close.reopened_at)}`}
+                      </p>
+                      {close.reopen_reason && (
+                        <p className="text-xs text-gray-600 mt-1">Reason: {close.reopen_reason}</p>
+                      )}
+                    </div>
+                    {close.status === 'closed' && reopening?.id !== close.id && (
+                      <Button size="sm" variant="outline" onClick={() => setReopening(close)}>
+                        <Unlock className="h-3 w-3 mr-1" />
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                  {reopening?.id === close.id && (
+                    <div className="space-y-2">
+                      <Label htmlFor="reopenReason">Reason for reopening *</Label>
+                      <Textarea
+                        id="reopenReason"
+                        value={reopenReason}
+                        onChange={(e) => setReopenReason(e.target.value)}
+                        placeholder="e.g. Late vendor invoice needs to be recorded"
+                        rows={2}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setReopening(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={handleReopen} disabled={saving || !reopenReason.trim()}>
+                          {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          Reopen Period
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
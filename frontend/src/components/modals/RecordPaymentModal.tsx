@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { getAccountLabel } from '@/lib/accounts';
+import { PAYMENT_METHODS, getInvoiceBalance, recordInvoicePayment } from '@/lib/invoices';
+import { toISODate } from '@/lib/reports';
+import { formatCurrency } from '@/types';
+import type { Account, Invoice } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface RecordPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice: Invoice | null;
+  accounts: Account[];
+  onRecorded?: () => void;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+export const RecordPaymentModal: React.FC<RecordPaymentModalProps> = ({
+  isOpen,
+  onClose,
+  invoice,
+  accounts,
+  onRecorded
+}) => {
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [method, setMethod] = useState(PAYMENT_METHODS[0]);
+  const [reference, setReference] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const balance = invoice ? getInvoiceBalance(invoice) : 0;
+
+  useEffect(() => {
+    if (isOpen && invoice) {
+      setAmount(getInvoiceBalance(invoice).toFixed(2));
+      setPaymentDate(toISODate(new Date()));
+      setMethod(PAYMENT_METHODS[0]);
+      setReference('');
+      setAccountId('');
+      setError(null);
+    }
+  }, [isOpen, invoice]);
+
+  const handleSave = async () => {
+    if (!invoice) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      setError('Enter a payment amount greater than 0');
+      return;
+    }
+    if (value > balance) {
+      setError(`The payment is more than the ${formatCurrency(balance)} still due`);
+      return;
+    }
+    if (!paymentDate) {
+      setError('Payment date is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await recordInvoicePayment(invoice.id, {
+        amount: value,
+        payment_date: paymentDate,
+        method,
+        reference,
+        account_id: accountId || null
+      });
+      onRecorded?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error recording payment:', err);
+      setError(err.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !invoice) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            Invoice {invoice.invoice_number} • {formatCurrency(balance)} due. The payment is added to
+            your transactions as income.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="payment-amount">Amount *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={balance}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="payment-date">Payment Date *</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="payment-method">Method</Label>
+              <select
+                id="payment-method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                className={selectClassName}
+              >
+                {PAYMENT_METHODS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Check or transfer number"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {accounts.length > 0 && (
+            <div>
+              <Label htmlFor="payment-account">Deposited To</Label>
+              <select
+                id="payment-account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Default account</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{getAccountLabel(account)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
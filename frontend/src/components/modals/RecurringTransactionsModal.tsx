@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import {
+  describeSchedule,
+  fetchRecurringTransactions,
+  getOccurrenceDate,
+  stopRecurringTransaction
+} from '@/lib/recurring';
+import { formatCurrency, formatDate } from '@/types';
+import type { RecurringTransaction } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, Repeat } from 'lucide-react';
+
+interface RecurringTransactionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  onChanged?: () => void;
+}
+
+export const RecurringTransactionsModal: React.FC<RecurringTransactionsModalProps> = ({
+  isOpen,
+  onClose,
+  userId,
+  onChanged
+}) => {
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && userId) {
+      loadTemplates();
+    }
+  }, [isOpen, userId]);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTemplates(await fetchRecurringTransactions(userId));
+    } catch (err: any) {
+      console.error('Error loading recurring transactions:', err);
+      setError(err.message || 'Failed to load recurring transactions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStop = async (template: RecurringTransaction) => {
+    if (!confirm(`Stop "${template.description || 'this recurring transaction'}"? Upcoming occurrences will be removed; past ones are kept.`)) return;
+
+    try {
+      await stopRecurringTransaction(template.id);
+      await loadTemplates();
+      onChanged?.();
+    } catch (err: any) {
+      console.error('Error stopping recurring transaction:', err);
+      setError(err.message || 'Failed to stop the recurring transaction');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Repeat className="h-5 w-5" />
+            <span>Recurring Transactions</span>
+          </DialogTitle>
+          <DialogDescription>
+            Occurrences are added to your transactions on the day they fall due. Edit or skip a single
+            occurrence from the transaction list, or skip an upcoming one from your overview.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Repeat className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+            <p>No recurring transactions. Choose a repeat schedule when adding a transaction.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {templates.map(template => {
+              const nextDate = getOccurrenceDate(template, template.next_index);
+              const hasNext = template.is_active && (!template.end_date || nextDate <= template.end_date);
+
+              return (
+                <div key={template.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{template.description || 'No description'}</span>
+                      {!template.is_active && <Badge variant="secondary">Stopped</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {describeSchedule(template)}
+                      {template.category && ` • ${template.category}`}
+                      {hasNext && ` • next scheduled ${formatDate(nextDate)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className={`font-semibold ${template.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                      {template.type === 'income' ? '+' : '-'}{formatCurrency(template.amount)}
+                    </span>
+                    {template.is_active && (
+                      <Button size="sm" variant="outline" onClick={() => handleStop(template)}>
+                        Stop
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
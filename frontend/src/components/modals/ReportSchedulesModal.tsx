@@ -0,0 +1,473 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  REPORT_SCHEDULE_FREQUENCIES,
+  SCHEDULED_REPORT_TYPES,
+  deleteReportSchedule,
+  fetchReportSchedules,
+  getNextRunDate,
+  getScheduledPeriod,
+  saveReportSchedule,
+  setReportScheduleActive
+} from '@/lib/reportSchedules';
+import { DEFAULT_VARIANCE_THRESHOLD, REPORT_COMPARISON_OPTIONS } from '@/lib/reportComparisons';
+import { formatDate } from '@/types';
+import type { ReportComparisonKind, ReportSchedule, ReportScheduleFrequency, ReportType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  CalendarClock,
+  Edit,
+  Loader2,
+  Plus,
+  Power,
+  Trash2,
+  X
+} from 'lucide-react';
+
+interface ReportSchedulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSchedulesChanged?: () => void;
+}
+
+interface BusinessOption {
+  id: string;
+  name: string;
+  client_name: string;
+}
+
+interface AccountantOption {
+  id: string;
+  name: string;
+}
+
+interface ScheduleFormData {
+  businessId: string;
+  reportType: ReportType;
+  frequency: ReportScheduleFrequency;
+  runDay: string;
+  dueDays: string;
+  assignedTo: string;
+  comparisons: ReportComparisonKind[];
+  varianceThreshold: string;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const emptyForm = (assignedTo: string): ScheduleFormData => ({
+  businessId: '',
+  reportType: 'profit_loss',
+  frequency: 'monthly',
+  runDay: '5',
+  dueDays: '7',
+  assignedTo,
+  comparisons: [],
+  varianceThreshold: DEFAULT_VARIANCE_THRESHOLD.toString()
+});
+
+const typeLabel = (type: ReportType) =>
+  SCHEDULED_REPORT_TYPES.find(option => option.value === type)?.label || type;
+
+const frequencyLabel = (frequency: ReportScheduleFrequency) =>
+  REPORT_SCHEDULE_FREQUENCIES.find(option => option.value === frequency)?.label || frequency;
+
+export const ReportSchedulesModal: React.FC<ReportSchedulesModalProps> = ({
+  isOpen,
+  onClose,
+  onSchedulesChanged
+}) => {
+  const { user } = useAuth();
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [businesses, setBusinesses] = useState<BusinessOption[]>([]);
+  const [accountants, setAccountants] = useState<AccountantOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(null);
+  const [formData, setFormData] = useState<ScheduleFormData>(emptyForm(''));
+
+  useEffect(() => {
+    if (isOpen) {
+      loadData();
+    }
+  }, [isOpen]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [scheduleRows, businessResult, accountantResult] = await Promise.all([
+        fetchReportSchedules(),
+        supabase
+          .from('businesses')
+          .select('id, name, owner:users(full_name, email)')
+          .order('name'),
+        supabase
+          .from('users')
+          .select('id, full_name, email')
+          .in('role', ['accountant', 'admin'])
+          .order('full_name')
+      ]);
+
+      if (businessResult.error) throw businessResult.error;
+      if (accountantResult.error) throw accountantResult.error;
+
+      setSchedules(scheduleRows);
+      setBusinesses((businessResult.data || []).map(business => ({
+        id: business.id,
+        name: business.name,
+        client_name: business.owner?.full_name || business.owner?.email || 'Unknown Client'
+      })));
+      setAccountants((accountantResult.data || []).map(accountant => ({
+        id: accountant.id,
+        name: accountant.full_name || accountant.email
+      })));
+    } catch (err: any) {
+      console.error('Error loading report schedules:', err);
+      setError(err.message || 'Failed to load report schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAddForm = () => {
+    setEditingSchedule(null);
+    setFormData(emptyForm(user?.id || ''));
+    setShowForm(true);
+    setError(null);
+  };
+
+  const openEditForm = (schedule: ReportSchedule) => {
+    setEditingSchedule(schedule);
+    setFormData({
+      businessId: schedule.business_id,
+      reportType: schedule.report_type,
+      frequency: schedule.frequency,
+      runDay: schedule.run_day.toString(),
+      dueDays: schedule.due_days.toString(),
+      assignedTo: schedule.assigned_to || '',
+      comparisons: schedule.comparison?.columns || [],
+      varianceThreshold: (schedule.comparison?.variance_threshold ?? DEFAULT_VARIANCE_THRESHOLD).toString()
+    });
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleComparisonToggle = (kind: ReportComparisonKind, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      comparisons: checked
+        ? REPORT_COMPARISON_OPTIONS.map(option => option.value).filter(value => value === kind || prev.comparisons.includes(value))
+        : prev.comparisons.filter(value => value !== kind)
+    }));
+  };
+
+  // Budgets are only kept for profit & loss lines
+  const isComparisonAvailable = (kind: ReportComparisonKind) =>
+    kind !== 'budget' || formData.reportType === 'profit_loss';
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    const comparisons = formData.comparisons.filter(isComparisonAvailable);
+    const varianceThreshold = parseFloat(formData.varianceThreshold);
+    if (comparisons.length > 0 && (isNaN(varianceThreshold) || varianceThreshold < 0)) {
+      setError('Variance threshold must be a positive percentage');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveReportSchedule(
+        {
+          business_id: formData.businessId,
+          report_type: formData.reportType,
+          frequency: formData.frequency,
+          run_day: parseInt(formData.runDay, 10),
+          due_days: parseInt(formData.dueDays, 10),
+          assigned_to: formData.assignedTo || null,
+          comparison: comparisons.length > 0 ? { columns: comparisons, variance_threshold: varianceThreshold } : null
+        },
+        user.id,
+        editingSchedule?.id
+      );
+      setShowForm(false);
+      setEditingSchedule(null);
+      await loadData();
+      onSchedulesChanged?.();
+    } catch (err: any) {
+      console.error('Error saving report schedule:', err);
+      setError(err.message || 'Failed to save report schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (schedule: ReportSchedule) => {
+    try {
+      setError(null);
+      await setReportScheduleActive(schedule.id, !schedule.is_active);
+      await loadData();
+    } catch (err: any) {
+      console.error('Error updating report schedule:', err);
+      setError(err.message || 'Failed to update report schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!confirm(`Delete the ${frequencyLabel(schedule.frequency).toLowerCase()} ${typeLabel(schedule.report_type)} schedule for ${schedule.business_name}? Reports it already created are kept.`)) return;
+
+    try {
+      setError(null);
+      await deleteReportSchedule(schedule.id);
+      await loadData();
+    } catch (err: any) {
+      console.error('Error deleting report schedule:', err);
+      setError(err.message || 'Failed to delete report schedule');
+    }
+  };
+
+  // Preview of the first run with the timing in the form
+  const runDay = parseInt(formData.runDay, 10);
+  const previewRun = runDay >= 1 && runDay <= 28 ? getNextRunDate(formData.frequency, runDay) : null;
+  const previewPeriod = previewRun ? getScheduledPeriod(formData.frequency, previewRun) : null;
+
+  if (!isOpen) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Report Schedules</span>
+          </DialogTitle>
+          <DialogDescription>
+            Each run creates a draft report for the period that just ended, with a review task
+            and a notification for the assigned accountant.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {schedules.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-4">No report schedules yet</p>
+            ) : (
+              <div className="space-y-2">
+                {schedules.map(schedule => (
+                  <div
+                    key={schedule.id}
+                    className={`flex items-center justify-between p-3 rounded-lg ${
+                      schedule.is_active ? 'bg-gray-50' : 'bg-gray-100 opacity-60'
+                    }`}
+                  >
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900">{typeLabel(schedule.report_type)}</p>
+                        <Badge variant="secondary">{frequencyLabel(schedule.frequency)}</Badge>
+                        {!schedule.is_active && <Badge variant="outline">Paused</Badge>}
+                        {schedule.comparison && <Badge variant="info">Comparative</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {schedule.business_name} ({schedule.client_name})
+                        {schedule.assigned_to_name && ` • reviewed by ${schedule.assigned_to_name}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Day {schedule.run_day}, due {schedule.due_days} day{schedule.due_days !== 1 ? 's' : ''} later
+                        {schedule.is_active && schedule.next_run_on && ` • next run ${formatDate(schedule.next_run_on)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" variant="outline" onClick={() => openEditForm(schedule)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleToggleActive(schedule)}>
+                        <Power className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(schedule)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {showForm ? (
+              <div className="border rounded-lg p-4 space-y-4">
+                <h4 className="font-medium text-gray-900">
+                  {editingSchedule ? 'Edit Schedule' : 'New Schedule'}
+                </h4>
+                <div>
+                  <Label htmlFor="scheduleBusiness">Business *</Label>
+                  <select
+                    id="scheduleBusiness"
+                    value={formData.businessId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, businessId: e.target.value }))}
+                    className={selectClassName}
+                  >
+                    <option value="">Select a business</option>
+                    {businesses.map(business => (
+                      <option key={business.id} value={business.id}>
+                        {business.name} ({business.client_name})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="scheduleType">Report Type</Label>
+                    <select
+                      id="scheduleType"
+                      value={formData.reportType}
+                      onChange={(e) => setFormData(prev => ({ ...prev, reportType: e.target.value as ReportType }))}
+                      className={selectClassName}
+                    >
+                      {SCHEDULED_REPORT_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="scheduleFrequency">Frequency</Label>
+                    <select
+                      id="scheduleFrequency"
+                      value={formData.frequency}
+                      onChange={(e) => setFormData(prev => ({ ...prev, frequency: e.target.value as ReportScheduleFrequency }))}
+                      className={selectClassName}
+                    >
+                      {REPORT_SCHEDULE_FREQUENCIES.map(frequency => (
+                        <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="scheduleRunDay">Run on Day</Label>
+                    <Input
+                      id="scheduleRunDay"
+                      type="number"
+                      min="1"
+                      max="28"
+                      value={formData.runDay}
+                      onChange={(e) => setFormData(prev => ({ ...prev, runDay: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="scheduleDueDays">Due After (days)</Label>
+                    <Input
+                      id="scheduleDueDays"
+                      type="number"
+                      min="0"
+                      value={formData.dueDays}
+                      onChange={(e) => setFormData(prev => ({ ...prev, dueDays: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="scheduleAssignee">Reviewer *</Label>
+                    <select
+                      id="scheduleAssignee"
+                      value={formData.assignedTo}
+                      onChange={(e) => setFormData(prev => ({ ...prev, assignedTo: e.target.value }))}
+                      className={selectClassName}
+                    >
+                      <option value="">Select an accountant</option>
+                      {accountants.map(accountant => (
+                        <option key={accountant.id} value={accountant.id}>{accountant.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {previewRun && previewPeriod && (
+                  <p className="text-xs text-gray-500">
+                    Runs on day {runDay} {REPORT_SCHEDULE_FREQUENCIES.find(option => option.value === formData.frequency)?.runs}.
+                    {' '}{editingSchedule ? 'Next' : 'First'} report on {formatDate(previewRun)}, covering
+                    {' '}{formatDate(previewPeriod.start)} – {formatDate(previewPeriod.end)}.
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Comparison Columns</Label>
+                  {REPORT_COMPARISON_OPTIONS.filter(option => isComparisonAvailable(option.value)).map(option => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={formData.comparisons.includes(option.value)}
+                        onChange={(e) => handleComparisonToggle(option.value, e.target.checked)}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                  {formData.comparisons.some(isComparisonAvailable) && (
+                    <div className="w-48">
+                      <Label htmlFor="scheduleThreshold">Highlight Variances Above (%)</Label>
+                      <Input
+                        id="scheduleThreshold"
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={formData.varianceThreshold}
+                        onChange={(e) => setFormData(prev => ({ ...prev, varianceThreshold: e.target.value }))}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setShowForm(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {editingSchedule ? 'Save Schedule' : 'Add Schedule'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={openAddForm} className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Schedule
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import {
+  fetchTransactionSplits,
+  getUnassignedAmount,
+  isSplitCategory,
+  saveTransactionSplits,
+  validateSplits
+} from '@/lib/splits';
+import { formatCurrency } from '@/types';
+import type { TransactionSplit } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, Plus, Split, Trash2 } from 'lucide-react';
+
+export interface SplittableTransaction {
+  id: string;
+  amount: number;
+  description?: string | null;
+  category?: string | null;
+}
+
+interface SplitTransactionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: SplittableTransaction | null;
+  categories: string[];
+  onSaved?: () => void;
+}
+
+interface SplitLineForm {
+  category: string;
+  amount: string;
+  memo: string;
+}
+
+const emptyLine: SplitLineForm = { category: '', amount: '', memo: '' };
+
+const toSplits = (lines: SplitLineForm[]): TransactionSplit[] =>
+  lines.map(line => ({
+    category: line.category,
+    amount: parseFloat(line.amount) || 0,
+    memo: line.memo.trim() || null
+  }));
+
+export const SplitTransactionModal: React.FC<SplitTransactionModalProps> = ({
+  isOpen,
+  onClose,
+  transaction,
+  categories,
+  onSaved
+}) => {
+  const [lines, setLines] = useState<SplitLineForm[]>([]);
+  const [isSplit, setIsSplit] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && transaction) {
+      loadSplits();
+    }
+  }, [isOpen, transaction?.id]);
+
+  const loadSplits = async () => {
+    if (!transaction) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const splits = await fetchTransactionSplits(transaction.id);
+      setIsSplit(splits.length > 0);
+
+      if (splits.length > 0) {
+        setLines(splits.map(split => ({
+          category: split.category,
+          amount: split.amount.toFixed(2),
+          memo: split.memo || ''
+        })));
+      } else {
+        // Start from the current category holding the full amount
+        const category = isSplitCategory(transaction.category) ? '' : transaction.category || '';
+        setLines([{ ...emptyLine, category, amount: Math.abs(transaction.amount).toFixed(2) }, { ...emptyLine }]);
+      }
+    } catch (err: any) {
+      console.error('Error loading split lines:', err);
+      setError(err.message || 'Failed to load split lines');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<SplitLineForm>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Puts whatever is left unassigned on the given line
+  const fillRemainder = (index: number) => {
+    if (!transaction) return;
+    const others = toSplits(lines.filter((_, i) => i !== index));
+    const remainder = getUnassignedAmount(transaction.amount, others);
+    if (remainder > 0) updateLine(index, { amount: remainder.toFixed(2) });
+  };
+
+  const save = async (splits: TransactionSplit[]) => {
+    if (!transaction) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveTransactionSplits(transaction.id, splits);
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving split lines:', err);
+      setError(err.message || 'Failed to save split lines');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!transaction) return;
+
+    const splits = toSplits(lines);
+    const validationError = validateSplits(transaction.amount, splits);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    save(splits);
+  };
+
+  const handleRemoveSplit = () => {
+    if (!confirm('Remove the split? The transaction keeps the category of its largest line.')) return;
+    save([]);
+  };
+
+  if (!isOpen || !transaction) return null;
+
+  const unassigned = getUnassignedAmount(transaction.amount, toSplits(lines));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Split className="h-5 w-5" />
+            <span>Split Transaction</span>
+          </DialogTitle>
+          <DialogDescription>
+            Divide {transaction.description || 'this transaction'} ({formatCurrency(Math.abs(transaction.amount))}) across
+            categories. The lines must add up to the full amount.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-12 gap-2 text-sm font-medium text-gray-700">
+              <Label className="col-span-5">Category</Label>
+              <Label className="col-span-3">Amount</Label>
+              <Label className="col-span-3">Memo</Label>
+            </div>
+
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-5">
+                  <Input
+                    list="splitCategoryOptions"
+                    value={line.category}
+                    onChange={(e) => updateLine(index, { category: e.target.value })}
+                    placeholder="Category"
+                  />
+                </div>
+                <div className="col-span-3">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={line.amount}
+                    onChange={(e) => updateLine(index, { amount: e.target.value })}
+                    onDoubleClick={() => fillRemainder(index)}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="col-span-3">
+                  <Input
+                    value={line.memo}
+                    onChange={(e) => updateLine(index, { memo: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="col-span-1 text-right">
+                  <Button size="sm" variant="ghost" onClick={() => removeLine(index)} disabled={lines.length <= 2}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <datalist id="splitCategoryOptions">
+              {categories.map(category => <option key={category} value={category} />)}
+            </datalist>
+
+            <div className="flex items-center justify-between">
+              <Button size="sm" variant="outline" onClick={() => setLines(prev => [...prev, { ...emptyLine }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+              <p className={`text-sm ${unassigned === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {unassigned === 0
+                  ? 'Fully assigned'
+                  : unassigned > 0
+                    ? `${formatCurrency(unassigned)} left to assign`
+                    : `${formatCurrency(-unassigned)} over the total`}
+              </p>
+            </div>
+            <p className="text-xs text-gray-500">Double-click an amount to fill in what is left.</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isSplit && (
+            <Button variant="outline" onClick={handleRemoveSplit} disabled={saving} className="mr-auto">
+              Remove Split
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Split
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
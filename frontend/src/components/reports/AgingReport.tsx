@@ -0,0 +1,74 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatDate } from '@/types';
+import { AGING_BUCKETS } from '@/lib/aging';
+import type { AgingReport as AgingReportData } from '@/lib/aging';
+
+interface AgingReportProps {
+  report: AgingReportData;
+  partyLabel: string;
+  emptyLabel?: string;
+}
+
+export const AgingReport: React.FC<AgingReportProps> = ({
+  report,
+  partyLabel,
+  emptyLabel = 'Nothing outstanding'
+}) => {
+  if (report.rows.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">{emptyLabel}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">As of {formatDate(report.as_of)} • days past due</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-gray-50">
+            <tr>
+              <th className="text-left p-2 font-medium">{partyLabel}</th>
+              {AGING_BUCKETS.map(bucket => (
+                <th key={bucket.key} className="text-right p-2 font-medium">{bucket.label}</th>
+              ))}
+              <th className="text-right p-2 font-medium">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map(row => (
+              <tr key={row.party_id} className="border-b">
+                <td className="p-2">
+                  {row.party_name}
+                  <span className="text-xs text-gray-400 ml-2">({row.item_count})</span>
+                </td>
+                {AGING_BUCKETS.map(bucket => (
+                  <td
+                    key={bucket.key}
+                    className={cn(
+                      'p-2 text-right tabular-nums',
+                      row.buckets[bucket.key] === 0 && 'text-gray-300',
+                      bucket.key !== 'current' && row.buckets[bucket.key] > 0 && 'text-red-600'
+                    )}
+                  >
+                    {formatCurrency(row.buckets[bucket.key])}
+                  </td>
+                ))}
+                <td className="p-2 text-right tabular-nums font-medium">{formatCurrency(row.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 font-semibold">
+              <td className="p-2">Total</td>
+              {AGING_BUCKETS.map(bucket => (
+                <td key={bucket.key} className="p-2 text-right tabular-nums">
+                  {formatCurrency(report.totals[bucket.key])}
+                </td>
+              ))}
+              <td className="p-2 text-right tabular-nums">{formatCurrency(report.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { formatDate } from '@/types';
+import type { BalanceSheetData } from '@/types';
+import { StatementSection, StatementTotal, formatStatementAmount } from './StatementTable';
+
+interface BalanceSheetStatementProps {
+  data: BalanceSheetData;
+  businessName?: string;
+}
+
+export const BalanceSheetStatement: React.FC<BalanceSheetStatementProps> = ({ data, businessName }) => {
+  const { totals } = data;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        {businessName && <p className="text-sm font-medium text-gray-600">{businessName}</p>}
+        <h3 className="text-lg font-bold text-gray-900">Balance Sheet</h3>
+        <p className="text-sm text-gray-500">As of {formatDate(data.as_of)}</p>
+      </div>
+
+      {data.is_balanced ? (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription className="text-green-800">
+            Assets equal liabilities plus equity.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The balance sheet does not balance: assets differ from liabilities plus equity by{' '}
+            {formatStatementAmount(data.difference)}. Check the opening balances
+            {data.unassigned_transaction_count > 0 && (
+              <> and assign an account to {data.unassigned_transaction_count} transaction(s)</>
+            )}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <StatementSection
+        title="Assets"
+        lines={data.assets}
+        total={totals.assets}
+        emptyLabel="No asset accounts set up"
+      />
+
+      <StatementSection
+        title="Liabilities"
+        lines={data.liabilities}
+        total={totals.liabilities}
+        emptyLabel="No liability accounts set up"
+      />
+
+      <StatementSection title="Equity" lines={data.equity} total={totals.equity} />
+
+      <StatementTotal
+        label="Total Liabilities & Equity"
+        amount={totals.liabilities_and_equity}
+        emphasis="strong"
+      />
+
+      <p className="text-xs text-gray-400 text-right">
+        Generated {formatDate(data.generated_at)}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState, useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { getBillBalance, groupBillsByPaymentDate, isBillOverdue } from '@/lib/bills';
+import { toISODate } from '@/lib/reports';
+import { formatCurrency } from '@/types';
+import type { Bill } from '@/types';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface BillsCalendarProps {
+  bills: Bill[];
+  onSelectBill?: (bill: Bill) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Open bills on the day they are scheduled to be paid, or due when not scheduled
+export const BillsCalendar: React.FC<BillsCalendarProps> = ({ bills, onSelectBill }) => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const today = toISODate(new Date());
+  const monthStart = toISODate(month);
+  const monthEnd = toISODate(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+
+  const byDate = useMemo(
+    () => groupBillsByPaymentDate(bills, monthStart, monthEnd),
+    [bills, monthStart, monthEnd]
+  );
+
+  // Whole weeks from the Sunday on or before the 1st
+  const days = useMemo(() => {
+    const first = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay());
+    const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    const count = Math.ceil((last.getDate() + month.getDay()) / 7) * 7;
+    return Array.from({ length: count }, (_, i) =>
+      new Date(first.getFullYear(), first.getMonth(), first.getDate() + i)
+    );
+  }, [month]);
+
+  const monthTotal = [...byDate.values()].flat().reduce((sum, bill) => sum + getBillBalance(bill), 0);
+
+  const shiftMonth = (offset: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => shiftMonth(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <h4 className="font-semibold text-gray-900 w-40 text-center">
+            {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </h4>
+          <Button size="sm" variant="outline" onClick={() => shiftMonth(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600">
+          {formatCurrency(monthTotal)} to pay this month
+        </p>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l text-sm">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="border-r border-b bg-gray-50 p-2 text-center font-medium text-gray-600">
+            {day}
+          </div>
+        ))}
+        {days.map(day => {
+          const date = toISODate(day);
+          const dayBills = byDate.get(date) || [];
+          const inMonth = day.getMonth() === month.getMonth();
+          return (
+            <div
+              key={date}
+              className={cn(
+                'border-r border-b min-h-[88px] p-1 space-y-1',
+                !inMonth && 'bg-gray-50 text-gray-400',
+                date === today && 'bg-blue-50'
+              )}
+            >
+              <div className="text-xs font-medium">{day.getDate()}</div>
+              {dayBills.map(bill => (
+                <button
+                  key={bill.id}
+                  onClick={() => onSelectBill?.(bill)}
+                  className={cn(
+                    'w-full text-left rounded px-1 py-0.5 text-xs truncate',
+                    isBillOverdue(bill, today)
+                      ? 'bg-red-100 text-red-800'
+                      : bill.status === 'pending_approval'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-blue-100 text-blue-800'
+                  )}
+                  title={`${bill.vendor?.name || 'Vendor'} • ${formatCurrency(getBillBalance(bill))}`}
+                >
+                  {bill.vendor?.name} {formatCurrency(getBillBalance(bill))}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-100"></span>Approved</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-yellow-100"></span>Pending approval</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-100"></span>Overdue</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,408 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  FORECAST_HISTORY_MONTHS,
+  FORECAST_SOURCE_LABELS,
+  buildCashFlowForecast,
+  deleteCashFlowScenario,
+  fetchCashFlowScenarios,
+  fetchForecastInputs
+} from '@/lib/forecast';
+import type { CashFlowForecast, ForecastGranularity, ForecastInputs, ForecastSource } from '@/lib/forecast';
+import type { LedgerBook } from '@/lib/ledger';
+import { formatCurrency, formatDate } from '@/types';
+import type { CashFlowScenario } from '@/types';
+import { ForecastScenarioModal } from '@/components/modals/ForecastScenarioModal';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface CashFlowForecastPanelProps {
+  book: LedgerBook;
+  userId: string;
+  canEditScenarios?: boolean;
+}
+
+const BASELINE_KEY = 'baseline';
+const SCENARIO_COLORS = ['#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777'];
+
+export const CashFlowForecastPanel: React.FC<CashFlowForecastPanelProps> = ({
+  book,
+  userId,
+  canEditScenarios = true
+}) => {
+  const [inputs, setInputs] = useState<ForecastInputs | null>(null);
+  const [scenarios, setScenarios] = useState<CashFlowScenario[]>([]);
+  const [compared, setCompared] = useState<string[]>([]);
+  const [granularity, setGranularity] = useState<ForecastGranularity>('week');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showScenarioModal, setShowScenarioModal] = useState(false);
+  const [editingScenario, setEditingScenario] = useState<CashFlowScenario | null>(null);
+
+  useEffect(() => {
+    if (book.businessId || book.userId) {
+      loadForecast();
+    }
+  }, [book.businessId, book.userId]);
+
+  const loadForecast = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [forecastInputs, savedScenarios] = await Promise.all([
+        fetchForecastInputs(book),
+        fetchCashFlowScenarios(book)
+      ]);
+
+      setInputs(forecastInputs);
+      setScenarios(savedScenarios);
+      setCompared(prev => prev.filter(id => savedScenarios.some(scenario => scenario.id === id)));
+    } catch (err: any) {
+      console.error('Error loading cash flow forecast:', err);
+      setError(err.message || 'Failed to load cash flow forecast');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadScenarios = async () => {
+    try {
+      const savedScenarios = await fetchCashFlowScenarios(book);
+      setScenarios(savedScenarios);
+      setCompared(prev => prev.filter(id => savedScenarios.some(scenario => scenario.id === id)));
+    } catch (err: any) {
+      console.error('Error loading scenarios:', err);
+      setError(err.message || 'Failed to load scenarios');
+    }
+  };
+
+  const handleDeleteScenario = async (scenario: CashFlowScenario) => {
+    if (!confirm(`Delete the scenario "${scenario.name}"?`)) return;
+
+    try {
+      setError(null);
+      await deleteCashFlowScenario(scenario.id);
+      await loadScenarios();
+    } catch (err: any) {
+      console.error('Error deleting scenario:', err);
+      setError(err.message || 'Failed to delete scenario');
+    }
+  };
+
+  const toggleCompared = (scenarioId: string) => {
+    setCompared(prev => prev.includes(scenarioId)
+      ? prev.filter(id => id !== scenarioId)
+      : [...prev, scenarioId]);
+  };
+
+  // Baseline first, then each scenario being compared
+  const forecasts = useMemo(() => {
+    if (!inputs) return [];
+
+    const results: { key: string; name: string; color: string; forecast: CashFlowForecast }[] = [
+      { key: BASELINE_KEY, name: 'Baseline', color: '#2563eb', forecast: buildCashFlowForecast(inputs, granularity) }
+    ];
+    scenarios
+      .filter(scenario => compared.includes(scenario.id))
+      .forEach((scenario, index) => {
+        results.push({
+          key: scenario.id,
+          name: scenario.name,
+          color: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+          forecast: buildCashFlowForecast(inputs, granularity, scenario.adjustments)
+        });
+      });
+    return results;
+  }, [inputs, scenarios, compared, granularity]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Building forecast...
+      </div>
+    );
+  }
+
+  if (error || !inputs || forecasts.length === 0) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{error || 'No forecast available'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const baseline = forecasts[0].forecast;
+  const periodLabel = (start: string) => granularity === 'week'
+    ? formatDate(start)
+    : new Date(`${start}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+  const chartData = baseline.periods.map((period, index) => {
+    const point: Record<string, string | number> = { period: periodLabel(period.start) };
+    forecasts.forEach(({ key, forecast }) => {
+      point[key] = forecast.periods[index].ending_balance;
+    });
+    return point;
+  });
+
+  const sources: ForecastSource[] = book.businessId
+    ? ['recurring', 'scheduled', 'receivables', 'payables', 'average']
+    : ['recurring', 'scheduled', 'average'];
+  const knownItems = inputs.items.filter(item => item.date <= baseline.periods[baseline.periods.length - 1].end);
+
+  return (
+    <div className="space-y-6">
+      {/* Horizon */}
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={granularity === 'week' ? 'default' : 'outline'}
+            onClick={() => setGranularity('week')}
+          >
+            13 Weeks
+          </Button>
+          <Button
+            size="sm"
+            variant={granularity === 'month' ? 'default' : 'outline'}
+            onClick={() => setGranularity('month')}
+          >
+            12 Months
+          </Button>
+        </div>
+        {canEditScenarios && (
+          <Button size="sm" onClick={() => { setEditingScenario(null); setShowScenarioModal(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Scenario
+          </Button>
+        )}
+      </div>
+
+      {baseline.lowest_balance < 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Cash is projected to run out: the balance falls to {formatCurrency(baseline.lowest_balance)} on {formatDate(baseline.lowest_date)}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Cash Today</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(baseline.starting_balance)}</div>
+            <p className="text-xs text-muted-foreground">Cash and bank accounts</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Projected Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${baseline.ending_balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(baseline.ending_balance)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              On {formatDate(baseline.periods[baseline.periods.length - 1].end)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lowest Point</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${baseline.lowest_balance >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+              {formatCurrency(baseline.lowest_balance)}
+            </div>
+            <p className="text-xs text-muted-foreground">On {formatDate(baseline.lowest_date)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Projected balance */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Projected Cash Balance</CardTitle>
+          <CardDescription>
+            Balance at the end of each {granularity === 'week' ? 'week' : 'month'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" fontSize={12} />
+                <YAxis tickFormatter={(value: number) => formatCurrency(value)} fontSize={12} width={100} />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend />
+                <ReferenceLine y={0} stroke="#dc2626" strokeDasharray="4 4" />
+                {forecasts.map(({ key, name, color }) => (
+                  <Line key={key} type="monotone" dataKey={key} name={name} stroke={color} strokeWidth={2} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Scenarios */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Scenarios</CardTitle>
+          <CardDescription>Pick scenarios to compare with the baseline</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {scenarios.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No scenarios yet. Add one to see how a new hire, a price change or a large purchase would affect cash.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {scenarios.map(scenario => (
+                <div key={scenario.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={compared.includes(scenario.id)}
+                      onChange={() => toggleCompared(scenario.id)}
+                    />
+                    <div>
+                      <p className="font-medium text-gray-900">{scenario.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {scenario.adjustments.map(adjustment => adjustment.label).join(', ')}
+                      </p>
+                    </div>
+                  </label>
+                  {canEditScenarios && (
+                    <div className="flex items-center space-x-1">
+                      <Button size="sm" variant="ghost" onClick={() => { setEditingScenario(scenario); setShowScenarioModal(true); }}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDeleteScenario(scenario)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {forecasts.length > 1 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-gray-50">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Forecast</th>
+                    <th className="text-right p-2 font-medium">Projected Balance</th>
+                    <th className="text-right p-2 font-medium">Lowest Point</th>
+                    <th className="text-right p-2 font-medium">vs Baseline</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecasts.map(({ key, name, color, forecast }) => (
+                    <tr key={key} className="border-b">
+                      <td className="p-2">
+                        <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: color }}></span>
+                        {name}
+                      </td>
+                      <td className="text-right p-2 font-medium">{formatCurrency(forecast.ending_balance)}</td>
+                      <td className={`text-right p-2 ${forecast.lowest_balance < 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(forecast.lowest_balance)}
+                        <span className="text-xs text-gray-500 ml-1">{formatDate(forecast.lowest_date)}</span>
+                      </td>
+                      <td className="text-right p-2">
+                        {key === BASELINE_KEY ? '—' : formatCurrency(forecast.ending_balance - baseline.ending_balance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Period detail */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Baseline by {granularity === 'week' ? 'Week' : 'Month'}</CardTitle>
+          <CardDescription>
+            {knownItems.length} known upcoming item{knownItems.length === 1 ? '' : 's'}, plus the average of the last {FORECAST_HISTORY_MONTHS} months for {inputs.averages.length} categor{inputs.averages.length === 1 ? 'y' : 'ies'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b bg-gray-50">
+                <tr>
+                  <th className="text-left p-2 font-medium">{granularity === 'week' ? 'Week of' : 'Month'}</th>
+                  {sources.map(source => (
+                    <th key={source} className="text-right p-2 font-medium">{FORECAST_SOURCE_LABELS[source]}</th>
+                  ))}
+                  <th className="text-right p-2 font-medium">Net</th>
+                  <th className="text-right p-2 font-medium">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {baseline.periods.map(period => (
+                  <tr key={period.start} className="border-b">
+                    <td className="p-2">{periodLabel(period.start)}</td>
+                    {sources.map(source => (
+                      <td key={source} className="text-right p-2 text-gray-600">
+                        {period.by_source[source] !== 0 ? formatCurrency(period.by_source[source]) : '—'}
+                      </td>
+                    ))}
+                    <td className={`text-right p-2 ${period.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(period.net)}
+                    </td>
+                    <td className="text-right p-2 font-medium">
+                      {formatCurrency(period.ending_balance)}
+                      {period.ending_balance < 0 && <Badge variant="destructive" className="ml-2">Short</Badge>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ForecastScenarioModal
+        isOpen={showScenarioModal}
+        onClose={() => setShowScenarioModal(false)}
+        book={book}
+        userId={userId}
+        scenario={editingScenario}
+        onSaved={loadScenarios}
+      />
+    </div>
+  );
+};
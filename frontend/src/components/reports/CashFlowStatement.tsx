@@ -0,0 +1,94 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { formatDate } from '@/types';
+import type { CashFlowData } from '@/types';
+import { StatementSection, StatementTotal, formatStatementAmount } from './StatementTable';
+
+interface CashFlowStatementProps {
+  data: CashFlowData;
+  businessName?: string;
+}
+
+export const CashFlowStatement: React.FC<CashFlowStatementProps> = ({ data, businessName }) => {
+  const { totals, operating } = data;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        {businessName && <p className="text-sm font-medium text-gray-600">{businessName}</p>}
+        <h3 className="text-lg font-bold text-gray-900">Statement of Cash Flows</h3>
+        <p className="text-sm text-gray-500">
+          {formatDate(data.period_start)} – {formatDate(data.period_end)}
+        </p>
+      </div>
+
+      {!data.is_reconciled && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The net change in cash differs from the change in cash account balances by{' '}
+            {formatStatementAmount(data.difference)}. Check that cash and bank accounts are set up
+            {data.unassigned_transaction_count > 0 && (
+              <> and assign an account to {data.unassigned_transaction_count} transaction(s)</>
+            )}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">
+          Operating Activities
+        </h4>
+        <div className="flex justify-between text-sm pl-4 py-1">
+          <span className="text-gray-700">Net Income</span>
+          <span className="text-gray-900 tabular-nums">{formatStatementAmount(data.net_income)}</span>
+        </div>
+        {operating.adjustments.length > 0 && (
+          <StatementSection
+            title="Adjustments for non-cash items"
+            lines={operating.adjustments}
+            total={operating.adjustments.reduce((sum, line) => sum + line.amount, 0)}
+            totalLabel="Total adjustments"
+          />
+        )}
+        <StatementSection
+          title="Changes in working capital"
+          lines={operating.working_capital}
+          total={operating.working_capital.reduce((sum, line) => sum + line.amount, 0)}
+          totalLabel="Total working capital changes"
+          emptyLabel="No changes in this period"
+        />
+        <StatementTotal label="Net Cash from Operating Activities" amount={totals.operating} />
+      </div>
+
+      <StatementSection
+        title="Investing Activities"
+        lines={data.investing}
+        total={totals.investing}
+        totalLabel="Net Cash from Investing Activities"
+      />
+
+      <StatementSection
+        title="Financing Activities"
+        lines={data.financing}
+        total={totals.financing}
+        totalLabel="Net Cash from Financing Activities"
+      />
+
+      <StatementTotal label="Net Change in Cash" amount={totals.net_change} emphasis="strong" />
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm py-1">
+          <span className="text-gray-700">Cash at Beginning of Period</span>
+          <span className="text-gray-900 tabular-nums">{formatStatementAmount(data.beginning_cash)}</span>
+        </div>
+        <StatementTotal label="Cash at End of Period" amount={data.ending_cash} />
+      </div>
+
+      <p className="text-xs text-gray-400 text-right">
+        Generated {formatDate(data.generated_at)}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { buildComparisonRows, formatVariancePercent } from '@/lib/reportComparisons';
+import type { ComparisonCell } from '@/lib/reportComparisons';
+import { formatDate } from '@/types';
+import type { FinancialStatementData, ReportComparisonColumn } from '@/types';
+import { formatStatementAmount } from './StatementTable';
+
+interface ComparativeStatementProps {
+  data: FinancialStatementData;
+}
+
+const columnPeriod = (column: ReportComparisonColumn): string =>
+  column.period_start
+    ? `${formatDate(column.period_start)} – ${formatDate(column.period_end)}`
+    : `As of ${formatDate(column.period_end)}`;
+
+const varianceClassName = (cell: ComparisonCell): string =>
+  cell.exceeds_threshold
+    ? cell.favorable ? 'bg-green-50 text-green-800 font-medium' : 'bg-red-50 text-red-800 font-medium'
+    : 'text-gray-600';
+
+/**
+ * A statement's lines next to its comparative columns, with the dollar and
+ * percentage variance of each. Variances at or above the report's threshold
+ * are highlighted green when favourable and red when not.
+ */
+export const ComparativeStatement: React.FC<ComparativeStatementProps> = ({ data }) => {
+  const comparison = data.comparison;
+  if (!comparison || comparison.columns.length === 0) return null;
+
+  const rows = buildComparisonRows(data);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Comparison</h4>
+        <p className="text-xs text-gray-500">
+          Variances of {comparison.options.variance_threshold}% or more are highlighted
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-gray-50">
+            <tr>
+              <th className="text-left p-2 font-medium" rowSpan={2}>Line</th>
+              <th className="text-right p-2 font-medium" rowSpan={2}>Actual</th>
+              {comparison.columns.map(column => (
+                <th key={column.kind} className="text-center p-2 font-medium border-l" colSpan={3}>
+                  {column.label}
+                  <span className="block text-xs font-normal text-gray-500">{columnPeriod(column)}</span>
+                </th>
+              ))}
+            </tr>
+            <tr>
+              {comparison.columns.map(column => (
+                <React.Fragment key={column.kind}>
+                  <th className="text-right p-2 text-xs font-medium border-l">Amount</th>
+                  <th className="text-right p-2 text-xs font-medium">$ Var</th>
+                  <th className="text-right p-2 text-xs font-medium">% Var</th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const startsSection = index === 0 || rows[index - 1].section !== row.section;
+              return (
+                <React.Fragment key={`${row.section}-${row.category}`}>
+                  {startsSection && !row.is_total && (
+                    <tr>
+                      <td className="pt-3 pb-1 px-2 text-xs font-semibold text-gray-500 uppercase" colSpan={2 + comparison.columns.length * 3}>
+                        {row.section}
+                      </td>
+                    </tr>
+                  )}
+                  <tr className={cn('border-b last:border-0', row.is_total && 'font-semibold bg-gray-50')}>
+                    <td className={cn('p-2', !row.is_total && 'pl-4')}>{row.category}</td>
+                    <td className="p-2 text-right tabular-nums">{formatStatementAmount(row.current)}</td>
+                    {row.cells.map((cell, cellIndex) => (
+                      <React.Fragment key={cellIndex}>
+                        <td className="p-2 text-right tabular-nums border-l">
+                          {cell.amount === null ? '—' : formatStatementAmount(cell.amount)}
+                        </td>
+                        <td className={cn('p-2 text-right tabular-nums', varianceClassName(cell))}>
+                          {formatStatementAmount(cell.variance)}
+                        </td>
+                        <td className={cn('p-2 text-right tabular-nums', varianceClassName(cell))}>
+                          {formatVariancePercent(cell.percent)}
+                        </td>
+                      </React.Fragment>
+                    ))}
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ACCOUNT_TYPES } from '@/lib/accounts';
+import { describeCustomReportFilters } from '@/lib/customReports';
+import { formatDate } from '@/types';
+import type { CustomReportData } from '@/types';
+import { formatStatementAmount } from './StatementTable';
+
+interface CustomReportStatementProps {
+  data: CustomReportData;
+  title?: string;
+  businessName?: string;
+}
+
+/**
+ * The rows and columns of a custom report, with a heading row per account
+ * type when the rows are accounts or categories
+ */
+export const CustomReportStatement: React.FC<CustomReportStatementProps> = ({ data, title, businessName }) => {
+  const showGroups = data.definition.rows.source !== 'account_type';
+  const filters = describeCustomReportFilters(data.definition.filters);
+  const byBusiness = data.columns.some(column => column.business_name);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        {businessName && <p className="text-sm font-medium text-gray-600">{businessName}</p>}
+        <h3 className="text-lg font-bold text-gray-900">{title || 'Custom Report'}</h3>
+        <p className="text-sm text-gray-500">
+          {formatDate(data.period_start)} – {formatDate(data.period_end)}
+        </p>
+        {filters && <p className="text-xs text-gray-500 mt-1">{filters}</p>}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-gray-50">
+            <tr>
+              <th className="text-left p-2 font-medium">Line</th>
+              {data.columns.map((column, index) => (
+                <th key={index} className="text-right p-2 font-medium whitespace-nowrap">
+                  {byBusiness && (
+                    <span className="block text-xs font-normal text-gray-500">{column.business_name}</span>
+                  )}
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.rows.length === 0 && (
+              <tr>
+                <td className="p-4 text-center text-gray-400" colSpan={data.columns.length + 1}>
+                  No activity in this period
+                </td>
+              </tr>
+            )}
+            {data.rows.map((row, index) => {
+              const startsGroup = showGroups && row.kind === 'line' && data.rows[index - 1]?.group !== row.group;
+              return (
+                <React.Fragment key={`${row.group}-${row.kind}-${row.label}`}>
+                  {startsGroup && (
+                    <tr>
+                      <td className="pt-3 pb-1 px-2 text-xs font-semibold text-gray-500 uppercase" colSpan={data.columns.length + 1}>
+                        {ACCOUNT_TYPES.find(type => type.value === row.group)?.label || row.group}
+                      </td>
+                    </tr>
+                  )}
+                  <tr
+                    className={cn(
+                      'border-b last:border-0',
+                      row.kind === 'subtotal' && 'font-semibold bg-gray-50',
+                      row.kind === 'total' && 'font-bold border-t-2 border-gray-900'
+                    )}
+                  >
+                    <td className={cn('p-2', showGroups && row.kind === 'line' && 'pl-4')}>{row.label}</td>
+                    {row.values.map((value, valueIndex) => (
+                      <td key={valueIndex} className="p-2 text-right tabular-nums whitespace-nowrap">
+                        {formatStatementAmount(value)}
+                      </td>
+                    ))}
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-400 text-right">
+        Based on {data.transaction_count} transactions • Generated {formatDate(data.generated_at)}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { formatDate } from '@/types';
+import type { ProfitLossData } from '@/types';
+import { StatementSection, StatementTotal } from './StatementTable';
+
+interface ProfitLossStatementProps {
+  data: ProfitLossData;
+  businessName?: string;
+}
+
+export const ProfitLossStatement: React.FC<ProfitLossStatementProps> = ({ data, businessName }) => {
+  const { totals } = data;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        {businessName && <p className="text-sm font-medium text-gray-600">{businessName}</p>}
+        <h3 className="text-lg font-bold text-gray-900">Profit & Loss Statement</h3>
+        <p className="text-sm text-gray-500">
+          {formatDate(data.period_start)} – {formatDate(data.period_end)}
+        </p>
+      </div>
+
+      <StatementSection title="Revenue" lines={data.revenue} total={totals.revenue} />
+
+      <StatementSection
+        title="Cost of Goods Sold"
+        lines={data.cost_of_goods_sold}
+        total={totals.cost_of_goods_sold}
+      />
+
+      <StatementTotal label="Gross Profit" amount={totals.gross_profit} />
+
+      <StatementSection
+        title="Operating Expenses"
+        lines={data.operating_expenses}
+        total={totals.operating_expenses}
+      />
+
+      <StatementTotal label="Net Income" amount={totals.net_income} emphasis="strong" />
+
+      <p className="text-xs text-gray-400 text-right">
+        Based on {data.transaction_count} transactions • Generated {formatDate(data.generated_at)}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { formatDate } from '@/types';
+import type { ReconciliationLine, ReconciliationReport as ReconciliationReportData } from '@/types';
+import { StatementTotal, formatStatementAmount } from './StatementTable';
+
+interface ReconciliationReportProps {
+  report: ReconciliationReportData;
+  accountName: string;
+  statementDate: string;
+  businessName?: string;
+}
+
+const ItemList: React.FC<{ title: string; items: ReconciliationLine[] }> = ({ title, items }) => (
+  <div className="space-y-1">
+    <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">
+      {title} ({items.length})
+    </h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-gray-400 pl-4 py-1">None</p>
+    ) : (
+      items.map(item => (
+        <div key={item.transaction_id} className="flex justify-between text-sm pl-4 py-1">
+          <span className="text-gray-700">
+            <span className="text-gray-500 mr-3">{formatDate(item.date)}</span>
+            {item.description || 'No description'}
+          </span>
+          <span className="text-gray-900 tabular-nums">{formatStatementAmount(item.amount)}</span>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+export const ReconciliationReport: React.FC<ReconciliationReportProps> = ({
+  report,
+  accountName,
+  statementDate,
+  businessName
+}) => {
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        {businessName && <p className="text-sm font-medium text-gray-600">{businessName}</p>}
+        <h3 className="text-lg font-bold text-gray-900">Reconciliation Report</h3>
+        <p className="text-sm text-gray-500">
+          {accountName} • Statement dated {formatDate(statementDate)}
+        </p>
+      </div>
+
+      <div>
+        <StatementTotal label="Beginning balance" amount={report.beginning_balance} />
+        <StatementTotal label="Cleared deposits and credits" amount={report.cleared_deposits} />
+        <StatementTotal label="Cleared payments and charges" amount={report.cleared_payments} />
+        <StatementTotal label="Cleared balance" amount={report.cleared_balance} />
+        <StatementTotal label="Statement ending balance" amount={report.statement_ending_balance} />
+        <StatementTotal label="Difference" amount={report.difference} emphasis="strong" />
+      </div>
+
+      <ItemList title="Cleared transactions" items={report.cleared} />
+      <ItemList title="Outstanding transactions" items={report.outstanding} />
+
+      <StatementTotal label="Register balance as of statement date" amount={report.book_balance} emphasis="strong" />
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import {
+  REPORT_STATUS_LABELS,
+  addReportComment,
+  deleteReportComment,
+  fetchReportComments,
+  fetchReportHistory
+} from '@/lib/reportWorkflow';
+import { formatDateTime } from '@/types';
+import type { ReportComment, ReportStatusChange } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, History, Loader2, MessageSquare, Reply, Trash2 } from 'lucide-react';
+
+interface ReportReviewPanelProps {
+  reportId: string;
+  userId: string;
+  // Changes whenever the report's status changes, so the history is reloaded
+  refreshKey?: string;
+}
+
+export const ReportReviewPanel: React.FC<ReportReviewPanelProps> = ({ reportId, userId, refreshKey }) => {
+  const [history, setHistory] = useState<ReportStatusChange[]>([]);
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    loadActivity();
+  }, [reportId, refreshKey]);
+
+  const loadActivity = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [historyRows, commentThreads] = await Promise.all([
+        fetchReportHistory(reportId),
+        fetchReportComments(reportId)
+      ]);
+      setHistory(historyRows);
+      setComments(commentThreads);
+    } catch (err: any) {
+      console.error('Error loading report activity:', err);
+      setError(err.message || 'Failed to load review activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePost = async (body: string, parentId: string | null) => {
+    try {
+      setPosting(true);
+      setError(null);
+      await addReportComment(reportId, userId, body, parentId);
+      if (parentId) {
+        setReplyTo(null);
+        setReplyText('');
+      } else {
+        setNewComment('');
+      }
+      setComments(await fetchReportComments(reportId));
+    } catch (err: any) {
+      console.error('Error posting comment:', err);
+      setError(err.message || 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: ReportComment) => {
+    const message = comment.replies.length > 0
+      ? 'Delete this comment and its replies?'
+      : 'Delete this comment?';
+    if (!confirm(message)) return;
+
+    try {
+      await deleteReportComment(comment.id);
+      setComments(await fetchReportComments(reportId));
+    } catch (err: any) {
+      console.error('Error deleting comment:', err);
+      setError(err.message || 'Failed to delete comment');
+    }
+  };
+
+  const renderComment = (comment: ReportComment, depth: number): React.ReactNode => (
+    <div key={comment.id} className={depth > 0 ? 'ml-6 pl-3 border-l' : ''}>
+      <div className="py-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm">
+            <span className="font-medium text-gray-900">{comment.author_name || 'Unknown'}</span>
+            <span className="text-xs text-gray-500 ml-2">{formatDateTime(comment.created_at)}</span>
+          </p>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setReplyTo(replyTo === comment.id ? null : comment.id);
+                setReplyText('');
+              }}
+              title="Reply"
+            >
+              <Reply className="h-3 w-3" />
+            </Button>
+            {comment.author_id === userId && (
+              <Button size="sm" variant="ghost" onClick={() => handleDelete(comment)} title="Delete">
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+
+        {replyTo === comment.id && (
+          <div className="mt-2 space-y-2">
+            <Textarea
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              placeholder="Write a reply..."
+              rows={2}
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setReplyTo(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handlePost(replyText, comment.id)}
+                disabled={posting || !replyText.trim()}
+              >
+                Reply
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+      {comment.replies.map(reply => renderComment(reply, depth + 1))}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div>
+        <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-3">
+          <History className="h-4 w-4" />
+          Status History
+        </h4>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No status changes recorded</p>
+        ) : (
+          <ol className="space-y-3 border-l ml-2">
+            {history.map(change => (
+              <li key={change.id} className="ml-4">
+                <p className="text-sm text-gray-900">
+                  {change.from_status
+                    ? <>{REPORT_STATUS_LABELS[change.from_status]} → <span className="font-medium">{REPORT_STATUS_LABELS[change.to_status]}</span></>
+                    : <>Created as <span className="font-medium">{REPORT_STATUS_LABELS[change.to_status]}</span></>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {change.changed_by_name || 'System'} • {formatDateTime(change.created_at)}
+                </p>
+                {change.reason && (
+                  <p className="text-sm text-red-700 mt-1">Reason: {change.reason}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div>
+        <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-2">
+          <MessageSquare className="h-4 w-4" />
+          Review Comments
+        </h4>
+        {comments.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-3">No comments yet</p>
+        ) : (
+          <div className="divide-y mb-3">
+            {comments.map(comment => renderComment(comment, 0))}
+          </div>
+        )}
+        <div className="space-y-2">
+          <Textarea
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            placeholder="Add a review comment..."
+            rows={2}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => handlePost(newComment, null)}
+              disabled={posting || !newComment.trim()}
+            >
+              {posting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Comment
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { compareReportVersions, fetchReportVersions } from '@/lib/reportVersions';
+import type { ReportAdjustment, ReportLineChange, ReportVersionDiff, VersionedReport } from '@/lib/reportVersions';
+import { formatStatementAmount } from '@/components/reports/StatementTable';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatDate, formatDateTime } from '@/types';
+import type { ReportVersion } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, GitCompare, Loader2 } from 'lucide-react';
+
+interface ReportVersionCompareProps {
+  report: VersionedReport;
+  currentVersion?: number;
+  publishedVersion?: number;
+}
+
+const selectClassName = 'w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500';
+
+const changeLabels: Record<ReportLineChange['kind'], { label: string; variant: 'success' | 'destructive' | 'info' }> = {
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  changed: { label: 'Changed', variant: 'info' }
+};
+
+const AdjustmentList: React.FC<{ adjustments: ReportAdjustment[] }> = ({ adjustments }) => (
+  <ul className="space-y-1">
+    {adjustments.map(adjustment => (
+      <li key={`${adjustment.source}-${adjustment.id}`} className="text-xs text-gray-600">
+        <span className="font-medium">{adjustment.source === 'journal_entry' ? 'Journal entry' : 'Transaction'}</span>
+        {' '}{formatDate(adjustment.date)} • {adjustment.description} • {formatCurrency(adjustment.amount)}
+        <span className="text-gray-400"> (changed {formatDateTime(adjustment.changed_at)})</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export const ReportVersionCompare: React.FC<ReportVersionCompareProps> = ({
+  report,
+  currentVersion,
+  publishedVersion
+}) => {
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState('');
+  const [diff, setDiff] = useState<ReportVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, [report.id, currentVersion]);
+
+  useEffect(() => {
+    const base = versions.find(version => version.id === baseId);
+    const compare = versions.find(version => version.id === compareId);
+    if (base && compare && base.id !== compare.id) {
+      runComparison(base, compare);
+    } else {
+      setDiff(null);
+    }
+  }, [baseId, compareId, versions]);
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const rows = await fetchReportVersions(report.id);
+      setVersions(rows);
+      // Newest first: compare the latest version with the one before it
+      setCompareId(rows[0]?.id || '');
+      setBaseId(rows[1]?.id || '');
+    } catch (err: any) {
+      console.error('Error loading report versions:', err);
+      setError(err.message || 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runComparison = async (base: ReportVersion, compare: ReportVersion) => {
+    try {
+      setComparing(true);
+      setError(null);
+      setDiff(await compareReportVersions(report, base, compare));
+    } catch (err: any) {
+      console.error('Error comparing report versions:', err);
+      setError(err.message || 'Failed to compare versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const versionLabel = (version: ReportVersion) => {
+    const tags = [
+      version.version_number === currentVersion ? 'current' : null,
+      version.version_number === publishedVersion ? 'published' : null
+    ].filter(Boolean);
+    return `Version ${version.version_number} – ${formatDateTime(version.generated_at)}${tags.length > 0 ? ` (${tags.join(', ')})` : ''}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900">
+        <GitCompare className="h-4 w-4" />
+        Versions
+      </h4>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No figures have been generated for this report</p>
+      ) : (
+        <ul className="space-y-1">
+          {versions.map(version => (
+            <li key={version.id} className="flex items-center gap-2 text-sm">
+              <span className="font-medium text-gray-900">Version {version.version_number}</span>
+              <span className="text-gray-500">
+                {formatDateTime(version.generated_at)}
+                {version.generated_by_name && ` by ${version.generated_by_name}`}
+              </span>
+              {version.version_number === currentVersion && <Badge variant="secondary">Current</Badge>}
+              {version.version_number === publishedVersion && <Badge variant="info">Published</Badge>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {versions.length > 1 && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="version-base">Compare</Label>
+              <select
+                id="version-base"
+                value={baseId}
+                onChange={(e) => setBaseId(e.target.value)}
+                className={selectClassName}
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="version-compare">With</Label>
+              <select
+                id="version-compare"
+                value={compareId}
+                onChange={(e) => setCompareId(e.target.value)}
+                className={selectClassName}
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {baseId === compareId ? (
+            <p className="text-sm text-gray-500">Pick two different versions to compare</p>
+          ) : comparing ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : diff && (
+            <div className="space-y-3">
+              {diff.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">The figures of these versions are identical</p>
+              ) : (
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-gray-50">
+                      <tr>
+                        <th className="text-left p-2 font-medium">Line</th>
+                        <th className="text-right p-2 font-medium">Before</th>
+                        <th className="text-right p-2 font-medium">After</th>
+                        <th className="text-right p-2 font-medium">Change</th>
+                        <th className="text-left p-2 font-medium"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diff.changes.map(change => (
+                        <tr key={`${change.section}-${change.category}`} className={cn('border-b last:border-0 align-top', change.is_total && 'bg-gray-50 font-medium')}>
+                          <td className="p-2">
+                            <p className="text-gray-900">{change.category}</p>
+                            <p className="text-xs text-gray-500">{change.section}</p>
+                            {change.adjustments.length > 0 && (
+                              <div className="mt-1">
+                                <AdjustmentList adjustments={change.adjustments} />
+                              </div>
+                            )}
+                          </td>
+                          <td className="p-2 text-right">{change.before === null ? '—' : formatStatementAmount(change.before)}</td>
+                          <td className="p-2 text-right">{change.after === null ? '—' : formatStatementAmount(change.after)}</td>
+                          <td className={cn('p-2 text-right', change.change > 0 ? 'text-green-700' : 'text-red-700')}>
+                            {change.change > 0 ? '+' : ''}{formatStatementAmount(change.change)}
+                          </td>
+                          <td className="p-2">
+                            <Badge variant={changeLabels[change.kind].variant}>{changeLabels[change.kind].label}</Badge>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                {diff.unchanged_count} line{diff.unchanged_count !== 1 ? 's' : ''} unchanged
+              </p>
+
+              {diff.other_adjustments.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Other changes between these versions</p>
+                  <AdjustmentList adjustments={diff.other_adjustments} />
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import type { ReportData } from '@/types';
+import { BalanceSheetStatement } from './BalanceSheetStatement';
+import { CashFlowStatement } from './CashFlowStatement';
+import { ComparativeStatement } from './ComparativeStatement';
+import { CustomReportStatement } from './CustomReportStatement';
+import { ProfitLossStatement } from './ProfitLossStatement';
+
+interface ReportViewerProps {
+  data: ReportData | null | undefined;
+  businessName?: string;
+  title?: string; // heading of custom reports, which have no fixed statement name
+}
+
+/**
+ * Renders the computed figures of a report according to its statement type,
+ * followed by its comparative columns when the report has any
+ */
+export const ReportViewer: React.FC<ReportViewerProps> = ({ data, businessName, title }) => {
+  if (!data) {
+    return (
+      <div className="text-center py-8 bg-gray-50 rounded-lg">
+        <FileText className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-500">No figures have been generated for this report</p>
+        <p className="text-sm text-gray-400">Regenerate the report to compute it from the ledger</p>
+      </div>
+    );
+  }
+
+  if (data.type === 'custom') {
+    return <CustomReportStatement data={data} title={title} businessName={businessName} />;
+  }
+
+  const statement = (() => {
+    switch (data.type) {
+      case 'profit_loss':
+        return <ProfitLossStatement data={data} businessName={businessName} />;
+      case 'balance_sheet':
+        return <BalanceSheetStatement data={data} businessName={businessName} />;
+      case 'cash_flow':
+        return <CashFlowStatement data={data} businessName={businessName} />;
+      default:
+        return null;
+    }
+  })();
+
+  if (!data.comparison || data.comparison.columns.length === 0) {
+    return statement;
+  }
+
+  return (
+    <div className="space-y-8">
+      {statement}
+      <ComparativeStatement data={data} />
+    </div>
+  );
+};
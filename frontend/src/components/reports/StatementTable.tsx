@@ -0,0 +1,78 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/types';
+import type { ReportLineItem } from '@/types';
+
+interface StatementSectionProps {
+  title: string;
+  lines: ReportLineItem[];
+  total: number;
+  totalLabel?: string;
+  emptyLabel?: string;
+}
+
+interface StatementTotalProps {
+  label: string;
+  amount: number;
+  emphasis?: 'default' | 'strong';
+}
+
+// Negative figures are shown in parentheses, the usual accounting convention
+export const formatStatementAmount = (amount: number): string => {
+  return amount < 0 ? `(${formatCurrency(Math.abs(amount))})` : formatCurrency(amount);
+};
+
+export const StatementSection: React.FC<StatementSectionProps> = ({
+  title,
+  lines,
+  total,
+  totalLabel,
+  emptyLabel = 'No activity in this period'
+}) => {
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">{title}</h4>
+      {lines.length === 0 ? (
+        <p className="text-sm text-gray-400 pl-4 py-1">{emptyLabel}</p>
+      ) : (
+        lines.map(line => (
+          <div key={line.category} className="flex justify-between text-sm pl-4 py-1">
+            <span className="text-gray-700">
+              {line.category}
+              {line.transaction_count > 0 && (
+                <span className="text-xs text-gray-400 ml-2">({line.transaction_count})</span>
+              )}
+            </span>
+            <span className="text-gray-900 tabular-nums">{formatStatementAmount(line.amount)}</span>
+          </div>
+        ))
+      )}
+      <StatementTotal label={totalLabel || `Total ${title}`} amount={total} />
+    </div>
+  );
+};
+
+export const StatementTotal: React.FC<StatementTotalProps> = ({
+  label,
+  amount,
+  emphasis = 'default'
+}) => {
+  return (
+    <div
+      className={cn(
+        'flex justify-between py-2 border-t',
+        emphasis === 'strong' ? 'text-base font-bold border-gray-900' : 'text-sm font-medium border-gray-200'
+      )}
+    >
+      <span className="text-gray-900">{label}</span>
+      <span
+        className={cn(
+          'tabular-nums',
+          emphasis === 'strong' && (amount >= 0 ? 'text-green-600' : 'text-red-600')
+        )}
+      >
+        {formatStatementAmount(amount)}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchNotifications, markAllNotificationsRead, markNotificationRead } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/types';
+import type { AppNotification } from '@/types';
+import { Button } from './button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './dropdown-menu';
+import { Bell, CheckCheck } from 'lucide-react';
+
+interface NotificationsMenuProps {
+  refreshKey?: number;
+}
+
+export const NotificationsMenu: React.FC<NotificationsMenuProps> = ({ refreshKey = 0 }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadNotifications();
+    }
+  }, [user?.id, refreshKey]);
+
+  const loadNotifications = async () => {
+    if (!user?.id) return;
+    try {
+      setNotifications(await fetchNotifications(user.id));
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    }
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    try {
+      if (!notification.read_at) {
+        await markNotificationRead(notification.id);
+        await loadNotifications();
+      }
+    } catch (err) {
+      console.error('Error marking notification read:', err);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user?.id) return;
+    try {
+      await markAllNotificationsRead(user.id);
+      await loadNotifications();
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+    }
+  };
+
+  if (!user) return null;
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              className="flex items-center gap-1 text-xs font-normal text-blue-600 hover:underline"
+            >
+              <CheckCheck className="h-3 w-3" />
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-center text-gray-500">No notifications</p>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              onClick={() => handleOpen(notification)}
+              className="cursor-pointer items-start gap-2"
+            >
+              <span
+                className={cn(
+                  'mt-1.5 h-2 w-2 flex-shrink-0 rounded-full',
+                  notification.read_at ? 'bg-transparent' : 'bg-blue-600'
+                )}
+              />
+              <div className="min-w-0">
+                <p className={cn('text-sm', !notification.read_at && 'font-medium')}>{notification.title}</p>
+                {notification.message && (
+                  <p className="text-xs text-gray-600">{notification.message}</p>
+                )}
+                <p className="text-xs text-gray-400 mt-0.5">{formatDateTime(notification.created_at)}</p>
+              </div>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { TRANSACTION_SPLITS_SELECT, expandSplitTransactions, getTransactionCategory } from '@/lib/reports';
+import { CashFlowForecastPanel } from '@/components/reports/CashFlowForecastPanel';
 import { 
   Card, 
   CardContent, 
@@ -94,7 +96,7 @@ export const UserAnalytics: React.FC = () => {
         // Get all transactions for analysis
         supabase
           .from('transactions')
-          .select('*')
+          .select(`*, ${TRANSACTION_SPLITS_SELECT}`)
           .eq('user_id', user.id)
           .gte('date', startDate)
           .order('date', { ascending: false }),
@@ -137,12 +139,16 @@ export const UserAnalytics: React.FC = () => {
 
     setTotalTransactions(transactions.length);
 
-    // Calculate category spending (expenses only)
+    // Calculate category spending (expenses only); split transactions count
+    // each line in its own category
     const expenseTransactions = transactions.filter(t => t.type === 'expense');
     const categoryTotals: { [key: string]: { amount: number; count: number } } = {};
+    const expenseLines = expandSplitTransactions(
+      expenseTransactions.map(t => ({ ...t, splits: t.transaction_splits }))
+    );
     
-    expenseTransactions.forEach(transaction => {
-      const category = transaction.category_name || 'Uncategorized';
+    expenseLines.forEach(transaction => {
+      const category = getTransactionCategory(transaction);
       if (!categoryTotals[category]) {
         categoryTotals[category] = { amount: 0, count: 0 };
       }
@@ -362,11 +368,12 @@ export const UserAnalytics: React.FC = () => {
 
       {/* Analytics Tabs */}
       <Tabs defaultValue="spending" className="space-y-6">
-        <TabsList className="grid grid-cols-4 w-full">
+        <TabsList className="grid grid-cols-5 w-full">
           <TabsTrigger value="spending">Spending Analysis</TabsTrigger>
           <TabsTrigger value="trends">Monthly Trends</TabsTrigger>
           <TabsTrigger value="goals">Goal Progress</TabsTrigger>
           <TabsTrigger value="patterns">Spending Patterns</TabsTrigger>
+          <TabsTrigger value="forecast">Forecast</TabsTrigger>
         </TabsList>
 
         {/* Spending Analysis Tab */}
@@ -670,6 +677,11 @@ export const UserAnalytics: React.FC = () => {
             </Card>
           </div>
         </TabsContent>
+
+        {/* Cash Flow Forecast Tab */}
+        <TabsContent value="forecast" className="space-y-6">
+          {user && <CashFlowForecastPanel book={{ userId: user.id }} userId={user.id} />}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,595 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  deleteBudget,
+  fetchBudgets,
+  getBudgetAlerts,
+  getBudgetUsage,
+  getMonthPeriod,
+  parseAlertThresholds,
+  renewBudgets,
+  saveBudget,
+  validateBudget
+} from '@/lib/budgets';
+import { isSplitCategory } from '@/lib/splits';
+import type { Budget } from '@/types';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import {
+  Wallet,
+  Plus,
+  Edit,
+  Trash,
+  AlertTriangle,
+  DollarSign,
+  TrendingDown,
+  RefreshCw
+} from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface BudgetFormData {
+  name: string;
+  category_name: string;
+  monthly_limit: string;
+  period_start: string;
+  period_end: string;
+  auto_renew: boolean;
+  rollover: boolean;
+  alert_thresholds: string;
+}
+
+const emptyForm = (): BudgetFormData => ({
+  name: '',
+  category_name: '',
+  monthly_limit: '',
+  ...getMonthPeriod(),
+  auto_renew: true,
+  rollover: false,
+  alert_thresholds: DEFAULT_ALERT_THRESHOLDS.join(', ')
+});
+
+export const UserBudgets: React.FC = () => {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState<BudgetFormData>(emptyForm);
+
+  useEffect(() => {
+    if (user) {
+      loadBudgets();
+      loadCategories();
+    }
+  }, [user]);
+
+  const loadBudgets = async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Start any periods that ended since the last visit
+      await renewBudgets().catch(err =>
+        console.warn('Could not renew budgets:', err)
+      );
+
+      setBudgets(await fetchBudgets(user.id));
+
+    } catch (err: any) {
+      console.error('Error loading budgets:', err);
+      setError(err.message || 'Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const { data: categoryData } = await supabase
+        .from('transaction_categories')
+        .select('name')
+        .eq('type', 'expense')
+        .order('name');
+
+      const { data: transactionData } = await supabase
+        .from('transactions')
+        .select('category_name')
+        .eq('user_id', user?.id)
+        .eq('type', 'expense');
+
+      const allCategories = [...new Set([
+        ...(categoryData?.map(c => c.name) || []),
+        ...(transactionData?.map(t => t.category_name).filter(Boolean) as string[] || [])
+      ])];
+      setCategories(allCategories.filter(category => !isSplitCategory(category)).sort());
+
+    } catch (err) {
+      console.error('Error loading categories:', err);
+      setCategories([
+        'Food & Dining', 'Transportation', 'Shopping', 'Entertainment',
+        'Bills & Utilities', 'Healthcare', 'Education', 'Travel',
+        'Groceries', 'Housing', 'Other Expense'
+      ]);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingBudget(null);
+    setFormData(emptyForm());
+    setShowForm(true);
+  };
+
+  const handleEditBudget = (budget: Budget) => {
+    setEditingBudget(budget);
+    setFormData({
+      name: budget.name,
+      category_name: budget.category_name || '',
+      monthly_limit: budget.monthly_limit.toString(),
+      period_start: budget.period_start,
+      period_end: budget.period_end,
+      auto_renew: budget.auto_renew,
+      rollover: budget.rollover,
+      alert_thresholds: budget.alert_thresholds.join(', ')
+    });
+    setShowForm(true);
+  };
+
+  const handleSaveBudget = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const input = {
+        name: formData.name,
+        category_name: formData.category_name,
+        monthly_limit: parseFloat(formData.monthly_limit),
+        period_start: formData.period_start,
+        period_end: formData.period_end,
+        auto_renew: formData.auto_renew,
+        rollover: formData.auto_renew && formData.rollover,
+        alert_thresholds: parseAlertThresholds(formData.alert_thresholds)
+      };
+
+      const validationError = validateBudget(input);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      await saveBudget(user.id, input, editingBudget?.id);
+
+      await loadBudgets();
+      setShowForm(false);
+      setEditingBudget(null);
+
+    } catch (err: any) {
+      console.error('Error saving budget:', err);
+      setError(err.message || 'Failed to save budget');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteBudget = async (budgetId: string) => {
+    if (!window.confirm('Are you sure you want to delete this budget? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await deleteBudget(budgetId);
+      await loadBudgets();
+
+    } catch (err: any) {
+      console.error('Error deleting budget:', err);
+      setError(err.message || 'Failed to delete budget');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formatPeriod = (budget: Budget) => {
+    const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+    return `${format(budget.period_start)} – ${format(budget.period_end)}`;
+  };
+
+  const getProgressColor = (percent: number) => {
+    if (percent >= 100) return 'text-red-600';
+    if (percent >= 80) return 'text-yellow-600';
+    return 'text-green-600';
+  };
+
+  const activeBudgets = budgets.filter(b => b.status === 'active');
+  const pastBudgets = budgets.filter(b => b.status !== 'active');
+  const alerts = getBudgetAlerts(activeBudgets);
+  const totals = activeBudgets.reduce((sum, budget) => {
+    const usage = getBudgetUsage(budget);
+    return { available: sum.available + usage.available, spent: sum.spent + usage.spent };
+  }, { available: 0, spent: 0 });
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-48 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Budgets</h1>
+          <p className="text-gray-600">Set spending limits by category and see how much is left</p>
+        </div>
+        <Button onClick={openCreateForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Budget
+        </Button>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">
+            {error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Threshold Alerts */}
+      {alerts.map(({ budget, threshold, usage }) => (
+        <Alert
+          key={budget.id}
+          className={usage.percent >= 100 ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50'}
+        >
+          <AlertTriangle className={`h-4 w-4 ${usage.percent >= 100 ? 'text-red-600' : 'text-yellow-600'}`} />
+          <AlertDescription className={usage.percent >= 100 ? 'text-red-800' : 'text-yellow-800'}>
+            {budget.name} has reached {threshold}% of its budget: {formatCurrency(usage.spent)} spent
+            of {formatCurrency(usage.available)}
+            {usage.remaining < 0 && ` (${formatCurrency(-usage.remaining)} over)`}.
+          </AlertDescription>
+        </Alert>
+      ))}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Budgeted</CardTitle>
+            <Wallet className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totals.available)}</div>
+            <p className="text-xs text-muted-foreground">
+              Across {activeBudgets.length} active budget{activeBudgets.length === 1 ? '' : 's'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Spent</CardTitle>
+            <TrendingDown className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(totals.spent)}</div>
+            <p className="text-xs text-muted-foreground">
+              {totals.available > 0 ? Math.round((totals.spent / totals.available) * 100) : 0}% of budgeted
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Remaining</CardTitle>
+            <DollarSign className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totals.available - totals.spent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(totals.available - totals.spent)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Left to spend this period
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Budgets Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {activeBudgets.length === 0 ? (
+          <div className="col-span-full">
+            <Card>
+              <CardContent className="text-center py-12">
+                <Wallet className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No budgets yet</h3>
+                <p className="text-gray-500 mb-6">
+                  Create a budget for a spending category to track it against your transactions
+                </p>
+                <Button onClick={openCreateForm}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Budget
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          activeBudgets.map((budget) => {
+            const usage = getBudgetUsage(budget);
+
+            return (
+              <Card key={budget.id} className="hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <CardTitle className="text-lg">{budget.name}</CardTitle>
+                      <CardDescription className="mt-1">{formatPeriod(budget)}</CardDescription>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditBudget(budget)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => handleDeleteBudget(budget.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2 mt-3">
+                    <Badge variant="outline">{budget.category_name || 'Uncategorized'}</Badge>
+                    {budget.auto_renew && (
+                      <Badge variant="info" className="flex items-center gap-1">
+                        <RefreshCw className="h-3 w-3" />
+                        Renews
+                      </Badge>
+                    )}
+                    {budget.rollover && <Badge variant="secondary">Rollover</Badge>}
+                  </div>
+                </CardHeader>
+
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">Spent</span>
+                      <span className={getProgressColor(usage.percent)}>{Math.round(usage.percent)}%</span>
+                    </div>
+                    <Progress value={Math.min(usage.percent, 100)} className="h-2" />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">
+                        {formatCurrency(usage.spent)}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        of {formatCurrency(usage.available)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`text-lg font-semibold ${usage.remaining >= 0 ? 'text-gray-600' : 'text-red-600'}`}>
+                        {formatCurrency(Math.abs(usage.remaining))}
+                      </p>
+                      <p className="text-sm text-gray-500">{usage.remaining >= 0 ? 'remaining' : 'over budget'}</p>
+                    </div>
+                  </div>
+
+                  {budget.rollover_amount > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Includes {formatCurrency(budget.rollover_amount)} rolled over from last period
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      {/* Previous Periods */}
+      {pastBudgets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Previous Periods</CardTitle>
+            <CardDescription>How past budget periods ended</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {pastBudgets.map((budget) => {
+                const usage = getBudgetUsage(budget);
+                return (
+                  <div key={budget.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{budget.name}</p>
+                      <p className="text-sm text-gray-500">{formatPeriod(budget)}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold">
+                        {formatCurrency(usage.spent)} of {formatCurrency(usage.available)}
+                      </p>
+                      <p className={`text-sm ${getProgressColor(usage.percent)}`}>
+                        {usage.remaining >= 0
+                          ? `${formatCurrency(usage.remaining)} unused`
+                          : `${formatCurrency(-usage.remaining)} over`}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Budget Form Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? 'Edit Budget' : 'Create New Budget'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-name">Budget Name *</Label>
+              <Input
+                id="budget-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Groceries, Eating Out"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category *</Label>
+                <Select
+                  value={formData.category_name}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, category_name: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="budget-limit">Limit *</Label>
+                <Input
+                  id="budget-limit"
+                  type="number"
+                  step="0.01"
+                  value={formData.monthly_limit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, monthly_limit: e.target.value }))}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="budget-start">Period Start *</Label>
+                <Input
+                  id="budget-start"
+                  type="date"
+                  value={formData.period_start}
+                  onChange={(e) => setFormData(prev => ({ ...prev, period_start: e.target.value }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="budget-end">Period End *</Label>
+                <Input
+                  id="budget-end"
+                  type="date"
+                  value={formData.period_end}
+                  onChange={(e) => setFormData(prev => ({ ...prev, period_end: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budget-thresholds">Alert Thresholds (%)</Label>
+              <Input
+                id="budget-thresholds"
+                value={formData.alert_thresholds}
+                onChange={(e) => setFormData(prev => ({ ...prev, alert_thresholds: e.target.value }))}
+                placeholder="80, 100"
+              />
+              <p className="text-xs text-gray-500">Show a warning when spending reaches each percentage</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.auto_renew}
+                  onChange={(e) => setFormData(prev => ({ ...prev, auto_renew: e.target.checked }))}
+                />
+                Start a new period automatically when this one ends
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.rollover}
+                  disabled={!formData.auto_renew}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rollover: e.target.checked }))}
+                />
+                Carry unused money into the next period
+              </label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setShowForm(false); setEditingBudget(null); }}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveBudget} disabled={submitting}>
+              {submitting ? 'Saving...' : editingBudget ? 'Update Budget' : 'Create Budget'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
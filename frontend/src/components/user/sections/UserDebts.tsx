@@ -0,0 +1,628 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  DEBT_PAYOFF_STRATEGIES,
+  DEFAULT_DEBT_PAYOFF_PLAN,
+  buildPayoffSchedule,
+  compareStrategies,
+  createDebtGoals,
+  deleteDebt,
+  fetchDebtPayoffPlan,
+  fetchDebts,
+  orderDebts,
+  reorderDebts,
+  saveDebt,
+  saveDebtPayoffPlan
+} from '@/lib/debts';
+import type { Debt, DebtPayoffPlan, DebtPayoffStrategy } from '@/types';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import {
+  CreditCard,
+  Plus,
+  Edit,
+  Trash,
+  ArrowUp,
+  ArrowDown,
+  Calendar,
+  DollarSign,
+  Percent,
+  Target
+} from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Schedule rows shown before "Show all"
+const SCHEDULE_PREVIEW_MONTHS = 12;
+
+interface DebtFormData {
+  name: string;
+  balance: string;
+  apr: string;
+  minimum_payment: string;
+}
+
+const emptyForm = (): DebtFormData => ({
+  name: '',
+  balance: '',
+  apr: '',
+  minimum_payment: ''
+});
+
+export const UserDebts: React.FC = () => {
+  const { user } = useAuth();
+  const [debts, setDebts] = useState<Debt[]>([]);
+  const [plan, setPlan] = useState<DebtPayoffPlan>(DEFAULT_DEBT_PAYOFF_PLAN);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingDebt, setEditingDebt] = useState<Debt | null>(null);
+  const [formData, setFormData] = useState<DebtFormData>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [showFullSchedule, setShowFullSchedule] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadDebts();
+    }
+  }, [user]);
+
+  const loadDebts = async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [debtList, savedPlan] = await Promise.all([
+        fetchDebts(user.id),
+        fetchDebtPayoffPlan(user.id)
+      ]);
+
+      setDebts(debtList);
+      setPlan(savedPlan);
+      setBudgetInput(savedPlan.monthly_budget ? savedPlan.monthly_budget.toString() : '');
+    } catch (err: any) {
+      console.error('Error loading debts:', err);
+      setError(err.message || 'Failed to load debts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const monthlyBudget = parseFloat(budgetInput) || 0;
+
+  const { schedule, comparison } = useMemo(() => ({
+    schedule: buildPayoffSchedule(debts, plan.strategy, monthlyBudget),
+    comparison: compareStrategies(debts, monthlyBudget)
+  }), [debts, plan.strategy, monthlyBudget]);
+
+  const orderedDebts = orderDebts(debts, plan.strategy);
+
+  const handleSavePlan = async (strategy: DebtPayoffStrategy = plan.strategy) => {
+    if (!user?.id) return;
+
+    try {
+      setError(null);
+      const updated = { strategy, monthly_budget: monthlyBudget };
+      await saveDebtPayoffPlan(user.id, updated);
+      setPlan(updated);
+    } catch (err: any) {
+      console.error('Error saving payoff plan:', err);
+      setError(err.message || 'Failed to save payoff plan');
+    }
+  };
+
+  const openForm = (debt?: Debt) => {
+    setEditingDebt(debt || null);
+    setFormData(debt ? {
+      name: debt.name,
+      balance: debt.balance.toString(),
+      apr: debt.apr.toString(),
+      minimum_payment: debt.minimum_payment.toString()
+    } : emptyForm());
+    setShowForm(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      await saveDebt(user.id, {
+        name: formData.name,
+        balance: parseFloat(formData.balance),
+        apr: parseFloat(formData.apr || '0'),
+        minimum_payment: parseFloat(formData.minimum_payment)
+      }, editingDebt?.id);
+
+      setShowForm(false);
+      setEditingDebt(null);
+      await loadDebts();
+    } catch (err: any) {
+      console.error('Error saving debt:', err);
+      setError(err.message || 'Failed to save debt');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (debt: Debt) => {
+    if (!confirm(`Delete ${debt.name}? Its linked goal will be kept.`)) return;
+
+    try {
+      setError(null);
+      await deleteDebt(debt.id);
+      await loadDebts();
+    } catch (err: any) {
+      console.error('Error deleting debt:', err);
+      setError(err.message || 'Failed to delete debt');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...orderedDebts];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+
+    try {
+      setError(null);
+      await reorderDebts(reordered.map(debt => debt.id));
+      setDebts(reordered.map((debt, position) => ({ ...debt, custom_order: position })));
+    } catch (err: any) {
+      console.error('Error reordering debts:', err);
+      setError(err.message || 'Failed to reorder debts');
+    }
+  };
+
+  const handleCreateGoals = async () => {
+    if (!user?.id) return;
+
+    try {
+      setError(null);
+      const created = await createDebtGoals(user.id, debts, schedule);
+      setNotice(`Created ${created} payoff goal${created === 1 ? '' : 's'}. Track them on the Goals page.`);
+      await loadDebts();
+    } catch (err: any) {
+      console.error('Error creating goals:', err);
+      setError(err.message || 'Failed to create goals');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formatMonth = (date: string | null) => {
+    if (!date) return '—';
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const totalDebt = debts.reduce((sum, debt) => sum + debt.balance, 0);
+  const unlinkedCount = debts.filter(debt => !debt.goal_id && debt.balance > 0).length;
+  const scheduleRows = showFullSchedule ? schedule.months : schedule.months.slice(0, SCHEDULE_PREVIEW_MONTHS);
+  const debtNames = new Map(debts.map(debt => [debt.id, debt.name]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Debt Payoff</h1>
+          <p className="text-gray-600">Plan how to pay down your cards and loans</p>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Debt
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">
+            {error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">
+            {notice}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {debts.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CreditCard className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No debts listed</h3>
+            <p className="text-gray-500 mb-6">
+              Add your credit cards and loans with their interest rates to build a payoff plan
+            </p>
+            <Button onClick={() => openForm()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Your First Debt
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Plan */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Payoff Plan</CardTitle>
+              <CardDescription>
+                Every debt gets its minimum payment; the rest of your budget goes to the first debt in line
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {DEBT_PAYOFF_STRATEGIES.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => handleSavePlan(option.value)}
+                    className={`text-left p-4 border rounded-lg ${plan.strategy === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{option.label}</span>
+                      {comparison[option.value].status === 'ok' && (
+                        <span className="text-xs text-gray-500">
+                          {formatCurrency(comparison[option.value].total_interest)} interest
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-end gap-4">
+                <div className="space-y-2 w-64">
+                  <Label htmlFor="monthly-budget">Monthly Budget for Debt</Label>
+                  <Input
+                    id="monthly-budget"
+                    type="number"
+                    step="0.01"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    placeholder={schedule.minimum_required.toFixed(2)}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => handleSavePlan()}
+                  disabled={monthlyBudget === plan.monthly_budget}
+                >
+                  Save Budget
+                </Button>
+                <p className="text-sm text-gray-500 pb-2">
+                  Minimum payments total {formatCurrency(schedule.minimum_required)}
+                </p>
+              </div>
+
+              {schedule.status === 'budget_too_low' && (
+                <Alert className="border-yellow-200 bg-yellow-50">
+                  <AlertDescription className="text-yellow-800">
+                    Your budget needs to cover at least the minimum payments of {formatCurrency(schedule.minimum_required)} a month.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {schedule.status === 'never' && (
+                <Alert className="border-yellow-200 bg-yellow-50">
+                  <AlertDescription className="text-yellow-800">
+                    At this budget the interest outpaces your payments and the debts are never paid off. Try a larger budget.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Debt</CardTitle>
+                <DollarSign className="h-4 w-4 text-red-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-600">{formatCurrency(totalDebt)}</div>
+                <p className="text-xs text-muted-foreground">Across {debts.length} debt{debts.length === 1 ? '' : 's'}</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Debt-Free Date</CardTitle>
+                <Calendar className="h-4 w-4 text-green-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMonth(schedule.debt_free_date)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {schedule.status === 'ok' ? `${schedule.months.length} months of payments` : 'Not reachable at this budget'}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Interest</CardTitle>
+                <Percent className="h-4 w-4 text-orange-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-orange-600">
+                  {schedule.status === 'ok' ? formatCurrency(schedule.total_interest) : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">Paid before you are debt free</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Paid</CardTitle>
+                <CreditCard className="h-4 w-4 text-blue-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-blue-600">
+                  {schedule.status === 'ok' ? formatCurrency(schedule.total_paid) : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">Principal plus interest</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Debts */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Debts</CardTitle>
+                <CardDescription>
+                  {plan.strategy === 'custom' ? 'Use the arrows to set the payoff order' : 'In the order they will be paid off'}
+                </CardDescription>
+              </div>
+              {unlinkedCount > 0 && schedule.status === 'ok' && (
+                <Button variant="outline" onClick={handleCreateGoals}>
+                  <Target className="h-4 w-4 mr-2" />
+                  Create Payoff Goals
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {orderedDebts.map((debt, index) => (
+                  <div key={debt.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm font-semibold text-gray-400 w-6">{index + 1}</span>
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-gray-900">{debt.name}</p>
+                          {debt.goal_id && <Badge variant="info">Goal linked</Badge>}
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {debt.apr}% APR • {formatCurrency(debt.minimum_payment)} minimum
+                          {schedule.payoff_dates[debt.id] && ` • paid off ${formatMonth(schedule.payoff_dates[debt.id])}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold text-gray-900 mr-2">{formatCurrency(debt.balance)}</span>
+                      {plan.strategy === 'custom' && (
+                        <>
+                          <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" disabled={index === orderedDebts.length - 1} onClick={() => handleMove(index, 1)}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => openForm(debt)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(debt)}>
+                        <Trash className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {schedule.status === 'ok' && (
+            <>
+              {/* Balance Chart */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Remaining Balance</CardTitle>
+                  <CardDescription>Total owed after each month's payments</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={schedule.months} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" tickFormatter={formatMonth} fontSize={12} />
+                        <YAxis tickFormatter={(value: number) => formatCurrency(value)} fontSize={12} width={100} />
+                        <Tooltip
+                          labelFormatter={(date: string) => formatMonth(date)}
+                          formatter={(value: number) => [formatCurrency(value), 'Remaining']}
+                        />
+                        <Area type="monotone" dataKey="remaining_balance" stroke="#dc2626" fill="#fecaca" />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Schedule */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Payment Schedule</CardTitle>
+                  <CardDescription>What to pay on each debt every month</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b bg-gray-50">
+                        <tr>
+                          <th className="text-left p-2 font-medium">Month</th>
+                          {orderedDebts.map(debt => (
+                            <th key={debt.id} className="text-right p-2 font-medium">{debt.name}</th>
+                          ))}
+                          <th className="text-right p-2 font-medium">Interest</th>
+                          <th className="text-right p-2 font-medium">Remaining</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {scheduleRows.map(row => {
+                          const payments = new Map(row.payments.map(line => [line.debt_id, line]));
+                          return (
+                            <tr key={row.month} className="border-b">
+                              <td className="p-2">{formatMonth(row.date)}</td>
+                              {orderedDebts.map(debt => {
+                                const line = payments.get(debt.id);
+                                return (
+                                  <td key={debt.id} className="text-right p-2">
+                                    {line ? formatCurrency(line.payment) : '—'}
+                                    {line && line.balance <= 0 && (
+                                      <Badge variant="success" className="ml-2">Paid off</Badge>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                              <td className="text-right p-2 text-orange-600">{formatCurrency(row.total_interest)}</td>
+                              <td className="text-right p-2 font-medium">{formatCurrency(row.remaining_balance)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {schedule.months.length > SCHEDULE_PREVIEW_MONTHS && (
+                    <div className="text-center mt-4">
+                      <Button variant="ghost" onClick={() => setShowFullSchedule(prev => !prev)}>
+                        {showFullSchedule ? 'Show less' : `Show all ${schedule.months.length} months`}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+
+      {/* Add/Edit Debt Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingDebt ? 'Edit Debt' : 'Add Debt'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="debt-name">Name *</Label>
+              <Input
+                id="debt-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Visa, Car Loan"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="debt-balance">Current Balance *</Label>
+              <Input
+                id="debt-balance"
+                type="number"
+                step="0.01"
+                value={formData.balance}
+                onChange={(e) => setFormData(prev => ({ ...prev, balance: e.target.value }))}
+                placeholder="0.00"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="debt-apr">APR (%)</Label>
+                <Input
+                  id="debt-apr"
+                  type="number"
+                  step="0.01"
+                  value={formData.apr}
+                  onChange={(e) => setFormData(prev => ({ ...prev, apr: e.target.value }))}
+                  placeholder="e.g., 19.99"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="debt-minimum">Minimum Payment *</Label>
+                <Input
+                  id="debt-minimum"
+                  type="number"
+                  step="0.01"
+                  value={formData.minimum_payment}
+                  onChange={(e) => setFormData(prev => ({ ...prev, minimum_payment: e.target.value }))}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting ? 'Saving...' : editingDebt ? 'Update Debt' : 'Add Debt'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { addGoalContribution, fetchGoalContributions, projectGoalCompletion } from '@/lib/goals';
+import { toISODate } from '@/lib/reports';
+import { GoalHistoryModal } from '@/components/modals/GoalHistoryModal';
+import type { GoalContribution } from '@/types';
 import { 
   Card, 
   CardContent, 
@@ -37,7 +41,9 @@ import {
   Edit,
   Trash,
   CheckCircle,
-  PiggyBank
+  PiggyBank,
+  History,
+  AlertTriangle
 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
@@ -53,6 +59,13 @@ interface FinancialGoal {
   status: 'active' | 'completed' | 'paused';
 }
 
+interface LinkableTransaction {
+  id: string;
+  date: string;
+  description: string | null;
+  amount: number;
+}
+
 interface GoalFormData {
   title: string;
   description: string;
@@ -87,6 +100,14 @@ export const UserGoals: React.FC = () => {
   });
 
   const [addMoneyAmount, setAddMoneyAmount] = useState<string>('');
+  const [addMoneyDetails, setAddMoneyDetails] = useState({
+    contribution_date: toISODate(new Date()),
+    transaction_id: '',
+    note: ''
+  });
+  const [linkableTransactions, setLinkableTransactions] = useState<LinkableTransaction[]>([]);
+  const [contributions, setContributions] = useState<Record<string, GoalContribution[]>>({});
+  const [historyGoal, setHistoryGoal] = useState<FinancialGoal | null>(null);
 
   const categories = [
     'Emergency Fund', 'Vacation', 'Car', 'House', 'Education',
@@ -107,11 +128,14 @@ export const UserGoals: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from('financial_goals')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      const [{ data, error }, goalContributions] = await Promise.all([
+        supabase
+          .from('financial_goals')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        fetchGoalContributions(user.id)
+      ]);
 
       if (error) throw error;
 
@@ -128,6 +152,9 @@ export const UserGoals: React.FC = () => {
       }));
 
       setGoals(formattedGoals);
+      setContributions(goalContributions);
+      // Keep an open history in step with the reloaded amounts
+      setHistoryGoal(prev => prev && (formattedGoals.find(g => g.id === prev.id) || null));
 
     } catch (err: any) {
       console.error('Error loading goals:', err);
@@ -172,19 +199,31 @@ export const UserGoals: React.FC = () => {
         title: formData.title.trim(),
         description: formData.description.trim(),
         target_amount: parseFloat(formData.target_amount),
-        current_amount: parseFloat(formData.current_amount) || 0,
+        current_amount: 0,
         deadline: formData.deadline || null,
         category: formData.category,
         priority: formData.priority,
         status: 'active'
       };
 
-      const { error } = await supabase
+      const { data: goal, error } = await supabase
         .from('financial_goals')
-        .insert([goalData]);
+        .insert([goalData])
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      // Money already saved is recorded as the goal's starting balance
+      const startingAmount = parseFloat(formData.current_amount) || 0;
+      if (startingAmount !== 0) {
+        await addGoalContribution(goal.id, user.id, {
+          amount: startingAmount,
+          contribution_date: toISODate(new Date()),
+          kind: 'starting_balance'
+        });
+      }
+
       await loadGoals();
       setShowAddForm(false);
       resetForm();
@@ -230,7 +269,6 @@ export const UserGoals: React.FC = () => {
         title: formData.title.trim(),
         description: formData.description.trim(),
         target_amount: parseFloat(formData.target_amount),
-        current_amount: parseFloat(formData.current_amount) || 0,
         deadline: formData.deadline || null,
         category: formData.category,
         priority: formData.priority
@@ -243,6 +281,17 @@ export const UserGoals: React.FC = () => {
 
       if (error) throw error;
 
+      // The saved amount only changes through the contribution ledger
+      const difference = (parseFloat(formData.current_amount) || 0) - editingGoal.current_amount;
+      if (Math.abs(difference) >= 0.005) {
+        await addGoalContribution(editingGoal.id, user.id, {
+          amount: difference,
+          contribution_date: toISODate(new Date()),
+          kind: 'adjustment',
+          note: 'Saved amount edited'
+        });
+      }
+
       await loadGoals();
       setShowEditForm(false);
       setEditingGoal(null);
@@ -282,11 +331,36 @@ export const UserGoals: React.FC = () => {
   const handleAddMoney = (goal: FinancialGoal) => {
     setSelectedGoal(goal);
     setAddMoneyAmount('');
+    setAddMoneyDetails({ contribution_date: toISODate(new Date()), transaction_id: '', note: '' });
     setShowAddMoneyForm(true);
+    loadLinkableTransactions();
+  };
+
+  // Recent transactions the contribution can be linked to, such as a transfer to savings
+  const loadLinkableTransactions = async () => {
+    if (!user?.id) return;
+
+    const since = new Date();
+    since.setDate(since.getDate() - 90);
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, date, description, amount')
+      .eq('user_id', user.id)
+      .gte('date', toISODate(since))
+      .order('date', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.warn('Could not load transactions to link:', error);
+      return;
+    }
+
+    setLinkableTransactions((data || []).map(t => ({ ...t, amount: Number(t.amount) })));
   };
 
   const handleConfirmAddMoney = async () => {
-    if (!selectedGoal || !addMoneyAmount) return;
+    if (!selectedGoal || !addMoneyAmount || !user?.id) return;
 
     try {
       setSubmitting(true);
@@ -297,14 +371,12 @@ export const UserGoals: React.FC = () => {
         throw new Error('Please enter a valid amount');
       }
 
-      const newCurrentAmount = selectedGoal.current_amount + amount;
-
-      const { error } = await supabase
-        .from('financial_goals')
-        .update({ current_amount: newCurrentAmount })
-        .eq('id', selectedGoal.id);
-
-      if (error) throw error;
+      await addGoalContribution(selectedGoal.id, user.id, {
+        amount,
+        contribution_date: addMoneyDetails.contribution_date || toISODate(new Date()),
+        transaction_id: addMoneyDetails.transaction_id || null,
+        note: addMoneyDetails.note
+      });
 
       await loadGoals();
       setShowAddMoneyForm(false);
@@ -549,6 +621,7 @@ export const UserGoals: React.FC = () => {
           filteredGoals.map((goal) => {
             const progress = getProgress(goal);
             const daysLeft = getDaysUntilDeadline(goal.deadline);
+            const projection = projectGoalCompletion(goal, contributions[goal.id] || []);
             
             return (
               <Card key={goal.id} className="hover:shadow-lg transition-shadow">
@@ -563,6 +636,9 @@ export const UserGoals: React.FC = () => {
                       )}
                     </div>
                     <div className="flex items-center space-x-2">
+                      <Button variant="ghost" size="sm" title="Contribution history" onClick={() => setHistoryGoal(goal)}>
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button variant="ghost" size="sm" onClick={() => handleEditGoal(goal)}>
                         <Edit className="h-4 w-4" />
                       </Button>
@@ -639,6 +715,25 @@ export const UserGoals: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Projection */}
+                  {goal.status === 'active' && projection.status !== 'complete' && projection.status !== 'no_data' && (
+                    <div className={`text-sm rounded-md p-2 ${
+                      projection.status === 'off_track' ? 'bg-red-50 text-red-800' : 'bg-gray-50 text-gray-600'
+                    }`}>
+                      {projection.status === 'off_track' && (
+                        <AlertTriangle className="h-4 w-4 inline mr-1 -mt-0.5" />
+                      )}
+                      {projection.projectedDate
+                        ? `At ${formatCurrency(projection.monthlyRate)}/month, projected to finish ${formatDate(projection.projectedDate)}`
+                        : 'No contributions yet'}
+                      {projection.status === 'off_track' && projection.requiredMonthlyRate !== null && (
+                        <span className="block">
+                          Off track: save {formatCurrency(projection.requiredMonthlyRate)}/month to meet the deadline
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex space-x-2 pt-2">
                     {goal.status === 'active' && progress < 100 && (
@@ -916,6 +1011,43 @@ export const UserGoals: React.FC = () => {
                     autoFocus
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="add-date">Date</Label>
+                  <Input
+                    id="add-date"
+                    type="date"
+                    value={addMoneyDetails.contribution_date}
+                    onChange={(e) => setAddMoneyDetails(prev => ({ ...prev, contribution_date: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="add-transaction">Linked Transaction</Label>
+                  <select
+                    id="add-transaction"
+                    value={addMoneyDetails.transaction_id}
+                    onChange={(e) => setAddMoneyDetails(prev => ({ ...prev, transaction_id: e.target.value }))}
+                    className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">None</option>
+                    {linkableTransactions.map(t => (
+                      <option key={t.id} value={t.id}>
+                        {formatDate(t.date)} • {t.description || 'No description'} • {formatCurrency(t.amount)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="add-note">Note</Label>
+                  <Input
+                    id="add-note"
+                    value={addMoneyDetails.note}
+                    onChange={(e) => setAddMoneyDetails(prev => ({ ...prev, note: e.target.value }))}
+                    placeholder="Optional"
+                  />
+                </div>
               </div>
 
               <DialogFooter>
@@ -930,6 +1062,14 @@ export const UserGoals: React.FC = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      <GoalHistoryModal
+        isOpen={!!historyGoal}
+        onClose={() => setHistoryGoal(null)}
+        goal={historyGoal}
+        contributions={historyGoal ? contributions[historyGoal.id] || [] : []}
+        onChanged={loadGoals}
+      />
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,592 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  NET_WORTH_ACCOUNT_KINDS,
+  buildNetWorthTimeline,
+  createNetWorthAccount,
+  deleteBalanceSnapshot,
+  fetchNetWorthData,
+  getAccountBalances,
+  getMonthEndDates,
+  getNetWorthAccountKind,
+  getNetWorthAccountLabel,
+  getNetWorthBreakdown,
+  getNetWorthChange,
+  recordBalanceSnapshot
+} from '@/lib/netWorth';
+import type { NetWorthData } from '@/lib/netWorth';
+import { toISODate } from '@/lib/reports';
+import type { Account, AccountBalanceSource } from '@/types';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import {
+  Landmark,
+  Plus,
+  TrendingUp,
+  TrendingDown,
+  CreditCard,
+  Trash2
+} from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+const TIMELINE_MONTHS = 12;
+
+interface AccountFormData {
+  name: string;
+  subtype: string;
+  balance_source: AccountBalanceSource;
+  balance: string;
+  as_of: string;
+}
+
+interface BalanceFormData {
+  snapshot_date: string;
+  balance: string;
+  note: string;
+}
+
+const emptyAccountForm = (): AccountFormData => ({
+  name: '',
+  subtype: 'checking',
+  balance_source: 'ledger',
+  balance: '',
+  as_of: toISODate(new Date())
+});
+
+export const UserNetWorth: React.FC = () => {
+  const { user } = useAuth();
+  const [data, setData] = useState<NetWorthData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [showAccountForm, setShowAccountForm] = useState(false);
+  const [accountForm, setAccountForm] = useState<AccountFormData>(emptyAccountForm);
+  const [balanceAccount, setBalanceAccount] = useState<Account | null>(null);
+  const [balanceForm, setBalanceForm] = useState<BalanceFormData>({ snapshot_date: '', balance: '', note: '' });
+
+  useEffect(() => {
+    if (user) {
+      loadNetWorth();
+    }
+  }, [user]);
+
+  const loadNetWorth = async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await fetchNetWorthData(user.id));
+    } catch (err: any) {
+      console.error('Error loading net worth:', err);
+      setError(err.message || 'Failed to load net worth');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const { timeline, balances, breakdown, change } = useMemo(() => {
+    if (!data) return { timeline: [], balances: new Map<string, number>(), breakdown: [], change: null };
+
+    const timeline = buildNetWorthTimeline(data, getMonthEndDates(TIMELINE_MONTHS));
+    const balances = getAccountBalances(data, toISODate(new Date()));
+    return {
+      timeline,
+      balances,
+      breakdown: getNetWorthBreakdown(data.accounts, balances),
+      change: getNetWorthChange(timeline)
+    };
+  }, [data]);
+
+  const current = timeline[timeline.length - 1];
+
+  const handleCreateAccount = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const balance = parseFloat(accountForm.balance || '0');
+      if (isNaN(balance)) {
+        throw new Error('Enter the current balance');
+      }
+
+      await createNetWorthAccount(user.id, {
+        name: accountForm.name,
+        subtype: accountForm.subtype,
+        balance_source: accountForm.balance_source,
+        balance,
+        as_of: accountForm.as_of
+      });
+
+      setShowAccountForm(false);
+      await loadNetWorth();
+    } catch (err: any) {
+      console.error('Error creating account:', err);
+      setError(err.message || 'Failed to create account');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openBalanceForm = (account: Account) => {
+    setBalanceAccount(account);
+    setBalanceForm({
+      snapshot_date: toISODate(new Date()),
+      balance: (balances.get(account.id) ?? 0).toFixed(2),
+      note: ''
+    });
+  };
+
+  const handleRecordBalance = async () => {
+    if (!balanceAccount || !user?.id) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const balance = parseFloat(balanceForm.balance);
+      if (isNaN(balance)) {
+        throw new Error('Enter a balance');
+      }
+
+      await recordBalanceSnapshot(balanceAccount.id, {
+        snapshot_date: balanceForm.snapshot_date,
+        balance,
+        note: balanceForm.note
+      }, user.id);
+
+      setBalanceAccount(null);
+      await loadNetWorth();
+    } catch (err: any) {
+      console.error('Error recording balance:', err);
+      setError(err.message || 'Failed to record balance');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+    if (!window.confirm('Remove this recorded balance?')) return;
+
+    try {
+      setError(null);
+      await deleteBalanceSnapshot(snapshotId);
+      await loadNetWorth();
+    } catch (err: any) {
+      console.error('Error deleting balance:', err);
+      setError(err.message || 'Failed to delete balance');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formatMonth = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const accounts = data?.accounts || [];
+  const balanceSnapshots = balanceAccount
+    ? (data?.snapshots || []).filter(s => s.account_id === balanceAccount.id).reverse()
+    : [];
+  const totalAssets = breakdown.filter(line => line.type === 'asset').reduce((sum, line) => sum + line.total, 0);
+  const totalLiabilities = breakdown.filter(line => line.type === 'liability').reduce((sum, line) => sum + line.total, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Net Worth</h1>
+          <p className="text-gray-600">What you own minus what you owe, month by month</p>
+        </div>
+        <Button onClick={() => { setAccountForm(emptyAccountForm()); setShowAccountForm(true); }}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Account
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">
+            {error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {accounts.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Landmark className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No accounts yet</h3>
+            <p className="text-gray-500 mb-6">
+              Add your bank accounts, cards, loans, investments and property to track your net worth
+            </p>
+            <Button onClick={() => { setAccountForm(emptyAccountForm()); setShowAccountForm(true); }}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Your First Account
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Net Worth</CardTitle>
+                <Landmark className="h-4 w-4 text-blue-600" />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${(current?.net_worth || 0) >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                  {formatCurrency(current?.net_worth || 0)}
+                </div>
+                {change && (
+                  <p className={`text-xs ${change.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {change.amount >= 0 ? '+' : ''}{formatCurrency(change.amount)}
+                    {change.percent !== null && ` (${change.percent >= 0 ? '+' : ''}${change.percent.toFixed(1)}%)`} since last month
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Assets</CardTitle>
+                <TrendingUp className="h-4 w-4 text-green-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">{formatCurrency(current?.assets || 0)}</div>
+                <p className="text-xs text-muted-foreground">Cash, investments and property</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Liabilities</CardTitle>
+                <TrendingDown className="h-4 w-4 text-red-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-600">{formatCurrency(current?.liabilities || 0)}</div>
+                <p className="text-xs text-muted-foreground">Cards and loans</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Net Worth Over Time</CardTitle>
+              <CardDescription>Month-end balances for the last {TIMELINE_MONTHS} months</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={timeline} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tickFormatter={formatMonth} fontSize={12} />
+                    <YAxis tickFormatter={(value: number) => formatCurrency(value)} fontSize={12} width={100} />
+                    <Tooltip labelFormatter={(date: string) => formatDate(date)} formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    <Line type="monotone" dataKey="net_worth" name="Net Worth" stroke="#2563eb" strokeWidth={2} />
+                    <Line type="monotone" dataKey="assets" name="Assets" stroke="#16a34a" dot={false} />
+                    <Line type="monotone" dataKey="liabilities" name="Liabilities" stroke="#dc2626" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Breakdown */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Breakdown</CardTitle>
+                <CardDescription>Assets and liabilities by account type</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {breakdown.map(line => {
+                  const total = line.type === 'asset' ? totalAssets : totalLiabilities;
+                  const share = total !== 0 ? Math.max((line.total / total) * 100, 0) : 0;
+                  return (
+                    <div key={line.subtype} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{line.label}</span>
+                        <span className={line.type === 'asset' ? 'text-green-600' : 'text-red-600'}>
+                          {formatCurrency(line.total)}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full ${line.type === 'asset' ? 'bg-green-500' : 'bg-red-500'}`}
+                          style={{ width: `${Math.min(share, 100)}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Accounts */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Accounts</CardTitle>
+                <CardDescription>
+                  Linked accounts follow the transactions you assign to them; update the others when their value changes
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {accounts.map(account => (
+                    <div key={account.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        {account.type === 'liability'
+                          ? <CreditCard className="h-5 w-5 text-red-500" />
+                          : <Landmark className="h-5 w-5 text-green-600" />}
+                        <div>
+                          <p className="font-medium text-gray-900">{account.name}</p>
+                          <div className="flex items-center gap-2 mt-0.5">
+                            <Badge variant="outline">{getNetWorthAccountLabel(account)}</Badge>
+                            <Badge variant={account.balance_source === 'manual' ? 'secondary' : 'info'}>
+                              {account.balance_source === 'manual' ? 'Manual' : 'Linked'}
+                            </Badge>
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className={`font-semibold ${account.type === 'liability' ? 'text-red-600' : 'text-gray-900'}`}>
+                          {formatCurrency(balances.get(account.id) || 0)}
+                        </span>
+                        {account.balance_source === 'manual' && (
+                          <Button size="sm" variant="outline" onClick={() => openBalanceForm(account)}>
+                            Update
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      {/* Add Account Modal */}
+      <Dialog open={showAccountForm} onOpenChange={setShowAccountForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Account</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Account Name *</Label>
+              <Input
+                id="account-name"
+                value={accountForm.name}
+                onChange={(e) => setAccountForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Everyday Checking, Mortgage"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="account-kind">Type</Label>
+                <select
+                  id="account-kind"
+                  value={accountForm.subtype}
+                  onChange={(e) => setAccountForm(prev => ({
+                    ...prev,
+                    subtype: e.target.value,
+                    balance_source: getNetWorthAccountKind(e.target.value)?.balance_source || prev.balance_source
+                  }))}
+                  className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                >
+                  {NET_WORTH_ACCOUNT_KINDS.map(kind => (
+                    <option key={kind.subtype} value={kind.subtype}>{kind.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="account-source">Balance</Label>
+                <select
+                  id="account-source"
+                  value={accountForm.balance_source}
+                  onChange={(e) => setAccountForm(prev => ({ ...prev, balance_source: e.target.value as AccountBalanceSource }))}
+                  className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="ledger">Linked to transactions</option>
+                  <option value="manual">Updated manually</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="account-balance">
+                  {getNetWorthAccountKind(accountForm.subtype)?.type === 'liability' ? 'Amount Owed' : 'Current Balance'}
+                </Label>
+                <Input
+                  id="account-balance"
+                  type="number"
+                  step="0.01"
+                  value={accountForm.balance}
+                  onChange={(e) => setAccountForm(prev => ({ ...prev, balance: e.target.value }))}
+                  placeholder="0.00"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="account-as-of">As Of</Label>
+                <Input
+                  id="account-as-of"
+                  type="date"
+                  value={accountForm.as_of}
+                  onChange={(e) => setAccountForm(prev => ({ ...prev, as_of: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {accountForm.balance_source === 'ledger' && (
+              <p className="text-xs text-gray-500">
+                Transactions assigned to this account after the as-of date move its balance.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAccountForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateAccount} disabled={submitting}>
+              {submitting ? 'Adding...' : 'Add Account'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Update Balance Modal */}
+      <Dialog open={!!balanceAccount} onOpenChange={(open) => !open && setBalanceAccount(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Update {balanceAccount?.name}</DialogTitle>
+            <DialogDescription>Record the balance on a date. A later entry replaces it from then on.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="snapshot-date">Date</Label>
+                <Input
+                  id="snapshot-date"
+                  type="date"
+                  value={balanceForm.snapshot_date}
+                  onChange={(e) => setBalanceForm(prev => ({ ...prev, snapshot_date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="snapshot-balance">Balance</Label>
+                <Input
+                  id="snapshot-balance"
+                  type="number"
+                  step="0.01"
+                  value={balanceForm.balance}
+                  onChange={(e) => setBalanceForm(prev => ({ ...prev, balance: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="snapshot-note">Note</Label>
+              <Input
+                id="snapshot-note"
+                value={balanceForm.note}
+                onChange={(e) => setBalanceForm(prev => ({ ...prev, note: e.target.value }))}
+                placeholder="Optional, e.g. statement or appraisal"
+              />
+            </div>
+
+            {balanceSnapshots.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {balanceSnapshots.map(snapshot => (
+                  <div key={snapshot.id} className="flex items-center justify-between text-sm border-b py-1">
+                    <span className="text-gray-600">{formatDate(snapshot.snapshot_date)}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatCurrency(snapshot.balance)}</span>
+                      <Button size="sm" variant="ghost" onClick={() => handleDeleteSnapshot(snapshot.id)}>
+                        <Trash2 className="h-3 w-3 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBalanceAccount(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRecordBalance} disabled={submitting}>
+              {submitting ? 'Saving...' : 'Save Balance'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -2,6 +2,13 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
+import { toISODate } from '@/lib/reports';
+import { fetchBudgets, getBudgetAlerts, getBudgetUsage, renewBudgets } from '@/lib/budgets';
+import type { BudgetAlert } from '@/lib/budgets';
+import { fetchUpcomingOccurrences, generateRecurringTransactions, skipOccurrence } from '@/lib/recurring';
+import type { UpcomingOccurrence } from '@/lib/recurring';
+import { buildNetWorthTimeline, fetchNetWorthData, getMonthEndDates, getNetWorthChange } from '@/lib/netWorth';
+import type { NetWorthPoint } from '@/lib/netWorth';
 import { 
   Card, 
   CardContent, 
@@ -20,7 +27,10 @@ import {
   PieChart,
   Wallet,
   Plus,
-  Calendar
+  Calendar,
+  Repeat,
+  SkipForward,
+  Landmark
 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
@@ -59,6 +69,9 @@ export const UserOverview: React.FC = () => {
   const [metrics, setMetrics] = useState<PersonalMetrics | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
   const [goals, setGoals] = useState<FinancialGoal[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingOccurrence[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const [netWorth, setNetWorth] = useState<NetWorthPoint[]>([]);
 
   // Load user's personal financial data
   useEffect(() => {
@@ -74,14 +87,23 @@ export const UserOverview: React.FC = () => {
       setLoading(true);
       setError(null);
 
+      // Catch up on recurring occurrences and budget periods so the figures are current
+      await generateRecurringTransactions().catch(err =>
+        console.warn('Could not generate recurring transactions:', err)
+      );
+      await renewBudgets().catch(err =>
+        console.warn('Could not renew budgets:', err)
+      );
+
       // Load data in parallel for better performance
-      const [transactionsResult, goalsResult, budgetsResult] = await Promise.all([
-        // Load transactions for current month
+      const [transactionsResult, goalsResult, budgetsResult, upcomingResult, netWorthResult] = await Promise.all([
+        // Load transactions for current month, leaving out scheduled ones not yet due
         supabase
           .from('transactions')
           .select('*')
           .eq('user_id', user.id)
           .gte('date', new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0])
+          .lte('date', toISODate(new Date()))
           .order('date', { ascending: false }),
         
         // Load active financial goals
@@ -92,23 +114,28 @@ export const UserOverview: React.FC = () => {
           .eq('status', 'active')
           .order('deadline', { ascending: true }),
         
-        // Load current month's budget
-        supabase
-          .from('budgets')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('status', 'active')
-          .gte('start_date', new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0])
-          .lte('end_date', new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).toISOString().split('T')[0])
+        // Load active budgets; their spent amounts are kept current by the database
+        fetchBudgets(user.id, { activeOnly: true }),
+
+        // Load the next scheduled recurring items
+        fetchUpcomingOccurrences(user.id),
+
+        // Value accounts at last month end and today for the net worth card
+        fetchNetWorthData(user.id)
+          .then(data => data.accounts.length > 0 ? buildNetWorthTimeline(data, getMonthEndDates(2)) : [])
+          .catch(err => {
+            console.warn('Could not load net worth:', err);
+            return [] as NetWorthPoint[];
+          })
       ]);
 
       if (transactionsResult.error) throw transactionsResult.error;
       if (goalsResult.error) throw goalsResult.error;
-      if (budgetsResult.error) throw budgetsResult.error;
 
       const transactions = transactionsResult.data || [];
       const goals = goalsResult.data || [];
-      const budgets = budgetsResult.data || [];
+      const today = toISODate(new Date());
+      const budgets = budgetsResult.filter(b => b.period_start <= today && b.period_end >= today);
 
       // Calculate metrics from real data
       const totalIncome = transactions
@@ -120,10 +147,10 @@ export const UserOverview: React.FC = () => {
         .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
 
       const monthlyBudget = budgets
-        .reduce((sum, b) => sum + Number(b.amount), 0);
+        .reduce((sum, b) => sum + getBudgetUsage(b).available, 0);
 
       const budgetUsed = budgets
-        .reduce((sum, b) => sum + Number(b.spent_amount || 0), 0);
+        .reduce((sum, b) => sum + b.spent_amount, 0);
 
       const personalMetrics: PersonalMetrics = {
         totalIncome,
@@ -157,6 +184,9 @@ export const UserOverview: React.FC = () => {
       setMetrics(personalMetrics);
       setRecentTransactions(recentTrans);
       setGoals(mappedGoals);
+      setUpcoming(upcomingResult);
+      setBudgetAlerts(getBudgetAlerts(budgets));
+      setNetWorth(netWorthResult);
 
       // If no data exists, show helpful message
       if (transactions.length === 0 && goals.length === 0) {
@@ -185,6 +215,21 @@ export const UserOverview: React.FC = () => {
     });
   };
 
+  const handleSkipOccurrence = async (occurrence: UpcomingOccurrence) => {
+    try {
+      await skipOccurrence(occurrence.recurring_transaction_id, occurrence.occurrence_date);
+      setUpcoming(prev => prev.filter(o =>
+        o.recurring_transaction_id !== occurrence.recurring_transaction_id || o.occurrence_date !== occurrence.occurrence_date
+      ));
+    } catch (err: any) {
+      console.error('Error skipping occurrence:', err);
+      setError(err.message || 'Failed to skip occurrence');
+    }
+  };
+
+  const netWorthNow = netWorth[netWorth.length - 1];
+  const netWorthChange = getNetWorthChange(netWorth);
+
   const getGoalProgress = (goal: FinancialGoal) => {
     return Math.min((goal.current_amount / goal.target_amount) * 100, 100);
   };
@@ -228,8 +273,25 @@ export const UserOverview: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      {/* Budget Alerts */}
+      {budgetAlerts.map(({ budget, threshold, usage }) => (
+        <Alert
+          key={budget.id}
+          className={usage.percent >= 100 ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50'}
+        >
+          <AlertDescription className="flex items-center justify-between">
+            <span className={usage.percent >= 100 ? 'text-red-800' : 'text-yellow-800'}>
+              {budget.name} has reached {threshold}% of its budget ({formatCurrency(usage.spent)} of {formatCurrency(usage.available)})
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/user/budgets')}>
+              View Budgets
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ))}
+
       {/* Financial Metrics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-3 gap-4">
+      <div className={`grid grid-cols-1 md:grid-cols-3 gap-4 ${netWorthNow ? 'lg:grid-cols-4' : 'lg:grid-cols-3'}`}>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Monthly Income</CardTitle>
@@ -274,6 +336,25 @@ export const UserOverview: React.FC = () => {
             </p>
           </CardContent>
         </Card>
+
+        {netWorthNow && (
+          <Card className="cursor-pointer" onClick={() => navigate('/user/net-worth')}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Net Worth</CardTitle>
+              <Landmark className="h-4 w-4 text-gray-600" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${netWorthNow.net_worth >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                {formatCurrency(netWorthNow.net_worth)}
+              </div>
+              <p className={`text-xs ${!netWorthChange ? 'text-muted-foreground' : netWorthChange.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {netWorthChange
+                  ? `${netWorthChange.amount >= 0 ? '+' : ''}${formatCurrency(netWorthChange.amount)} since last month`
+                  : 'Assets minus liabilities'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Main Content Grid */}
@@ -420,6 +501,55 @@ export const UserOverview: React.FC = () => {
         </Card>
       </div>
 
+      {/* Upcoming Recurring */}
+      {upcoming.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Upcoming Recurring</CardTitle>
+              <CardDescription>Scheduled income and expenses for the next 30 days</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('/user/transactions')}>
+              <Repeat className="h-4 w-4 mr-2" />
+              Manage
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {upcoming.map((occurrence) => (
+                <div
+                  key={`${occurrence.recurring_transaction_id}-${occurrence.occurrence_date}`}
+                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{occurrence.description || 'No description'}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatDate(occurrence.date)}
+                      {occurrence.category && ` • ${occurrence.category}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <p className={`font-semibold ${
+                      occurrence.type === 'income' ? 'text-green-600' : 'text-red-600'
+                    }`}>
+                      {occurrence.type === 'income' ? '+' : ''}{formatCurrency(occurrence.amount)}
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Skip this occurrence"
+                      onClick={() => handleSkipOccurrence(occurrence)}
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -1,6 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { BankImportModal } from '@/components/modals/BankImportModal';
+import { CategorizationRulesModal } from '@/components/modals/CategorizationRulesModal';
+import { SplitTransactionModal } from '@/components/modals/SplitTransactionModal';
+import { RecurringTransactionsModal } from '@/components/modals/RecurringTransactionsModal';
+import { categorizeTransaction, fetchCategorizationRules } from '@/lib/categorization';
+import { SPLIT_CATEGORY, isSplitCategory } from '@/lib/splits';
+import { fetchUserAccounts } from '@/lib/accounts';
+import { getNetWorthAccountLabel, isNetWorthAccount } from '@/lib/netWorth';
+import {
+  RECURRING_FREQUENCIES,
+  RECURRING_INTERVAL_UNITS,
+  createRecurringTransaction,
+  generateRecurringTransactions,
+  previewOccurrences,
+  skipOccurrence
+} from '@/lib/recurring';
+import type { Account, CategorizationRule, RecurringFrequency, RecurringIntervalUnit } from '@/types';
 import { 
   Card, 
   CardContent, 
@@ -28,7 +45,12 @@ import {
   Calendar,
   DollarSign,
   Edit,
-  Trash
+  Trash,
+  Upload,
+  Wand2,
+  Split,
+  Repeat,
+  SkipForward
 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
@@ -47,8 +69,14 @@ interface Transaction {
   date: string;
   type: 'income' | 'expense';
   tags?: string[];
+  account_id?: string | null;
+  recurring_transaction_id?: string | null;
+  occurrence_date?: string | null;
 }
 
+// Repeat select value for one-off transactions
+const NO_REPEAT = 'none';
+
 export const UserTransactions: React.FC = () => {
   const { user } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -59,9 +87,21 @@ export const UserTransactions: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<string>('all');
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showRulesModal, setShowRulesModal] = useState(false);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [splittingTransaction, setSplittingTransaction] = useState<Transaction | null>(null);
+  const [showRecurringModal, setShowRecurringModal] = useState(false);
+  const [repeat, setRepeat] = useState({
+    frequency: NO_REPEAT as RecurringFrequency | typeof NO_REPEAT,
+    interval_count: '1',
+    interval_unit: 'month' as RecurringIntervalUnit,
+    end_date: ''
+  });
 
   // Load categories from database
   const [categories, setCategories] = useState<string[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   // Add form state inside the component
   const [formData, setFormData] = useState({
@@ -70,7 +110,8 @@ export const UserTransactions: React.FC = () => {
     description: '',
     category_name: '',
     date: new Date().toISOString().split('T')[0],
-    tags: [] as string[]
+    tags: [] as string[],
+    account_id: ''
   });
 
   // Add state for editing transactions
@@ -86,7 +127,8 @@ export const UserTransactions: React.FC = () => {
       description: transaction.description,
       category_name: transaction.category_name,
       date: transaction.date,
-      tags: transaction.tags || []
+      tags: transaction.tags || [],
+      account_id: transaction.account_id || ''
     });
     setShowEditForm(true);
   };
@@ -125,10 +167,41 @@ export const UserTransactions: React.FC = () => {
         category_name: formData.category_name,
         date: formData.date,
         type: formData.type,
-        tags: formData.tags
+        tags: formData.tags,
+        account_id: formData.account_id || null,
+        notes: null as string | null
       };
 
-      if (editingTransaction) {
+      // New transactions pick up tags and notes from the first matching rule,
+      // and its category when none was chosen
+      if (!editingTransaction) {
+        const result = categorizeTransaction(rules, transactionData);
+        if (result) {
+          transactionData.category_name = transactionData.category_name || result.category;
+          transactionData.tags = result.tags;
+          transactionData.notes = result.notes;
+        }
+      }
+
+      if (!editingTransaction && repeat.frequency !== NO_REPEAT) {
+        // The scheduler creates the first occurrence along with the rest
+        await createRecurringTransaction({
+          user_id: user.id,
+          business_id: null,
+          type: formData.type,
+          amount,
+          description: transactionData.description,
+          category: transactionData.category_name,
+          account_id: transactionData.account_id,
+          tags: transactionData.tags,
+          frequency: repeat.frequency,
+          interval_count: parseInt(repeat.interval_count) || 1,
+          interval_unit: repeat.interval_unit,
+          start_date: formData.date,
+          end_date: repeat.end_date || null
+        });
+        setShowAddForm(false);
+      } else if (editingTransaction) {
         // Update existing transaction
         const { error } = await supabase
           .from('transactions')
@@ -154,8 +227,10 @@ export const UserTransactions: React.FC = () => {
         description: '',
         category_name: '',
         date: new Date().toISOString().split('T')[0],
-        tags: []
+        tags: [],
+        account_id: ''
       });
+      setRepeat(prev => ({ ...prev, frequency: NO_REPEAT, end_date: '' }));
 
       await loadTransactions();
     } catch (err: any) {
@@ -169,6 +244,8 @@ export const UserTransactions: React.FC = () => {
     if (user) {
       loadTransactions();
       loadCategories();
+      loadRules();
+      loadAccounts();
     }
   }, [user]);
 
@@ -179,6 +256,11 @@ export const UserTransactions: React.FC = () => {
       setLoading(true);
       setError(null);
 
+      // Catch up on recurring occurrences before listing
+      await generateRecurringTransactions().catch(err =>
+        console.warn('Could not generate recurring transactions:', err)
+      );
+
       const { data, error } = await supabase
         .from('transactions')
         .select('*')
@@ -195,7 +277,10 @@ export const UserTransactions: React.FC = () => {
         category_name: t.category_name || 'Other',
         date: t.date,
         type: t.type as 'income' | 'expense',
-        tags: t.tags || []
+        tags: t.tags || [],
+        account_id: t.account_id,
+        recurring_transaction_id: t.recurring_transaction_id,
+        occurrence_date: t.occurrence_date
       }));
 
       setTransactions(formattedTransactions);
@@ -209,6 +294,41 @@ export const UserTransactions: React.FC = () => {
     }
   };
 
+  const handleSkipOccurrence = async (transaction: Transaction) => {
+    if (!transaction.recurring_transaction_id) return;
+    if (!confirm('Skip this occurrence? It will not be created again.')) return;
+
+    try {
+      await skipOccurrence(transaction.recurring_transaction_id, transaction.occurrence_date || transaction.date);
+      await loadTransactions();
+    } catch (err: any) {
+      console.error('Error skipping occurrence:', err);
+      setError(err.message || 'Failed to skip occurrence');
+    }
+  };
+
+  const loadRules = async () => {
+    try {
+      setRules(await fetchCategorizationRules({ userId: user?.id }));
+    } catch (err) {
+      console.warn('Could not load categorization rules:', err);
+      setRules([]);
+    }
+  };
+
+  // Bank and card accounts whose balances follow their transactions
+  const loadAccounts = async () => {
+    if (!user?.id) return;
+
+    try {
+      const userAccounts = await fetchUserAccounts(user.id);
+      setAccounts(userAccounts.filter(a => isNetWorthAccount(a) && a.balance_source !== 'manual'));
+    } catch (err) {
+      console.warn('Could not load accounts:', err);
+      setAccounts([]);
+    }
+  };
+
   const loadCategories = async () => {
     try {
       // Get categories from transaction_categories table
@@ -231,7 +351,7 @@ export const UserTransactions: React.FC = () => {
 
       // Combine and deduplicate
       const allCategories = [...new Set([...categoryNames, ...existingCategories])];
-      setCategories(allCategories.filter(Boolean));
+      setCategories(allCategories.filter(category => category && !isSplitCategory(category)));
 
     } catch (err) {
       console.error('Error loading categories:', err);
@@ -333,10 +453,24 @@ export const UserTransactions: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Transactions</h1>
           <p className="text-gray-600">Track your income and expenses</p>
         </div>
-        <Button onClick={() => setShowAddForm(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Transaction
-        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setShowRecurringModal(true)}>
+            <Repeat className="h-4 w-4 mr-2" />
+            Recurring
+          </Button>
+          <Button variant="outline" onClick={() => setShowRulesModal(true)}>
+            <Wand2 className="h-4 w-4 mr-2" />
+            Rules
+          </Button>
+          <Button variant="outline" onClick={() => setShowImportModal(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Statement
+          </Button>
+          <Button onClick={() => setShowAddForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Transaction
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -508,6 +642,12 @@ export const UserTransactions: React.FC = () => {
                         <Badge variant={transaction.type === 'income' ? 'default' : 'secondary'}>
                           {transaction.type}
                         </Badge>
+                        {transaction.recurring_transaction_id && (
+                          <Badge variant="info" className="flex items-center gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Recurring
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center space-x-4 mt-1">
                         <div className="flex items-center text-sm text-gray-500">
@@ -540,6 +680,24 @@ export const UserTransactions: React.FC = () => {
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
+                      {transaction.recurring_transaction_id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Skip this occurrence"
+                          onClick={() => handleSkipOccurrence(transaction)}
+                        >
+                          <SkipForward className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Split across categories"
+                        onClick={() => setSplittingTransaction(transaction)}
+                      >
+                        <Split className="h-4 w-4" />
+                      </Button>
                       <Button 
                         variant="ghost" 
                         size="sm"
@@ -627,6 +785,9 @@ export const UserTransactions: React.FC = () => {
                       ))}
                     </SelectContent>
                   </Select>
+                  {rules.length > 0 && (
+                    <p className="text-xs text-gray-500">Leave empty to categorize with your rules</p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -638,6 +799,100 @@ export const UserTransactions: React.FC = () => {
                   onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
                   />
                 </div>
+
+                {accounts.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="account">Account</Label>
+                    <select
+                      id="account"
+                      value={formData.account_id}
+                      onChange={(e) => setFormData(prev => ({ ...prev, account_id: e.target.value }))}
+                      className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">No account</option>
+                      {accounts.map(account => (
+                        <option key={account.id} value={account.id}>
+                          {account.name} ({getNetWorthAccountLabel(account)})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Repeat</Label>
+                  <Select
+                    value={repeat.frequency}
+                    onValueChange={(value) => setRepeat(prev => ({ ...prev, frequency: value as RecurringFrequency }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+                      {RECURRING_FREQUENCIES.map(frequency => (
+                        <SelectItem key={frequency.value} value={frequency.value}>
+                          {frequency.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {repeat.frequency === 'custom' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="intervalCount">Every</Label>
+                      <Input
+                        id="intervalCount"
+                        type="number"
+                        min="1"
+                        value={repeat.interval_count}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, interval_count: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Unit</Label>
+                      <Select
+                        value={repeat.interval_unit}
+                        onValueChange={(value) => setRepeat(prev => ({ ...prev, interval_unit: value as RecurringIntervalUnit }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RECURRING_INTERVAL_UNITS.map(unit => (
+                            <SelectItem key={unit.value} value={unit.value}>
+                              {unit.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                {repeat.frequency !== NO_REPEAT && (
+                  <div className="space-y-2">
+                    <Label htmlFor="repeatEndDate">Ends (optional)</Label>
+                    <Input
+                      id="repeatEndDate"
+                      type="date"
+                      min={formData.date}
+                      value={repeat.end_date}
+                      onChange={(e) => setRepeat(prev => ({ ...prev, end_date: e.target.value }))}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Next dates: {previewOccurrences({
+                        frequency: repeat.frequency,
+                        interval_count: parseInt(repeat.interval_count) || 1,
+                        interval_unit: repeat.interval_unit,
+                        start_date: formData.date,
+                        end_date: repeat.end_date || null
+                      }, 3).map(formatDate).join(', ')}
+                    </p>
+                  </div>
+                )}
               </div>
             <DialogFooter>
                 <Button variant="outline" onClick={() => setShowAddForm(false)}>
@@ -683,8 +938,12 @@ export const UserTransactions: React.FC = () => {
                   step="0.01"
                   placeholder="0.00"
                   value={formData.amount}
+                  disabled={isSplitCategory(formData.category_name)}
                   onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
                 />
+                {isSplitCategory(formData.category_name) && (
+                  <p className="text-xs text-gray-500">Remove the split to change the amount or category</p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -701,12 +960,16 @@ export const UserTransactions: React.FC = () => {
                 <Label>Category</Label>
                 <Select 
                   value={formData.category_name}
+                  disabled={isSplitCategory(formData.category_name)}
                   onValueChange={(value) => setFormData(prev => ({ ...prev, category_name: value }))}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select category" />
                   </SelectTrigger>
                   <SelectContent>
+                    {isSplitCategory(formData.category_name) && (
+                      <SelectItem value={SPLIT_CATEGORY}>{SPLIT_CATEGORY}</SelectItem>
+                    )}
                     {categories.map(category => (
                       <SelectItem key={category} value={category}>
                         {category}
@@ -725,6 +988,25 @@ export const UserTransactions: React.FC = () => {
                   onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
                 />
               </div>
+
+              {accounts.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="account">Account</Label>
+                  <select
+                    id="account"
+                    value={formData.account_id}
+                    onChange={(e) => setFormData(prev => ({ ...prev, account_id: e.target.value }))}
+                    className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No account</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>
+                        {account.name} ({getNetWorthAccountLabel(account)})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
         </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => {
@@ -740,6 +1022,41 @@ export const UserTransactions: React.FC = () => {
           </DialogContent>
         </Dialog>
       )}
+
+      <BankImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={loadTransactions}
+      />
+
+      <SplitTransactionModal
+        isOpen={!!splittingTransaction}
+        onClose={() => setSplittingTransaction(null)}
+        transaction={splittingTransaction && {
+          ...splittingTransaction,
+          category: splittingTransaction.category_name
+        }}
+        categories={categories}
+        onSaved={loadTransactions}
+      />
+
+      <RecurringTransactionsModal
+        isOpen={showRecurringModal}
+        onClose={() => setShowRecurringModal(false)}
+        userId={user?.id || ''}
+        onChanged={loadTransactions}
+      />
+
+      <CategorizationRulesModal
+        isOpen={showRulesModal}
+        onClose={() => {
+          setShowRulesModal(false);
+          loadRules();
+        }}
+        book={{ userId: user?.id }}
+        categories={categories}
+        onApplied={loadTransactions}
+      />
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,202 @@
+// Chart of Accounts
+// Numbered asset, liability, equity, income and expense accounts of a business
+// or personal book; journal entries post debits and credits against them
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import type { Account, AccountBalanceSource, AccountType } from '@/types';
+
+export const ACCOUNT_TYPES: { value: AccountType; label: string }[] = [
+  { value: 'asset', label: 'Asset' },
+  { value: 'liability', label: 'Liability' },
+  { value: 'equity', label: 'Equity' },
+  { value: 'income', label: 'Income' },
+  { value: 'expense', label: 'Expense' },
+];
+
+// Accounts that carry a balance from period to period and appear on the balance sheet
+export const BALANCE_SHEET_ACCOUNT_TYPES: AccountType[] = ['asset', 'liability', 'equity'];
+
+// Subtypes offered for each account type
+export const ACCOUNT_SUBTYPES: Record<AccountType, { value: string; label: string }[]> = {
+  asset: [
+    { value: 'cash', label: 'Cash' },
+    { value: 'bank', label: 'Bank Account' },
+    { value: 'checking', label: 'Checking' },
+    { value: 'savings', label: 'Savings' },
+    { value: 'investment', label: 'Investment' },
+    { value: 'property', label: 'Property' },
+    { value: 'accounts_receivable', label: 'Accounts Receivable' },
+    { value: 'inventory', label: 'Inventory' },
+    { value: 'fixed_asset', label: 'Fixed Asset' },
+    { value: 'other_asset', label: 'Other Asset' },
+  ],
+  liability: [
+    { value: 'credit_card', label: 'Credit Card' },
+    { value: 'loan', label: 'Loan' },
+    { value: 'accounts_payable', label: 'Accounts Payable' },
+    { value: 'tax_payable', label: 'Taxes Payable' },
+    { value: 'other_liability', label: 'Other Liability' },
+  ],
+  equity: [
+    { value: 'owner_equity', label: "Owner's Equity" },
+    { value: 'owner_draw', label: "Owner's Draw" },
+    { value: 'retained_earnings', label: 'Opening Retained Earnings' },
+  ],
+  income: [
+    { value: 'operating_income', label: 'Operating Income' },
+    { value: 'other_income', label: 'Other Income' },
+  ],
+  expense: [
+    { value: 'operating_expense', label: 'Operating Expense' },
+    { value: 'cost_of_goods_sold', label: 'Cost of Goods Sold' },
+    { value: 'other_expense', label: 'Other Expense' },
+  ],
+};
+
+// Debits increase assets and expenses; credits increase everything else
+export const isDebitNormal = (type: AccountType): boolean => {
+  return type === 'asset' || type === 'expense';
+};
+
+export const isBalanceSheetAccount = (account: Account): boolean => {
+  return BALANCE_SHEET_ACCOUNT_TYPES.includes(account.type);
+};
+
+export type CashFlowSection = 'cash' | 'operating' | 'investing' | 'financing';
+
+// Cash flow statement section each subtype belongs to; anything unlisted is working capital
+const CASH_FLOW_SECTIONS: Record<string, CashFlowSection> = {
+  cash: 'cash',
+  bank: 'cash',
+  checking: 'cash',
+  savings: 'cash',
+  fixed_asset: 'investing',
+  investment: 'investing',
+  property: 'investing',
+  loan: 'financing',
+  owner_equity: 'financing',
+  owner_draw: 'financing',
+  retained_earnings: 'financing',
+};
+
+export const getCashFlowSection = (account: Account): CashFlowSection => {
+  return CASH_FLOW_SECTIONS[account.subtype] || 'operating';
+};
+
+export const getAccountSubtypeLabel = (type: AccountType, subtype: string): string => {
+  return ACCOUNT_SUBTYPES[type]?.find(s => s.value === subtype)?.label || subtype;
+};
+
+export const getAccountLabel = (account: Account): string => {
+  return account.account_number ? `${account.account_number} · ${account.name}` : account.name;
+};
+
+/**
+ * Order accounts as a chart: by account number, each parent followed by its children
+ */
+export function sortChartOfAccounts(accounts: Account[]): { account: Account; depth: number }[] {
+  const byNumber = (a: Account, b: Account) =>
+    (a.account_number || '').localeCompare(b.account_number || '', undefined, { numeric: true }) ||
+    a.name.localeCompare(b.name);
+  const ids = new Set(accounts.map(account => account.id));
+  const sorted: { account: Account; depth: number }[] = [];
+
+  const visit = (account: Account, depth: number) => {
+    sorted.push({ account, depth });
+    accounts
+      .filter(child => child.parent_id === account.id)
+      .sort(byNumber)
+      .forEach(child => visit(child, depth + 1));
+  };
+
+  // Accounts whose parent is missing (e.g. filtered out) are shown at the top level
+  accounts
+    .filter(account => !account.parent_id || !ids.has(account.parent_id))
+    .sort(byNumber)
+    .forEach(account => visit(account, 0));
+
+  return sorted;
+}
+
+export const mapAccountRow = (row: Tables<'accounts'>): Account => ({
+  id: row.id,
+  business_id: row.business_id,
+  user_id: row.user_id,
+  account_number: row.account_number,
+  name: row.name,
+  type: row.type as AccountType,
+  subtype: row.subtype,
+  parent_id: row.parent_id,
+  description: row.description,
+  opening_balance: Number(row.opening_balance || 0),
+  opening_balance_date: row.opening_balance_date,
+  is_default: !!row.is_default,
+  balance_source: (row.balance_source || 'ledger') as AccountBalanceSource,
+  status: (row.status || 'active') as 'active' | 'inactive',
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Load the chart of accounts of a business
+ */
+export async function fetchBusinessAccounts(
+  businessId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<Account[]> {
+  let query = supabase
+    .from('accounts')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('account_number')
+    .order('name');
+
+  if (!options.includeInactive) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(mapAccountRow);
+}
+
+/**
+ * Load the chart of accounts of a personal book
+ */
+export async function fetchUserAccounts(
+  userId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<Account[]> {
+  let query = supabase
+    .from('accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('account_number')
+    .order('name');
+
+  if (!options.includeInactive) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(mapAccountRow);
+}
+
+/**
+ * Seed the default header accounts (cash, equity, income, expenses) of a book.
+ * Existing accounts are kept; transactions posted later create category accounts.
+ */
+export async function ensureChartOfAccounts(book: { businessId?: string; userId?: string }): Promise<void> {
+  const { error } = await supabase.rpc('ensure_chart_of_accounts', {
+    p_business_id: book.businessId || null,
+    p_user_id: book.businessId ? null : book.userId || null,
+  });
+
+  if (error) throw error;
+}
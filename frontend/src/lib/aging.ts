@@ -0,0 +1,102 @@
+// Aging Reports
+// Groups open receivables or payables by customer or vendor and by how far
+// past their due date they are, in the usual 30-day buckets.
+
+import { roundCurrency } from './utils';
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days_1_30', label: '1-30' },
+  { key: 'days_31_60', label: '31-60' },
+  { key: 'days_61_90', label: '61-90' },
+  { key: 'days_over_90', label: '90+' },
+];
+
+// An open document with a balance still due
+export interface AgingItem {
+  party_id: string;
+  party_name: string;
+  document_id: string;
+  document_number: string;
+  due_date: string;
+  balance: number;
+}
+
+export interface AgingRow {
+  party_id: string;
+  party_name: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  item_count: number;
+}
+
+export interface AgingReport {
+  as_of: string;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days_1_30: 0,
+  days_31_60: 0,
+  days_61_90: 0,
+  days_over_90: 0,
+});
+
+/**
+ * Whole days between the due date and the as-of date; zero or less is not yet due
+ */
+export function getDaysPastDue(dueDate: string, asOf: string): number {
+  const [dueYear, dueMonth, dueDay] = dueDate.split('-').map(Number);
+  const [year, month, day] = asOf.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(dueYear, dueMonth - 1, dueDay)) / MS_PER_DAY);
+}
+
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days_1_30';
+  if (daysPastDue <= 60) return 'days_31_60';
+  if (daysPastDue <= 90) return 'days_61_90';
+  return 'days_over_90';
+}
+
+/**
+ * Bucket open items by party, largest balances first
+ */
+export function buildAgingReport(items: AgingItem[], asOf: string): AgingReport {
+  const rows = new Map<string, AgingRow>();
+  const totals = emptyBuckets();
+
+  items.filter(item => item.balance > 0).forEach(item => {
+    const bucket = getAgingBucket(getDaysPastDue(item.due_date, asOf));
+    const row = rows.get(item.party_id) || {
+      party_id: item.party_id,
+      party_name: item.party_name,
+      buckets: emptyBuckets(),
+      total: 0,
+      item_count: 0,
+    };
+
+    row.buckets[bucket] = roundCurrency(row.buckets[bucket] + item.balance);
+    row.total = roundCurrency(row.total + item.balance);
+    row.item_count += 1;
+    rows.set(item.party_id, row);
+
+    totals[bucket] = roundCurrency(totals[bucket] + item.balance);
+  });
+
+  const sortedRows = [...rows.values()].sort((a, b) => b.total - a.total);
+
+  return {
+    as_of: asOf,
+    rows: sortedRows,
+    totals,
+    total: roundCurrency(sortedRows.reduce((sum, row) => sum + row.total, 0)),
+  };
+}
@@ -0,0 +1,489 @@
+// Bank Statement Import
+// Parses CSV, OFX and QFX statement exports into transactions, flags rows that
+// are already in the ledger and inserts the rest into a business or personal book.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { UNCATEGORIZED } from './reports';
+import { roundCurrency } from './utils';
+import { categorizeTransaction } from './categorization';
+import type { LedgerBook } from './ledger';
+import type {
+  BankImportProfile,
+  CategorizationRule,
+  CsvColumnMapping,
+  StatementDateFormat,
+  StatementFormat,
+  StatementRow,
+} from '@/types';
+
+export const STATEMENT_FILE_EXTENSIONS = ['.csv', '.ofx', '.qfx'];
+
+export const STATEMENT_DATE_FORMATS: { value: StatementDateFormat; label: string }[] = [
+  { value: 'YYYY-MM-DD', label: '2024-01-31' },
+  { value: 'MM/DD/YYYY', label: '01/31/2024' },
+  { value: 'DD/MM/YYYY', label: '31/01/2024' },
+];
+
+export interface StatementParseResult {
+  rows: StatementRow[];
+  errors: string[]; // one message per row that could not be read
+}
+
+export interface ExistingTransaction {
+  date: string;
+  amount: number;
+  description: string | null;
+  external_id: string | null;
+}
+
+export interface ImportOptions {
+  accountId?: string | null;
+  rules?: CategorizationRule[]; // categorization rules of the book
+}
+
+const INSERT_BATCH_SIZE = 500;
+const PAGE_SIZE = 1000;
+
+export const isStatementFile = (fileName: string): boolean => {
+  const name = fileName.toLowerCase();
+  return STATEMENT_FILE_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.qfx')) return 'qfx';
+  if (name.endsWith('.ofx') || /<OFX>/i.test(content)) return 'ofx';
+  return 'csv';
+}
+
+/**
+ * Pick the delimiter that splits the first line into the most columns
+ */
+export function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with embedded
+ * delimiters, quotes ("") and line breaks
+ */
+export function parseCsv(content: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const parts = value.trim().split(/[-/.\s]/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? [parts[0], parts[1], parts[2]]
+    : format === 'MM/DD/YYYY'
+      ? [parts[2], parts[0], parts[1]]
+      : [parts[2], parts[1], parts[0]];
+
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  const date = new Date(Number(fullYear), Number(month) - 1, Number(day));
+  if (isNaN(date.getTime()) || date.getDate() !== Number(day)) return null;
+
+  return `${fullYear.padStart(4, '0')}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Read amounts like "1,234.56", "$-12.00", "(45.10)" or "12.00-"
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+  if (isNaN(amount)) return null;
+
+  return roundCurrency(negative ? -Math.abs(amount) : amount);
+}
+
+const findColumn = (header: string[], patterns: RegExp[]): number | null => {
+  for (const pattern of patterns) {
+    const index = header.findIndex(name => pattern.test(name));
+    if (index !== -1) return index;
+  }
+  return null;
+};
+
+/**
+ * Guess the column mapping from a statement's header row
+ */
+export function guessCsvMapping(table: string[][], delimiter: string): CsvColumnMapping {
+  const header = (table[0] || []).map(name => name.toLowerCase());
+  const hasHeader = header.some(name => /date|description|amount|payee/.test(name));
+
+  const debitColumn = findColumn(header, [/debit/, /withdraw/, /money out/, /paid out/]);
+  const creditColumn = findColumn(header, [/credit/, /deposit/, /money in/, /paid in/]);
+  const amountColumn = findColumn(header, [/^amount$/, /amount/]);
+  const usesSplitColumns = amountColumn === null && debitColumn !== null && creditColumn !== null;
+
+  const sampleDate = table[hasHeader ? 1 : 0]?.[findColumn(header, [/date/]) ?? 0] || '';
+  const dateFormat: StatementDateFormat = /^\d{4}-/.test(sampleDate)
+    ? 'YYYY-MM-DD'
+    : /^(1[3-9]|[23]\d)\//.test(sampleDate) ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+
+  return {
+    delimiter,
+    has_header: hasHeader,
+    date_column: findColumn(header, [/posted/, /date/]) ?? 0,
+    description_column: findColumn(header, [/description/, /payee/, /name/, /memo/, /details/]) ?? 1,
+    amount_column: usesSplitColumns ? null : amountColumn ?? 2,
+    debit_column: usesSplitColumns ? debitColumn : null,
+    credit_column: usesSplitColumns ? creditColumn : null,
+    date_format: dateFormat,
+    invert_amounts: false,
+  };
+}
+
+// Short stable hash used to give CSV rows an id, since CSV exports carry none
+const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Turn parsed CSV cells into statement rows using a column mapping
+ */
+export function applyCsvMapping(table: string[][], mapping: CsvColumnMapping): StatementParseResult {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+  const occurrences = new Map<string, number>();
+  const dataRows = mapping.has_header ? table.slice(1) : table;
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 1;
+    const date = parseStatementDate(cells[mapping.date_column] || '', mapping.date_format);
+    if (!date) {
+      errors.push(`Row ${rowNumber}: could not read date "${cells[mapping.date_column] || ''}"`);
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amount_column !== null) {
+      amount = parseStatementAmount(cells[mapping.amount_column] || '');
+    } else {
+      const debit = parseStatementAmount(cells[mapping.debit_column ?? -1] || '') || 0;
+      const credit = parseStatementAmount(cells[mapping.credit_column ?? -1] || '') || 0;
+      amount = debit || credit ? roundCurrency(Math.abs(credit) - Math.abs(debit)) : null;
+    }
+    if (amount === null || amount === 0) {
+      errors.push(`Row ${rowNumber}: no amount`);
+      return;
+    }
+    if (mapping.invert_amounts) amount = -amount;
+
+    const description = (cells[mapping.description_column] || '').replace(/\s+/g, ' ').trim();
+
+    // Identical rows on the same day are separate transactions, so count them in the id
+    const key = `${date}|${description}|${amount}`;
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+
+    rows.push({
+      date,
+      description,
+      amount,
+      external_id: `csv:${hashText(key)}:${occurrence}`,
+    });
+  });
+
+  return { rows, errors };
+}
+
+const readOfxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * Read the transactions of an OFX or QFX file. Handles both the SGML (v1)
+ * layout with unclosed tags and the XML (v2) layout.
+ */
+export function parseOfx(content: string): StatementParseResult {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  if (blocks.length === 0) {
+    errors.push('No transactions found in the statement file');
+  }
+
+  blocks.forEach((raw, index) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const posted = readOfxTag(block, 'DTPOSTED');
+    const amount = parseStatementAmount(readOfxTag(block, 'TRNAMT'));
+
+    if (!/^\d{8}/.test(posted) || amount === null) {
+      errors.push(`Transaction ${index + 1}: missing date or amount`);
+      return;
+    }
+
+    const name = readOfxTag(block, 'NAME');
+    const memo = readOfxTag(block, 'MEMO');
+    const fitId = readOfxTag(block, 'FITID');
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`;
+
+    rows.push({
+      date,
+      description: name && memo && memo !== name ? `${name} - ${memo}` : name || memo,
+      amount,
+      external_id: fitId ? `ofx:${fitId}` : `ofx:${hashText(`${date}|${name}|${amount}`)}:${index}`,
+      counterparty: name || null,
+    });
+  });
+
+  return { rows, errors };
+}
+
+const normalizeDescription = (description: string | null): string =>
+  (description || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Flag statement rows that are already in the ledger, either by the bank's id
+ * or by the same date, amount and description. Each existing transaction
+ * matches at most one row so repeated identical charges still import.
+ */
+export function findDuplicateRows(rows: StatementRow[], existing: ExistingTransaction[]): boolean[] {
+  const externalIds = new Set(existing.map(t => t.external_id).filter(Boolean));
+  const remaining = new Map<string, number>();
+  const keyOf = (date: string, amount: number, description: string | null) =>
+    `${date}|${roundCurrency(amount)}|${normalizeDescription(description)}`;
+
+  existing.forEach(transaction => {
+    const key = keyOf(transaction.date, Number(transaction.amount), transaction.description);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+
+  return rows.map(row => {
+    if (externalIds.has(row.external_id)) return true;
+
+    const key = keyOf(row.date, row.amount, row.description);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return true;
+    }
+    return false;
+  });
+}
+
+export const mapBankImportProfileRow = (row: Tables<'bank_import_profiles'>): BankImportProfile => ({
+  id: row.id,
+  user_id: row.user_id,
+  name: row.name,
+  delimiter: row.delimiter,
+  has_header: row.has_header,
+  date_column: row.date_column,
+  description_column: row.description_column,
+  amount_column: row.amount_column,
+  debit_column: row.debit_column,
+  credit_column: row.credit_column,
+  date_format: row.date_format as StatementDateFormat,
+  invert_amounts: row.invert_amounts,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export async function fetchImportProfiles(userId: string): Promise<BankImportProfile[]> {
+  const { data, error } = await supabase
+    .from('bank_import_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapBankImportProfileRow);
+}
+
+/**
+ * Save a bank's column mapping, replacing an existing profile of the same name
+ */
+export async function saveImportProfile(
+  userId: string,
+  name: string,
+  mapping: CsvColumnMapping
+): Promise<BankImportProfile> {
+  const { data, error } = await supabase
+    .from('bank_import_profiles')
+    .upsert({ user_id: userId, name: name.trim(), ...mapping }, { onConflict: 'user_id,name' })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapBankImportProfileRow(data);
+}
+
+export async function deleteImportProfile(profileId: string): Promise<void> {
+  const { error } = await supabase
+    .from('bank_import_profiles')
+    .delete()
+    .eq('id', profileId);
+
+  if (error) throw error;
+}
+
+/**
+ * Load the transactions of a book between two dates for duplicate detection
+ */
+export async function fetchExistingTransactions(
+  book: LedgerBook,
+  start: string,
+  end: string
+): Promise<ExistingTransaction[]> {
+  const transactions: ExistingTransaction[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select('date, amount, description, external_id')
+      .gte('date', start)
+      .lte('date', end);
+
+    query = book.businessId
+      ? query.eq('business_id', book.businessId)
+      : query.eq('user_id', book.userId || '').is('business_id', null);
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    transactions.push(...(data || []));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return transactions;
+}
+
+/**
+ * Run the book's categorization rules against a statement row
+ */
+export function categorizeStatementRow(row: StatementRow, rules: CategorizationRule[] = []) {
+  return categorizeTransaction(rules, {
+    description: row.description,
+    amount: row.amount,
+    type: row.amount >= 0 ? 'income' : 'expense',
+    counterparty: row.counterparty,
+  });
+}
+
+/**
+ * Insert statement rows as transactions of a business or personal book,
+ * categorized by the book's rules where one matches. Rows whose external id
+ * is already in the book are skipped, so one of them cannot fail a whole batch.
+ * Returns the number of transactions created.
+ */
+export async function importStatementRows(
+  book: LedgerBook,
+  rows: StatementRow[],
+  options: ImportOptions = {}
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const dates = rows.map(row => row.date).sort();
+  const existing = await fetchExistingTransactions(book, dates[0], dates[dates.length - 1]);
+  const seen = new Set(existing.map(t => t.external_id).filter(Boolean));
+  const newRows = rows.filter(row => {
+    if (seen.has(row.external_id)) return false;
+    seen.add(row.external_id);
+    return true;
+  });
+
+  const records = newRows.map(row => {
+    const result = categorizeStatementRow(row, options.rules);
+    const category = result?.category || UNCATEGORIZED;
+
+    return {
+      ...(book.businessId
+        ? { business_id: book.businessId, category }
+        : { user_id: book.userId, category_name: category }),
+      type: row.amount >= 0 ? 'income' : 'expense',
+      amount: row.amount,
+      description: row.description,
+      date: row.date,
+      account_id: options.accountId || null,
+      external_id: row.external_id,
+      counterparty: row.counterparty || null,
+      tags: result?.tags || [],
+      notes: result?.notes || null,
+    };
+  });
+
+  let imported = 0;
+  for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('transactions')
+      .insert(records.slice(i, i + INSERT_BATCH_SIZE));
+
+    if (error) throw error;
+    imported += Math.min(INSERT_BATCH_SIZE, records.length - i);
+  }
+
+  return imported;
+}
@@ -0,0 +1,407 @@
+// Accounts Payable
+// Vendors and the bills they send a business. A bill is entered as pending,
+// approved by a business owner or manager, optionally scheduled for payment
+// and then paid in one or more payments, each posted by the database as an
+// expense transaction in the bill's category.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { buildAgingReport } from './aging';
+import type { AgingReport } from './aging';
+import { toISODate } from './reports';
+import { roundCurrency } from './utils';
+import type { Bill, BillAttachment, BillPayment, BillStatus, Vendor } from '@/types';
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  pending_approval: 'Pending Approval',
+  approved: 'Approved',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export const BILL_STATUS_VARIANTS: Record<
+  BillStatus,
+  'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' | 'info'
+> = {
+  pending_approval: 'warning',
+  approved: 'info',
+  partially_paid: 'secondary',
+  paid: 'success',
+  void: 'outline',
+};
+
+// Business roles that may approve and pay bills
+export const BILL_APPROVER_ROLES = ['owner', 'manager'];
+
+export interface VendorInput {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  payment_terms_days: number;
+  default_category?: string | null;
+  notes?: string | null;
+}
+
+export interface BillInput {
+  vendor_id: string;
+  bill_number?: string | null;
+  bill_date: string;
+  due_date: string;
+  scheduled_payment_date?: string | null;
+  category: string;
+  description?: string | null;
+  amount: number;
+  document_ids: string[];
+}
+
+export interface BillPaymentInput {
+  amount: number;
+  payment_date: string;
+  method?: string | null;
+  reference?: string | null;
+  account_id?: string | null; // where the money came from; the default account when empty
+}
+
+export const canApproveBills = (businessRole: string | null): boolean =>
+  !!businessRole && BILL_APPROVER_ROLES.includes(businessRole);
+
+export const getBillBalance = (bill: Pick<Bill, 'amount' | 'amount_paid'>): number =>
+  roundCurrency(bill.amount - bill.amount_paid);
+
+// Still owed, whether or not it has been approved yet
+export const isBillOpen = (bill: Bill): boolean =>
+  bill.status !== 'void' && getBillBalance(bill) > 0;
+
+export const isBillOverdue = (bill: Bill, today: string = toISODate(new Date())): boolean =>
+  isBillOpen(bill) && bill.due_date < today;
+
+/**
+ * The day the bill is expected to be paid: its scheduled date, or else its due date
+ */
+export const getBillPaymentDate = (bill: Bill): string =>
+  bill.scheduled_payment_date || bill.due_date;
+
+/**
+ * Open bills expected to be paid between two dates, grouped by that date
+ */
+export function groupBillsByPaymentDate(bills: Bill[], start: string, end: string): Map<string, Bill[]> {
+  const groups = new Map<string, Bill[]>();
+
+  bills
+    .filter(bill => isBillOpen(bill))
+    .forEach(bill => {
+      const date = getBillPaymentDate(bill);
+      if (date < start || date > end) return;
+      groups.set(date, [...(groups.get(date) || []), bill]);
+    });
+
+  return groups;
+}
+
+export function validateBill(input: BillInput): string | null {
+  if (!input.vendor_id) return 'Choose a vendor';
+  if (!input.bill_date || !input.due_date) return 'Bill and due dates are required';
+  if (input.due_date < input.bill_date) return 'The due date cannot be before the bill date';
+  if (!input.category) return 'Choose an expense category';
+  if (isNaN(input.amount) || input.amount <= 0) return 'Amount must be greater than 0';
+  if (input.scheduled_payment_date && input.scheduled_payment_date < input.bill_date) {
+    return 'A payment cannot be scheduled before the bill date';
+  }
+  return null;
+}
+
+/**
+ * Aging of the open bills' balances by vendor
+ */
+export function buildPayablesAging(bills: Bill[], asOf: string = toISODate(new Date())): AgingReport {
+  return buildAgingReport(
+    bills.filter(isBillOpen).map(bill => ({
+      party_id: bill.vendor_id,
+      party_name: bill.vendor?.name || 'Unknown vendor',
+      document_id: bill.id,
+      document_number: bill.bill_number || '',
+      due_date: bill.due_date,
+      balance: getBillBalance(bill),
+    })),
+    asOf
+  );
+}
+
+type BillAttachmentRow = Pick<Tables<'bill_attachments'>, 'document_id'> & {
+  document?: Pick<Tables<'documents'>, 'filename' | 'file_path'> | null;
+};
+
+type BillRow = Tables<'bills'> & {
+  vendor?: Tables<'vendors'> | null;
+  bill_attachments?: BillAttachmentRow[];
+  bill_payments?: Tables<'bill_payments'>[];
+};
+
+export const mapVendorRow = (row: Tables<'vendors'>): Vendor => ({
+  id: row.id,
+  business_id: row.business_id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone,
+  address: row.address,
+  payment_terms_days: row.payment_terms_days,
+  default_category: row.default_category,
+  notes: row.notes,
+  is_active: row.is_active,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const mapPaymentRow = (row: Tables<'bill_payments'>): BillPayment => ({
+  id: row.id,
+  bill_id: row.bill_id,
+  payment_date: row.payment_date,
+  amount: Number(row.amount),
+  method: row.method,
+  reference: row.reference,
+  transaction_id: row.transaction_id,
+  created_at: row.created_at,
+});
+
+const mapAttachmentRow = (row: BillAttachmentRow): BillAttachment => ({
+  document_id: row.document_id,
+  filename: row.document?.filename || 'Document',
+  file_path: row.document?.file_path,
+});
+
+export const mapBillRow = (row: BillRow): Bill => ({
+  id: row.id,
+  business_id: row.business_id,
+  vendor_id: row.vendor_id,
+  vendor: row.vendor ? mapVendorRow(row.vendor) : undefined,
+  bill_number: row.bill_number,
+  bill_date: row.bill_date,
+  due_date: row.due_date,
+  scheduled_payment_date: row.scheduled_payment_date,
+  category: row.category,
+  description: row.description,
+  amount: Number(row.amount),
+  amount_paid: Number(row.amount_paid),
+  status: row.status as BillStatus,
+  approved_by: row.approved_by,
+  approved_at: row.approved_at,
+  voided_at: row.voided_at,
+  attachments: (row.bill_attachments || []).map(mapAttachmentRow),
+  payments: (row.bill_payments || [])
+    .map(mapPaymentRow)
+    .sort((a: BillPayment, b: BillPayment) => a.payment_date.localeCompare(b.payment_date)),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * The signed-in user's role in a business: 'owner', their membership role, or null
+ */
+export async function fetchBusinessRole(businessId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_business_role', { p_business_id: businessId });
+
+  if (error) throw error;
+
+  return data || null;
+}
+
+export async function fetchVendors(
+  businessId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<Vendor[]> {
+  let query = supabase
+    .from('vendors')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('name');
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(mapVendorRow);
+}
+
+/**
+ * Create a vendor, or update it when vendorId is given
+ */
+export async function saveVendor(businessId: string, input: VendorInput, vendorId?: string): Promise<void> {
+  if (!input.name.trim()) throw new Error('Vendor name is required');
+
+  const values = {
+    name: input.name.trim(),
+    email: input.email?.trim() || null,
+    phone: input.phone?.trim() || null,
+    address: input.address?.trim() || null,
+    payment_terms_days: input.payment_terms_days,
+    default_category: input.default_category || null,
+    notes: input.notes?.trim() || null,
+  };
+
+  const { error } = vendorId
+    ? await supabase.from('vendors').update(values).eq('id', vendorId)
+    : await supabase.from('vendors').insert({ ...values, business_id: businessId });
+
+  if (error) throw error;
+}
+
+export async function setVendorActive(vendorId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('vendors')
+    .update({ is_active: isActive })
+    .eq('id', vendorId);
+
+  if (error) throw error;
+}
+
+/**
+ * Load a business's bills with their vendor, attachments and payments, soonest due first
+ */
+export async function fetchBills(businessId: string): Promise<Bill[]> {
+  const { data, error } = await supabase
+    .from('bills')
+    .select('*, vendor:vendors(*), bill_attachments(document_id, document:documents(filename, file_path)), bill_payments(*)')
+    .eq('business_id', businessId)
+    .order('due_date')
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(mapBillRow);
+}
+
+/**
+ * Enter a bill for approval, or update one when billId is given. The
+ * attachments are replaced with the given documents.
+ */
+export async function saveBill(
+  businessId: string,
+  userId: string,
+  input: BillInput,
+  billId?: string
+): Promise<string> {
+  const validationError = validateBill(input);
+  if (validationError) throw new Error(validationError);
+
+  const values = {
+    vendor_id: input.vendor_id,
+    bill_number: input.bill_number?.trim() || null,
+    bill_date: input.bill_date,
+    due_date: input.due_date,
+    scheduled_payment_date: input.scheduled_payment_date || null,
+    category: input.category,
+    description: input.description?.trim() || null,
+    amount: roundCurrency(input.amount),
+  };
+
+  let id = billId;
+  if (id) {
+    const { error } = await supabase
+      .from('bills')
+      .update(values)
+      .eq('id', id);
+
+    if (error) throw error;
+
+    const { error: deleteError } = await supabase
+      .from('bill_attachments')
+      .delete()
+      .eq('bill_id', id);
+
+    if (deleteError) throw deleteError;
+  } else {
+    const { data, error } = await supabase
+      .from('bills')
+      .insert({ ...values, business_id: businessId, created_by: userId })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    id = data.id;
+  }
+
+  if (input.document_ids.length > 0) {
+    const { error: attachError } = await supabase
+      .from('bill_attachments')
+      .insert(input.document_ids.map(documentId => ({ bill_id: id!, document_id: documentId })));
+
+    if (attachError) throw attachError;
+  }
+
+  return id!;
+}
+
+/**
+ * Approve a pending bill for payment; the database checks the approver's role
+ */
+export async function approveBill(billId: string): Promise<void> {
+  const { error } = await supabase
+    .from('bills')
+    .update({ status: 'approved' })
+    .eq('id', billId);
+
+  if (error) throw error;
+}
+
+/**
+ * Set or clear the date a bill is planned to be paid on
+ */
+export async function scheduleBillPayment(billId: string, date: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('bills')
+    .update({ scheduled_payment_date: date })
+    .eq('id', billId);
+
+  if (error) throw error;
+}
+
+export async function voidBill(billId: string): Promise<void> {
+  const { error } = await supabase
+    .from('bills')
+    .update({ status: 'void', voided_at: new Date().toISOString() })
+    .eq('id', billId);
+
+  if (error) throw error;
+}
+
+export async function deleteBill(billId: string): Promise<void> {
+  const { error } = await supabase
+    .from('bills')
+    .delete()
+    .eq('id', billId);
+
+  if (error) throw error;
+}
+
+/**
+ * Record a full or partial payment; the database posts it as an expense transaction
+ */
+export async function recordBillPayment(billId: string, input: BillPaymentInput): Promise<string> {
+  const { data, error } = await supabase.rpc('record_bill_payment', {
+    p_bill_id: billId,
+    p_amount: roundCurrency(input.amount),
+    p_payment_date: input.payment_date,
+    p_method: input.method || undefined,
+    p_reference: input.reference?.trim() || undefined,
+    p_account_id: input.account_id || undefined,
+  });
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Remove a payment along with the expense transaction it posted
+ */
+export async function deleteBillPayment(paymentId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_bill_payment', { p_payment_id: paymentId });
+
+  if (error) throw error;
+}
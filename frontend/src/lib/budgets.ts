@@ -0,0 +1,182 @@
+// Budgets
+// Spending limits per expense category and period. The database keeps
+// spent_amount in sync with the user's transactions and starts the next
+// period of auto-renewing budgets, carrying unused amounts where asked.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { toISODate } from './reports';
+import { roundCurrency } from './utils';
+import type { Budget } from '@/types';
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+export type BudgetInput = Pick<
+  Budget,
+  'name' | 'category_name' | 'monthly_limit' | 'period_start' | 'period_end' | 'auto_renew' | 'rollover' | 'alert_thresholds'
+>;
+
+export interface BudgetUsage {
+  available: number; // limit plus any amount rolled over
+  spent: number;
+  remaining: number;
+  percent: number;
+}
+
+export interface BudgetAlert {
+  budget: Budget;
+  threshold: number;
+  usage: BudgetUsage;
+}
+
+/**
+ * First and last day of the month containing the given date
+ */
+export function getMonthPeriod(date: Date = new Date()): { period_start: string; period_end: string } {
+  return {
+    period_start: toISODate(new Date(date.getFullYear(), date.getMonth(), 1)),
+    period_end: toISODate(new Date(date.getFullYear(), date.getMonth() + 1, 0)),
+  };
+}
+
+export function getBudgetUsage(budget: Budget): BudgetUsage {
+  const available = roundCurrency(budget.monthly_limit + budget.rollover_amount);
+  const spent = roundCurrency(budget.spent_amount);
+
+  return {
+    available,
+    spent,
+    remaining: roundCurrency(available - spent),
+    percent: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+  };
+}
+
+/**
+ * Highest alert threshold the budget has reached, or null
+ */
+export function getReachedThreshold(budget: Budget): number | null {
+  const { percent } = getBudgetUsage(budget);
+  const reached = budget.alert_thresholds.filter(threshold => percent >= threshold);
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
+
+/**
+ * Alerts for active budgets past one of their thresholds, most used first
+ */
+export function getBudgetAlerts(budgets: Budget[]): BudgetAlert[] {
+  return budgets
+    .filter(budget => budget.status === 'active')
+    .map(budget => ({ budget, threshold: getReachedThreshold(budget), usage: getBudgetUsage(budget) }))
+    .filter((alert): alert is BudgetAlert => alert.threshold !== null)
+    .sort((a, b) => b.usage.percent - a.usage.percent);
+}
+
+/**
+ * Parse a comma-separated list of percentages such as "80, 100"
+ */
+export function parseAlertThresholds(text: string): number[] {
+  const thresholds = text
+    .split(',')
+    .map(part => parseInt(part.trim(), 10))
+    .filter(threshold => !isNaN(threshold));
+
+  return [...new Set(thresholds)].sort((a, b) => a - b);
+}
+
+/**
+ * Check a budget before saving. Returns an error message or null.
+ */
+export function validateBudget(input: BudgetInput): string | null {
+  if (!input.name.trim()) return 'Budget name is required';
+  if (!input.category_name?.trim()) return 'Choose a category';
+  if (!(input.monthly_limit > 0)) return 'Limit must be greater than 0';
+  if (!input.period_start || !input.period_end) return 'Choose the budget period';
+  if (input.period_end < input.period_start) return 'The period must end after it starts';
+  if (input.alert_thresholds.some(threshold => threshold <= 0 || threshold > 200)) {
+    return 'Alert thresholds must be between 1% and 200%';
+  }
+  return null;
+}
+
+export const mapBudgetRow = (row: Tables<'budgets'>): Budget => ({
+  id: row.id,
+  user_id: row.user_id,
+  name: row.name,
+  category_id: row.category_id,
+  category_name: row.category_name,
+  monthly_limit: Number(row.monthly_limit),
+  period_start: row.period_start,
+  period_end: row.period_end,
+  spent_amount: Number(row.spent_amount || 0),
+  status: (row.status || 'active') as 'active' | 'inactive',
+  auto_renew: row.auto_renew,
+  rollover: row.rollover,
+  rollover_amount: Number(row.rollover_amount || 0),
+  alert_thresholds: row.alert_thresholds || DEFAULT_ALERT_THRESHOLDS,
+  previous_budget_id: row.previous_budget_id,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Load a user's budgets, current periods first
+ */
+export async function fetchBudgets(userId: string, options: { activeOnly?: boolean } = {}): Promise<Budget[]> {
+  let query = supabase
+    .from('budgets')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (options.activeOnly) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query
+    .order('period_start', { ascending: false })
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapBudgetRow);
+}
+
+/**
+ * Start the next period of budgets that have ended. Returns how many were created.
+ */
+export async function renewBudgets(): Promise<number> {
+  const { data, error } = await supabase.rpc('renew_budgets', {
+    p_as_of: toISODate(new Date()),
+  });
+
+  if (error) throw error;
+
+  return data || 0;
+}
+
+export async function saveBudget(userId: string, input: BudgetInput, budgetId?: string): Promise<void> {
+  const row = {
+    name: input.name.trim(),
+    category_name: input.category_name?.trim() || null,
+    monthly_limit: roundCurrency(input.monthly_limit),
+    period_start: input.period_start,
+    period_end: input.period_end,
+    auto_renew: input.auto_renew,
+    rollover: input.rollover,
+    alert_thresholds: input.alert_thresholds,
+  };
+
+  const { error } = budgetId
+    ? await supabase.from('budgets').update(row).eq('id', budgetId)
+    : await supabase.from('budgets').insert({ ...row, user_id: userId, status: 'active' });
+
+  if (error) throw error;
+}
+
+export async function deleteBudget(budgetId: string): Promise<void> {
+  const { error } = await supabase
+    .from('budgets')
+    .delete()
+    .eq('id', budgetId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,335 @@
+// Transaction Categorization Rules
+// Personal and business rules that match transactions on description, amount,
+// counterparty and type, and assign a category, tags and notes. Rules run in
+// priority order and the first active match wins.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import type { LedgerBook } from './ledger';
+import { SPLIT_CATEGORY } from './splits';
+import type { CategorizationRule, RuleDescriptionOperator } from '@/types';
+
+// The parts of a transaction rules look at and change
+export interface CategorizableTransaction {
+  id?: string;
+  date?: string;
+  description?: string | null;
+  amount: number;
+  type: string;
+  counterparty?: string | null;
+  category?: string | null;
+  tags?: string[] | null;
+  notes?: string | null;
+}
+
+export interface RuleResult {
+  rule: CategorizationRule;
+  category: string;
+  tags: string[];
+  notes: string | null;
+}
+
+export interface ApplyRulesSummary {
+  updated: number;
+  skipped: number; // matching transactions the database refused to change, e.g. in a closed period
+}
+
+export type CategorizationRuleInput = Omit<
+  CategorizationRule,
+  'id' | 'business_id' | 'user_id' | 'created_by' | 'created_at' | 'updated_at'
+>;
+
+export const RULE_DESCRIPTION_OPERATORS: { value: RuleDescriptionOperator; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'regex', label: 'Matches pattern (regex)' },
+];
+
+const HISTORY_PAGE_SIZE = 1000;
+
+const compileRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+const includesText = (value: string | null | undefined, search: string): boolean =>
+  (value || '').toLowerCase().includes(search.trim().toLowerCase());
+
+/**
+ * Check a rule's conditions before saving it. Returns an error message or null.
+ */
+export function validateRule(rule: CategorizationRuleInput): string | null {
+  if (!rule.name.trim()) return 'Rule name is required';
+  if (!rule.category.trim()) return 'Choose the category the rule assigns';
+  if (rule.description_operator && !rule.description_pattern?.trim()) {
+    return 'Enter the description text to match';
+  }
+  if (rule.description_operator === 'regex' && !compileRegex(rule.description_pattern || '')) {
+    return 'The description pattern is not a valid regular expression';
+  }
+  if (rule.min_amount !== null && rule.max_amount !== null && rule.min_amount > rule.max_amount) {
+    return 'Minimum amount cannot be greater than maximum amount';
+  }
+  return null;
+}
+
+/**
+ * Whether a transaction meets every condition of a rule. Amounts compare
+ * without sign; counterparty also matches against the description, since
+ * manually entered transactions rarely have a counterparty.
+ */
+export function matchesRule(rule: CategorizationRule, transaction: CategorizableTransaction): boolean {
+  if (rule.transaction_type && rule.transaction_type !== transaction.type) return false;
+
+  const amount = Math.abs(Number(transaction.amount));
+  if (rule.min_amount !== null && amount < rule.min_amount) return false;
+  if (rule.max_amount !== null && amount > rule.max_amount) return false;
+
+  if (rule.description_operator && rule.description_pattern) {
+    if (rule.description_operator === 'regex') {
+      const regex = compileRegex(rule.description_pattern);
+      if (!regex || !regex.test(transaction.description || '')) return false;
+    } else if (!includesText(transaction.description, rule.description_pattern)) {
+      return false;
+    }
+  }
+
+  if (rule.counterparty?.trim()) {
+    const matched = includesText(transaction.counterparty, rule.counterparty)
+      || includesText(transaction.description, rule.counterparty);
+    if (!matched) return false;
+  }
+
+  return true;
+}
+
+export const sortRules = (rules: CategorizationRule[]): CategorizationRule[] =>
+  [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  transaction: CategorizableTransaction
+): CategorizationRule | null {
+  return sortRules(rules).find(rule => rule.is_active && matchesRule(rule, transaction)) || null;
+}
+
+/**
+ * What a rule would change on a transaction: its category, the rule's tags
+ * added to the existing ones, and the rule's notes when the transaction has none
+ */
+export function getRuleResult(rule: CategorizationRule, transaction: CategorizableTransaction): RuleResult {
+  const tags = Array.from(new Set([...(transaction.tags || []), ...rule.tags]));
+
+  return {
+    rule,
+    category: rule.category,
+    tags,
+    notes: transaction.notes?.trim() ? transaction.notes : rule.notes,
+  };
+}
+
+/**
+ * Run the rules against a transaction. Returns null when no rule matches.
+ */
+export function categorizeTransaction(
+  rules: CategorizationRule[],
+  transaction: CategorizableTransaction
+): RuleResult | null {
+  const rule = findMatchingRule(rules, transaction);
+  return rule ? getRuleResult(rule, transaction) : null;
+}
+
+/**
+ * The historical transactions a single rule would match, ignoring priority
+ */
+export function previewRule<T extends CategorizableTransaction>(
+  rule: CategorizationRule,
+  transactions: T[]
+): T[] {
+  return transactions.filter(transaction => matchesRule(rule, transaction));
+}
+
+export const mapCategorizationRuleRow = (row: Tables<'categorization_rules'>): CategorizationRule => ({
+  id: row.id,
+  business_id: row.business_id,
+  user_id: row.user_id,
+  name: row.name,
+  priority: row.priority,
+  is_active: row.is_active,
+  description_operator: row.description_operator as RuleDescriptionOperator | null,
+  description_pattern: row.description_pattern,
+  counterparty: row.counterparty,
+  min_amount: row.min_amount === null ? null : Number(row.min_amount),
+  max_amount: row.max_amount === null ? null : Number(row.max_amount),
+  transaction_type: row.transaction_type as 'income' | 'expense' | null,
+  category: row.category,
+  tags: row.tags || [],
+  notes: row.notes,
+  created_by: row.created_by,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Load the rules of a business or personal book in the order they run
+ */
+export async function fetchCategorizationRules(book: LedgerBook): Promise<CategorizationRule[]> {
+  let query = supabase.from('categorization_rules').select('*');
+
+  query = book.businessId
+    ? query.eq('business_id', book.businessId)
+    : query.eq('user_id', book.userId || '');
+
+  const { data, error } = await query
+    .order('priority')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapCategorizationRuleRow);
+}
+
+export async function saveCategorizationRule(
+  book: LedgerBook,
+  rule: CategorizationRuleInput,
+  ruleId?: string
+): Promise<CategorizationRule> {
+  const record = {
+    ...rule,
+    name: rule.name.trim(),
+    description_pattern: rule.description_operator ? rule.description_pattern?.trim() || null : null,
+    counterparty: rule.counterparty?.trim() || null,
+    notes: rule.notes?.trim() || null,
+  };
+
+  if (ruleId) {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .update(record)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapCategorizationRuleRow(data);
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .insert({
+      ...record,
+      business_id: book.businessId || null,
+      user_id: book.businessId ? null : book.userId || null,
+      created_by: user?.id || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapCategorizationRuleRow(data);
+}
+
+export async function deleteCategorizationRule(ruleId: string): Promise<void> {
+  const { error } = await supabase
+    .from('categorization_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
+
+/**
+ * Load the income and expense transactions of a book, newest first, for
+ * testing rules and applying them to the past. Personal categories live in
+ * category_name and are returned as category. Split transactions are left
+ * out, since their categories belong to their split lines.
+ */
+export async function fetchCategorizationHistory(book: LedgerBook): Promise<CategorizableTransaction[]> {
+  const history: CategorizableTransaction[] = [];
+
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select('id, date, description, amount, type, counterparty, category, category_name, tags, notes');
+
+    query = book.businessId
+      ? query.eq('business_id', book.businessId)
+      : query.eq('user_id', book.userId || '').is('business_id', null);
+
+    const { data, error } = await query
+      .neq('type', 'transfer')
+      .order('date', { ascending: false })
+      .order('id')
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach(row => {
+      const category = book.businessId ? row.category : row.category_name;
+      if (category === SPLIT_CATEGORY) return;
+
+      history.push({
+        id: row.id,
+        date: row.date,
+        description: row.description,
+        amount: Number(row.amount),
+        type: row.type,
+        counterparty: row.counterparty,
+        category,
+        tags: row.tags || [],
+        notes: row.notes,
+      });
+    });
+
+    if (!data || data.length < HISTORY_PAGE_SIZE) break;
+  }
+
+  return history;
+}
+
+/**
+ * Apply one rule to the past transactions it matches, leaving split
+ * transactions alone. Transactions the database refuses to change, such as
+ * those in a closed period, are counted as skipped.
+ */
+export async function applyRuleToTransactions(
+  book: LedgerBook,
+  rule: CategorizationRule,
+  transactions: CategorizableTransaction[]
+): Promise<ApplyRulesSummary> {
+  const summary: ApplyRulesSummary = { updated: 0, skipped: 0 };
+
+  for (const transaction of previewRule(rule, transactions)) {
+    if (!transaction.id || transaction.category === SPLIT_CATEGORY) continue;
+
+    const result = getRuleResult(rule, transaction);
+    const unchanged = transaction.category === result.category
+      && (transaction.notes || null) === (result.notes || null)
+      && result.tags.length === (transaction.tags || []).length;
+    if (unchanged) continue;
+
+    const { error } = await supabase
+      .from('transactions')
+      .update({
+        ...(book.businessId ? { category: result.category } : { category_name: result.category }),
+        tags: result.tags,
+        notes: result.notes,
+      })
+      .eq('id', transaction.id);
+
+    if (error) {
+      console.error('Error applying categorization rule:', error);
+      summary.skipped++;
+    } else {
+      summary.updated++;
+    }
+  }
+
+  return summary;
+}
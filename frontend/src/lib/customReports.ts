@@ -0,0 +1,411 @@
+// Custom Reports
+// Reports laid out in the report builder: rows of accounts, categories or
+// account groups, columns of periods and businesses, transaction filters and
+// subtotals. The layout is saved as a template that holds no client data, so
+// it can be run against the ledger of any business.
+
+import { supabase } from './supabase';
+import { roundCurrency } from './utils';
+import { ACCOUNT_TYPES, fetchBusinessAccounts } from './accounts';
+import { computeLedgerBalances, fetchJournalEntries } from './ledger';
+import { expandSplitTransactions, fetchBusinessTransactions, getTransactionCategory, toISODate } from './reports';
+import { getPriorPeriodRange, getPriorYearRange } from './reportComparisons';
+import type { LedgerTransaction } from './reports';
+import type { Json, Tables } from './database.types';
+import type {
+  Account,
+  AccountType,
+  CustomReportColumn,
+  CustomReportData,
+  CustomReportDefinition,
+  CustomReportPeriodColumn,
+  CustomReportRow,
+  CustomReportRowSource,
+  JournalEntry,
+  ReportDateRange,
+  ReportTemplate,
+} from '@/types';
+
+export const CUSTOM_REPORT_ROW_SOURCES: { value: CustomReportRowSource; label: string; description: string }[] = [
+  { value: 'account', label: 'Accounts', description: 'One row per account, grouped by account type' },
+  { value: 'category', label: 'Categories', description: 'One row per income or expense category of the transactions' },
+  { value: 'account_type', label: 'Account groups', description: 'One row per account type' },
+];
+
+// In the order the columns appear in the report
+export const CUSTOM_REPORT_PERIOD_COLUMNS: { value: CustomReportPeriodColumn; label: string; description: string }[] = [
+  { value: 'monthly', label: 'Each month', description: 'One column per month of the period' },
+  { value: 'current', label: 'Selected period', description: 'The whole period the report is run for' },
+  { value: 'prior_period', label: 'Prior period', description: 'The period of the same length just before it' },
+  { value: 'prior_year', label: 'Prior year', description: 'The same period a year earlier' },
+];
+
+export const DEFAULT_CUSTOM_REPORT_DEFINITION: CustomReportDefinition = {
+  rows: { source: 'account', account_types: ['income', 'expense'], names: [] },
+  columns: { periods: ['current'], by_business: false },
+  filters: { tags: [], statuses: [] },
+  subtotals: { by_group: true, grand_total: false },
+};
+
+// Wider reports no longer fit on screen or on a PDF page
+const MAX_COLUMNS = 24;
+
+// Account types that category rows can come from
+export const CATEGORY_ACCOUNT_TYPES: AccountType[] = ['income', 'expense'];
+
+const mapTemplateRow = (row: Tables<'report_templates'>): ReportTemplate => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  definition: row.definition as unknown as CustomReportDefinition,
+  created_by: row.created_by,
+  created_at: row.created_at || undefined,
+  updated_at: row.updated_at || undefined,
+});
+
+/**
+ * All saved templates, by name
+ */
+export async function fetchReportTemplates(): Promise<ReportTemplate[]> {
+  const { data, error } = await supabase
+    .from('report_templates')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapTemplateRow);
+}
+
+export function validateCustomReportDefinition(definition: CustomReportDefinition): string | null {
+  const { rows, columns } = definition;
+  if (rows.account_types.length === 0) return 'Choose at least one account type for the rows';
+  if (rows.source === 'category' && !rows.account_types.some(type => CATEGORY_ACCOUNT_TYPES.includes(type))) {
+    return 'Category rows come from income and expenses; choose at least one of them';
+  }
+  if (columns.periods.length === 0) return 'Choose at least one period column';
+  return null;
+}
+
+export type ReportTemplateInput = Pick<ReportTemplate, 'name' | 'description' | 'definition'>;
+
+export function validateReportTemplate(input: ReportTemplateInput): string | null {
+  if (!input.name.trim()) return 'Template name is required';
+  return validateCustomReportDefinition(input.definition);
+}
+
+/**
+ * Create a template, or update one when an id is given
+ */
+export async function saveReportTemplate(input: ReportTemplateInput, userId: string, templateId?: string): Promise<string> {
+  const validationError = validateReportTemplate(input);
+  if (validationError) throw new Error(validationError);
+
+  const values = {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    definition: input.definition as unknown as Json,
+  };
+
+  const { data, error } = templateId
+    ? await supabase.from('report_templates').update(values).eq('id', templateId).select('id').single()
+    : await supabase.from('report_templates').insert({ ...values, created_by: userId }).select('id').single();
+
+  if (error) throw error;
+
+  return data.id;
+}
+
+/**
+ * Delete a template; reports already run from it are kept
+ */
+export async function deleteReportTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('report_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
+
+const parseISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Calendar months overlapping the range, trimmed to it
+const splitIntoMonths = (range: ReportDateRange): { label: string; range: ReportDateRange }[] => {
+  const months: { label: string; range: ReportDateRange }[] = [];
+  const start = parseISODate(range.start);
+
+  for (let month = new Date(start.getFullYear(), start.getMonth(), 1); toISODate(month) <= range.end;
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1)) {
+    const monthEnd = toISODate(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+    months.push({
+      label: month.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      range: {
+        start: toISODate(month) < range.start ? range.start : toISODate(month),
+        end: monthEnd > range.end ? range.end : monthEnd,
+      },
+    });
+  }
+
+  return months;
+};
+
+/**
+ * The periods a definition reports on, in column order
+ */
+export function getCustomReportPeriods(
+  definition: CustomReportDefinition,
+  range: ReportDateRange
+): { label: string; range: ReportDateRange }[] {
+  const periods = definition.columns.periods;
+
+  return CUSTOM_REPORT_PERIOD_COLUMNS
+    .filter(column => periods.includes(column.value))
+    .flatMap(column => {
+      switch (column.value) {
+        case 'monthly':
+          return splitIntoMonths(range);
+        case 'current':
+          return [{ label: periods.includes('monthly') ? 'Total' : 'Current period', range }];
+        case 'prior_period':
+          return [{ label: 'Prior period', range: getPriorPeriodRange(range) }];
+        case 'prior_year':
+          return [{ label: 'Prior year', range: getPriorYearRange(range) }];
+      }
+    });
+}
+
+/**
+ * Column heading, prefixed with its business when the report has a set of columns per business
+ */
+export const formatCustomReportColumn = (column: CustomReportColumn): string =>
+  column.business_name ? `${column.business_name} · ${column.label}` : column.label;
+
+/**
+ * Whether a transaction passes the report filters. Without a status filter
+ * rejected transactions are left out, as on the financial statements.
+ */
+export function matchesCustomReportFilters(
+  transaction: LedgerTransaction,
+  filters: CustomReportDefinition['filters']
+): boolean {
+  const statusMatches = filters.statuses.length > 0
+    ? filters.statuses.some(status => status === transaction.status)
+    : transaction.status !== 'rejected';
+  if (!statusMatches) return false;
+
+  if (filters.tags.length === 0) return true;
+  const tags = filters.tags.map(tag => tag.toLowerCase());
+  return (transaction.tags || []).some(tag => tags.includes(tag.toLowerCase()));
+}
+
+/**
+ * The filters of a report in words, or null when it has none
+ */
+export function describeCustomReportFilters(filters: CustomReportDefinition['filters']): string | null {
+  const parts: string[] = [];
+  if (filters.tags.length > 0) parts.push(`tagged ${filters.tags.join(' or ')}`);
+  if (filters.statuses.length > 0) parts.push(`with status ${filters.statuses.join(' or ')}`);
+  if (parts.length === 0) return null;
+
+  return `Only transactions ${parts.join(', ')}. Manual journal entries are left out.`;
+}
+
+// The filtered ledger of one business over the span of every column
+interface CustomReportLedger {
+  accounts: Account[];
+  transactions: LedgerTransaction[];
+  journalEntries: JournalEntry[];
+}
+
+/**
+ * Load a business ledger and apply the report filters. Journal entries are
+ * kept when their transaction passes; manual entries carry no tags or
+ * status, so they are left out whenever a filter is set.
+ */
+const loadCustomReportLedger = async (
+  definition: CustomReportDefinition,
+  businessId: string,
+  span: ReportDateRange
+): Promise<CustomReportLedger> => {
+  const usesLedger = definition.rows.source !== 'category';
+  const [accounts, transactions, journalEntries] = await Promise.all([
+    usesLedger ? fetchBusinessAccounts(businessId, { includeInactive: true }) : Promise.resolve([]),
+    fetchBusinessTransactions(businessId, span),
+    usesLedger ? fetchJournalEntries({ businessId }, span) : Promise.resolve([]),
+  ]);
+
+  const { filters } = definition;
+  const isFiltered = filters.tags.length > 0 || filters.statuses.length > 0;
+  const included = transactions.filter(transaction => matchesCustomReportFilters(transaction, filters));
+  const includedIds = new Set(included.map(transaction => transaction.id));
+
+  return {
+    accounts,
+    transactions: included,
+    journalEntries: journalEntries.filter(entry =>
+      entry.transaction_id ? includedIds.has(entry.transaction_id) : !isFiltered
+    ),
+  };
+};
+
+const rowKey = (group: AccountType, label: string) => `${group}\u0000${label}`;
+
+const getAccountTypeLabel = (type: AccountType): string =>
+  ACCOUNT_TYPES.find(accountType => accountType.value === type)?.label || type;
+
+/**
+ * Add one business's figures for a period to the row totals of a column.
+ * Account rows net each account's postings in the direction of its normal
+ * balance, so they show the activity of the period; categories add up the
+ * income and expense transactions.
+ */
+const addColumnFigures = (
+  totals: Map<string, number>,
+  definition: CustomReportDefinition,
+  ledger: CustomReportLedger,
+  range: ReportDateRange
+) => {
+  const { source, account_types } = definition.rows;
+  const add = (group: AccountType, label: string, amount: number) => {
+    if (!account_types.includes(group)) return;
+    const key = rowKey(group, label);
+    totals.set(key, (totals.get(key) || 0) + amount);
+  };
+
+  if (source === 'category') {
+    const posted = ledger.transactions.filter(t =>
+      (t.type === 'income' || t.type === 'expense') && t.date >= range.start && t.date <= range.end
+    );
+    expandSplitTransactions(posted).forEach(transaction => {
+      add(transaction.type as AccountType, getTransactionCategory(transaction), Math.abs(Number(transaction.amount)));
+    });
+    return;
+  }
+
+  const entries = ledger.journalEntries.filter(entry => entry.entry_date >= range.start && entry.entry_date <= range.end);
+  const activity = computeLedgerBalances(ledger.accounts, entries);
+  ledger.accounts.forEach(account => {
+    const amount = activity.get(account.id) || 0;
+    if (amount === 0) return;
+    add(account.type, source === 'account_type' ? getAccountTypeLabel(account.type) : account.name, amount);
+  });
+};
+
+/**
+ * Lay the column totals out as rows, grouped by account type in chart of
+ * accounts order, with the subtotals the definition asks for
+ */
+const buildCustomReportRows = (
+  definition: CustomReportDefinition,
+  columnTotals: Map<string, number>[]
+): CustomReportRow[] => {
+  const { rows: rowOptions, subtotals } = definition;
+  const names = rowOptions.names.map(name => name.trim().toLowerCase()).filter(Boolean);
+  const keys = new Set(columnTotals.flatMap(totals => Array.from(totals.keys())));
+  const valuesOf = (key: string) => columnTotals.map(totals => roundCurrency(totals.get(key) || 0));
+  const sumRows = (rows: CustomReportRow[]) =>
+    columnTotals.map((_, index) => roundCurrency(rows.reduce((sum, row) => sum + row.values[index], 0)));
+
+  const lines = Array.from(keys)
+    .map(key => {
+      const [group, label] = key.split('\u0000') as [AccountType, string];
+      return { label, group, kind: 'line' as const, values: valuesOf(key) };
+    })
+    .filter(row => rowOptions.source === 'account_type' || names.length === 0 || names.includes(row.label.toLowerCase()))
+    .filter(row => row.values.some(value => value !== 0));
+
+  const showGroupSubtotals = subtotals.by_group && rowOptions.source !== 'account_type';
+  const rows: CustomReportRow[] = ACCOUNT_TYPES.flatMap(({ value: group, label }) => {
+    const groupRows = lines
+      .filter(row => row.group === group)
+      .sort((a, b) => a.label.localeCompare(b.label));
+    if (groupRows.length === 0 || !showGroupSubtotals) return groupRows;
+
+    return [
+      ...groupRows,
+      { label: `Total ${label}`, group, kind: 'subtotal' as const, values: sumRows(groupRows) },
+    ];
+  });
+
+  if (subtotals.grand_total && lines.length > 0) {
+    rows.push({ label: 'Total', group: null, kind: 'total', values: sumRows(lines) });
+  }
+
+  return rows;
+};
+
+/**
+ * Run a custom report for one or more businesses over a period. Each column
+ * is one period of one business, or of all of them combined.
+ */
+export async function runCustomReport(
+  definition: CustomReportDefinition,
+  businesses: { id: string; name: string }[],
+  range: ReportDateRange,
+  templateId: string | null = null
+): Promise<CustomReportData> {
+  const validationError = validateCustomReportDefinition(definition);
+  if (validationError) throw new Error(validationError);
+  if (businesses.length === 0) throw new Error('Choose at least one business to report on');
+
+  const periods = getCustomReportPeriods(definition, range);
+  const columnBusinesses: ({ id: string; name: string } | null)[] =
+    definition.columns.by_business && businesses.length > 1 ? [...businesses, null] : [null];
+  if (periods.length * columnBusinesses.length > MAX_COLUMNS) {
+    throw new Error(`This report would have more than ${MAX_COLUMNS} columns; choose a shorter period or fewer columns`);
+  }
+
+  // One load per business covers every period column
+  const span = periods.reduce(
+    (widest, period) => ({
+      start: period.range.start < widest.start ? period.range.start : widest.start,
+      end: period.range.end > widest.end ? period.range.end : widest.end,
+    }),
+    range
+  );
+  const ledgers = await Promise.all(
+    businesses.map(business => loadCustomReportLedger(definition, business.id, span))
+  );
+
+  const columns: CustomReportColumn[] = [];
+  const columnTotals: Map<string, number>[] = [];
+  columnBusinesses.forEach(business => {
+    periods.forEach(period => {
+      const totals = new Map<string, number>();
+      businesses.forEach((candidate, index) => {
+        if (!business || business.id === candidate.id) {
+          addColumnFigures(totals, definition, ledgers[index], period.range);
+        }
+      });
+
+      columns.push({
+        label: period.label,
+        business_id: business ? business.id : null,
+        business_name: columnBusinesses.length > 1 ? business?.name || 'All businesses' : undefined,
+        period_start: period.range.start,
+        period_end: period.range.end,
+      });
+      columnTotals.push(totals);
+    });
+  });
+
+  return {
+    type: 'custom',
+    template_id: templateId,
+    period_start: range.start,
+    period_end: range.end,
+    generated_at: new Date().toISOString(),
+    definition,
+    businesses,
+    columns,
+    rows: buildCustomReportRows(definition, columnTotals),
+    transaction_count: ledgers.reduce(
+      (count, ledger) => count + ledger.transactions.filter(t => t.date >= range.start && t.date <= range.end).length,
+      0
+    ),
+  };
+}
@@ -14,236 +14,1869 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_balance_snapshots: {
+        Row: {
+          account_id: string
+          balance: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          note: string | null
+          snapshot_date: string
+          updated_at: string | null
+        }
+        Insert: {
+          account_id: string
+          balance: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          snapshot_date: string
+          updated_at?: string | null
+        }
+        Update: {
+          account_id?: string
+          balance?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          snapshot_date?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_balance_snapshots_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      accounts: {
+        Row: {
+          account_number: string | null
+          balance_source: string
+          business_id: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_default: boolean | null
+          name: string
+          opening_balance: number
+          opening_balance_date: string | null
+          parent_id: string | null
+          status: string | null
+          subtype: string
+          type: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          account_number?: string | null
+          balance_source?: string
+          business_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean | null
+          name: string
+          opening_balance?: number
+          opening_balance_date?: string | null
+          parent_id?: string | null
+          status?: string | null
+          subtype: string
+          type: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          account_number?: string | null
+          balance_source?: string
+          business_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean | null
+          name?: string
+          opening_balance?: number
+          opening_balance_date?: string | null
+          parent_id?: string | null
+          status?: string | null
+          subtype?: string
+          type?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "accounts_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_import_profiles: {
+        Row: {
+          amount_column: number | null
+          created_at: string | null
+          credit_column: number | null
+          date_column: number
+          date_format: string
+          debit_column: number | null
+          delimiter: string
+          description_column: number
+          has_header: boolean
+          id: string
+          invert_amounts: boolean
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount_column?: number | null
+          created_at?: string | null
+          credit_column?: number | null
+          date_column: number
+          date_format?: string
+          debit_column?: number | null
+          delimiter?: string
+          description_column: number
+          has_header?: boolean
+          id?: string
+          invert_amounts?: boolean
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount_column?: number | null
+          created_at?: string | null
+          credit_column?: number | null
+          date_column?: number
+          date_format?: string
+          debit_column?: number | null
+          delimiter?: string
+          description_column?: number
+          has_header?: boolean
+          id?: string
+          invert_amounts?: boolean
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bill_attachments: {
+        Row: {
+          bill_id: string
+          created_at: string | null
+          document_id: string
+        }
+        Insert: {
+          bill_id: string
+          created_at?: string | null
+          document_id: string
+        }
+        Update: {
+          bill_id?: string
+          created_at?: string | null
+          document_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_attachments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_attachments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_payments: {
+        Row: {
+          amount: number
+          bill_id: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          method: string | null
+          payment_date: string
+          reference: string | null
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          bill_id: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          method?: string | null
+          payment_date: string
+          reference?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          bill_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          method?: string | null
+          payment_date?: string
+          reference?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          amount: number
+          amount_paid: number
+          approved_at: string | null
+          approved_by: string | null
+          bill_date: string
+          bill_number: string | null
+          business_id: string
+          category: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          due_date: string
+          id: string
+          scheduled_payment_date: string | null
+          status: string
+          updated_at: string | null
+          vendor_id: string
+          voided_at: string | null
+        }
+        Insert: {
+          amount: number
+          amount_paid?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          bill_date?: string
+          bill_number?: string | null
+          business_id: string
+          category: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          due_date: string
+          id?: string
+          scheduled_payment_date?: string | null
+          status?: string
+          updated_at?: string | null
+          vendor_id: string
+          voided_at?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_paid?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          bill_date?: string
+          bill_number?: string | null
+          business_id?: string
+          category?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          due_date?: string
+          id?: string
+          scheduled_payment_date?: string | null
+          status?: string
+          updated_at?: string | null
+          vendor_id?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       budgets: {
         Row: {
+          alert_thresholds: number[]
+          auto_renew: boolean
+          category_id: string | null
+          category_name: string | null
+          created_at: string | null
+          id: string
+          monthly_limit: number
+          name: string
+          period_end: string
+          period_start: string
+          previous_budget_id: string | null
+          rollover: boolean
+          rollover_amount: number
+          spent_amount: number | null
+          status: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          alert_thresholds?: number[]
+          auto_renew?: boolean
+          category_id?: string | null
+          category_name?: string | null
+          created_at?: string | null
+          id?: string
+          monthly_limit: number
+          name: string
+          period_end: string
+          period_start: string
+          previous_budget_id?: string | null
+          rollover?: boolean
+          rollover_amount?: number
+          spent_amount?: number | null
+          status?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          alert_thresholds?: number[]
+          auto_renew?: boolean
+          category_id?: string | null
+          category_name?: string | null
+          created_at?: string | null
+          id?: string
+          monthly_limit?: number
+          name?: string
+          period_end?: string
+          period_start?: string
+          previous_budget_id?: string | null
+          rollover?: boolean
+          rollover_amount?: number
+          spent_amount?: number | null
+          status?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_previous_budget_id_fkey"
+            columns: ["previous_budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      business_budgets: {
+        Row: {
+          amount: number
+          business_id: string
+          category: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          period_end: string
+          period_start: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          business_id: string
+          category: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          business_id?: string
+          category?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_budgets_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "business_budgets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      businesses: {
+        Row: {
+          address: string | null
+          created_at: string | null
+          id: string
+          monthly_fee: number | null
+          name: string
+          owner_id: string
+          settings: string | null
+          status: string | null
+          type: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string | null
+          id?: string
+          monthly_fee?: number | null
+          name: string
+          owner_id: string
+          settings?: string | null
+          status?: string | null
+          type?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string | null
+          id?: string
+          monthly_fee?: number | null
+          name?: string
+          owner_id?: string
+          settings?: string | null
+          status?: string | null
+          type?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "businesses_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_flow_scenarios: {
+        Row: {
+          adjustments: Json
+          business_id: string | null
+          created_at: string | null
+          id: string
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          adjustments?: Json
+          business_id?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          adjustments?: Json
+          business_id?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_flow_scenarios_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categorization_rules: {
+        Row: {
+          business_id: string | null
+          category: string
+          counterparty: string | null
+          created_at: string | null
+          created_by: string | null
+          description_operator: string | null
+          description_pattern: string | null
+          id: string
+          is_active: boolean
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          notes: string | null
+          priority: number
+          tags: string[]
+          transaction_type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          business_id?: string | null
+          category: string
+          counterparty?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description_operator?: string | null
+          description_pattern?: string | null
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          notes?: string | null
+          priority?: number
+          tags?: string[]
+          transaction_type?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          business_id?: string | null
+          category?: string
+          counterparty?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description_operator?: string | null
+          description_pattern?: string | null
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          notes?: string | null
+          priority?: number
+          tags?: string[]
+          transaction_type?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          business_id: string
+          created_at: string | null
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          payment_terms_days: number
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          business_id: string
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          payment_terms_days?: number
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          business_id?: string
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          payment_terms_days?: number
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      debt_payoff_plans: {
+        Row: {
+          created_at: string | null
+          id: string
+          monthly_budget: number
+          strategy: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          monthly_budget?: number
+          strategy?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          monthly_budget?: number
+          strategy?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      debts: {
+        Row: {
+          apr: number
+          balance: number
+          created_at: string | null
+          custom_order: number
+          goal_id: string | null
+          id: string
+          is_active: boolean
+          minimum_payment: number
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          apr?: number
+          balance: number
+          created_at?: string | null
+          custom_order?: number
+          goal_id?: string | null
+          id?: string
+          is_active?: boolean
+          minimum_payment: number
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          apr?: number
+          balance?: number
+          created_at?: string | null
+          custom_order?: number
+          goal_id?: string | null
+          id?: string
+          is_active?: boolean
+          minimum_payment?: number
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "debts_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "financial_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          business_id: string
+          category: string | null
+          created_at: string | null
+          file_path: string
+          file_size: number | null
+          file_type: string | null
+          filename: string
+          id: string
+          updated_at: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          business_id: string
+          category?: string | null
+          created_at?: string | null
+          file_path: string
+          file_size?: number | null
+          file_type?: string | null
+          filename: string
+          id?: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          business_id?: string
+          category?: string | null
+          created_at?: string | null
+          file_path?: string
+          file_size?: number | null
+          file_type?: string | null
+          filename?: string
+          id?: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: []
+      }
+      financial_goals: {
+        Row: {
+          category: string
+          created_at: string | null
+          current_amount: number | null
+          deadline: string | null
+          description: string | null
+          id: string
+          priority: string
+          status: string
+          target_amount: number
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string | null
+          current_amount?: number | null
+          deadline?: string | null
+          description?: string | null
+          id?: string
+          priority: string
+          status?: string
+          target_amount: number
+          title: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          current_amount?: number | null
+          deadline?: string | null
+          description?: string | null
+          id?: string
+          priority?: string
+          status?: string
+          target_amount?: number
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goal_contributions: {
+        Row: {
+          amount: number
+          contribution_date: string
+          created_at: string | null
+          goal_id: string
+          id: string
+          kind: string
+          note: string | null
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          contribution_date?: string
+          created_at?: string | null
+          goal_id: string
+          id?: string
+          kind?: string
+          note?: string | null
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          contribution_date?: string
+          created_at?: string | null
+          goal_id?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "financial_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_line_items: {
+        Row: {
+          amount: number
+          created_at: string | null
+          description: string
+          discount_percent: number
+          id: string
+          invoice_id: string
+          line_order: number
+          quantity: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          description: string
+          discount_percent?: number
+          id?: string
+          invoice_id: string
+          line_order?: number
+          quantity?: number
+          tax_rate?: number
+          unit_price: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          description?: string
+          discount_percent?: number
+          id?: string
+          invoice_id?: string
+          line_order?: number
+          quantity?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_line_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_id: string
+          method: string | null
+          payment_date: string
+          reference: string | null
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id: string
+          method?: string | null
+          payment_date: string
+          reference?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id?: string
+          method?: string | null
+          payment_date?: string
+          reference?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_templates: {
+        Row: {
+          accent_color: string
+          business_id: string
+          created_at: string | null
+          id: string
+          is_default: boolean
+          layout: string
+          logo_path: string | null
+          name: string
+          notes: string | null
+          payment_instructions: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          accent_color?: string
+          business_id: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          layout?: string
+          logo_path?: string | null
+          name: string
+          notes?: string | null
+          payment_instructions?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          accent_color?: string
+          business_id?: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          layout?: string
+          logo_path?: string | null
+          name?: string
+          notes?: string | null
+          payment_instructions?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_templates_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_paid: number
+          business_id: string
+          created_at: string | null
+          created_by: string | null
+          credit_note_document_id: string | null
+          customer_id: string
+          discount_total: number
+          due_date: string
+          id: string
+          invoice_number: string
+          issue_date: string
+          notes: string | null
+          payment_terms_days: number
+          pdf_document_id: string | null
+          pdf_generated_at: string | null
+          sent_at: string | null
+          status: string
+          subtotal: number
+          tax_total: number
+          template_id: string | null
+          total: number
+          updated_at: string | null
+          voided_at: string | null
+        }
+        Insert: {
+          amount_paid?: number
+          business_id: string
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_document_id?: string | null
+          customer_id: string
+          discount_total?: number
+          due_date: string
+          id?: string
+          invoice_number: string
+          issue_date?: string
+          notes?: string | null
+          payment_terms_days?: number
+          pdf_document_id?: string | null
+          pdf_generated_at?: string | null
+          sent_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_total?: number
+          template_id?: string | null
+          total?: number
+          updated_at?: string | null
+          voided_at?: string | null
+        }
+        Update: {
+          amount_paid?: number
+          business_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_document_id?: string | null
+          customer_id?: string
+          discount_total?: number
+          due_date?: string
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          payment_terms_days?: number
+          pdf_document_id?: string | null
+          pdf_generated_at?: string | null
+          sent_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_total?: number
+          template_id?: string | null
+          total?: number
+          updated_at?: string | null
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_credit_note_document_id_fkey"
+            columns: ["credit_note_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_pdf_document_id_fkey"
+            columns: ["pdf_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_entries: {
+        Row: {
+          adjustment_type: string | null
+          business_id: string | null
+          created_at: string | null
+          created_by: string | null
+          document_id: string | null
+          entry_date: string
+          id: string
+          memo: string | null
+          reference: string | null
+          source: string
+          transaction_id: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          adjustment_type?: string | null
+          business_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id?: string | null
+          entry_date: string
+          id?: string
+          memo?: string | null
+          reference?: string | null
+          source?: string
+          transaction_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          adjustment_type?: string | null
+          business_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id?: string | null
+          entry_date?: string
+          id?: string
+          memo?: string | null
+          reference?: string | null
+          source?: string
+          transaction_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_lines: {
+        Row: {
+          account_id: string
+          created_at: string | null
+          credit: number
+          debit: number
+          description: string | null
+          id: string
+          journal_entry_id: string
+          line_order: number
+        }
+        Insert: {
+          account_id: string
+          created_at?: string | null
+          credit?: number
+          debit?: number
+          description?: string | null
+          id?: string
+          journal_entry_id: string
+          line_order?: number
+        }
+        Update: {
+          account_id?: string
+          created_at?: string | null
+          credit?: number
+          debit?: number
+          description?: string | null
+          id?: string
+          journal_entry_id?: string
+          line_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meetings: {
+        Row: {
+          accountant_id: string | null
+          business_id: string | null
+          client_id: string | null
+          created_at: string | null
+          description: string | null
+          duration_minutes: number | null
+          id: string
+          meeting_link: string | null
+          metadata: Json | null
+          scheduled_at: string
+          status: Database["public"]["Enums"]["meeting_status"] | null
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          accountant_id?: string | null
+          business_id?: string | null
+          client_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          meeting_link?: string | null
+          metadata?: Json | null
+          scheduled_at: string
+          status?: Database["public"]["Enums"]["meeting_status"] | null
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          accountant_id?: string | null
+          business_id?: string | null
+          client_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          meeting_link?: string | null
+          metadata?: Json | null
+          scheduled_at?: string
+          status?: Database["public"]["Enums"]["meeting_status"] | null
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meetings_accountant_id_fkey"
+            columns: ["accountant_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meetings_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          link: string | null
+          message: string | null
+          read_at: string | null
+          report_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          report_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          report_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      period_closes: {
+        Row: {
+          business_id: string
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string | null
+          id: string
+          period_end: string
+          period_start: string
+          period_type: string
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          business_id: string
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          period_type: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          business_id?: string
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          period_type?: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "period_closes_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reconciliation_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          reconciliation_id: string
+          transaction_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          reconciliation_id: string
+          transaction_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          reconciliation_id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reconciliation_items_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_items_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reconciliations: {
+        Row: {
+          account_id: string
+          beginning_balance: number
+          business_id: string
+          cleared_balance: number
+          completed_at: string | null
+          created_at: string | null
+          id: string
+          reconciled_by: string | null
+          report: Json
+          statement_date: string
+          statement_ending_balance: number
+          updated_at: string | null
+        }
+        Insert: {
+          account_id: string
+          beginning_balance: number
+          business_id: string
+          cleared_balance: number
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          reconciled_by?: string | null
+          report?: Json
+          statement_date: string
+          statement_ending_balance: number
+          updated_at?: string | null
+        }
+        Update: {
+          account_id?: string
+          beginning_balance?: number
+          business_id?: string
+          cleared_balance?: number
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          reconciled_by?: string | null
+          report?: Json
+          statement_date?: string
+          statement_ending_balance?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reconciliations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliations_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transaction_skips: {
+        Row: {
+          created_at: string | null
+          id: string
+          occurrence_date: string
+          recurring_transaction_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          occurrence_date: string
+          recurring_transaction_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          occurrence_date?: string
+          recurring_transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transaction_skips_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          account_id: string | null
           amount: number
-          category: string
+          business_id: string | null
+          category: string | null
           created_at: string | null
+          description: string | null
           end_date: string | null
+          frequency: string
           id: string
-          period: string
-          spent_amount: number | null
+          interval_count: number
+          interval_unit: string
+          is_active: boolean
+          next_index: number
           start_date: string
-          status: string | null
+          tags: string[]
+          type: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
-          category: string
+          business_id?: string | null
+          category?: string | null
           created_at?: string | null
+          description?: string | null
           end_date?: string | null
+          frequency: string
           id?: string
-          period: string
-          spent_amount?: number | null
+          interval_count?: number
+          interval_unit?: string
+          is_active?: boolean
+          next_index?: number
           start_date: string
-          status?: string | null
+          tags?: string[]
+          type: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
-          category?: string
+          business_id?: string | null
+          category?: string | null
           created_at?: string | null
+          description?: string | null
           end_date?: string | null
+          frequency?: string
           id?: string
-          period?: string
-          spent_amount?: number | null
+          interval_count?: number
+          interval_unit?: string
+          is_active?: boolean
+          next_index?: number
           start_date?: string
-          status?: string | null
+          tags?: string[]
+          type?: string
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      businesses: {
+      report_comments: {
         Row: {
-          address: string | null
+          author_id: string
+          body: string
           created_at: string | null
           id: string
-          monthly_fee: number | null
-          name: string
-          owner_id: string
-          settings: string | null
-          status: string | null
-          type: string | null
+          parent_id: string | null
+          report_id: string
           updated_at: string | null
         }
         Insert: {
-          address?: string | null
+          author_id: string
+          body: string
           created_at?: string | null
           id?: string
-          monthly_fee?: number | null
-          name: string
-          owner_id: string
-          settings?: string | null
-          status?: string | null
-          type?: string | null
+          parent_id?: string | null
+          report_id: string
           updated_at?: string | null
         }
         Update: {
-          address?: string | null
+          author_id?: string
+          body?: string
           created_at?: string | null
           id?: string
-          monthly_fee?: number | null
-          name?: string
-          owner_id?: string
-          settings?: string | null
-          status?: string | null
-          type?: string | null
+          parent_id?: string | null
+          report_id?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "businesses_owner_id_fkey"
-            columns: ["owner_id"]
+            foreignKeyName: "report_comments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "report_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_schedules: {
+        Row: {
+          assigned_to: string | null
+          business_id: string
+          comparison: Json | null
+          created_at: string | null
+          created_by: string | null
+          due_days: number
+          frequency: string
+          id: string
+          is_active: boolean
+          last_run_at: string | null
+          next_run_on: string | null
+          report_type: string
+          run_day: number
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          business_id: string
+          comparison?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          due_days?: number
+          frequency: string
+          id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_on?: string | null
+          report_type: string
+          run_day?: number
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          business_id?: string
+          comparison?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          due_days?: number
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_on?: string | null
+          report_type?: string
+          run_day?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_schedules_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_schedules_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_schedules_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      documents: {
+      report_status_history: {
         Row: {
-          business_id: string
-          category: string | null
+          changed_by: string | null
           created_at: string | null
-          file_path: string
-          file_size: number | null
-          file_type: string | null
-          filename: string
+          from_status: string | null
           id: string
-          updated_at: string | null
-          uploaded_by: string | null
+          reason: string | null
+          report_id: string
+          to_status: string
         }
         Insert: {
-          business_id: string
-          category?: string | null
+          changed_by?: string | null
           created_at?: string | null
-          file_path: string
-          file_size?: number | null
-          file_type?: string | null
-          filename: string
+          from_status?: string | null
           id?: string
-          updated_at?: string | null
-          uploaded_by?: string | null
+          reason?: string | null
+          report_id: string
+          to_status: string
         }
         Update: {
-          business_id?: string
-          category?: string | null
+          changed_by?: string | null
           created_at?: string | null
-          file_path?: string
-          file_size?: number | null
-          file_type?: string | null
-          filename?: string
+          from_status?: string | null
           id?: string
-          updated_at?: string | null
-          uploaded_by?: string | null
+          reason?: string | null
+          report_id?: string
+          to_status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "report_status_history_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      financial_goals: {
+      report_templates: {
         Row: {
-          category: string
           created_at: string | null
-          current_amount: number | null
-          deadline: string | null
+          created_by: string | null
+          definition: Json
           description: string | null
           id: string
-          priority: string
-          status: string
-          target_amount: number
-          title: string
+          name: string
           updated_at: string | null
-          user_id: string
         }
         Insert: {
-          category: string
           created_at?: string | null
-          current_amount?: number | null
-          deadline?: string | null
+          created_by?: string | null
+          definition: Json
           description?: string | null
           id?: string
-          priority: string
-          status?: string
-          target_amount: number
-          title: string
+          name: string
           updated_at?: string | null
-          user_id: string
         }
         Update: {
-          category?: string
           created_at?: string | null
-          current_amount?: number | null
-          deadline?: string | null
+          created_by?: string | null
+          definition?: Json
           description?: string | null
           id?: string
-          priority?: string
-          status?: string
-          target_amount?: number
-          title?: string
+          name?: string
           updated_at?: string | null
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "report_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      meetings: {
+      report_versions: {
         Row: {
-          accountant_id: string | null
-          business_id: string | null
-          client_id: string | null
           created_at: string | null
-          description: string | null
-          duration_minutes: number | null
+          data: Json
+          generated_at: string
+          generated_by: string | null
           id: string
-          meeting_link: string | null
-          metadata: Json | null
-          scheduled_at: string
-          status: Database["public"]["Enums"]["meeting_status"] | null
-          title: string
-          updated_at: string | null
+          report_id: string
+          version_number: number
         }
         Insert: {
-          accountant_id?: string | null
-          business_id?: string | null
-          client_id?: string | null
           created_at?: string | null
-          description?: string | null
-          duration_minutes?: number | null
+          data: Json
+          generated_at?: string
+          generated_by?: string | null
           id?: string
-          meeting_link?: string | null
-          metadata?: Json | null
-          scheduled_at: string
-          status?: Database["public"]["Enums"]["meeting_status"] | null
-          title: string
-          updated_at?: string | null
+          report_id: string
+          version_number: number
         }
         Update: {
-          accountant_id?: string | null
-          business_id?: string | null
-          client_id?: string | null
           created_at?: string | null
-          description?: string | null
-          duration_minutes?: number | null
+          data?: Json
+          generated_at?: string
+          generated_by?: string | null
           id?: string
-          meeting_link?: string | null
-          metadata?: Json | null
-          scheduled_at?: string
-          status?: Database["public"]["Enums"]["meeting_status"] | null
-          title?: string
-          updated_at?: string | null
+          report_id?: string
+          version_number?: number
         }
         Relationships: [
           {
-            foreignKeyName: "meetings_accountant_id_fkey"
-            columns: ["accountant_id"]
+            foreignKeyName: "report_versions_report_id_fkey"
+            columns: ["report_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "reports"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "meetings_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "report_versions_generated_by_fkey"
+            columns: ["generated_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
@@ -252,51 +1885,121 @@ export type Database = {
       }
       reports: {
         Row: {
+          approved_at: string | null
+          approved_by: string | null
           business_id: string
           business_name: string
           client_id: string
           client_name: string
           created_at: string | null
           created_by: string | null
+          current_version: number | null
+          data: Json | null
           due_date: string
+          generated_at: string | null
           id: string
           period: string | null
-          status: string | null
+          period_end: string | null
+          period_start: string | null
+          published_at: string | null
+          published_version: number | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          schedule_id: string | null
+          status: string
+          template_id: string | null
           title: string
           type: string
           updated_at: string | null
         }
         Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
           business_id: string
           business_name: string
           client_id: string
           client_name: string
           created_at?: string | null
           created_by?: string | null
+          current_version?: number | null
+          data?: Json | null
           due_date: string
+          generated_at?: string | null
           id?: string
           period?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          published_at?: string | null
+          published_version?: number | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schedule_id?: string | null
           status?: string | null
+          template_id?: string | null
           title: string
           type: string
           updated_at?: string | null
         }
         Update: {
+          approved_at?: string | null
+          approved_by?: string | null
           business_id?: string
           business_name?: string
           client_id?: string
           client_name?: string
           created_at?: string | null
           created_by?: string | null
+          current_version?: number | null
+          data?: Json | null
           due_date?: string
+          generated_at?: string | null
           id?: string
           period?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          published_at?: string | null
+          published_version?: number | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schedule_id?: string | null
           status?: string | null
+          template_id?: string | null
           title?: string
           type?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "reports_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "report_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "reports_business_id_fkey"
             columns: ["business_id"]
@@ -361,48 +2064,71 @@ export type Database = {
       }
       tasks: {
         Row: {
+          assigned_to: string | null
           client_id: string
           client_name: string
+          completed_at: string | null
           created_at: string | null
           created_by: string | null
           description: string | null
           due_date: string
           id: string
           priority: string | null
+          report_id: string | null
           status: string | null
           title: string
           type: string | null
           updated_at: string | null
         }
         Insert: {
+          assigned_to?: string | null
           client_id: string
           client_name: string
+          completed_at?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           due_date: string
           id?: string
           priority?: string | null
+          report_id?: string | null
           status?: string | null
           title: string
           type?: string | null
           updated_at?: string | null
         }
         Update: {
+          assigned_to?: string | null
           client_id?: string
           client_name?: string
+          completed_at?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           due_date?: string
           id?: string
           priority?: string | null
+          report_id?: string | null
           status?: string | null
           title?: string
           type?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_client_id_fkey"
             columns: ["client_id"]
@@ -446,65 +2172,128 @@ export type Database = {
         }
         Relationships: []
       }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string | null
+          id: string
+          line_order: number
+          memo: string | null
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string | null
+          id?: string
+          line_order?: number
+          memo?: string | null
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string | null
+          id?: string
+          line_order?: number
+          memo?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
+          account_id: string | null
           amount: number
           business_id: string | null
           category: string | null
           category_id: string | null
           category_name: string | null
+          counterparty: string | null
           created_at: string | null
           date: string
           description: string | null
+          external_id: string | null
           id: string
           notes: string | null
+          occurrence_date: string | null
           recurring: boolean | null
           recurring_frequency: string | null
+          recurring_transaction_id: string | null
           status: Database["public"]["Enums"]["transaction_status"] | null
           tags: string[] | null
+          transfer_account_id: string | null
           type: string
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          account_id?: string | null
           amount: number
           business_id?: string | null
           category?: string | null
           category_id?: string | null
           category_name?: string | null
+          counterparty?: string | null
           created_at?: string | null
           date: string
           description?: string | null
+          external_id?: string | null
           id?: string
           notes?: string | null
+          occurrence_date?: string | null
           recurring?: boolean | null
           recurring_frequency?: string | null
+          recurring_transaction_id?: string | null
           status?: Database["public"]["Enums"]["transaction_status"] | null
           tags?: string[] | null
+          transfer_account_id?: string | null
           type: string
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          account_id?: string | null
           amount?: number
           business_id?: string | null
           category?: string | null
           category_id?: string | null
           category_name?: string | null
+          counterparty?: string | null
           created_at?: string | null
           date?: string
           description?: string | null
+          external_id?: string | null
           id?: string
           notes?: string | null
+          occurrence_date?: string | null
           recurring?: boolean | null
           recurring_frequency?: string | null
+          recurring_transaction_id?: string | null
           status?: Database["public"]["Enums"]["transaction_status"] | null
           tags?: string[] | null
+          transfer_account_id?: string | null
           type?: string
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_business_id_fkey"
             columns: ["business_id"]
@@ -519,6 +2308,13 @@ export type Database = {
             referencedRelation: "transaction_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_transfer_account_id_fkey"
+            columns: ["transfer_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_user_id_fkey"
             columns: ["user_id"]
@@ -605,11 +2401,80 @@ export type Database = {
         }
         Relationships: []
       }
+      vendors: {
+        Row: {
+          address: string | null
+          business_id: string
+          created_at: string | null
+          default_category: string | null
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          payment_terms_days: number
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          business_id: string
+          created_at?: string | null
+          default_category?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          payment_terms_days?: number
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          business_id?: string
+          created_at?: string | null
+          default_category?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          payment_terms_days?: number
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendors_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      can_approve_bills: {
+        Args: {
+          p_business_id: string
+        }
+        Returns: boolean
+      }
+      complete_reconciliation: {
+        Args: {
+          p_account_id: string
+          p_report: Json
+          p_statement_date: string
+          p_statement_ending_balance: number
+          p_transaction_ids: string[]
+        }
+        Returns: string
+      }
       create_demo_accounts: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -618,6 +2483,34 @@ export type Database = {
         Args: { user_id: string }
         Returns: Json
       }
+      delete_bill_payment: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: undefined
+      }
+      delete_invoice_payment: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: undefined
+      }
+      ensure_chart_of_accounts: {
+        Args: { p_business_id: string | null; p_user_id: string | null }
+        Returns: undefined
+      }
+      generate_recurring_transactions: {
+        Args: {
+          p_through?: string
+        }
+        Returns: number
+      }
+      generate_scheduled_reports: {
+        Args: {
+          p_through?: string
+        }
+        Returns: number
+      }
       get_all_auth_users: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -641,6 +2534,12 @@ export type Database = {
           pending_transactions: number
         }[]
       }
+      get_business_role: {
+        Args: {
+          p_business_id: string
+        }
+        Returns: string
+      }
       get_user_businesses: {
         Args: { user_uuid: string }
         Returns: {
@@ -650,6 +2549,82 @@ export type Database = {
           created_at: string
         }[]
       }
+      is_period_closed: {
+        Args: { p_business_id: string; p_date: string }
+        Returns: boolean
+      }
+      mark_overdue_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      post_journal_entry: {
+        Args: {
+          p_business_id: string
+          p_entry_date: string
+          p_memo: string
+          p_reference: string | null
+          p_document_id: string | null
+          p_adjustment_type: string | null
+          p_lines: Json
+        }
+        Returns: string
+      }
+      record_bill_payment: {
+        Args: {
+          p_account_id?: string
+          p_amount: number
+          p_bill_id: string
+          p_method?: string
+          p_payment_date: string
+          p_reference?: string
+        }
+        Returns: string
+      }
+      record_invoice_payment: {
+        Args: {
+          p_account_id?: string
+          p_amount: number
+          p_invoice_id: string
+          p_method?: string
+          p_payment_date: string
+          p_reference?: string
+        }
+        Returns: string
+      }
+      recurring_occurrence_date: {
+        Args: {
+          p_frequency: string
+          p_index: number
+          p_interval_count: number
+          p_interval_unit: string
+          p_start_date: string
+        }
+        Returns: string
+      }
+      renew_budgets: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: number
+      }
+      reopen_period: {
+        Args: { p_period_close_id: string; p_reason: string }
+        Returns: undefined
+      }
+      save_transaction_splits: {
+        Args: {
+          p_splits: Json
+          p_transaction_id: string
+        }
+        Returns: undefined
+      }
+      skip_recurring_occurrence: {
+        Args: {
+          p_occurrence_date: string
+          p_recurring_transaction_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       goal_status: "active" | "completed" | "paused" | "cancelled"
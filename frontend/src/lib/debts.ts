@@ -0,0 +1,346 @@
+// Debt Payoff Planning
+// Month-by-month payoff schedules for a user's debts. Every debt gets its
+// minimum payment; whatever is left of the monthly budget goes to the first
+// unpaid debt in strategy order, so freed-up minimums roll onto the next one.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { toISODate } from './reports';
+import { roundCurrency } from './utils';
+import type { Debt, DebtPayoffPlan, DebtPayoffStrategy } from '@/types';
+
+// Schedules that run longer than this are treated as never paying off
+export const MAX_PAYOFF_MONTHS = 600;
+
+export const DEBT_PAYOFF_STRATEGIES: { value: DebtPayoffStrategy; label: string; description: string }[] = [
+  { value: 'avalanche', label: 'Avalanche', description: 'Highest interest rate first; pays the least interest' },
+  { value: 'snowball', label: 'Snowball', description: 'Smallest balance first; clears debts soonest' },
+  { value: 'custom', label: 'Custom', description: 'Your own order' },
+];
+
+export const DEFAULT_DEBT_PAYOFF_PLAN: DebtPayoffPlan = { strategy: 'avalanche', monthly_budget: 0 };
+
+export interface DebtInput {
+  name: string;
+  balance: number;
+  apr: number;
+  minimum_payment: number;
+}
+
+export interface DebtPayment {
+  debt_id: string;
+  payment: number;
+  interest: number;
+  balance: number; // remaining after the payment
+}
+
+export interface PayoffScheduleMonth {
+  month: number; // 1 for the first payment
+  date: string;
+  payments: DebtPayment[];
+  total_payment: number;
+  total_interest: number;
+  remaining_balance: number;
+}
+
+export type PayoffScheduleStatus = 'ok' | 'budget_too_low' | 'never';
+
+export interface PayoffSchedule {
+  status: PayoffScheduleStatus;
+  months: PayoffScheduleMonth[];
+  total_interest: number;
+  total_paid: number;
+  debt_free_date: string | null;
+  payoff_dates: Record<string, string>; // debt id -> month it is paid off
+  minimum_required: number; // sum of minimum payments
+}
+
+/**
+ * Order debts for a strategy. Snowball takes the smallest balance first,
+ * avalanche the highest APR, custom the user's order.
+ */
+export function orderDebts(debts: Debt[], strategy: DebtPayoffStrategy): Debt[] {
+  const sorted = [...debts];
+  switch (strategy) {
+    case 'snowball':
+      return sorted.sort((a, b) => a.balance - b.balance || b.apr - a.apr);
+    case 'avalanche':
+      return sorted.sort((a, b) => b.apr - a.apr || a.balance - b.balance);
+    default:
+      return sorted.sort((a, b) => a.custom_order - b.custom_order || a.name.localeCompare(b.name));
+  }
+}
+
+/**
+ * Date of the nth monthly payment, counting from the month after the start
+ */
+export function getPaymentDate(start: Date, month: number): string {
+  const date = new Date(start.getFullYear(), start.getMonth() + month, 1);
+  return toISODate(date);
+}
+
+/**
+ * Simulate paying debts down with a fixed monthly budget. Interest accrues
+ * monthly at APR / 12 before each payment.
+ */
+export function buildPayoffSchedule(
+  debts: Debt[],
+  strategy: DebtPayoffStrategy,
+  monthlyBudget: number,
+  start: Date = new Date()
+): PayoffSchedule {
+  const ordered = orderDebts(debts.filter(debt => debt.balance > 0), strategy);
+  const minimumRequired = roundCurrency(ordered.reduce((sum, debt) => sum + debt.minimum_payment, 0));
+  const schedule: PayoffSchedule = {
+    status: 'ok',
+    months: [],
+    total_interest: 0,
+    total_paid: 0,
+    debt_free_date: null,
+    payoff_dates: {},
+    minimum_required: minimumRequired,
+  };
+
+  if (ordered.length === 0) return schedule;
+  if (monthlyBudget < minimumRequired) {
+    return { ...schedule, status: 'budget_too_low' };
+  }
+
+  const balances = new Map(ordered.map(debt => [debt.id, debt.balance]));
+
+  for (let month = 1; month <= MAX_PAYOFF_MONTHS; month++) {
+    const date = getPaymentDate(start, month);
+    const open = ordered.filter(debt => balances.get(debt.id)! > 0);
+    const interest = new Map<string, number>();
+    const paid = new Map<string, number>();
+
+    open.forEach(debt => {
+      const charge = roundCurrency(balances.get(debt.id)! * debt.apr / 100 / 12);
+      interest.set(debt.id, charge);
+      balances.set(debt.id, roundCurrency(balances.get(debt.id)! + charge));
+    });
+
+    const pay = (debt: Debt, amount: number) => {
+      const payment = roundCurrency(Math.min(amount, balances.get(debt.id)!));
+      balances.set(debt.id, roundCurrency(balances.get(debt.id)! - payment));
+      paid.set(debt.id, roundCurrency((paid.get(debt.id) || 0) + payment));
+      return payment;
+    };
+
+    let available = monthlyBudget;
+    open.forEach(debt => {
+      available = roundCurrency(available - pay(debt, debt.minimum_payment));
+    });
+    for (const debt of open) {
+      if (available <= 0) break;
+      available = roundCurrency(available - pay(debt, available));
+    }
+
+    const payments = open.map(debt => ({
+      debt_id: debt.id,
+      payment: paid.get(debt.id) || 0,
+      interest: interest.get(debt.id) || 0,
+      balance: balances.get(debt.id)!,
+    }));
+    payments.filter(line => line.balance <= 0).forEach(line => {
+      schedule.payoff_dates[line.debt_id] = date;
+    });
+
+    const totalPayment = roundCurrency(payments.reduce((sum, line) => sum + line.payment, 0));
+    const totalInterest = roundCurrency(payments.reduce((sum, line) => sum + line.interest, 0));
+    const remaining = roundCurrency([...balances.values()].reduce((sum, balance) => sum + balance, 0));
+
+    schedule.months.push({
+      month,
+      date,
+      payments,
+      total_payment: totalPayment,
+      total_interest: totalInterest,
+      remaining_balance: remaining,
+    });
+    schedule.total_interest = roundCurrency(schedule.total_interest + totalInterest);
+    schedule.total_paid = roundCurrency(schedule.total_paid + totalPayment);
+
+    if (remaining <= 0) {
+      schedule.debt_free_date = date;
+      return schedule;
+    }
+  }
+
+  return { ...schedule, status: 'never' };
+}
+
+/**
+ * Schedule for every strategy, to show what the choice costs
+ */
+export function compareStrategies(
+  debts: Debt[],
+  monthlyBudget: number,
+  start: Date = new Date()
+): Record<DebtPayoffStrategy, PayoffSchedule> {
+  return DEBT_PAYOFF_STRATEGIES.reduce((result, { value }) => {
+    result[value] = buildPayoffSchedule(debts, value, monthlyBudget, start);
+    return result;
+  }, {} as Record<DebtPayoffStrategy, PayoffSchedule>);
+}
+
+export function validateDebt(input: DebtInput): string | null {
+  if (!input.name.trim()) return 'Debt name is required';
+  if (isNaN(input.balance) || input.balance < 0) return 'Balance cannot be negative';
+  if (isNaN(input.apr) || input.apr < 0 || input.apr > 100) return 'APR must be between 0 and 100';
+  if (isNaN(input.minimum_payment) || input.minimum_payment <= 0) return 'Minimum payment must be greater than 0';
+  return null;
+}
+
+export const mapDebtRow = (row: Tables<'debts'>): Debt => ({
+  id: row.id,
+  user_id: row.user_id,
+  name: row.name,
+  balance: Number(row.balance),
+  apr: Number(row.apr),
+  minimum_payment: Number(row.minimum_payment),
+  custom_order: row.custom_order,
+  goal_id: row.goal_id,
+  is_active: row.is_active,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export async function fetchDebts(userId: string): Promise<Debt[]> {
+  const { data, error } = await supabase
+    .from('debts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('custom_order')
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDebtRow);
+}
+
+/**
+ * Create a debt, or update it when debtId is given. New debts go last in the custom order.
+ */
+export async function saveDebt(userId: string, input: DebtInput, debtId?: string): Promise<void> {
+  const validationError = validateDebt(input);
+  if (validationError) throw new Error(validationError);
+
+  const values = {
+    name: input.name.trim(),
+    balance: roundCurrency(input.balance),
+    apr: input.apr,
+    minimum_payment: roundCurrency(input.minimum_payment),
+  };
+
+  if (debtId) {
+    const { error } = await supabase
+      .from('debts')
+      .update(values)
+      .eq('id', debtId);
+
+    if (error) throw error;
+    return;
+  }
+
+  const existing = await fetchDebts(userId);
+  const { error } = await supabase
+    .from('debts')
+    .insert({
+      ...values,
+      user_id: userId,
+      custom_order: existing.reduce((max, debt) => Math.max(max, debt.custom_order + 1), 0),
+    });
+
+  if (error) throw error;
+}
+
+export async function deleteDebt(debtId: string): Promise<void> {
+  const { error } = await supabase
+    .from('debts')
+    .delete()
+    .eq('id', debtId);
+
+  if (error) throw error;
+}
+
+/**
+ * Store the custom payoff order as given
+ */
+export async function reorderDebts(debtIds: string[]): Promise<void> {
+  const results = await Promise.all(debtIds.map((id, index) =>
+    supabase
+      .from('debts')
+      .update({ custom_order: index })
+      .eq('id', id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+}
+
+export async function fetchDebtPayoffPlan(userId: string): Promise<DebtPayoffPlan> {
+  const { data, error } = await supabase
+    .from('debt_payoff_plans')
+    .select('strategy, monthly_budget')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_DEBT_PAYOFF_PLAN;
+
+  return {
+    strategy: data.strategy as DebtPayoffStrategy,
+    monthly_budget: Number(data.monthly_budget),
+  };
+}
+
+export async function saveDebtPayoffPlan(userId: string, plan: DebtPayoffPlan): Promise<void> {
+  const { error } = await supabase
+    .from('debt_payoff_plans')
+    .upsert({
+      user_id: userId,
+      strategy: plan.strategy,
+      monthly_budget: roundCurrency(plan.monthly_budget),
+    }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+}
+
+/**
+ * Create a "Debt Payoff" goal for each debt that has none yet, due on the
+ * date the schedule pays it off. Returns how many goals were created.
+ */
+export async function createDebtGoals(userId: string, debts: Debt[], schedule: PayoffSchedule): Promise<number> {
+  const unlinked = debts.filter(debt => !debt.goal_id && debt.balance > 0);
+
+  for (const debt of unlinked) {
+    const { data: goal, error } = await supabase
+      .from('financial_goals')
+      .insert({
+        user_id: userId,
+        title: `Pay off ${debt.name}`,
+        description: `Pay down the ${debt.name} balance at ${debt.apr}% APR`,
+        target_amount: debt.balance,
+        current_amount: 0,
+        deadline: schedule.payoff_dates[debt.id] || null,
+        category: 'Debt Payoff',
+        priority: 'high',
+        status: 'active',
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    const { error: linkError } = await supabase
+      .from('debts')
+      .update({ goal_id: goal.id })
+      .eq('id', debt.id);
+
+    if (linkError) throw linkError;
+  }
+
+  return unlinked.length;
+}
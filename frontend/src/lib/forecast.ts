@@ -0,0 +1,508 @@
+// Cash Flow Forecasting
+// Projects the cash balance of a business or personal book day by day from
+// today's balance: known future items (recurring occurrences, scheduled
+// transactions, open invoices and unpaid bills) plus the average monthly
+// income and spending of each category that is not already covered by a
+// recurring template. Scenarios lay what-if adjustments over that baseline.
+
+import { supabase } from './supabase';
+import type { Json, Tables } from './database.types';
+import { fetchBusinessAccounts, fetchUserAccounts, getCashFlowSection } from './accounts';
+import { fetchBills, getBillBalance, getBillPaymentDate, isBillOpen } from './bills';
+import { fetchInvoices, getInvoiceBalance, isInvoiceOpen } from './invoices';
+import { fetchJournalEntries } from './ledger';
+import type { LedgerBook } from './ledger';
+import {
+  fetchActiveRecurringTransactions,
+  fetchSkippedOccurrences,
+  getOccurrenceDate
+} from './recurring';
+import {
+  expandSplitTransactions,
+  fetchBusinessTransactions,
+  fetchUserTransactions,
+  getCashBalance,
+  getTransactionCategory,
+  toISODate
+} from './reports';
+import type { LedgerTransaction } from './reports';
+import { roundCurrency } from './utils';
+import type { Bill, CashFlowScenario, ForecastAdjustment, Invoice, RecurringTransaction } from '@/types';
+
+const DAYS_PER_MONTH = 30.4375;
+
+// Months of history the category averages are taken over
+export const FORECAST_HISTORY_MONTHS = 3;
+
+export type ForecastGranularity = 'week' | 'month';
+
+// 13 weeks or 12 months ahead
+export const FORECAST_HORIZONS: Record<ForecastGranularity, number> = { week: 13, month: 12 };
+
+export type ForecastSource = 'recurring' | 'scheduled' | 'receivables' | 'payables' | 'average' | 'scenario';
+
+export const FORECAST_SOURCE_LABELS: Record<ForecastSource, string> = {
+  recurring: 'Recurring',
+  scheduled: 'Scheduled',
+  receivables: 'Invoices',
+  payables: 'Bills',
+  average: 'Category averages',
+  scenario: 'Scenario',
+};
+
+export interface ForecastItem {
+  date: string;
+  amount: number; // signed: income positive, spending negative
+  description: string;
+  source: Exclude<ForecastSource, 'average'>;
+}
+
+export interface CategoryAverage {
+  category: string;
+  type: 'income' | 'expense';
+  monthly_amount: number; // signed like ForecastItem
+}
+
+export interface ForecastInputs {
+  as_of: string;
+  starting_balance: number;
+  items: ForecastItem[];
+  averages: CategoryAverage[];
+}
+
+export interface ForecastPeriod {
+  start: string;
+  end: string;
+  inflows: number;
+  outflows: number; // negative
+  net: number;
+  ending_balance: number;
+  by_source: Record<ForecastSource, number>;
+}
+
+export interface CashFlowForecast {
+  granularity: ForecastGranularity;
+  starting_balance: number;
+  periods: ForecastPeriod[];
+  ending_balance: number;
+  lowest_balance: number;
+  lowest_date: string;
+}
+
+export interface CashFlowScenarioInput {
+  name: string;
+  adjustments: ForecastAdjustment[];
+}
+
+const parseISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const signedAmount = (transaction: LedgerTransaction): number => {
+  const amount = Math.abs(Number(transaction.amount));
+  return transaction.type === 'income' ? amount : -amount;
+};
+
+const emptySources = (): Record<ForecastSource, number> => ({
+  recurring: 0,
+  scheduled: 0,
+  receivables: 0,
+  payables: 0,
+  average: 0,
+  scenario: 0,
+});
+
+/**
+ * Forecast periods starting tomorrow: 7-day weeks, or calendar months with
+ * the first one running from tomorrow to the end of this month
+ */
+export function getForecastPeriods(
+  granularity: ForecastGranularity,
+  today: Date = new Date()
+): { start: string; end: string }[] {
+  const periods: { start: string; end: string }[] = [];
+  let cursor = addDays(today, 1);
+
+  for (let i = 0; i < FORECAST_HORIZONS[granularity]; i++) {
+    const end = granularity === 'week'
+      ? addDays(cursor, 6)
+      : new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0);
+    periods.push({ start: toISODate(cursor), end: toISODate(end) });
+    cursor = addDays(end, 1);
+  }
+
+  return periods;
+}
+
+/**
+ * Occurrences recurring templates have not created yet, after one date up to another
+ */
+export function projectRecurringItems(
+  templates: RecurringTransaction[],
+  skipped: Map<string, Set<string>>,
+  after: string,
+  through: string
+): ForecastItem[] {
+  const items: ForecastItem[] = [];
+
+  templates.filter(template => template.is_active).forEach(template => {
+    for (let index = template.next_index; ; index++) {
+      const date = getOccurrenceDate(template, index);
+      if (date > through || (template.end_date && date > template.end_date)) break;
+      if (date <= after || skipped.get(template.id)?.has(date)) continue;
+
+      items.push({
+        date,
+        amount: template.type === 'income' ? template.amount : -template.amount,
+        description: template.description || template.category || 'Recurring transaction',
+        source: 'recurring',
+      });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Open invoice balances as inflows on their due dates and unpaid bills as
+ * outflows on their scheduled or due dates. Anything already late is
+ * expected on the first forecast day.
+ */
+export function projectInvoicesAndBills(invoices: Invoice[], bills: Bill[], after: string): ForecastItem[] {
+  const firstDay = toISODate(addDays(parseISODate(after), 1));
+  const expectedOn = (date: string) => (date > after ? date : firstDay);
+
+  const receivables: ForecastItem[] = invoices
+    .filter(invoice => isInvoiceOpen(invoice))
+    .map(invoice => ({
+      date: expectedOn(invoice.due_date),
+      amount: getInvoiceBalance(invoice),
+      description: `Invoice ${invoice.invoice_number}${invoice.customer ? ` from ${invoice.customer.name}` : ''}`,
+      source: 'receivables',
+    }));
+
+  const payables: ForecastItem[] = bills
+    .filter(bill => isBillOpen(bill))
+    .map(bill => ({
+      date: expectedOn(getBillPaymentDate(bill)),
+      amount: -getBillBalance(bill),
+      description: `Bill ${bill.bill_number ? `${bill.bill_number} ` : ''}to ${bill.vendor?.name || 'vendor'}`,
+      source: 'payables',
+    }));
+
+  return [...receivables, ...payables];
+}
+
+/**
+ * Average monthly amount of each category over the recent history, leaving out
+ * occurrences of recurring templates since those are projected on their own
+ */
+export function getCategoryAverages(
+  transactions: LedgerTransaction[],
+  asOf: string,
+  months: number = FORECAST_HISTORY_MONTHS
+): CategoryAverage[] {
+  const end = parseISODate(asOf);
+  const windowStart = toISODate(new Date(end.getFullYear(), end.getMonth() - months, end.getDate()));
+  const history = transactions.filter(t =>
+    (t.type === 'income' || t.type === 'expense') && t.status !== 'rejected' && t.date <= asOf
+  );
+
+  // A shorter history is averaged over the months it actually covers
+  const firstDate = history.map(t => t.date).sort()[0];
+  if (!firstDate) return [];
+  const covered = (end.getTime() - parseISODate(firstDate).getTime()) / (24 * 60 * 60 * 1000) / DAYS_PER_MONTH;
+  const divisor = Math.min(months, Math.max(covered, 1));
+
+  const totals = new Map<string, CategoryAverage>();
+  expandSplitTransactions(history.filter(t => t.date > windowStart && !t.recurring_transaction_id))
+    .forEach(transaction => {
+      const type = transaction.type as 'income' | 'expense';
+      const category = getTransactionCategory(transaction);
+      const key = `${type}:${category}`;
+      const line = totals.get(key) || { category, type, monthly_amount: 0 };
+      line.monthly_amount += signedAmount(transaction);
+      totals.set(key, line);
+    });
+
+  return [...totals.values()]
+    .map(line => ({ ...line, monthly_amount: roundCurrency(line.monthly_amount / divisor) }))
+    .filter(line => line.monthly_amount !== 0)
+    .sort((a, b) => Math.abs(b.monthly_amount) - Math.abs(a.monthly_amount));
+}
+
+/**
+ * Dated items for a scenario's one-off and monthly adjustments
+ */
+export function expandAdjustments(adjustments: ForecastAdjustment[], after: string, through: string): ForecastItem[] {
+  const items: ForecastItem[] = [];
+
+  adjustments.forEach(adjustment => {
+    if (adjustment.kind === 'one_time') {
+      if (adjustment.start_date > after && adjustment.start_date <= through) {
+        items.push({ date: adjustment.start_date, amount: adjustment.amount, description: adjustment.label, source: 'scenario' });
+      }
+      return;
+    }
+
+    if (adjustment.kind === 'recurring') {
+      const schedule = {
+        frequency: 'monthly' as const,
+        interval_count: 1,
+        interval_unit: 'month' as const,
+        start_date: adjustment.start_date,
+        end_date: adjustment.end_date,
+      };
+      for (let index = 0; ; index++) {
+        const date = getOccurrenceDate(schedule, index);
+        if (date > through || (adjustment.end_date && date > adjustment.end_date)) break;
+        if (date > after) {
+          items.push({ date, amount: adjustment.amount, description: adjustment.label, source: 'scenario' });
+        }
+      }
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Project the cash balance over the forecast periods. Category averages are
+ * spread evenly over the days; percentage adjustments scale income or
+ * spending from their start date.
+ */
+export function buildCashFlowForecast(
+  inputs: ForecastInputs,
+  granularity: ForecastGranularity,
+  adjustments: ForecastAdjustment[] = []
+): CashFlowForecast {
+  const periods = getForecastPeriods(granularity, parseISODate(inputs.as_of));
+  const through = periods[periods.length - 1].end;
+
+  const itemsByDate = new Map<string, ForecastItem[]>();
+  [...inputs.items, ...expandAdjustments(adjustments, inputs.as_of, through)]
+    .filter(item => item.date > inputs.as_of && item.date <= through)
+    .forEach(item => {
+      if (!itemsByDate.has(item.date)) itemsByDate.set(item.date, []);
+      itemsByDate.get(item.date)!.push(item);
+    });
+
+  const dailyAverage = (type: 'income' | 'expense') =>
+    inputs.averages
+      .filter(line => line.type === type)
+      .reduce((sum, line) => sum + line.monthly_amount, 0) / DAYS_PER_MONTH;
+  const dailyIncome = dailyAverage('income');
+  const dailyExpense = dailyAverage('expense');
+
+  const percentChanges = adjustments.filter(adjustment => adjustment.kind === 'percent_change');
+  const factor = (date: string, amount: number) => {
+    const type = amount >= 0 ? 'income' : 'expense';
+    return percentChanges
+      .filter(change => (change.applies_to || 'income') === type)
+      .filter(change => change.start_date <= date && (!change.end_date || date <= change.end_date))
+      .reduce((result, change) => result * (1 + change.amount / 100), 1);
+  };
+
+  let balance = inputs.starting_balance;
+  let lowestBalance = Infinity;
+  let lowestDate = periods[0].start;
+
+  const forecastPeriods = periods.map(period => {
+    const line: ForecastPeriod = {
+      ...period,
+      inflows: 0,
+      outflows: 0,
+      net: 0,
+      ending_balance: 0,
+      by_source: emptySources(),
+    };
+
+    const add = (amount: number, source: ForecastSource) => {
+      if (amount >= 0) line.inflows += amount;
+      else line.outflows += amount;
+      line.by_source[source] += amount;
+      balance += amount;
+    };
+
+    for (let day = parseISODate(period.start); toISODate(day) <= period.end; day = addDays(day, 1)) {
+      const date = toISODate(day);
+
+      (itemsByDate.get(date) || []).forEach(item => {
+        add(item.source === 'scenario' ? item.amount : item.amount * factor(date, item.amount), item.source);
+      });
+      add(dailyIncome * factor(date, 1), 'average');
+      add(dailyExpense * factor(date, -1), 'average');
+
+      if (balance < lowestBalance) {
+        lowestBalance = balance;
+        lowestDate = date;
+      }
+    }
+
+    return {
+      ...line,
+      inflows: roundCurrency(line.inflows),
+      outflows: roundCurrency(line.outflows),
+      net: roundCurrency(line.inflows + line.outflows),
+      ending_balance: roundCurrency(balance),
+      by_source: {
+        recurring: roundCurrency(line.by_source.recurring),
+        scheduled: roundCurrency(line.by_source.scheduled),
+        receivables: roundCurrency(line.by_source.receivables),
+        payables: roundCurrency(line.by_source.payables),
+        average: roundCurrency(line.by_source.average),
+        scenario: roundCurrency(line.by_source.scenario),
+      },
+    };
+  });
+
+  return {
+    granularity,
+    starting_balance: roundCurrency(inputs.starting_balance),
+    periods: forecastPeriods,
+    ending_balance: roundCurrency(balance),
+    lowest_balance: roundCurrency(lowestBalance),
+    lowest_date: lowestDate,
+  };
+}
+
+/**
+ * Load today's cash balance, the known future items and the category
+ * averages of a book. Covers the longest forecast horizon.
+ */
+export async function fetchForecastInputs(book: LedgerBook, today: Date = new Date()): Promise<ForecastInputs> {
+  const asOf = toISODate(today);
+  const monthPeriods = getForecastPeriods('month', today);
+  const through = monthPeriods[monthPeriods.length - 1].end;
+
+  const [accounts, transactions, journalEntries, templates, invoices, bills] = await Promise.all([
+    book.businessId
+      ? fetchBusinessAccounts(book.businessId, { includeInactive: true })
+      : fetchUserAccounts(book.userId!, { includeInactive: true }),
+    book.businessId
+      ? fetchBusinessTransactions(book.businessId, { end: through })
+      : fetchUserTransactions(book.userId!, { end: through }),
+    fetchJournalEntries(book, { end: asOf, source: 'manual' }),
+    fetchActiveRecurringTransactions(book),
+    book.businessId ? fetchInvoices(book.businessId) : Promise.resolve([]),
+    book.businessId ? fetchBills(book.businessId) : Promise.resolve([]),
+  ]);
+  const skipped = await fetchSkippedOccurrences(templates.map(template => template.id));
+
+  const past = transactions.filter(t => t.date <= asOf);
+
+  // Books without a cash account fall back to their net income to date
+  const startingBalance = accounts.some(account => getCashFlowSection(account) === 'cash')
+    ? getCashBalance(accounts, past, asOf, journalEntries)
+    : roundCurrency(past
+      .filter(t => (t.type === 'income' || t.type === 'expense') && t.status !== 'rejected')
+      .reduce((sum, t) => sum + signedAmount(t), 0));
+
+  // Occurrences already created and other future-dated transactions
+  const scheduled: ForecastItem[] = transactions
+    .filter(t => t.date > asOf && (t.type === 'income' || t.type === 'expense') && t.status !== 'rejected')
+    .map(t => ({
+      date: t.date,
+      amount: signedAmount(t),
+      description: t.description || getTransactionCategory(t),
+      source: t.recurring_transaction_id ? 'recurring' : 'scheduled',
+    }));
+
+  return {
+    as_of: asOf,
+    starting_balance: startingBalance,
+    items: [
+      ...scheduled,
+      ...projectRecurringItems(templates, skipped, asOf, through),
+      ...projectInvoicesAndBills(invoices, bills, asOf),
+    ],
+    averages: getCategoryAverages(past, asOf),
+  };
+}
+
+export function validateScenario(input: CashFlowScenarioInput): string | null {
+  if (!input.name.trim()) return 'Scenario name is required';
+  if (input.adjustments.length === 0) return 'Add at least one change to the scenario';
+
+  for (const adjustment of input.adjustments) {
+    if (!adjustment.label.trim()) return 'Every change needs a description';
+    if (isNaN(adjustment.amount) || adjustment.amount === 0) return `Enter an amount for ${adjustment.label}`;
+    if (!adjustment.start_date) return `Choose when ${adjustment.label} starts`;
+    if (adjustment.end_date && adjustment.end_date < adjustment.start_date) {
+      return `${adjustment.label} cannot end before it starts`;
+    }
+  }
+  return null;
+}
+
+export const mapCashFlowScenarioRow = (row: Tables<'cash_flow_scenarios'>): CashFlowScenario => ({
+  id: row.id,
+  user_id: row.user_id,
+  business_id: row.business_id,
+  name: row.name,
+  adjustments: (row.adjustments || []) as unknown as ForecastAdjustment[],
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export async function fetchCashFlowScenarios(book: LedgerBook): Promise<CashFlowScenario[]> {
+  let query = supabase
+    .from('cash_flow_scenarios')
+    .select('*');
+
+  query = book.businessId
+    ? query.eq('business_id', book.businessId)
+    : query.eq('user_id', book.userId!).is('business_id', null);
+
+  const { data, error } = await query.order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(mapCashFlowScenarioRow);
+}
+
+/**
+ * Create a scenario for the book, or update it when scenarioId is given
+ */
+export async function saveCashFlowScenario(
+  book: LedgerBook,
+  userId: string,
+  input: CashFlowScenarioInput,
+  scenarioId?: string
+): Promise<void> {
+  const validationError = validateScenario(input);
+  if (validationError) throw new Error(validationError);
+
+  const values = {
+    name: input.name.trim(),
+    adjustments: input.adjustments.map(adjustment => ({
+      ...adjustment,
+      label: adjustment.label.trim(),
+      end_date: adjustment.end_date || null,
+    })) as unknown as Json,
+  };
+
+  const { error } = scenarioId
+    ? await supabase
+      .from('cash_flow_scenarios')
+      .update(values)
+      .eq('id', scenarioId)
+    : await supabase
+      .from('cash_flow_scenarios')
+      .insert({ ...values, user_id: userId, business_id: book.businessId || null });
+
+  if (error) throw error;
+}
+
+export async function deleteCashFlowScenario(scenarioId: string): Promise<void> {
+  const { error } = await supabase
+    .from('cash_flow_scenarios')
+    .delete()
+    .eq('id', scenarioId);
+
+  if (error) throw error;
+}
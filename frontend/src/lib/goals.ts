@@ -0,0 +1,167 @@
+// Financial Goal Contributions
+// Dated ledger of money added to or taken from a goal. The database keeps the
+// goal's current_amount equal to the sum of its contributions; projections use
+// the average monthly contribution rate so far.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { toISODate } from './reports';
+import { roundCurrency } from './utils';
+import type { GoalContribution, GoalContributionKind } from '@/types';
+
+const DAYS_PER_MONTH = 30.4375;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface GoalContributionInput {
+  amount: number;
+  contribution_date: string;
+  kind?: GoalContributionKind;
+  transaction_id?: string | null;
+  note?: string | null;
+}
+
+export interface GoalProgressPoint {
+  date: string;
+  amount: number; // saved as of the end of this date
+}
+
+export type GoalProjectionStatus = 'complete' | 'on_track' | 'off_track' | 'no_deadline' | 'no_data';
+
+export interface GoalProjection {
+  status: GoalProjectionStatus;
+  monthlyRate: number; // average contributed per month
+  projectedDate: string | null;
+  requiredMonthlyRate: number | null; // needed from today to meet the deadline
+}
+
+interface ProjectableGoal {
+  target_amount: number;
+  current_amount: number;
+  deadline: string | null;
+}
+
+const parseISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const monthsBetween = (from: Date, to: Date): number =>
+  (to.getTime() - from.getTime()) / MS_PER_DAY / DAYS_PER_MONTH;
+
+/**
+ * Running saved total after each day with contributions
+ */
+export function getGoalProgressSeries(contributions: GoalContribution[]): GoalProgressPoint[] {
+  const byDate = new Map<string, number>();
+  contributions.forEach(contribution => {
+    byDate.set(contribution.contribution_date, (byDate.get(contribution.contribution_date) || 0) + contribution.amount);
+  });
+
+  let total = 0;
+  return [...byDate.keys()].sort().map(date => {
+    total = roundCurrency(total + byDate.get(date)!);
+    return { date, amount: total };
+  });
+}
+
+/**
+ * Project when a goal will be reached from its average monthly contribution.
+ * Starting balances and adjustments are left out of the rate.
+ */
+export function projectGoalCompletion(
+  goal: ProjectableGoal,
+  contributions: GoalContribution[],
+  today: Date = new Date()
+): GoalProjection {
+  const remaining = roundCurrency(goal.target_amount - goal.current_amount);
+  const deadline = goal.deadline ? parseISODate(goal.deadline) : null;
+  const requiredMonthlyRate = deadline && remaining > 0
+    ? roundCurrency(remaining / Math.max(monthsBetween(today, deadline), 1))
+    : null;
+
+  const regular = contributions.filter(contribution => contribution.kind === 'contribution');
+  const firstDate = regular.map(contribution => contribution.contribution_date).sort()[0];
+  const contributed = regular.reduce((sum, contribution) => sum + contribution.amount, 0);
+  const monthlyRate = firstDate
+    ? roundCurrency(contributed / Math.max(monthsBetween(parseISODate(firstDate), today), 1))
+    : 0;
+
+  if (remaining <= 0) {
+    return { status: 'complete', monthlyRate, projectedDate: null, requiredMonthlyRate: null };
+  }
+
+  const projectedDate = monthlyRate > 0
+    ? toISODate(new Date(today.getTime() + (remaining / monthlyRate) * DAYS_PER_MONTH * MS_PER_DAY))
+    : null;
+
+  let status: GoalProjectionStatus;
+  if (!deadline) {
+    status = projectedDate ? 'no_deadline' : 'no_data';
+  } else if (!projectedDate) {
+    status = regular.length > 0 ? 'off_track' : 'no_data';
+  } else {
+    status = projectedDate <= goal.deadline! ? 'on_track' : 'off_track';
+  }
+
+  return { status, monthlyRate, projectedDate, requiredMonthlyRate };
+}
+
+export const mapGoalContributionRow = (row: Tables<'goal_contributions'>): GoalContribution => ({
+  id: row.id,
+  goal_id: row.goal_id,
+  user_id: row.user_id,
+  amount: Number(row.amount),
+  contribution_date: row.contribution_date,
+  kind: row.kind as GoalContributionKind,
+  transaction_id: row.transaction_id,
+  note: row.note,
+  created_at: row.created_at,
+});
+
+/**
+ * Load every contribution a user has made, oldest first, grouped by goal
+ */
+export async function fetchGoalContributions(userId: string): Promise<Record<string, GoalContribution[]>> {
+  const { data, error } = await supabase
+    .from('goal_contributions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('contribution_date')
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(mapGoalContributionRow).reduce((groups, contribution) => {
+    (groups[contribution.goal_id] ||= []).push(contribution);
+    return groups;
+  }, {} as Record<string, GoalContribution[]>);
+}
+
+export async function addGoalContribution(
+  goalId: string,
+  userId: string,
+  input: GoalContributionInput
+): Promise<void> {
+  const { error } = await supabase
+    .from('goal_contributions')
+    .insert({
+      goal_id: goalId,
+      user_id: userId,
+      amount: roundCurrency(input.amount),
+      contribution_date: input.contribution_date,
+      kind: input.kind || 'contribution',
+      transaction_id: input.transaction_id || null,
+      note: input.note?.trim() || null,
+    });
+
+  if (error) throw error;
+}
+
+export async function deleteGoalContribution(contributionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('goal_contributions')
+    .delete()
+    .eq('id', contributionId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,510 @@
+// Invoice Documents
+// Branded invoice templates and the PDFs rendered from them. An invoice is
+// printed with its own template or the business's default; a sent invoice
+// that is later voided gets a credit note instead. Rendered files go to the
+// documents bucket under the user's folder and are linked to the invoice.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { PdfDocument, downloadPdf, truncateText, wrapText } from './pdf';
+import { PAYMENT_TERMS, getInvoiceBalance } from './invoices';
+import { formatCurrency, formatDate } from '@/types';
+import type { Invoice, InvoiceTemplate, InvoiceTemplateLayout } from '@/types';
+
+export type InvoiceDocumentKind = 'invoice' | 'credit_note';
+
+export const INVOICE_TEMPLATE_LAYOUTS: { value: InvoiceTemplateLayout; label: string; description: string }[] = [
+  { value: 'classic', label: 'Classic', description: 'Logo and address on the left, title on the right' },
+  { value: 'modern', label: 'Modern', description: 'A full-width colour band across the top' },
+  { value: 'compact', label: 'Compact', description: 'Smaller type that fits long invoices on fewer pages' },
+];
+
+export const DEFAULT_ACCENT_COLOR = '#2563eb';
+
+export interface InvoiceTemplateInput {
+  name: string;
+  layout: InvoiceTemplateLayout;
+  accent_color: string;
+  logo_path?: string | null;
+  payment_instructions?: string | null;
+  notes?: string | null;
+  is_default: boolean;
+}
+
+export interface InvoiceIssuer {
+  name: string;
+  address?: string | null;
+}
+
+// Used when a business has not set up a template yet
+const BUILT_IN_TEMPLATE: Omit<InvoiceTemplate, 'id' | 'business_id'> = {
+  name: 'Standard',
+  layout: 'classic',
+  accent_color: DEFAULT_ACCENT_COLOR,
+  logo_path: null,
+  payment_instructions: null,
+  notes: null,
+  is_default: true,
+};
+
+const LAYOUT_STYLES: Record<InvoiceTemplateLayout, { size: number; rowHeight: number; band: boolean }> = {
+  classic: { size: 10, rowHeight: 20, band: false },
+  modern: { size: 10, rowHeight: 22, band: true },
+  compact: { size: 8.5, rowHeight: 15, band: false },
+};
+
+const MARGIN = 48;
+const LOGO_MAX_WIDTH = 140;
+const LOGO_MAX_HEIGHT = 56;
+const MUTED = '#6b7280';
+const RULE = '#e5e7eb';
+
+export const mapInvoiceTemplateRow = (row: Tables<'invoice_templates'>): InvoiceTemplate => ({
+  id: row.id,
+  business_id: row.business_id,
+  name: row.name,
+  layout: row.layout as InvoiceTemplateLayout,
+  accent_color: row.accent_color,
+  logo_path: row.logo_path,
+  payment_instructions: row.payment_instructions,
+  notes: row.notes,
+  is_default: row.is_default,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * The template an invoice prints with: its own, else the business default
+ */
+export function getInvoiceTemplate(
+  templates: InvoiceTemplate[],
+  templateId?: string | null
+): Omit<InvoiceTemplate, 'id' | 'business_id'> {
+  return templates.find(template => template.id === templateId)
+    || templates.find(template => template.is_default)
+    || BUILT_IN_TEMPLATE;
+}
+
+export const getCreditNoteNumber = (invoice: Pick<Invoice, 'invoice_number'>): string =>
+  `CN-${invoice.invoice_number}`;
+
+/**
+ * A credit note can be issued for an invoice that was sent and then voided
+ */
+export const canIssueCreditNote = (invoice: Invoice): boolean =>
+  invoice.status === 'void' && !!invoice.sent_at;
+
+export function validateInvoiceTemplate(input: InvoiceTemplateInput): string | null {
+  if (!input.name.trim()) return 'Template name is required';
+  if (!/^#[0-9a-fA-F]{6}$/.test(input.accent_color)) return 'Accent colour must be a hex colour like #2563eb';
+  return null;
+}
+
+/**
+ * Lay out an invoice or credit note as a PDF. The logo, when given, must be a JPEG.
+ */
+export function renderInvoicePdf(
+  invoice: Invoice,
+  issuer: InvoiceIssuer,
+  template: Omit<InvoiceTemplate, 'id' | 'business_id'>,
+  options: { kind?: InvoiceDocumentKind; logo?: Uint8Array | null } = {}
+): PdfDocument {
+  const kind = options.kind ?? 'invoice';
+  const isCreditNote = kind === 'credit_note';
+  const style = LAYOUT_STYLES[template.layout] || LAYOUT_STYLES.classic;
+  const accent = template.accent_color || DEFAULT_ACCENT_COLOR;
+  const size = style.size;
+  const title = isCreditNote ? 'CREDIT NOTE' : 'INVOICE';
+  const number = isCreditNote ? getCreditNoteNumber(invoice) : invoice.invoice_number;
+
+  const pdf = new PdfDocument('letter');
+  pdf.setInfo({ title: `${isCreditNote ? 'Credit Note' : 'Invoice'} ${number}`, author: issuer.name });
+  pdf.addPage();
+
+  const right = pdf.width - MARGIN;
+  const contentWidth = right - MARGIN;
+  const bottom = pdf.height - MARGIN - 24;
+  let y = MARGIN;
+
+  // Header: logo or business name, address, and the document title
+  let headerColor = '#111827';
+  if (style.band) {
+    pdf.rect(0, 0, pdf.width, 110, { fill: accent });
+    headerColor = '#ffffff';
+  }
+
+  let logoBottom = y;
+  if (options.logo) {
+    try {
+      const image = pdf.addJpeg(options.logo);
+      const scale = Math.min(LOGO_MAX_WIDTH / image.width, LOGO_MAX_HEIGHT / image.height, 1);
+      pdf.image(image, MARGIN, y - 8, image.width * scale, image.height * scale);
+      logoBottom = y - 8 + image.height * scale + 14;
+    } catch (err) {
+      // A logo that cannot be read is left off rather than failing the invoice
+      console.warn('Could not add logo to invoice:', err);
+    }
+  }
+
+  let issuerY = logoBottom === y ? y + size + 6 : logoBottom;
+  pdf.text(issuer.name, MARGIN, issuerY, { size: size + 4, font: 'bold', color: headerColor });
+  issuerY += size + 4;
+  (issuer.address || '').split(/\r?\n/).filter(Boolean).forEach(line => {
+    pdf.text(line, MARGIN, issuerY, { size, color: style.band ? '#ffffff' : MUTED });
+    issuerY += size + 3;
+  });
+
+  pdf.text(title, right, y + 16, { size: size + 14, font: 'bold', color: style.band ? '#ffffff' : accent, align: 'right' });
+  pdf.text(number, right, y + 34, { size: size + 1, color: headerColor, align: 'right' });
+
+  y = Math.max(issuerY, style.band ? 110 : y + 40) + 24;
+
+  // Bill to and document details
+  const detailsX = MARGIN + contentWidth * 0.6;
+  pdf.text(isCreditNote ? 'CREDIT TO' : 'BILL TO', MARGIN, y, { size: size - 1, font: 'bold', color: MUTED });
+  let billToY = y + size + 6;
+  const customer = invoice.customer;
+  pdf.text(customer?.name || 'Customer', MARGIN, billToY, { size: size + 1, font: 'bold' });
+  billToY += size + 4;
+  [customer?.address, customer?.email, customer?.phone]
+    .filter(Boolean)
+    .flatMap(value => String(value).split(/\r?\n/))
+    .forEach(line => {
+      pdf.text(line, MARGIN, billToY, { size, color: '#374151' });
+      billToY += size + 3;
+    });
+
+  const terms = PAYMENT_TERMS.find(term => term.days === invoice.payment_terms_days)?.label
+    || `Net ${invoice.payment_terms_days}`;
+  const details: [string, string][] = isCreditNote
+    ? [
+      ['Credit date', formatDate(invoice.voided_at || new Date())],
+      ['Original invoice', invoice.invoice_number],
+      ['Invoice date', formatDate(invoice.issue_date)],
+    ]
+    : [
+      ['Invoice date', formatDate(invoice.issue_date)],
+      ['Due date', formatDate(invoice.due_date)],
+      ['Terms', terms],
+    ];
+  let detailsY = y;
+  details.forEach(([label, value]) => {
+    pdf.text(label, detailsX, detailsY, { size, color: MUTED });
+    pdf.text(value, right, detailsY, { size, font: 'bold', align: 'right' });
+    detailsY += size + 7;
+  });
+
+  y = Math.max(billToY, detailsY) + 18;
+
+  // Line items
+  const columns = [
+    { label: 'Description', x: MARGIN + 6, align: 'left' as const },
+    { label: 'Qty', x: MARGIN + contentWidth * 0.58, align: 'right' as const },
+    { label: 'Price', x: MARGIN + contentWidth * 0.72, align: 'right' as const },
+    { label: 'Tax', x: MARGIN + contentWidth * 0.82, align: 'right' as const },
+    { label: 'Amount', x: right - 6, align: 'right' as const },
+  ];
+  const descriptionWidth = contentWidth * 0.5;
+
+  // Compact keeps the header row plain so the page stays light
+  const filledHeader = template.layout !== 'compact';
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y, contentWidth, style.rowHeight, { fill: filledHeader ? accent : '#f3f4f6' });
+    const headerText = filledHeader ? '#ffffff' : '#111827';
+    columns.forEach(column => {
+      pdf.text(column.label, column.x, y + style.rowHeight / 2 + size / 3, {
+        size: size - 0.5, font: 'bold', color: headerText, align: column.align,
+      });
+    });
+    y += style.rowHeight;
+  };
+
+  drawTableHeader();
+  invoice.line_items.forEach(line => {
+    const descriptionLines = wrapText(line.description, descriptionWidth, size);
+    const rowHeight = Math.max(style.rowHeight, descriptionLines.length * (size + 3) + 8);
+    if (y + rowHeight > bottom) {
+      pdf.addPage();
+      y = MARGIN;
+      drawTableHeader();
+    }
+
+    const baseline = y + size + 4;
+    descriptionLines.forEach((text, index) => pdf.text(text, columns[0].x, baseline + index * (size + 3), { size }));
+    const discount = line.discount_percent > 0 ? ` (-${line.discount_percent}%)` : '';
+    pdf.text(String(line.quantity), columns[1].x, baseline, { size, align: 'right' });
+    pdf.text(`${formatCurrency(line.unit_price)}${discount}`, columns[2].x, baseline, { size, align: 'right' });
+    pdf.text(line.tax_rate > 0 ? `${line.tax_rate}%` : '—', columns[3].x, baseline, { size, align: 'right', color: MUTED });
+    pdf.text(formatCurrency(line.amount), columns[4].x, baseline, { size, align: 'right' });
+    y += rowHeight;
+    pdf.line(MARGIN, y, right, y, { color: RULE });
+  });
+
+  // Totals
+  const totals: [string, number, boolean][] = [['Subtotal', invoice.subtotal, false]];
+  if (invoice.discount_total > 0) totals.push(['Discounts', -invoice.discount_total, false]);
+  if (invoice.tax_total > 0) totals.push(['Tax', invoice.tax_total, false]);
+  if (isCreditNote) {
+    totals.push(['Total credit', invoice.total, true]);
+  } else {
+    totals.push(['Total', invoice.total, true]);
+    if (invoice.amount_paid > 0) totals.push(['Amount paid', -invoice.amount_paid, false]);
+    totals.push(['Balance due', getInvoiceBalance(invoice), true]);
+  }
+
+  if (y + totals.length * (size + 9) + 16 > bottom) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  y += 16;
+  const labelX = MARGIN + contentWidth * 0.62;
+  totals.forEach(([label, amount, emphasis]) => {
+    if (emphasis) {
+      pdf.line(labelX, y - size - 2, right, y - size - 2, { color: accent, width: 1 });
+    }
+    pdf.text(label, labelX, y, { size, font: emphasis ? 'bold' : 'regular', color: emphasis ? '#111827' : MUTED });
+    pdf.text(formatCurrency(amount), right - 6, y, { size: emphasis ? size + 1 : size, font: emphasis ? 'bold' : 'regular', align: 'right' });
+    y += size + 9;
+  });
+
+  // Payment instructions and notes
+  const sections: [string, string][] = [];
+  if (isCreditNote) {
+    sections.push(['About this credit', `Invoice ${invoice.invoice_number} has been cancelled and nothing further is owed on it.`]);
+  } else if (template.payment_instructions) {
+    sections.push(['Payment instructions', template.payment_instructions]);
+  }
+  const notes = [invoice.notes, template.notes].filter(Boolean).join('\n\n');
+  if (notes) sections.push(['Notes', notes]);
+
+  y += 12;
+  sections.forEach(([heading, body]) => {
+    const lines = wrapText(body, contentWidth, size);
+    if (y + (lines.length + 1) * (size + 4) > bottom) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    pdf.text(heading, MARGIN, y, { size, font: 'bold', color: accent });
+    y += size + 6;
+    lines.forEach(line => {
+      pdf.text(line, MARGIN, y, { size, color: '#374151' });
+      y += size + 4;
+    });
+    y += 10;
+  });
+
+  // Footers once the page count is known
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.setPage(page);
+    const footerY = pdf.height - MARGIN + 12;
+    pdf.line(MARGIN, footerY - 14, right, footerY - 14, { color: RULE });
+    const footer = truncateText(`${issuer.name} • ${title.charAt(0)}${title.slice(1).toLowerCase()} ${number}`, contentWidth * 0.7, size - 2);
+    pdf.text(footer, MARGIN, footerY, { size: size - 2, color: MUTED });
+    const pageLabel = `Page ${page + 1} of ${pdf.pageCount}`;
+    pdf.text(pageLabel, right, footerY, { size: size - 2, color: MUTED, align: 'right' });
+  }
+
+  return pdf;
+}
+
+// Converts any image the browser can show into JPEG bytes for the PDF
+const toJpeg = async (blob: Blob): Promise<Uint8Array> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not prepare the logo');
+
+  // JPEG has no transparency, so transparent logos go on white
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0);
+
+  const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  if (!jpeg) throw new Error('Could not prepare the logo');
+  return new Uint8Array(await jpeg.arrayBuffer());
+};
+
+/**
+ * Download a template's logo from storage as JPEG bytes, or null when it cannot be used
+ */
+export async function loadTemplateLogo(logoPath?: string | null): Promise<Uint8Array | null> {
+  if (!logoPath) return null;
+
+  try {
+    const { data, error } = await supabase.storage.from('documents').download(logoPath);
+    if (error) throw error;
+    return await toJpeg(data);
+  } catch (err) {
+    console.warn('Could not load invoice logo:', err);
+    return null;
+  }
+}
+
+export async function fetchInvoiceTemplates(businessId: string): Promise<InvoiceTemplate[]> {
+  const { data, error } = await supabase
+    .from('invoice_templates')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('is_default', { ascending: false })
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapInvoiceTemplateRow);
+}
+
+/**
+ * Create a template, or update one when templateId is given. Making it the
+ * default takes that from the business's other templates.
+ */
+export async function saveInvoiceTemplate(
+  businessId: string,
+  input: InvoiceTemplateInput,
+  templateId?: string
+): Promise<void> {
+  const validationError = validateInvoiceTemplate(input);
+  if (validationError) throw new Error(validationError);
+
+  if (input.is_default) {
+    let query = supabase
+      .from('invoice_templates')
+      .update({ is_default: false })
+      .eq('business_id', businessId)
+      .eq('is_default', true);
+    if (templateId) query = query.neq('id', templateId);
+
+    const { error: defaultError } = await query;
+    if (defaultError) throw defaultError;
+  }
+
+  const values = {
+    name: input.name.trim(),
+    layout: input.layout,
+    accent_color: input.accent_color.toLowerCase(),
+    logo_path: input.logo_path || null,
+    payment_instructions: input.payment_instructions?.trim() || null,
+    notes: input.notes?.trim() || null,
+    is_default: input.is_default,
+  };
+
+  const { error } = templateId
+    ? await supabase.from('invoice_templates').update(values).eq('id', templateId)
+    : await supabase.from('invoice_templates').insert({ ...values, business_id: businessId });
+
+  if (error) throw error;
+}
+
+export async function deleteInvoiceTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invoice_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
+
+/**
+ * Upload a logo image to the user's folder and return its storage path
+ */
+export async function uploadTemplateLogo(userId: string, file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('The logo must be an image');
+
+  const filePath = `${userId}/branding/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+  const { error } = await supabase.storage
+    .from('documents')
+    .upload(filePath, file);
+
+  if (error) throw error;
+
+  return filePath;
+}
+
+/**
+ * Render an invoice and download it without storing it, e.g. to check a draft
+ */
+export async function downloadInvoicePdf(
+  invoice: Invoice,
+  issuer: InvoiceIssuer,
+  template: Omit<InvoiceTemplate, 'id' | 'business_id'>
+): Promise<void> {
+  const logo = await loadTemplateLogo(template.logo_path);
+  downloadPdf(renderInvoicePdf(invoice, issuer, template, { logo }), `Invoice_${invoice.invoice_number}`);
+}
+
+/**
+ * Render an invoice or credit note, store it in the documents bucket and link
+ * it to the invoice, replacing any earlier rendering. Returns the file path.
+ */
+export async function generateInvoiceDocument(
+  invoice: Invoice,
+  issuer: InvoiceIssuer,
+  template: Omit<InvoiceTemplate, 'id' | 'business_id'>,
+  userId: string,
+  kind: InvoiceDocumentKind = 'invoice'
+): Promise<string> {
+  if (kind === 'credit_note' && !canIssueCreditNote(invoice)) {
+    throw new Error('Credit notes are only issued for sent invoices that have been voided');
+  }
+
+  const logo = await loadTemplateLogo(template.logo_path);
+  const bytes = renderInvoicePdf(invoice, issuer, template, { kind, logo }).toBytes();
+
+  const isCreditNote = kind === 'credit_note';
+  const number = isCreditNote ? getCreditNoteNumber(invoice) : invoice.invoice_number;
+  const filename = `${isCreditNote ? 'Credit_Note' : 'Invoice'}_${number.replace(/[^a-zA-Z0-9.-]/g, '_')}.pdf`;
+  // Documents live under the uploader's folder, as the storage policies require
+  const filePath = `${userId}/invoices/${invoice.id}/${filename}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(filePath, new Blob([bytes], { type: 'application/pdf' }), { upsert: true, contentType: 'application/pdf' });
+
+  if (uploadError) throw uploadError;
+
+  const existingId = isCreditNote ? invoice.credit_note_document_id : invoice.pdf_document_id;
+  const documentValues = {
+    filename,
+    file_path: filePath,
+    file_size: bytes.length,
+    file_type: 'PDF',
+    category: 'Invoices',
+  };
+
+  let documentId = existingId;
+  if (documentId) {
+    const { error } = await supabase
+      .from('documents')
+      .update(documentValues)
+      .eq('id', documentId);
+
+    if (error) throw error;
+  } else {
+    const { data, error } = await supabase
+      .from('documents')
+      .insert({ ...documentValues, business_id: userId, uploaded_by: userId })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    documentId = data.id;
+  }
+
+  const { error: linkError } = await supabase
+    .from('invoices')
+    .update(isCreditNote
+      ? { credit_note_document_id: documentId }
+      : { pdf_document_id: documentId, pdf_generated_at: new Date().toISOString() })
+    .eq('id', invoice.id);
+
+  if (linkError) throw linkError;
+
+  return filePath;
+}
+
+/**
+ * Public link to a stored invoice document
+ */
+export const getInvoiceDocumentUrl = (filePath: string): string =>
+  supabase.storage.from('documents').getPublicUrl(filePath).data.publicUrl;
@@ -0,0 +1,464 @@
+// Accounts Receivable
+// Customers and itemized invoices for a business. Invoice totals are worked
+// out here from the line items; payments are recorded through the database,
+// which posts each one as an income transaction and keeps the invoice's
+// amount paid and status current.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { buildAgingReport } from './aging';
+import type { AgingReport } from './aging';
+import { toISODate } from './reports';
+import { roundCurrency } from './utils';
+import type { Customer, Invoice, InvoiceLineItem, InvoicePayment, InvoiceStatus } from '@/types';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  void: 'Void',
+};
+
+export const INVOICE_STATUS_VARIANTS: Record<
+  InvoiceStatus,
+  'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' | 'info'
+> = {
+  draft: 'secondary',
+  sent: 'info',
+  partially_paid: 'warning',
+  paid: 'success',
+  overdue: 'destructive',
+  void: 'outline',
+};
+
+export const PAYMENT_TERMS: { days: number; label: string }[] = [
+  { days: 0, label: 'Due on receipt' },
+  { days: 15, label: 'Net 15' },
+  { days: 30, label: 'Net 30' },
+  { days: 45, label: 'Net 45' },
+  { days: 60, label: 'Net 60' },
+];
+
+export const PAYMENT_METHODS = ['Bank transfer', 'Check', 'Card', 'Cash', 'Other'];
+
+export type InvoiceLineInput = Pick<
+  InvoiceLineItem,
+  'description' | 'quantity' | 'unit_price' | 'discount_percent' | 'tax_rate'
+>;
+
+export interface InvoiceInput {
+  customer_id: string;
+  invoice_number: string;
+  issue_date: string;
+  payment_terms_days: number;
+  due_date: string;
+  notes?: string | null;
+  template_id?: string | null; // the business's default template when empty
+  line_items: InvoiceLineInput[];
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount_total: number;
+  tax_total: number;
+  total: number;
+}
+
+export interface CustomerInput {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  payment_terms_days: number;
+  notes?: string | null;
+}
+
+export interface InvoicePaymentInput {
+  amount: number;
+  payment_date: string;
+  method?: string | null;
+  reference?: string | null;
+  account_id?: string | null; // where the money was deposited; the default account when empty
+}
+
+/**
+ * Quantity times price less the line discount, before tax
+ */
+export const calculateLineAmount = (line: InvoiceLineInput): number =>
+  roundCurrency(line.quantity * line.unit_price * (1 - line.discount_percent / 100));
+
+export function calculateInvoiceTotals(lines: InvoiceLineInput[]): InvoiceTotals {
+  let subtotal = 0;
+  let discountTotal = 0;
+  let taxTotal = 0;
+
+  lines.forEach(line => {
+    const gross = roundCurrency(line.quantity * line.unit_price);
+    const net = calculateLineAmount(line);
+    subtotal += gross;
+    discountTotal += gross - net;
+    taxTotal += roundCurrency(net * line.tax_rate / 100);
+  });
+
+  return {
+    subtotal: roundCurrency(subtotal),
+    discount_total: roundCurrency(discountTotal),
+    tax_total: roundCurrency(taxTotal),
+    total: roundCurrency(subtotal - discountTotal + taxTotal),
+  };
+}
+
+export function getDueDate(issueDate: string, termsDays: number): string {
+  const [year, month, day] = issueDate.split('-').map(Number);
+  return toISODate(new Date(year, month - 1, day + termsDays));
+}
+
+export const getInvoiceBalance = (invoice: Pick<Invoice, 'total' | 'amount_paid'>): number =>
+  roundCurrency(invoice.total - invoice.amount_paid);
+
+/**
+ * Status as of today, the same way the database derives it, so invoices
+ * that fell due since the nightly update already show as overdue
+ */
+export function getInvoiceStatus(invoice: Invoice, today: string = toISODate(new Date())): InvoiceStatus {
+  if (invoice.status === 'draft' || invoice.status === 'void') return invoice.status;
+  if (invoice.amount_paid >= invoice.total) return 'paid';
+  if (invoice.due_date < today) return 'overdue';
+  if (invoice.amount_paid > 0) return 'partially_paid';
+  return 'sent';
+}
+
+// Issued and not yet fully paid
+export const isInvoiceOpen = (invoice: Invoice): boolean =>
+  invoice.status !== 'draft' && invoice.status !== 'void' && getInvoiceBalance(invoice) > 0;
+
+/**
+ * Next number in the INV-0001 sequence after the highest one used
+ */
+export function getNextInvoiceNumber(invoices: Pick<Invoice, 'invoice_number'>[]): string {
+  const highest = invoices.reduce((max, invoice) => {
+    const match = invoice.invoice_number.match(/(\d+)$/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `INV-${String(highest + 1).padStart(4, '0')}`;
+}
+
+export function validateInvoice(input: InvoiceInput): string | null {
+  if (!input.customer_id) return 'Choose a customer';
+  if (!input.invoice_number.trim()) return 'Invoice number is required';
+  if (!input.issue_date || !input.due_date) return 'Issue and due dates are required';
+  if (input.due_date < input.issue_date) return 'The due date cannot be before the issue date';
+  if (input.line_items.length === 0) return 'Add at least one line item';
+
+  for (const line of input.line_items) {
+    if (!line.description.trim()) return 'Every line item needs a description';
+    if (isNaN(line.quantity) || line.quantity <= 0) return `Quantity for ${line.description} must be greater than 0`;
+    if (isNaN(line.unit_price) || line.unit_price < 0) return `Price for ${line.description} cannot be negative`;
+    if (line.discount_percent < 0 || line.discount_percent > 100) return 'Discounts must be between 0 and 100%';
+    if (line.tax_rate < 0 || line.tax_rate > 100) return 'Tax rates must be between 0 and 100%';
+  }
+  return null;
+}
+
+/**
+ * Aging of the open invoices' balances by customer
+ */
+export function buildReceivablesAging(invoices: Invoice[], asOf: string = toISODate(new Date())): AgingReport {
+  return buildAgingReport(
+    invoices.filter(isInvoiceOpen).map(invoice => ({
+      party_id: invoice.customer_id,
+      party_name: invoice.customer?.name || 'Unknown customer',
+      document_id: invoice.id,
+      document_number: invoice.invoice_number,
+      due_date: invoice.due_date,
+      balance: getInvoiceBalance(invoice),
+    })),
+    asOf
+  );
+}
+
+type InvoiceRow = Tables<'invoices'> & {
+  customer?: Tables<'customers'> | null;
+  invoice_line_items?: Tables<'invoice_line_items'>[];
+  invoice_payments?: Tables<'invoice_payments'>[];
+  pdf_document?: Pick<Tables<'documents'>, 'file_path'> | null;
+  credit_note_document?: Pick<Tables<'documents'>, 'file_path'> | null;
+};
+
+export const mapCustomerRow = (row: Tables<'customers'>): Customer => ({
+  id: row.id,
+  business_id: row.business_id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone,
+  address: row.address,
+  payment_terms_days: row.payment_terms_days,
+  notes: row.notes,
+  is_active: row.is_active,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const mapLineItemRow = (row: Tables<'invoice_line_items'>): InvoiceLineItem => ({
+  id: row.id,
+  invoice_id: row.invoice_id,
+  description: row.description,
+  quantity: Number(row.quantity),
+  unit_price: Number(row.unit_price),
+  discount_percent: Number(row.discount_percent),
+  tax_rate: Number(row.tax_rate),
+  amount: Number(row.amount),
+  line_order: row.line_order,
+});
+
+const mapPaymentRow = (row: Tables<'invoice_payments'>): InvoicePayment => ({
+  id: row.id,
+  invoice_id: row.invoice_id,
+  payment_date: row.payment_date,
+  amount: Number(row.amount),
+  method: row.method,
+  reference: row.reference,
+  transaction_id: row.transaction_id,
+  created_at: row.created_at,
+});
+
+export const mapInvoiceRow = (row: InvoiceRow): Invoice => ({
+  id: row.id,
+  business_id: row.business_id,
+  customer_id: row.customer_id,
+  customer: row.customer ? mapCustomerRow(row.customer) : undefined,
+  invoice_number: row.invoice_number,
+  issue_date: row.issue_date,
+  due_date: row.due_date,
+  payment_terms_days: row.payment_terms_days,
+  status: row.status as InvoiceStatus,
+  subtotal: Number(row.subtotal),
+  discount_total: Number(row.discount_total),
+  tax_total: Number(row.tax_total),
+  total: Number(row.total),
+  amount_paid: Number(row.amount_paid),
+  notes: row.notes,
+  sent_at: row.sent_at,
+  voided_at: row.voided_at,
+  template_id: row.template_id,
+  pdf_document_id: row.pdf_document_id,
+  pdf_file_path: row.pdf_document?.file_path,
+  pdf_generated_at: row.pdf_generated_at,
+  credit_note_document_id: row.credit_note_document_id,
+  credit_note_file_path: row.credit_note_document?.file_path,
+  line_items: (row.invoice_line_items || [])
+    .map(mapLineItemRow)
+    .sort((a: InvoiceLineItem, b: InvoiceLineItem) => (a.line_order || 0) - (b.line_order || 0)),
+  payments: (row.invoice_payments || [])
+    .map(mapPaymentRow)
+    .sort((a: InvoicePayment, b: InvoicePayment) => a.payment_date.localeCompare(b.payment_date)),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export async function fetchCustomers(
+  businessId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<Customer[]> {
+  let query = supabase
+    .from('customers')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('name');
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(mapCustomerRow);
+}
+
+/**
+ * Create a customer, or update it when customerId is given
+ */
+export async function saveCustomer(businessId: string, input: CustomerInput, customerId?: string): Promise<void> {
+  if (!input.name.trim()) throw new Error('Customer name is required');
+
+  const values = {
+    name: input.name.trim(),
+    email: input.email?.trim() || null,
+    phone: input.phone?.trim() || null,
+    address: input.address?.trim() || null,
+    payment_terms_days: input.payment_terms_days,
+    notes: input.notes?.trim() || null,
+  };
+
+  const { error } = customerId
+    ? await supabase.from('customers').update(values).eq('id', customerId)
+    : await supabase.from('customers').insert({ ...values, business_id: businessId });
+
+  if (error) throw error;
+}
+
+export async function setCustomerActive(customerId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('customers')
+    .update({ is_active: isActive })
+    .eq('id', customerId);
+
+  if (error) throw error;
+}
+
+/**
+ * Load a business's invoices with their customer, line items, payments and
+ * rendered PDFs, newest first
+ */
+export async function fetchInvoices(businessId: string): Promise<Invoice[]> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, customer:customers(*), invoice_line_items(*), invoice_payments(*), pdf_document:documents!invoices_pdf_document_id_fkey(file_path), credit_note_document:documents!invoices_credit_note_document_id_fkey(file_path)')
+    .eq('business_id', businessId)
+    .order('issue_date', { ascending: false })
+    .order('invoice_number', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapInvoiceRow);
+}
+
+/**
+ * Create a draft invoice, or update one when invoiceId is given. The line
+ * items are replaced and the totals recalculated.
+ */
+export async function saveInvoice(
+  businessId: string,
+  userId: string,
+  input: InvoiceInput,
+  invoiceId?: string
+): Promise<string> {
+  const validationError = validateInvoice(input);
+  if (validationError) throw new Error(validationError);
+
+  const values = {
+    customer_id: input.customer_id,
+    invoice_number: input.invoice_number.trim(),
+    issue_date: input.issue_date,
+    due_date: input.due_date,
+    payment_terms_days: input.payment_terms_days,
+    notes: input.notes?.trim() || null,
+    template_id: input.template_id || null,
+    ...calculateInvoiceTotals(input.line_items),
+  };
+
+  let id = invoiceId;
+  if (id) {
+    const { error } = await supabase
+      .from('invoices')
+      .update(values)
+      .eq('id', id);
+
+    if (error) throw error;
+
+    const { error: deleteError } = await supabase
+      .from('invoice_line_items')
+      .delete()
+      .eq('invoice_id', id);
+
+    if (deleteError) throw deleteError;
+  } else {
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({ ...values, business_id: businessId, status: 'draft', created_by: userId })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    id = data.id;
+  }
+
+  const { error: linesError } = await supabase
+    .from('invoice_line_items')
+    .insert(input.line_items.map((line, index) => ({
+      invoice_id: id!,
+      description: line.description.trim(),
+      quantity: line.quantity,
+      unit_price: roundCurrency(line.unit_price),
+      discount_percent: line.discount_percent,
+      tax_rate: line.tax_rate,
+      amount: calculateLineAmount(line),
+      line_order: index,
+    })));
+
+  if (linesError) throw linesError;
+
+  return id!;
+}
+
+/**
+ * Mark a draft as sent to the customer; it then counts as receivable
+ */
+export async function sendInvoice(invoiceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', invoiceId);
+
+  if (error) throw error;
+}
+
+export async function voidInvoice(invoiceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status: 'void', voided_at: new Date().toISOString() })
+    .eq('id', invoiceId);
+
+  if (error) throw error;
+}
+
+export async function deleteInvoice(invoiceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invoices')
+    .delete()
+    .eq('id', invoiceId);
+
+  if (error) throw error;
+}
+
+/**
+ * Record a payment; the database posts it as an income transaction
+ */
+export async function recordInvoicePayment(invoiceId: string, input: InvoicePaymentInput): Promise<string> {
+  const { data, error } = await supabase.rpc('record_invoice_payment', {
+    p_invoice_id: invoiceId,
+    p_amount: roundCurrency(input.amount),
+    p_payment_date: input.payment_date,
+    p_method: input.method || undefined,
+    p_reference: input.reference?.trim() || undefined,
+    p_account_id: input.account_id || undefined,
+  });
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Remove a payment along with the income transaction it posted
+ */
+export async function deleteInvoicePayment(paymentId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_invoice_payment', { p_payment_id: paymentId });
+
+  if (error) throw error;
+}
+
+/**
+ * Flag invoices that fell due since the last nightly run
+ */
+export async function markOverdueInvoices(): Promise<number> {
+  const { data, error } = await supabase.rpc('mark_overdue_invoices');
+
+  if (error) throw error;
+
+  return data || 0;
+}
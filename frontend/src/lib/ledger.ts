@@ -0,0 +1,229 @@
+// General Ledger
+// Journal entries with balanced debit and credit lines against the chart of accounts.
+// Transactions are posted to the ledger by the database as they are saved;
+// accountants add manual and adjusting entries on top.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { isDebitNormal } from './accounts';
+import { roundCurrency } from './utils';
+import type {
+  Account,
+  AdjustmentType,
+  JournalEntry,
+  JournalEntrySource,
+  JournalLine,
+} from '@/types';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+// Book a journal entry belongs to: a business or a personal user
+export interface LedgerBook {
+  businessId?: string;
+  userId?: string;
+}
+
+export interface JournalEntryFilters {
+  start?: string;
+  end?: string;
+  source?: JournalEntrySource;
+}
+
+export interface ManualJournalEntryInput {
+  entry_date: string;
+  memo: string;
+  reference?: string;
+  document_id?: string | null;
+  adjustment_type?: AdjustmentType | null;
+  lines: JournalLine[];
+}
+
+export const ADJUSTMENT_TYPES: { value: AdjustmentType; label: string }[] = [
+  { value: 'accrual', label: 'Accrual' },
+  { value: 'deferral', label: 'Deferral' },
+  { value: 'depreciation', label: 'Depreciation' },
+  { value: 'reclassification', label: 'Reclassification' },
+  { value: 'correction', label: 'Correction' },
+  { value: 'other', label: 'Other' },
+];
+
+export interface JournalTotals {
+  debits: number;
+  credits: number;
+  difference: number; // debits - credits
+  is_balanced: boolean;
+}
+
+type JournalEntryRow = Tables<'journal_entries'> & {
+  journal_lines?: Tables<'journal_lines'>[];
+};
+
+export const mapJournalEntryRow = (row: JournalEntryRow): JournalEntry => ({
+  id: row.id,
+  business_id: row.business_id,
+  user_id: row.user_id,
+  transaction_id: row.transaction_id,
+  entry_date: row.entry_date,
+  memo: row.memo,
+  reference: row.reference,
+  source: row.source as JournalEntrySource,
+  adjustment_type: row.adjustment_type as AdjustmentType | null,
+  document_id: row.document_id,
+  created_by: row.created_by,
+  lines: (row.journal_lines || [])
+    .map(line => ({
+      id: line.id,
+      journal_entry_id: line.journal_entry_id,
+      account_id: line.account_id,
+      debit: Number(line.debit || 0),
+      credit: Number(line.credit || 0),
+      description: line.description,
+      line_order: line.line_order,
+    }))
+    .sort((a: JournalLine, b: JournalLine) => (a.line_order || 0) - (b.line_order || 0)),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Total the debits and credits of a set of lines.
+ * An entry can only be posted when both sides are equal and non-zero.
+ */
+export function summarizeJournalLines(lines: Pick<JournalLine, 'debit' | 'credit'>[]): JournalTotals {
+  const debits = roundCurrency(lines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0));
+  const credits = roundCurrency(lines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0));
+  const difference = roundCurrency(debits - credits);
+
+  return {
+    debits,
+    credits,
+    difference,
+    is_balanced: difference === 0 && debits > 0,
+  };
+}
+
+/**
+ * Check a manual entry before posting.
+ * Returns a message describing the first problem, or null when it can be posted.
+ */
+export function validateJournalEntry(entry: ManualJournalEntryInput): string | null {
+  if (!entry.entry_date) return 'Entry date is required';
+  if (!entry.memo.trim()) return 'A memo explaining the entry is required';
+  if (entry.lines.length < 2) return 'A journal entry needs at least two lines';
+
+  for (const [index, line] of entry.lines.entries()) {
+    if (!line.account_id) return `Line ${index + 1} needs an account`;
+    if (line.debit < 0 || line.credit < 0) return `Line ${index + 1} has a negative amount`;
+    if ((line.debit > 0) === (line.credit > 0)) {
+      return `Line ${index + 1} must have either a debit or a credit`;
+    }
+  }
+
+  const totals = summarizeJournalLines(entry.lines);
+  if (!totals.is_balanced) {
+    return `Debits and credits must be equal (difference ${totals.difference.toFixed(2)})`;
+  }
+
+  return null;
+}
+
+/**
+ * Net each account's posted lines in the direction of its normal balance.
+ * Opening balances are not included; they live on the account itself.
+ */
+export function computeLedgerBalances(
+  accounts: Account[],
+  entries: JournalEntry[]
+): Map<string, number> {
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+  const balances = new Map<string, number>(accounts.map(account => [account.id, 0]));
+
+  entries.forEach(entry => {
+    entry.lines.forEach(line => {
+      const account = accountsById.get(line.account_id);
+      if (!account) return;
+
+      const net = isDebitNormal(account.type) ? line.debit - line.credit : line.credit - line.debit;
+      balances.set(account.id, roundCurrency((balances.get(account.id) || 0) + net));
+    });
+  });
+
+  return balances;
+}
+
+/**
+ * Load the journal entries of a book with their lines, oldest first.
+ * Without filters the full ledger is loaded.
+ */
+export async function fetchJournalEntries(
+  book: LedgerBook,
+  filters: JournalEntryFilters = {}
+): Promise<JournalEntry[]> {
+  const entries: JournalEntry[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('journal_entries')
+      .select('*, journal_lines(*)');
+
+    query = book.businessId
+      ? query.eq('business_id', book.businessId)
+      : query.eq('user_id', book.userId!);
+
+    if (filters.start) {
+      query = query.gte('entry_date', filters.start);
+    }
+    if (filters.end) {
+      query = query.lte('entry_date', filters.end);
+    }
+    if (filters.source) {
+      query = query.eq('source', filters.source);
+    }
+
+    const { data, error } = await query
+      .order('entry_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    entries.push(...(data || []).map(mapJournalEntryRow));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Post a manual or adjusting entry to a business ledger.
+ * The entry and its lines are written together; the database rejects unbalanced entries.
+ */
+export async function postJournalEntry(
+  businessId: string,
+  entry: ManualJournalEntryInput
+): Promise<string> {
+  const validationError = validateJournalEntry(entry);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase.rpc('post_journal_entry', {
+    p_business_id: businessId,
+    p_entry_date: entry.entry_date,
+    p_memo: entry.memo.trim(),
+    p_reference: entry.reference?.trim() || null,
+    p_document_id: entry.document_id || null,
+    p_adjustment_type: entry.adjustment_type || null,
+    p_lines: entry.lines.map(line => ({
+      account_id: line.account_id,
+      debit: roundCurrency(line.debit),
+      credit: roundCurrency(line.credit),
+      description: line.description || null,
+    })),
+  });
+
+  if (error) throw error;
+
+  return data;
+}
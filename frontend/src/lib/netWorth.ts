@@ -0,0 +1,261 @@
+// Net Worth
+// Personal asset and liability accounts valued over time. Bank and card
+// accounts follow the transactions posted to them; investments and property
+// take the latest balance the user recorded on or before each date.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { fetchUserAccounts, getAccountSubtypeLabel } from './accounts';
+import { fetchJournalEntries } from './ledger';
+import { fetchUserTransactions, rollForwardBalances, toISODate } from './reports';
+import type { LedgerTransaction } from './reports';
+import { roundCurrency } from './utils';
+import type { Account, AccountBalanceSnapshot, AccountBalanceSource, JournalEntry } from '@/types';
+
+export interface NetWorthAccountKind {
+  subtype: string;
+  type: 'asset' | 'liability';
+  label: string;
+  balance_source: AccountBalanceSource; // suggested when the account is created
+}
+
+export const NET_WORTH_ACCOUNT_KINDS: NetWorthAccountKind[] = [
+  { subtype: 'checking', type: 'asset', label: 'Checking', balance_source: 'ledger' },
+  { subtype: 'savings', type: 'asset', label: 'Savings', balance_source: 'ledger' },
+  { subtype: 'credit_card', type: 'liability', label: 'Credit Card', balance_source: 'ledger' },
+  { subtype: 'loan', type: 'liability', label: 'Loan', balance_source: 'manual' },
+  { subtype: 'investment', type: 'asset', label: 'Investment', balance_source: 'manual' },
+  { subtype: 'property', type: 'asset', label: 'Property', balance_source: 'manual' },
+];
+
+export interface NetWorthPoint {
+  date: string;
+  assets: number;
+  liabilities: number;
+  net_worth: number;
+}
+
+export interface NetWorthBreakdownLine {
+  subtype: string;
+  type: 'asset' | 'liability';
+  label: string;
+  total: number;
+  account_count: number;
+}
+
+export interface NetWorthData {
+  accounts: Account[];
+  snapshots: AccountBalanceSnapshot[];
+  transactions: LedgerTransaction[];
+  journalEntries: JournalEntry[];
+}
+
+export interface NetWorthAccountInput {
+  name: string;
+  subtype: string;
+  balance_source: AccountBalanceSource;
+  balance: number;
+  as_of: string;
+}
+
+export const getNetWorthAccountKind = (subtype: string): NetWorthAccountKind | undefined =>
+  NET_WORTH_ACCOUNT_KINDS.find(kind => kind.subtype === subtype);
+
+export const isNetWorthAccount = (account: Account): boolean => {
+  const kind = getNetWorthAccountKind(account.subtype);
+  return !!kind && kind.type === account.type;
+};
+
+/**
+ * Last day of each of the previous months followed by today, oldest first
+ */
+export function getMonthEndDates(months: number, today: Date = new Date()): string[] {
+  const dates: string[] = [];
+  for (let offset = months - 1; offset >= 1; offset--) {
+    dates.push(toISODate(new Date(today.getFullYear(), today.getMonth() - offset + 1, 0)));
+  }
+  dates.push(toISODate(today));
+  return dates;
+}
+
+/**
+ * Latest recorded balance on or before the date; null before the first snapshot
+ */
+export function getSnapshotBalance(
+  accountId: string,
+  snapshots: AccountBalanceSnapshot[],
+  asOf: string
+): number | null {
+  const latest = snapshots
+    .filter(snapshot => snapshot.account_id === accountId && snapshot.snapshot_date <= asOf)
+    .sort((a, b) => b.snapshot_date.localeCompare(a.snapshot_date))[0];
+  return latest ? latest.balance : null;
+}
+
+/**
+ * Balance of every net worth account as of a date. Ledger accounts are rolled
+ * forward from their opening balance; manual accounts use their snapshots.
+ */
+export function getAccountBalances(data: NetWorthData, asOf: string): Map<string, number> {
+  const ledgerAccounts = data.accounts.filter(account => account.balance_source !== 'manual');
+  const { balances: rolled } = rollForwardBalances(ledgerAccounts, data.transactions, asOf, data.journalEntries);
+
+  return new Map(data.accounts.map(account => {
+    if (account.balance_source === 'manual') {
+      return [account.id, getSnapshotBalance(account.id, data.snapshots, asOf) ?? 0];
+    }
+    // Accounts opened after the date did not exist yet
+    if (account.opening_balance_date && account.opening_balance_date > asOf) {
+      return [account.id, 0];
+    }
+    return [account.id, roundCurrency(rolled.get(account.id)?.amount || 0)];
+  }));
+}
+
+export function summarizeNetWorth(accounts: Account[], balances: Map<string, number>, date: string): NetWorthPoint {
+  const total = (type: Account['type']) => roundCurrency(accounts
+    .filter(account => account.type === type)
+    .reduce((sum, account) => sum + (balances.get(account.id) || 0), 0));
+
+  const assets = total('asset');
+  const liabilities = total('liability');
+  return { date, assets, liabilities, net_worth: roundCurrency(assets - liabilities) };
+}
+
+export function buildNetWorthTimeline(data: NetWorthData, dates: string[]): NetWorthPoint[] {
+  return dates.map(date => summarizeNetWorth(data.accounts, getAccountBalances(data, date), date));
+}
+
+/**
+ * Totals by account kind, assets first
+ */
+export function getNetWorthBreakdown(accounts: Account[], balances: Map<string, number>): NetWorthBreakdownLine[] {
+  return NET_WORTH_ACCOUNT_KINDS
+    .map(kind => {
+      const ofKind = accounts.filter(account => account.subtype === kind.subtype && account.type === kind.type);
+      return {
+        subtype: kind.subtype,
+        type: kind.type,
+        label: kind.label,
+        total: roundCurrency(ofKind.reduce((sum, account) => sum + (balances.get(account.id) || 0), 0)),
+        account_count: ofKind.length,
+      };
+    })
+    .filter(line => line.account_count > 0)
+    .sort((a, b) => (a.type === b.type ? 0 : a.type === 'asset' ? -1 : 1));
+}
+
+/**
+ * Change between the last two points of a timeline, or null without history
+ */
+export function getNetWorthChange(timeline: NetWorthPoint[]): { amount: number; percent: number | null } | null {
+  if (timeline.length < 2) return null;
+  const previous = timeline[timeline.length - 2].net_worth;
+  const current = timeline[timeline.length - 1].net_worth;
+  const amount = roundCurrency(current - previous);
+  return { amount, percent: previous !== 0 ? (amount / Math.abs(previous)) * 100 : null };
+}
+
+export const getNetWorthAccountLabel = (account: Account): string =>
+  getNetWorthAccountKind(account.subtype)?.label || getAccountSubtypeLabel(account.type, account.subtype);
+
+export const mapAccountBalanceSnapshotRow = (row: Tables<'account_balance_snapshots'>): AccountBalanceSnapshot => ({
+  id: row.id,
+  account_id: row.account_id,
+  snapshot_date: row.snapshot_date,
+  balance: Number(row.balance),
+  note: row.note,
+  created_at: row.created_at,
+});
+
+export async function fetchBalanceSnapshots(accountIds: string[]): Promise<AccountBalanceSnapshot[]> {
+  if (accountIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('account_balance_snapshots')
+    .select('*')
+    .in('account_id', accountIds)
+    .order('snapshot_date');
+
+  if (error) throw error;
+
+  return (data || []).map(mapAccountBalanceSnapshotRow);
+}
+
+/**
+ * Load everything needed to value a user's accounts up to today
+ */
+export async function fetchNetWorthData(userId: string): Promise<NetWorthData> {
+  const accounts = (await fetchUserAccounts(userId)).filter(isNetWorthAccount);
+
+  const [snapshots, transactions, journalEntries] = await Promise.all([
+    fetchBalanceSnapshots(accounts.map(account => account.id)),
+    fetchUserTransactions(userId, { end: toISODate(new Date()) }),
+    fetchJournalEntries({ userId }, { source: 'manual' }),
+  ]);
+
+  return { accounts, snapshots, transactions, journalEntries };
+}
+
+/**
+ * Record an account's balance on a date, replacing one already recorded that day
+ */
+export async function recordBalanceSnapshot(
+  accountId: string,
+  snapshot: { snapshot_date: string; balance: number; note?: string | null },
+  userId?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('account_balance_snapshots')
+    .upsert({
+      account_id: accountId,
+      snapshot_date: snapshot.snapshot_date,
+      balance: roundCurrency(snapshot.balance),
+      note: snapshot.note?.trim() || null,
+      created_by: userId || null,
+    }, { onConflict: 'account_id,snapshot_date' });
+
+  if (error) throw error;
+}
+
+export async function deleteBalanceSnapshot(snapshotId: string): Promise<void> {
+  const { error } = await supabase
+    .from('account_balance_snapshots')
+    .delete()
+    .eq('id', snapshotId);
+
+  if (error) throw error;
+}
+
+/**
+ * Add a personal account. Ledger accounts open at the given balance and
+ * follow their transactions from then on; manual accounts start with a snapshot.
+ */
+export async function createNetWorthAccount(userId: string, input: NetWorthAccountInput): Promise<void> {
+  const kind = getNetWorthAccountKind(input.subtype);
+  if (!kind) throw new Error('Choose an account type');
+  if (!input.name.trim()) throw new Error('Account name is required');
+
+  const isManual = input.balance_source === 'manual';
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .insert({
+      user_id: userId,
+      business_id: null,
+      name: input.name.trim(),
+      type: kind.type,
+      subtype: kind.subtype,
+      balance_source: input.balance_source,
+      opening_balance: isManual ? 0 : roundCurrency(input.balance),
+      opening_balance_date: isManual ? null : input.as_of,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  if (isManual) {
+    await recordBalanceSnapshot(data.id, { snapshot_date: input.as_of, balance: input.balance }, userId);
+  }
+}
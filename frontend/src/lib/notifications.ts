@@ -0,0 +1,55 @@
+// Notifications
+// In-app messages for a user, such as a scheduled report waiting for review.
+// They are written by the database; users can only read and dismiss theirs.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import type { AppNotification } from '@/types';
+
+const mapNotificationRow = (row: Tables<'notifications'>): AppNotification => ({
+  id: row.id,
+  user_id: row.user_id,
+  type: row.type,
+  title: row.title,
+  message: row.message,
+  link: row.link,
+  report_id: row.report_id,
+  read_at: row.read_at,
+  created_at: row.created_at || '',
+});
+
+/**
+ * A user's most recent notifications, newest first
+ */
+export async function fetchNotifications(userId: string, limit = 20): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map(mapNotificationRow);
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
@@ -0,0 +1,440 @@
+// PDF Writer
+// A small vector PDF builder for documents SwiftBooks renders itself, such as
+// invoices and reports. It uses the standard Helvetica fonts, so no font files
+// are embedded, and supports text, lines, filled rectangles and JPEG images.
+// Positions are in points measured from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfPageSize = 'letter' | 'a4';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: string; // hex, e.g. '#1f2937'
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfLineOptions {
+  color?: string;
+  width?: number;
+  dash?: number[];
+}
+
+export interface PdfRectOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+export const PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+  letter: { width: 612, height: 792 },
+  a4: { width: 595.28, height: 841.89 },
+};
+
+// Helvetica advance widths for the printable ASCII characters (32-126), in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Typographic characters outside Latin-1 that WinAnsiEncoding can still show,
+// with their code and regular/bold widths
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  '€': [0x80, 556, 556],
+  '…': [0x85, 1000, 1000],
+  '‘': [0x91, 222, 278],
+  '’': [0x92, 222, 278],
+  '“': [0x93, 333, 500],
+  '”': [0x94, 333, 500],
+  '•': [0x95, 350, 350],
+  '–': [0x96, 556, 556],
+  '—': [0x97, 1000, 1000],
+  '™': [0x99, 1000, 1000],
+};
+
+const FONT_RESOURCE: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+const charWidth = (char: string, font: PdfFont): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  const extra = WIN_ANSI_EXTRAS[char];
+  if (extra) return font === 'bold' ? extra[2] : extra[1];
+  return 556;
+};
+
+/**
+ * Width of a string in points when set in the given font and size
+ */
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  let total = 0;
+  for (const char of text) total += charWidth(char, font);
+  return (total * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, keeping explicit line breaks.
+ * Words longer than a line are cut.
+ */
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+/**
+ * Shorten text with an ellipsis so it fits within maxWidth
+ */
+export function truncateText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.slice(0, end)}…`, size, font) > maxWidth) end--;
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+// Encodes text as a PDF literal string in WinAnsiEncoding
+const encodeText = (text: string): string => {
+  let out = '';
+  for (const char of text) {
+    let code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char]) {
+      code = WIN_ANSI_EXTRAS[char][0];
+    } else if (code > 255 || (code > 126 && code < 160)) {
+      code = 63; // '?'
+    }
+
+    if (code === 40 || code === 41 || code === 92) {
+      out += `\\${String.fromCharCode(code)}`;
+    } else if (code < 32 || code > 126) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return `(${out})`;
+};
+
+const num = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const colorOperands = (hex: string): string => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.padEnd(6, '0');
+  return [0, 2, 4]
+    .map(i => num(parseInt(full.slice(i, i + 2), 16) / 255 || 0))
+    .join(' ');
+};
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+// Reads the frame size from a JPEG's start-of-frame marker
+const readJpegInfo = (bytes: Uint8Array): JpegInfo => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Image is not a JPEG');
+  }
+
+  let i = 2;
+  while (i < bytes.length) {
+    if (bytes[i] !== 0xff) {
+      i++;
+      continue;
+    }
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    const length = (bytes[i + 2] << 8) | bytes[i + 3];
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      return {
+        height: (bytes[i + 5] << 8) | bytes[i + 6],
+        width: (bytes[i + 7] << 8) | bytes[i + 8],
+        components: bytes[i + 9],
+      };
+    }
+    i += 2 + length;
+  }
+
+  throw new Error('Could not read the JPEG image size');
+};
+
+interface ImageEntry extends PdfImage {
+  data: Uint8Array;
+  components: number;
+}
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private current = -1;
+  private images: ImageEntry[] = [];
+  private info: PdfInfo = {};
+
+  constructor(size: PdfPageSize = 'letter') {
+    this.width = PAGE_SIZES[size].width;
+    this.height = PAGE_SIZES[size].height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get pageIndex(): number {
+    return this.current;
+  }
+
+  /**
+   * Start a new page and make it the one drawn on. Returns its index.
+   */
+  addPage(): number {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  /**
+   * Draw on an earlier page, e.g. to add "page N of M" footers once all pages exist
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`Page ${index + 1} does not exist`);
+    this.current = index;
+  }
+
+  setInfo(info: PdfInfo): void {
+    this.info = { ...this.info, ...info };
+  }
+
+  private write(operation: string): void {
+    if (this.current < 0) this.addPage();
+    this.pages[this.current].push(operation);
+  }
+
+  /**
+   * Draw a single line of text with its baseline at y
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.font ?? 'regular';
+    let left = x;
+    if (options.align === 'right') left = x - textWidth(text, size, font);
+    if (options.align === 'center') left = x - textWidth(text, size, font) / 2;
+
+    this.write(
+      `BT ${colorOperands(options.color ?? '#111827')} rg /${FONT_RESOURCE[font]} ${num(size)} Tf ` +
+      `${num(left)} ${num(this.height - y)} Td ${encodeText(text)} Tj ET`
+    );
+  }
+
+  /**
+   * Draw wrapped text starting with its first baseline at y. Returns the y
+   * just below the last line.
+   */
+  paragraph(text: string, x: number, y: number, maxWidth: number, options: PdfTextOptions & { lineHeight?: number } = {}): number {
+    const size = options.size ?? 10;
+    const lineHeight = options.lineHeight ?? size * 1.35;
+    const lines = wrapText(text, maxWidth, size, options.font);
+    lines.forEach((line, index) => this.text(line, x, y + index * lineHeight, options));
+    return y + lines.length * lineHeight;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfLineOptions = {}): void {
+    const dash = options.dash ? `[${options.dash.map(num).join(' ')}] 0 d ` : '';
+    this.write(
+      `q ${colorOperands(options.color ?? '#d1d5db')} RG ${num(options.width ?? 0.75)} w ${dash}` +
+      `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S Q`
+    );
+  }
+
+  /**
+   * Draw a rectangle whose top-left corner is at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, options: PdfRectOptions = {}): void {
+    const fill = options.fill ? `${colorOperands(options.fill)} rg ` : '';
+    const stroke = options.stroke ? `${colorOperands(options.stroke)} RG ${num(options.lineWidth ?? 0.75)} w ` : '';
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+    this.write(`q ${fill}${stroke}${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re ${paint} Q`);
+  }
+
+  /**
+   * Add a JPEG to the document so it can be drawn with image()
+   */
+  addJpeg(data: Uint8Array): PdfImage {
+    const info = readJpegInfo(data);
+    const entry: ImageEntry = { name: `Im${this.images.length + 1}`, data, ...info };
+    this.images.push(entry);
+    return { name: entry.name, width: entry.width, height: entry.height };
+  }
+
+  /**
+   * Draw an image with its top-left corner at (x, y)
+   */
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    this.write(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /${image.name} Do Q`);
+  }
+
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    // Object numbers: catalog, page tree, two fonts, images, then a page and its content per page, then info
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const infoObject = firstPage + this.pages.length * 2;
+    const objectCount = infoObject;
+
+    const beginObject = (id: number) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n`);
+    };
+
+    push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+    beginObject(1);
+    push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    const kids = this.pages.map((_, index) => `${firstPage + index * 2} 0 R`).join(' ');
+    beginObject(2);
+    push(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>\nendobj\n`);
+
+    beginObject(3);
+    push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+    beginObject(4);
+    push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    this.images.forEach((image, index) => {
+      const colorSpace = image.components === 1 ? '/DeviceGray' : image.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      beginObject(firstImage + index);
+      push(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+      );
+      push(image.data);
+      push('\nendstream\nendobj\n');
+    });
+
+    const xObjects = this.images.length > 0
+      ? ` /XObject << ${this.images.map((image, index) => `/${image.name} ${firstImage + index} 0 R`).join(' ')} >>`
+      : '';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = firstPage + index * 2;
+      const content = operations.join('\n');
+
+      beginObject(pageId);
+      push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+      );
+      beginObject(pageId + 1);
+      push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    });
+
+    const infoEntries = [
+      this.info.title && `/Title ${encodeText(this.info.title)}`,
+      this.info.author && `/Author ${encodeText(this.info.author)}`,
+      this.info.subject && `/Subject ${encodeText(this.info.subject)}`,
+      '/Producer (SwiftBooks)',
+    ].filter(Boolean).join(' ');
+    beginObject(infoObject);
+    push(`<< ${infoEntries} >>\nendobj\n`);
+
+    const xrefOffset = length;
+    push(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+      push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info ${infoObject} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return output;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toBytes()], { type: 'application/pdf' });
+  }
+}
+
+/**
+ * Start a browser download of a finished PDF
+ */
+export function downloadPdf(pdf: PdfDocument, filename: string): void {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(pdf.toBlob());
+  link.download = filename.endsWith('.pdf') ? filename : `${filename}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
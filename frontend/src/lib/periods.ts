@@ -0,0 +1,116 @@
+// Period Close
+// Accountants close months and quarters per business; the database rejects
+// changes to transactions and journal entries dated in a closed period.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { toISODate } from './reports';
+import type { PeriodClose, PeriodType, ReportDateRange } from '@/types';
+
+export interface ClosablePeriod extends ReportDateRange {
+  type: PeriodType;
+  label: string;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * List the most recent completed months or quarters, newest first
+ */
+export function getRecentPeriods(
+  type: PeriodType,
+  count: number,
+  referenceDate: Date = new Date()
+): ClosablePeriod[] {
+  const monthsPerPeriod = type === 'quarter' ? 3 : 1;
+  const currentStartMonth = Math.floor(referenceDate.getMonth() / monthsPerPeriod) * monthsPerPeriod;
+  const periods: ClosablePeriod[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const start = new Date(referenceDate.getFullYear(), currentStartMonth - i * monthsPerPeriod, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + monthsPerPeriod, 0);
+    const label = type === 'quarter'
+      ? `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`
+      : `${MONTH_NAMES[start.getMonth()]} ${start.getFullYear()}`;
+
+    periods.push({ type, label, start: toISODate(start), end: toISODate(end) });
+  }
+
+  return periods;
+}
+
+/**
+ * Find the closed period a date falls in, if any
+ */
+export function findClosedPeriod(closes: PeriodClose[], date: string): PeriodClose | undefined {
+  return closes.find(close =>
+    close.status === 'closed' && date >= close.period_start && date <= close.period_end
+  );
+}
+
+export const mapPeriodCloseRow = (row: Tables<'period_closes'>): PeriodClose => ({
+  id: row.id,
+  business_id: row.business_id,
+  period_type: row.period_type as PeriodType,
+  period_start: row.period_start,
+  period_end: row.period_end,
+  status: row.status as 'closed' | 'reopened',
+  closed_by: row.closed_by,
+  closed_at: row.closed_at,
+  reopened_by: row.reopened_by,
+  reopened_at: row.reopened_at,
+  reopen_reason: row.reopen_reason,
+});
+
+/**
+ * Load the close history of a business, most recent period first
+ */
+export async function fetchPeriodCloses(businessId: string): Promise<PeriodClose[]> {
+  const { data, error } = await supabase
+    .from('period_closes')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('period_start', { ascending: false })
+    .order('closed_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapPeriodCloseRow);
+}
+
+export async function closePeriod(
+  businessId: string,
+  period: ClosablePeriod,
+  userId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('period_closes')
+    .insert({
+      business_id: businessId,
+      period_type: period.type,
+      period_start: period.start,
+      period_end: period.end,
+      closed_by: userId,
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Reopen a closed period. The reason and the reopening user are kept on the record.
+ */
+export async function reopenPeriod(periodCloseId: string, reason: string): Promise<void> {
+  if (!reason.trim()) {
+    throw new Error('A reason is required to reopen a closed period');
+  }
+
+  const { error } = await supabase.rpc('reopen_period', {
+    p_period_close_id: periodCloseId,
+    p_reason: reason.trim(),
+  });
+
+  if (error) throw error;
+}
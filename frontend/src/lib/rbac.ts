@@ -6,6 +6,8 @@ export type Permission = 'create' | 'read' | 'update' | 'delete' | '*';
 export type Resource = 
   | 'financial_data'
   | 'transactions' 
+  | 'journal_entries'
+  | 'reconciliations'
   | 'reports'
   | 'documents'
   | 'meetings'
@@ -39,6 +41,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
     // Accountant can manage client data and provide services
     financial_data: ['read', 'update'],
     transactions: ['create', 'read', 'update', 'delete'],
+    journal_entries: ['create', 'read'], // Manual and adjusting entries; posted entries are not edited
+    reconciliations: ['create', 'read'], // Completed reconciliations are kept as a record
     reports: ['create', 'read', 'update', 'delete'],
     documents: ['read', 'update'], // Can review and update client documents
     meetings: ['create', 'read', 'update', 'delete'],
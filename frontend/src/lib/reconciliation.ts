@@ -0,0 +1,181 @@
+// Bank Reconciliation
+// Matches the transactions that moved through a bank or card account against
+// the bank statement. A reconciliation balances when the cleared transactions
+// take the account from its last reconciled balance to the statement ending balance.
+
+import { supabase } from './supabase';
+import type { Json, Tables } from './database.types';
+import { createAccountResolver, isBeforeOpening } from './reports';
+import type { LedgerTransaction } from './reports';
+import { roundCurrency } from './utils';
+import type { Account, Reconciliation, ReconciliationLine, ReconciliationReport } from '@/types';
+
+export interface ReconciliationSummary {
+  cleared_deposits: number;
+  cleared_payments: number;
+  cleared_balance: number;
+  difference: number; // statement ending balance - cleared balance
+  is_balanced: boolean;
+}
+
+/**
+ * List how each transaction moved the balance of an account, oldest first.
+ * Transactions without an account fall back to the default account, as in the ledger.
+ */
+export function getAccountActivity(
+  account: Account,
+  accounts: Account[],
+  transactions: LedgerTransaction[]
+): ReconciliationLine[] {
+  const resolver = createAccountResolver(accounts);
+  // Assets grow with money in; liabilities such as cards grow with money out
+  const direction = account.type === 'asset' ? 1 : -1;
+  const lines: ReconciliationLine[] = [];
+
+  transactions
+    .filter(t => t.status !== 'rejected' && !isBeforeOpening(account, t.date))
+    .forEach(transaction => {
+      const amount = Math.abs(Number(transaction.amount));
+      const source = resolver.source(transaction.account_id);
+      let moneyIn = 0;
+
+      if (transaction.type === 'income' && source?.id === account.id) moneyIn = amount;
+      if (transaction.type === 'expense' && source?.id === account.id) moneyIn = -amount;
+      if (transaction.type === 'transfer') {
+        if (source?.id === account.id) moneyIn -= amount;
+        if (transaction.transfer_account_id === account.id) moneyIn += amount;
+      }
+
+      if (moneyIn !== 0) {
+        lines.push({
+          transaction_id: transaction.id,
+          date: transaction.date,
+          description: transaction.description || '',
+          amount: roundCurrency(moneyIn * direction),
+        });
+      }
+    });
+
+  return lines.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function summarizeReconciliation(
+  beginningBalance: number,
+  statementEndingBalance: number,
+  lines: ReconciliationLine[],
+  clearedIds: Set<string>
+): ReconciliationSummary {
+  const cleared = lines.filter(line => clearedIds.has(line.transaction_id));
+  const deposits = cleared.filter(line => line.amount > 0).reduce((sum, line) => sum + line.amount, 0);
+  const payments = cleared.filter(line => line.amount < 0).reduce((sum, line) => sum + line.amount, 0);
+  const clearedBalance = roundCurrency(beginningBalance + deposits + payments);
+  const difference = roundCurrency(statementEndingBalance - clearedBalance);
+
+  return {
+    cleared_deposits: roundCurrency(deposits),
+    cleared_payments: roundCurrency(payments),
+    cleared_balance: clearedBalance,
+    difference,
+    is_balanced: difference === 0,
+  };
+}
+
+/**
+ * Record the cleared and outstanding items at the time of completion
+ */
+export function buildReconciliationReport(
+  beginningBalance: number,
+  statementEndingBalance: number,
+  lines: ReconciliationLine[],
+  clearedIds: Set<string>
+): ReconciliationReport {
+  const summary = summarizeReconciliation(beginningBalance, statementEndingBalance, lines, clearedIds);
+  const outstanding = lines.filter(line => !clearedIds.has(line.transaction_id));
+
+  return {
+    beginning_balance: beginningBalance,
+    cleared_deposits: summary.cleared_deposits,
+    cleared_payments: summary.cleared_payments,
+    cleared_balance: summary.cleared_balance,
+    statement_ending_balance: statementEndingBalance,
+    difference: summary.difference,
+    book_balance: roundCurrency(summary.cleared_balance + outstanding.reduce((sum, line) => sum + line.amount, 0)),
+    cleared: lines.filter(line => clearedIds.has(line.transaction_id)),
+    outstanding,
+  };
+}
+
+export const mapReconciliationRow = (row: Tables<'reconciliations'>): Reconciliation => ({
+  id: row.id,
+  business_id: row.business_id,
+  account_id: row.account_id,
+  statement_date: row.statement_date,
+  beginning_balance: Number(row.beginning_balance),
+  statement_ending_balance: Number(row.statement_ending_balance),
+  cleared_balance: Number(row.cleared_balance),
+  report: row.report as unknown as ReconciliationReport,
+  reconciled_by: row.reconciled_by,
+  completed_at: row.completed_at,
+});
+
+/**
+ * Load the completed reconciliations of a business, most recent statement first
+ */
+export async function fetchReconciliations(businessId: string): Promise<Reconciliation[]> {
+  const { data, error } = await supabase
+    .from('reconciliations')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('statement_date', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapReconciliationRow);
+}
+
+/**
+ * Load the ids of every reconciled transaction of a business
+ */
+export async function fetchReconciledTransactionIds(businessId: string): Promise<Set<string>> {
+  const reconciliations = await fetchReconciliations(businessId);
+  if (reconciliations.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('reconciliation_items')
+    .select('transaction_id')
+    .in('reconciliation_id', reconciliations.map(r => r.id));
+
+  if (error) throw error;
+
+  return new Set((data || []).map(item => item.transaction_id));
+}
+
+/**
+ * The balance a new reconciliation of the account starts from
+ */
+export function getBeginningBalance(account: Account, reconciliations: Reconciliation[]): number {
+  const previous = reconciliations
+    .filter(r => r.account_id === account.id)
+    .sort((a, b) => b.statement_date.localeCompare(a.statement_date))[0];
+
+  return previous ? previous.statement_ending_balance : account.opening_balance;
+}
+
+export async function completeReconciliation(
+  accountId: string,
+  statementDate: string,
+  statementEndingBalance: number,
+  report: ReconciliationReport
+): Promise<string> {
+  const { data, error } = await supabase.rpc('complete_reconciliation', {
+    p_account_id: accountId,
+    p_statement_date: statementDate,
+    p_statement_ending_balance: statementEndingBalance,
+    p_transaction_ids: report.cleared.map(line => line.transaction_id),
+    p_report: report as unknown as Json,
+  });
+
+  if (error) throw error;
+
+  return data;
+}
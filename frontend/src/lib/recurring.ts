@@ -0,0 +1,309 @@
+// Recurring Transactions
+// Templates for repeating income and expenses. The database scheduler turns
+// them into ordinary transactions as they fall due; occurrences can then be
+// edited one at a time, and upcoming ones skipped ahead of time.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { toISODate } from './reports';
+import type { LedgerBook } from './ledger';
+import type { RecurringFrequency, RecurringIntervalUnit, RecurringTransaction } from '@/types';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const RECURRING_INTERVAL_UNITS: { value: RecurringIntervalUnit; label: string }[] = [
+  { value: 'day', label: 'Days' },
+  { value: 'week', label: 'Weeks' },
+  { value: 'month', label: 'Months' },
+  { value: 'year', label: 'Years' },
+];
+
+// How far ahead upcoming occurrences are listed
+export const RECURRING_HORIZON_DAYS = 30;
+
+export type RecurringSchedule = Pick<
+  RecurringTransaction,
+  'frequency' | 'interval_count' | 'interval_unit' | 'start_date' | 'end_date'
+>;
+
+export type RecurringTransactionInput = Omit<
+  RecurringTransaction,
+  'id' | 'next_index' | 'is_active' | 'created_at' | 'updated_at'
+>;
+
+// An occurrence of a template that falls after today and is not yet a transaction
+export interface UpcomingOccurrence {
+  recurring_transaction_id: string;
+  occurrence_date: string;
+  date: string;
+  amount: number;
+  type: string;
+  description: string | null;
+  category: string | null;
+}
+
+const parseISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Adds months the way Postgres does, keeping to the last day of shorter months
+const addMonths = (date: Date, months: number): Date => {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Date of the nth occurrence of a schedule (0 = start date), matching the
+ * database's recurring_occurrence_date
+ */
+export function getOccurrenceDate(schedule: RecurringSchedule, index: number): string {
+  const start = parseISODate(schedule.start_date);
+  const every = schedule.interval_count * index;
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      return toISODate(addDays(start, 7 * index));
+    case 'biweekly':
+      return toISODate(addDays(start, 14 * index));
+    case 'monthly':
+      return toISODate(addMonths(start, index));
+    case 'quarterly':
+      return toISODate(addMonths(start, 3 * index));
+    case 'yearly':
+      return toISODate(addMonths(start, 12 * index));
+    case 'custom':
+    default:
+      if (schedule.interval_unit === 'day') return toISODate(addDays(start, every));
+      if (schedule.interval_unit === 'week') return toISODate(addDays(start, 7 * every));
+      if (schedule.interval_unit === 'year') return toISODate(addMonths(start, 12 * every));
+      return toISODate(addMonths(start, every));
+  }
+}
+
+/**
+ * The first few dates of a schedule, stopping at its end date
+ */
+export function previewOccurrences(schedule: RecurringSchedule, count: number): string[] {
+  const dates: string[] = [];
+  for (let index = 0; dates.length < count; index++) {
+    const date = getOccurrenceDate(schedule, index);
+    if (schedule.end_date && date > schedule.end_date) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+export function describeSchedule(schedule: RecurringSchedule): string {
+  const label = schedule.frequency === 'custom'
+    ? `Every ${schedule.interval_count} ${schedule.interval_unit}${schedule.interval_count === 1 ? '' : 's'}`
+    : RECURRING_FREQUENCIES.find(f => f.value === schedule.frequency)?.label || schedule.frequency;
+
+  return schedule.end_date ? `${label} until ${schedule.end_date}` : label;
+}
+
+export const mapRecurringTransactionRow = (row: Tables<'recurring_transactions'>): RecurringTransaction => ({
+  id: row.id,
+  user_id: row.user_id,
+  business_id: row.business_id,
+  type: row.type as 'income' | 'expense',
+  amount: Number(row.amount),
+  description: row.description,
+  category: row.category,
+  account_id: row.account_id,
+  tags: row.tags || [],
+  frequency: row.frequency as RecurringFrequency,
+  interval_count: row.interval_count,
+  interval_unit: row.interval_unit as RecurringIntervalUnit,
+  start_date: row.start_date,
+  end_date: row.end_date,
+  next_index: row.next_index,
+  is_active: row.is_active,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Load a user's personal recurring templates, active ones first
+ */
+export async function fetchRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .is('business_id', null)
+    .order('is_active', { ascending: false })
+    .order('start_date');
+
+  if (error) throw error;
+
+  return (data || []).map(mapRecurringTransactionRow);
+}
+
+/**
+ * Load the active templates of a business or personal book
+ */
+export async function fetchActiveRecurringTransactions(book: LedgerBook): Promise<RecurringTransaction[]> {
+  let query = supabase
+    .from('recurring_transactions')
+    .select('*')
+    .eq('is_active', true);
+
+  query = book.businessId
+    ? query.eq('business_id', book.businessId)
+    : query.eq('user_id', book.userId!).is('business_id', null);
+
+  const { data, error } = await query.order('start_date');
+
+  if (error) throw error;
+
+  return (data || []).map(mapRecurringTransactionRow);
+}
+
+/**
+ * Occurrence dates skipped ahead of time, keyed by template
+ */
+export async function fetchSkippedOccurrences(recurringTransactionIds: string[]): Promise<Map<string, Set<string>>> {
+  const skipped = new Map<string, Set<string>>();
+  if (recurringTransactionIds.length === 0) return skipped;
+
+  const { data, error } = await supabase
+    .from('recurring_transaction_skips')
+    .select('recurring_transaction_id, occurrence_date')
+    .in('recurring_transaction_id', recurringTransactionIds);
+
+  if (error) throw error;
+
+  (data || []).forEach(row => {
+    if (!skipped.has(row.recurring_transaction_id)) {
+      skipped.set(row.recurring_transaction_id, new Set());
+    }
+    skipped.get(row.recurring_transaction_id)!.add(row.occurrence_date);
+  });
+
+  return skipped;
+}
+
+/**
+ * Create the occurrences due up to today. Returns how many were created.
+ */
+export async function generateRecurringTransactions(): Promise<number> {
+  const { data, error } = await supabase.rpc('generate_recurring_transactions', {
+    p_through: toISODate(new Date()),
+  });
+
+  if (error) throw error;
+
+  return data || 0;
+}
+
+/**
+ * Save a new template and create the occurrences that are already due
+ */
+export async function createRecurringTransaction(input: RecurringTransactionInput): Promise<RecurringTransaction> {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .insert({
+      ...input,
+      amount: Math.abs(input.amount),
+      interval_count: input.frequency === 'custom' ? input.interval_count : 1,
+      end_date: input.end_date || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await generateRecurringTransactions();
+
+  return mapRecurringTransactionRow(data);
+}
+
+/**
+ * Stop a template. Occurrences already created stay; those still ahead of
+ * today are removed unless they were edited into past dates.
+ */
+export async function stopRecurringTransaction(recurringTransactionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_transactions')
+    .update({ is_active: false })
+    .eq('id', recurringTransactionId);
+
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase
+    .from('transactions')
+    .delete()
+    .eq('recurring_transaction_id', recurringTransactionId)
+    .gt('date', toISODate(new Date()));
+
+  if (deleteError) throw deleteError;
+}
+
+export async function skipOccurrence(recurringTransactionId: string, occurrenceDate: string): Promise<void> {
+  const { error } = await supabase.rpc('skip_recurring_occurrence', {
+    p_recurring_transaction_id: recurringTransactionId,
+    p_occurrence_date: occurrenceDate,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Occurrences of the templates after one date up to another that have not
+ * been skipped, soonest first
+ */
+export function getUpcomingOccurrences(
+  templates: RecurringTransaction[],
+  skipped: Map<string, Set<string>>,
+  after: string,
+  through: string
+): UpcomingOccurrence[] {
+  const occurrences: UpcomingOccurrence[] = [];
+
+  templates.filter(template => template.is_active).forEach(template => {
+    for (let index = template.next_index; ; index++) {
+      const date = getOccurrenceDate(template, index);
+      if (date > through || (template.end_date && date > template.end_date)) break;
+      if (date <= after || skipped.get(template.id)?.has(date)) continue;
+
+      occurrences.push({
+        recurring_transaction_id: template.id,
+        occurrence_date: date,
+        date,
+        amount: template.type === 'income' ? template.amount : -template.amount,
+        type: template.type,
+        description: template.description,
+        category: template.category,
+      });
+    }
+  });
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Load the personal recurring occurrences due within the horizon after
+ * today, soonest first
+ */
+export async function fetchUpcomingOccurrences(userId: string, limit: number = 5): Promise<UpcomingOccurrence[]> {
+  const today = new Date();
+  const through = new Date(today.getFullYear(), today.getMonth(), today.getDate() + RECURRING_HORIZON_DAYS);
+
+  const templates = await fetchActiveRecurringTransactions({ userId });
+  const skipped = await fetchSkippedOccurrences(templates.map(template => template.id));
+
+  return getUpcomingOccurrences(templates, skipped, toISODate(today), toISODate(through)).slice(0, limit);
+}
@@ -0,0 +1,328 @@
+// Report Comparisons
+// Comparative columns for financial statements: the prior period, the same
+// period last year and, for profit & loss, the business budget. Each column is
+// computed like the report itself and compared with it line by line, with the
+// dollar and percentage variance of every line.
+
+import { supabase } from './supabase';
+import { roundCurrency } from './utils';
+import { generateReportData, isCostOfGoodsSold, toISODate } from './reports';
+import { getReportFigures } from './reportVersions';
+import type {
+  BusinessBudget,
+  FinancialStatementData,
+  ProfitLossData,
+  ReportComparisonColumn,
+  ReportComparisonKind,
+  ReportComparisonOptions,
+  ReportDateRange,
+  ReportLineItem,
+  ReportType,
+} from '@/types';
+
+export const DEFAULT_VARIANCE_THRESHOLD = 10;
+
+export const REPORT_COMPARISON_OPTIONS: { value: ReportComparisonKind; label: string; description: string }[] = [
+  { value: 'prior_period', label: 'Prior Period', description: 'The period of the same length just before this one' },
+  { value: 'prior_year', label: 'Same Period Last Year', description: 'This period one year earlier' },
+  { value: 'budget', label: 'Budget', description: 'Budgeted amounts, prorated to this period (profit & loss only)' },
+];
+
+// Sections where an increase is bad news
+const COST_SECTIONS = ['Cost of Goods Sold', 'Operating Expenses', 'Liabilities'];
+
+export interface ComparisonCell {
+  amount: number | null; // null when the line is not in the comparison column
+  variance: number;
+  percent: number | null; // null when the comparison amount is zero
+  exceeds_threshold: boolean;
+  favorable: boolean;
+}
+
+export interface ComparisonRow {
+  section: string;
+  category: string;
+  is_total: boolean;
+  current: number;
+  cells: ComparisonCell[];
+}
+
+const parseISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const lastDayOfMonth = (date: Date): number => new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+// Move by whole months, keeping month ends on month ends
+const shiftMonths = (date: string, months: number): string => {
+  const source = parseISODate(date);
+  const target = new Date(source.getFullYear(), source.getMonth() + months, 1);
+  const day = source.getDate() === lastDayOfMonth(source)
+    ? lastDayOfMonth(target)
+    : Math.min(source.getDate(), lastDayOfMonth(target));
+  return toISODate(new Date(target.getFullYear(), target.getMonth(), day));
+};
+
+const daysBetween = (start: string, end: string): number =>
+  Math.round((parseISODate(end).getTime() - parseISODate(start).getTime()) / 86400000) + 1;
+
+/**
+ * The period of the same length just before the range. Whole calendar
+ * months step back by months, anything else by days.
+ */
+export function getPriorPeriodRange(range: ReportDateRange): ReportDateRange {
+  const start = parseISODate(range.start);
+  const end = parseISODate(range.end);
+
+  if (start.getDate() === 1 && end.getDate() === lastDayOfMonth(end)) {
+    const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth() + 1;
+    return { start: shiftMonths(range.start, -months), end: shiftMonths(range.end, -months) };
+  }
+
+  const days = daysBetween(range.start, range.end);
+  const priorEnd = new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1);
+  const priorStart = new Date(priorEnd.getFullYear(), priorEnd.getMonth(), priorEnd.getDate() - days + 1);
+  return { start: toISODate(priorStart), end: toISODate(priorEnd) };
+}
+
+export function getPriorYearRange(range: ReportDateRange): ReportDateRange {
+  return { start: shiftMonths(range.start, -12), end: shiftMonths(range.end, -12) };
+}
+
+/**
+ * Budget lines that overlap the range, prorated by the days they share with it
+ */
+export function getBudgetAmounts(budgets: BusinessBudget[], range: ReportDateRange): Map<string, number> {
+  const amounts = new Map<string, number>();
+
+  budgets.forEach(budget => {
+    const start = budget.period_start > range.start ? budget.period_start : range.start;
+    const end = budget.period_end < range.end ? budget.period_end : range.end;
+    if (start > end) return;
+
+    const share = daysBetween(start, end) / daysBetween(budget.period_start, budget.period_end);
+    amounts.set(budget.category, (amounts.get(budget.category) || 0) + budget.amount * share);
+  });
+
+  return amounts;
+}
+
+/**
+ * A profit & loss of budgeted amounts. Budgeted categories are placed in the
+ * section the actual figures use, or by name when there are no actuals.
+ */
+export function buildBudgetProfitLoss(actual: ProfitLossData, budgetAmounts: Map<string, number>): ProfitLossData {
+  const revenueCategories = new Set(actual.revenue.map(line => line.category));
+  const costCategories = new Set(actual.cost_of_goods_sold.map(line => line.category));
+  const revenue: ReportLineItem[] = [];
+  const costOfGoodsSold: ReportLineItem[] = [];
+  const operatingExpenses: ReportLineItem[] = [];
+
+  budgetAmounts.forEach((amount, category) => {
+    const line = { category, amount: roundCurrency(amount), transaction_count: 0 };
+    if (revenueCategories.has(category)) {
+      revenue.push(line);
+    } else if (costCategories.has(category) || isCostOfGoodsSold(category)) {
+      costOfGoodsSold.push(line);
+    } else {
+      operatingExpenses.push(line);
+    }
+  });
+
+  const sum = (lines: ReportLineItem[]) => roundCurrency(lines.reduce((total, line) => total + line.amount, 0));
+  const totalRevenue = sum(revenue);
+  const totalCostOfGoodsSold = sum(costOfGoodsSold);
+  const grossProfit = roundCurrency(totalRevenue - totalCostOfGoodsSold);
+  const totalOperatingExpenses = sum(operatingExpenses);
+
+  return {
+    type: 'profit_loss',
+    period_start: actual.period_start,
+    period_end: actual.period_end,
+    generated_at: new Date().toISOString(),
+    revenue,
+    cost_of_goods_sold: costOfGoodsSold,
+    operating_expenses: operatingExpenses,
+    totals: {
+      revenue: totalRevenue,
+      cost_of_goods_sold: totalCostOfGoodsSold,
+      gross_profit: grossProfit,
+      operating_expenses: totalOperatingExpenses,
+      net_income: roundCurrency(grossProfit - totalOperatingExpenses),
+    },
+    transaction_count: 0,
+  };
+}
+
+export async function fetchBusinessBudgets(businessId: string, range?: ReportDateRange): Promise<BusinessBudget[]> {
+  let query = supabase
+    .from('business_budgets')
+    .select('*')
+    .eq('business_id', businessId);
+
+  if (range) {
+    query = query.lte('period_start', range.end).gte('period_end', range.start);
+  }
+
+  const { data, error } = await query
+    .order('period_start', { ascending: false })
+    .order('category');
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    business_id: row.business_id,
+    category: row.category,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    amount: Number(row.amount),
+    created_at: row.created_at || undefined,
+    updated_at: row.updated_at || undefined,
+  }));
+}
+
+export type BusinessBudgetInput = Pick<BusinessBudget, 'category' | 'period_start' | 'period_end' | 'amount'>;
+
+export function validateBusinessBudget(input: BusinessBudgetInput): string | null {
+  if (!input.category.trim()) return 'Category is required';
+  if (!input.period_start || !input.period_end) return 'Budget period is required';
+  if (input.period_start > input.period_end) return 'Budget period must end after it starts';
+  if (!(input.amount >= 0)) return 'Budget amount cannot be negative';
+  return null;
+}
+
+export async function saveBusinessBudget(businessId: string, userId: string, input: BusinessBudgetInput): Promise<void> {
+  const validationError = validateBusinessBudget(input);
+  if (validationError) throw new Error(validationError);
+
+  const { error } = await supabase
+    .from('business_budgets')
+    .upsert(
+      {
+        business_id: businessId,
+        category: input.category.trim(),
+        period_start: input.period_start,
+        period_end: input.period_end,
+        amount: roundCurrency(input.amount),
+        created_by: userId,
+      },
+      { onConflict: 'business_id,category,period_start' }
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteBusinessBudget(budgetId: string): Promise<void> {
+  const { error } = await supabase
+    .from('business_budgets')
+    .delete()
+    .eq('id', budgetId);
+
+  if (error) throw error;
+}
+
+const describeRange = (type: ReportType, range: ReportDateRange) =>
+  type === 'balance_sheet' ? { period_end: range.end } : { period_start: range.start, period_end: range.end };
+
+/**
+ * Compute a report with the requested comparative columns attached.
+ * Budgets only apply to profit & loss statements and are skipped otherwise.
+ */
+export async function generateComparativeReportData(
+  type: ReportType,
+  businessId: string,
+  range: ReportDateRange,
+  options?: ReportComparisonOptions | null
+): Promise<FinancialStatementData | null> {
+  const data = await generateReportData(type, businessId, range);
+  if (!data || !options || options.columns.length === 0) return data;
+
+  const columns: ReportComparisonColumn[] = [];
+  for (const kind of options.columns) {
+    const label = REPORT_COMPARISON_OPTIONS.find(option => option.value === kind)?.label || kind;
+
+    if (kind === 'budget') {
+      if (data.type !== 'profit_loss') continue;
+      const budgets = await fetchBusinessBudgets(businessId, range);
+      columns.push({ kind, label, ...describeRange(type, range), data: buildBudgetProfitLoss(data, getBudgetAmounts(budgets, range)) });
+      continue;
+    }
+
+    const comparisonRange = kind === 'prior_period' ? getPriorPeriodRange(range) : getPriorYearRange(range);
+    const comparisonData = await generateReportData(type, businessId, comparisonRange);
+    if (comparisonData) {
+      columns.push({ kind, label, ...describeRange(type, comparisonRange), data: comparisonData });
+    }
+  }
+
+  return { ...data, comparison: { options, columns } };
+}
+
+/**
+ * The dollar and percentage difference of an actual figure from a comparison
+ */
+export function calculateVariance(actual: number, comparison: number): { variance: number; percent: number | null } {
+  const variance = roundCurrency(actual - comparison);
+  return {
+    variance,
+    percent: comparison === 0 ? null : Math.round((variance / Math.abs(comparison)) * 1000) / 10,
+  };
+}
+
+export const formatVariancePercent = (percent: number | null): string =>
+  percent === null ? '—' : `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+
+/**
+ * Line up a statement with its comparative columns. Lines that only appear
+ * in a comparison are added to the end of their section.
+ */
+export function buildComparisonRows(data: FinancialStatementData): ComparisonRow[] {
+  const comparison = data.comparison;
+  if (!comparison) return [];
+
+  const key = (section: string, category: string) => `${section}\u0000${category}`;
+  const threshold = comparison.options.variance_threshold;
+  const columnFigures = comparison.columns.map(column =>
+    new Map(getReportFigures(column.data).map(figure => [key(figure.section, figure.category), figure]))
+  );
+
+  const rows = getReportFigures(data).map(figure => ({
+    section: figure.section,
+    category: figure.category,
+    is_total: figure.is_total,
+    current: figure.amount,
+  }));
+
+  // Comparison-only lines go after the last line of their section, before its totals
+  columnFigures.forEach(figures => {
+    figures.forEach(figure => {
+      if (figure.is_total || rows.some(row => row.section === figure.section && row.category === figure.category)) return;
+      const sectionRows = rows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row }) => row.section === figure.section && !row.is_total);
+      const insertAt = sectionRows.length > 0
+        ? sectionRows[sectionRows.length - 1].index + 1
+        : Math.max(rows.findIndex(row => row.section === figure.section), 0);
+      rows.splice(insertAt, 0, { section: figure.section, category: figure.category, is_total: false, current: 0 });
+    });
+  });
+
+  return rows.map(row => ({
+    ...row,
+    cells: columnFigures.map(figures => {
+      const figure = figures.get(key(row.section, row.category));
+      const { variance, percent } = calculateVariance(row.current, figure?.amount ?? 0);
+      const isCost = COST_SECTIONS.includes(row.section);
+
+      return {
+        amount: figure ? figure.amount : null,
+        variance,
+        percent,
+        exceeds_threshold: variance !== 0 && (percent === null || Math.abs(percent) >= threshold),
+        favorable: isCost ? variance <= 0 : variance >= 0,
+      };
+    }),
+  }));
+}
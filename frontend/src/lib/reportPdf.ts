@@ -0,0 +1,561 @@
+// Report PDFs
+// Lays out financial statements and tabular exports as paginated PDFs: a cover
+// page with the business and period, running headers, page-numbered footers,
+// statement tables and bar charts drawn from the report's own figures.
+
+import { PdfDocument, downloadPdf, truncateText, wrapText } from './pdf';
+import { buildComparisonRows, formatVariancePercent } from './reportComparisons';
+import { describeCustomReportFilters, formatCustomReportColumn } from './customReports';
+import { ACCOUNT_TYPES } from './accounts';
+import { formatCurrency, formatDate } from '@/types';
+import type {
+  BalanceSheetData,
+  CashFlowData,
+  CustomReportData,
+  FinancialStatementData,
+  ProfitLossData,
+  ReportData,
+  ReportLineItem,
+} from '@/types';
+
+export interface ReportPdfMeta {
+  title: string;
+  businessName: string;
+  period: string;
+  subtitle?: string;
+  status?: string;
+  preparedBy?: string;
+}
+
+export interface ReportPdfColumn {
+  label: string;
+  width: number; // share of the content width; the shares should add up to 1
+  align?: 'left' | 'right';
+}
+
+export interface ReportPdfRow {
+  cells: string[];
+  style?: 'normal' | 'section' | 'total' | 'grand_total' | 'muted';
+  indent?: boolean;
+  colors?: (string | null)[]; // per-cell text colours over the row style
+}
+
+export interface ReportPdfBar {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+const MARGIN = 54;
+const HEADER_HEIGHT = 40;
+const FOOTER_HEIGHT = 36;
+const ROW_HEIGHT = 17;
+const ACCENT = '#1d4ed8';
+const POSITIVE = '#16a34a';
+const NEGATIVE = '#dc2626';
+const MUTED = '#6b7280';
+const RULE = '#e5e7eb';
+const TEXT = '#111827';
+
+export const REPORT_TYPE_TITLES: Record<ReportData['type'], string> = {
+  profit_loss: 'Profit & Loss Statement',
+  balance_sheet: 'Balance Sheet',
+  cash_flow: 'Statement of Cash Flows',
+  custom: 'Custom Report',
+};
+
+// Negative figures in parentheses, as on the statements on screen
+const formatAmount = (amount: number): string =>
+  amount < 0 ? `(${formatCurrency(Math.abs(amount))})` : formatCurrency(amount);
+
+/**
+ * The period a report covers, for titles and file names
+ */
+export function getReportPeriodLabel(data: ReportData): string {
+  if (data.type === 'balance_sheet') return `As of ${formatDate(data.as_of)}`;
+  return `${formatDate(data.period_start)} – ${formatDate(data.period_end)}`;
+}
+
+/**
+ * Writes a report page by page, starting a new page with its running header
+ * whenever the next block does not fit
+ */
+export class ReportPdfWriter {
+  readonly pdf: PdfDocument;
+  private readonly meta: ReportPdfMeta;
+  private y = 0;
+  private hasCover = false;
+
+  constructor(meta: ReportPdfMeta) {
+    this.meta = meta;
+    this.pdf = new PdfDocument('letter');
+    this.pdf.setInfo({ title: `${meta.title} – ${meta.businessName}`, author: meta.preparedBy || meta.businessName, subject: meta.period });
+  }
+
+  private get right(): number {
+    return this.pdf.width - MARGIN;
+  }
+
+  private get contentWidth(): number {
+    return this.pdf.width - MARGIN * 2;
+  }
+
+  private get bottom(): number {
+    return this.pdf.height - MARGIN - FOOTER_HEIGHT;
+  }
+
+  /**
+   * Title page with the business, the period and any extra details
+   */
+  cover(details: [string, string][] = []): void {
+    const pdf = this.pdf;
+    pdf.addPage();
+    this.hasCover = true;
+
+    pdf.rect(0, 0, pdf.width, 12, { fill: ACCENT });
+    let y = pdf.height * 0.32;
+    pdf.text(this.meta.businessName.toUpperCase(), MARGIN, y, { size: 12, font: 'bold', color: MUTED });
+    y += 40;
+    wrapText(this.meta.title, this.contentWidth, 30, 'bold').forEach(line => {
+      pdf.text(line, MARGIN, y, { size: 30, font: 'bold', color: TEXT });
+      y += 36;
+    });
+    pdf.text(this.meta.period, MARGIN, y + 4, { size: 14, color: ACCENT });
+    y += 24;
+    if (this.meta.subtitle) {
+      y = pdf.paragraph(this.meta.subtitle, MARGIN, y + 8, this.contentWidth, { size: 11, color: MUTED });
+    }
+
+    y = Math.max(y + 40, pdf.height * 0.62);
+    pdf.line(MARGIN, y, this.right, y, { color: RULE });
+    y += 24;
+    const rows: [string, string][] = [
+      ...details,
+      ...(this.meta.status ? [['Status', this.meta.status] as [string, string]] : []),
+      ...(this.meta.preparedBy ? [['Prepared by', this.meta.preparedBy] as [string, string]] : []),
+      ['Generated', formatDate(new Date())],
+    ];
+    rows.forEach(([label, value]) => {
+      pdf.text(label, MARGIN, y, { size: 10, color: MUTED });
+      pdf.text(truncateText(value, this.contentWidth - 140, 10), MARGIN + 140, y, { size: 10, color: TEXT });
+      y += 18;
+    });
+  }
+
+  /**
+   * Start a content page with the running header
+   */
+  startPage(): void {
+    const pdf = this.pdf;
+    pdf.addPage();
+    const headerY = MARGIN - 12;
+    pdf.text(truncateText(this.meta.businessName, this.contentWidth * 0.5, 9), MARGIN, headerY, { size: 9, font: 'bold', color: TEXT });
+    pdf.text(truncateText(`${this.meta.title} • ${this.meta.period}`, this.contentWidth * 0.5, 9), this.right, headerY, { size: 9, color: MUTED, align: 'right' });
+    pdf.line(MARGIN, headerY + 8, this.right, headerY + 8, { color: RULE });
+    this.y = MARGIN + HEADER_HEIGHT - 12;
+  }
+
+  /**
+   * Move to a new page unless the next block of the given height fits
+   */
+  ensureSpace(height: number): void {
+    if (this.pdf.pageCount === 0 || (this.hasCover && this.pdf.pageCount === 1) || this.y + height > this.bottom) {
+      this.startPage();
+    }
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(40);
+    this.y += 8;
+    this.pdf.text(text, MARGIN, this.y + 12, { size: 14, font: 'bold', color: TEXT });
+    this.y += 26;
+  }
+
+  paragraph(text: string, color: string = MUTED): void {
+    const lines = wrapText(text, this.contentWidth, 9.5);
+    this.ensureSpace(lines.length * 13 + 6);
+    lines.forEach(line => {
+      this.pdf.text(line, MARGIN, this.y + 10, { size: 9.5, color });
+      this.y += 13;
+    });
+    this.y += 6;
+  }
+
+  /**
+   * A table that continues on the next page, repeating its header row
+   */
+  table(columns: ReportPdfColumn[], rows: ReportPdfRow[]): void {
+    const pdf = this.pdf;
+    const positions: number[] = [];
+    let x = MARGIN;
+    columns.forEach(column => {
+      positions.push(x);
+      x += column.width * this.contentWidth;
+    });
+
+    const cellX = (index: number) => columns[index].align === 'right'
+      ? positions[index] + columns[index].width * this.contentWidth - 4
+      : positions[index] + 4;
+
+    const drawHeader = () => {
+      pdf.rect(MARGIN, this.y, this.contentWidth, ROW_HEIGHT + 2, { fill: '#f3f4f6' });
+      columns.forEach((column, index) => {
+        pdf.text(truncateText(column.label, column.width * this.contentWidth - 8, 8.5, 'bold'), cellX(index), this.y + 12.5, { size: 8.5, font: 'bold', color: '#374151', align: column.align });
+      });
+      this.y += ROW_HEIGHT + 2;
+    };
+
+    this.ensureSpace(ROW_HEIGHT * 3);
+    drawHeader();
+
+    rows.forEach(row => {
+      if (this.y + ROW_HEIGHT > this.bottom) {
+        this.startPage();
+        drawHeader();
+      }
+
+      const style = row.style || 'normal';
+      const bold = style === 'section' || style === 'total' || style === 'grand_total';
+      if (style === 'total' || style === 'grand_total') {
+        pdf.line(MARGIN, this.y + 1, this.right, this.y + 1, { color: style === 'grand_total' ? TEXT : '#9ca3af', width: style === 'grand_total' ? 1 : 0.5 });
+      }
+
+      row.cells.forEach((cell, index) => {
+        const column = columns[index];
+        if (!column) return;
+        const indent = index === 0 && row.indent ? 12 : 0;
+        const width = column.width * this.contentWidth - 8 - indent;
+        pdf.text(truncateText(cell, width, 9, bold ? 'bold' : 'regular'), cellX(index) + indent, this.y + 12, {
+          size: style === 'grand_total' ? 10 : 9,
+          font: bold ? 'bold' : 'regular',
+          color: row.colors?.[index] || (style === 'muted' ? MUTED : TEXT),
+          align: column.align,
+        });
+      });
+
+      this.y += style === 'section' ? ROW_HEIGHT + 2 : ROW_HEIGHT;
+      if (style === 'normal') {
+        pdf.line(MARGIN, this.y, this.right, this.y, { color: '#f3f4f6', width: 0.5 });
+      }
+    });
+
+    this.y += 10;
+  }
+
+  /**
+   * Horizontal bars from a zero line, so negative values extend to the left
+   */
+  barChart(title: string, bars: ReportPdfBar[], format: (value: number) => string = formatAmount): void {
+    if (bars.length === 0) return;
+
+    const pdf = this.pdf;
+    const barHeight = 14;
+    const gap = 8;
+    const height = 26 + bars.length * (barHeight + gap) + 8;
+    this.ensureSpace(height);
+
+    pdf.text(title, MARGIN, this.y + 12, { size: 10, font: 'bold', color: TEXT });
+    this.y += 26;
+
+    const labelWidth = this.contentWidth * 0.3;
+    const valueWidth = 80;
+    const chartLeft = MARGIN + labelWidth;
+    const chartWidth = this.contentWidth - labelWidth - valueWidth;
+    const max = Math.max(0, ...bars.map(bar => bar.value));
+    const min = Math.min(0, ...bars.map(bar => bar.value));
+    const span = max - min || 1;
+    const zeroX = chartLeft + ((0 - min) / span) * chartWidth;
+
+    bars.forEach(bar => {
+      const top = this.y;
+      pdf.text(truncateText(bar.label, labelWidth - 8, 9), MARGIN, top + barHeight - 3, { size: 9, color: '#374151' });
+      const width = (Math.abs(bar.value) / span) * chartWidth;
+      const left = bar.value >= 0 ? zeroX : zeroX - width;
+      if (width > 0) {
+        pdf.rect(left, top, Math.max(width, 1), barHeight, { fill: bar.color || (bar.value >= 0 ? ACCENT : NEGATIVE) });
+      }
+      pdf.text(format(bar.value), this.right, top + barHeight - 3, { size: 9, color: TEXT, align: 'right' });
+      this.y += barHeight + gap;
+    });
+
+    pdf.line(zeroX, this.y - bars.length * (barHeight + gap) - 4, zeroX, this.y - gap + 4, { color: '#9ca3af', width: 0.75 });
+    this.y += 8;
+  }
+
+  /**
+   * Add the footers and return the finished document. The cover has none.
+   */
+  finish(): PdfDocument {
+    const pdf = this.pdf;
+    const first = this.hasCover ? 1 : 0;
+    const total = pdf.pageCount - first;
+
+    for (let page = first; page < pdf.pageCount; page++) {
+      pdf.setPage(page);
+      const footerY = pdf.height - MARGIN + 6;
+      pdf.line(MARGIN, footerY - 14, this.right, footerY - 14, { color: RULE });
+      pdf.text(`Generated ${formatDate(new Date())} by SwiftBooks`, MARGIN, footerY, { size: 8, color: MUTED });
+      pdf.text(`Page ${page - first + 1} of ${total}`, this.right, footerY, { size: 8, color: MUTED, align: 'right' });
+    }
+
+    return pdf;
+  }
+}
+
+const STATEMENT_COLUMNS: ReportPdfColumn[] = [
+  { label: 'Category', width: 0.6 },
+  { label: 'Transactions', width: 0.15, align: 'right' },
+  { label: 'Amount', width: 0.25, align: 'right' },
+];
+
+const sectionRows = (
+  title: string,
+  lines: ReportLineItem[],
+  total: number,
+  totalLabel = `Total ${title}`,
+  emptyLabel = 'No activity in this period'
+): ReportPdfRow[] => [
+  { cells: [title, '', ''], style: 'section' },
+  ...(lines.length === 0
+    ? [{ cells: [emptyLabel, '', ''], style: 'muted' as const, indent: true }]
+    : lines.map(line => ({
+      cells: [line.category, line.transaction_count > 0 ? String(line.transaction_count) : '', formatAmount(line.amount)],
+      indent: true,
+    }))),
+  { cells: [totalLabel, '', formatAmount(total)], style: 'total' },
+];
+
+const totalRow = (label: string, amount: number, grand = false): ReportPdfRow => ({
+  cells: [label, '', formatAmount(amount)],
+  style: grand ? 'grand_total' : 'total',
+});
+
+// The largest categories, for a chart that stays readable
+const topLines = (lines: ReportLineItem[], count = 8): ReportPdfBar[] =>
+  [...lines]
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
+    .slice(0, count)
+    .map(line => ({ label: line.category, value: line.amount }));
+
+const writeProfitLoss = (writer: ReportPdfWriter, data: ProfitLossData) => {
+  const { totals } = data;
+
+  writer.heading('Summary');
+  writer.barChart('Results for the period', [
+    { label: 'Revenue', value: totals.revenue, color: POSITIVE },
+    { label: 'Cost of Goods Sold', value: totals.cost_of_goods_sold, color: '#f59e0b' },
+    { label: 'Gross Profit', value: totals.gross_profit },
+    { label: 'Operating Expenses', value: totals.operating_expenses, color: '#f97316' },
+    { label: 'Net Income', value: totals.net_income, color: totals.net_income >= 0 ? POSITIVE : NEGATIVE },
+  ]);
+  writer.barChart('Largest operating expenses', topLines(data.operating_expenses));
+
+  writer.heading('Profit & Loss Statement');
+  writer.table(STATEMENT_COLUMNS, [
+    ...sectionRows('Revenue', data.revenue, totals.revenue),
+    ...sectionRows('Cost of Goods Sold', data.cost_of_goods_sold, totals.cost_of_goods_sold),
+    totalRow('Gross Profit', totals.gross_profit),
+    ...sectionRows('Operating Expenses', data.operating_expenses, totals.operating_expenses),
+    totalRow('Net Income', totals.net_income, true),
+  ]);
+  writer.paragraph(`Based on ${data.transaction_count} transactions.`);
+};
+
+const writeBalanceSheet = (writer: ReportPdfWriter, data: BalanceSheetData) => {
+  const { totals } = data;
+
+  writer.heading('Summary');
+  if (!data.is_balanced) {
+    writer.paragraph(
+      `The balance sheet does not balance: assets differ from liabilities plus equity by ${formatAmount(data.difference)}.` +
+      (data.unassigned_transaction_count > 0
+        ? ` ${data.unassigned_transaction_count} transaction(s) have no account assigned.`
+        : ''),
+      NEGATIVE
+    );
+  }
+  writer.barChart('Financial position', [
+    { label: 'Assets', value: totals.assets, color: POSITIVE },
+    { label: 'Liabilities', value: totals.liabilities, color: NEGATIVE },
+    { label: 'Equity', value: totals.equity },
+  ]);
+  writer.barChart('Largest assets', topLines(data.assets));
+
+  writer.heading('Balance Sheet');
+  writer.table(STATEMENT_COLUMNS, [
+    ...sectionRows('Assets', data.assets, totals.assets, undefined, 'No asset accounts set up'),
+    ...sectionRows('Liabilities', data.liabilities, totals.liabilities, undefined, 'No liability accounts set up'),
+    ...sectionRows('Equity', data.equity, totals.equity),
+    totalRow('Total Liabilities & Equity', totals.liabilities_and_equity, true),
+  ]);
+};
+
+const writeCashFlow = (writer: ReportPdfWriter, data: CashFlowData) => {
+  const { totals, operating } = data;
+
+  writer.heading('Summary');
+  if (!data.is_reconciled) {
+    writer.paragraph(
+      `The net change in cash differs from the change in cash account balances by ${formatAmount(data.difference)}.`,
+      NEGATIVE
+    );
+  }
+  writer.barChart('Cash flow by activity', [
+    { label: 'Operating', value: totals.operating },
+    { label: 'Investing', value: totals.investing },
+    { label: 'Financing', value: totals.financing },
+    { label: 'Net Change in Cash', value: totals.net_change, color: totals.net_change >= 0 ? POSITIVE : NEGATIVE },
+  ]);
+
+  const sum = (lines: ReportLineItem[]) => lines.reduce((total, line) => total + line.amount, 0);
+  writer.heading('Statement of Cash Flows');
+  writer.table(STATEMENT_COLUMNS, [
+    { cells: ['Operating Activities', '', ''], style: 'section' },
+    { cells: ['Net Income', '', formatAmount(data.net_income)], indent: true },
+    ...(operating.adjustments.length > 0
+      ? sectionRows('Adjustments for non-cash items', operating.adjustments, sum(operating.adjustments), 'Total adjustments')
+      : []),
+    ...sectionRows('Changes in working capital', operating.working_capital, sum(operating.working_capital), 'Total working capital changes', 'No changes in this period'),
+    totalRow('Net Cash from Operating Activities', totals.operating),
+    ...sectionRows('Investing Activities', data.investing, totals.investing, 'Net Cash from Investing Activities'),
+    ...sectionRows('Financing Activities', data.financing, totals.financing, 'Net Cash from Financing Activities'),
+    totalRow('Net Change in Cash', totals.net_change, true),
+    { cells: ['Cash at Beginning of Period', '', formatAmount(data.beginning_cash)] },
+    totalRow('Cash at End of Period', data.ending_cash),
+  ]);
+};
+
+// Value columns that fit beside the line labels on a page
+const CUSTOM_COLUMNS_PER_TABLE = 4;
+
+// Wide custom reports are split into tables of a few columns each
+const writeCustomReport = (writer: ReportPdfWriter, data: CustomReportData) => {
+  const showGroups = data.definition.rows.source !== 'account_type';
+  const filters = describeCustomReportFilters(data.definition.filters);
+
+  writer.heading('Custom Report');
+  if (filters) writer.paragraph(filters);
+
+  for (let first = 0; first < data.columns.length; first += CUSTOM_COLUMNS_PER_TABLE) {
+    const columns = data.columns.slice(first, first + CUSTOM_COLUMNS_PER_TABLE);
+    const valueWidth = 0.6 / CUSTOM_COLUMNS_PER_TABLE;
+    const tableRows: ReportPdfRow[] = [];
+
+    if (data.rows.length === 0) {
+      tableRows.push({ cells: ['No activity in this period'], style: 'muted', indent: true });
+    }
+    data.rows.forEach((row, index) => {
+      if (showGroups && row.group && row.kind === 'line' && data.rows[index - 1]?.group !== row.group) {
+        const label = ACCOUNT_TYPES.find(type => type.value === row.group)?.label || row.group;
+        tableRows.push({ cells: [label], style: 'section' });
+      }
+      tableRows.push({
+        cells: [row.label, ...columns.map((_, offset) => formatAmount(row.values[first + offset]))],
+        style: row.kind === 'total' ? 'grand_total' : row.kind === 'subtotal' ? 'total' : 'normal',
+        indent: showGroups && row.kind === 'line',
+      });
+    });
+
+    writer.table([
+      { label: 'Line', width: 1 - valueWidth * columns.length },
+      ...columns.map(column => ({ label: formatCustomReportColumn(column), width: valueWidth, align: 'right' as const })),
+    ], tableRows);
+  }
+  writer.paragraph(`Based on ${data.transaction_count} transactions.`);
+};
+
+// One table per comparative column, flagging variances past the threshold
+const writeComparison = (writer: ReportPdfWriter, data: FinancialStatementData) => {
+  const comparison = data.comparison;
+  if (!comparison || comparison.columns.length === 0) return;
+
+  const rows = buildComparisonRows(data);
+  writer.heading('Comparison');
+  writer.paragraph(
+    `Variances of ${comparison.options.variance_threshold}% or more are shown in green when favourable and red when not.`,
+    MUTED
+  );
+
+  comparison.columns.forEach((column, columnIndex) => {
+    const period = column.period_start
+      ? `${formatDate(column.period_start)} – ${formatDate(column.period_end)}`
+      : `As of ${formatDate(column.period_end)}`;
+    writer.paragraph(`${column.label}: ${period}`);
+
+    const tableRows: ReportPdfRow[] = [];
+    rows.forEach((row, index) => {
+      if (!row.is_total && (index === 0 || rows[index - 1].section !== row.section)) {
+        tableRows.push({ cells: [row.section, '', '', '', ''], style: 'section' });
+      }
+      const cell = row.cells[columnIndex];
+      const highlight = cell.exceeds_threshold ? (cell.favorable ? POSITIVE : NEGATIVE) : null;
+      tableRows.push({
+        cells: [
+          row.category,
+          formatAmount(row.current),
+          cell.amount === null ? '—' : formatAmount(cell.amount),
+          formatAmount(cell.variance),
+          formatVariancePercent(cell.percent),
+        ],
+        style: row.is_total ? 'total' : 'normal',
+        indent: !row.is_total,
+        colors: [null, null, null, highlight, highlight],
+      });
+    });
+
+    writer.table([
+      { label: 'Line', width: 0.36 },
+      { label: 'Actual', width: 0.16, align: 'right' },
+      { label: column.label, width: 0.16, align: 'right' },
+      { label: '$ Var', width: 0.16, align: 'right' },
+      { label: '% Var', width: 0.16, align: 'right' },
+    ], tableRows);
+  });
+};
+
+/**
+ * Lay out a generated financial statement as a PDF with a cover page, and
+ * its comparative columns when it has any
+ */
+export function renderFinancialReportPdf(
+  data: ReportData,
+  meta: Omit<ReportPdfMeta, 'period'> & { period?: string }
+): PdfDocument {
+  const writer = new ReportPdfWriter({ ...meta, period: meta.period || getReportPeriodLabel(data) });
+  writer.cover([
+    ['Statement', REPORT_TYPE_TITLES[data.type]],
+    ['Figures as of', formatDate(data.generated_at)],
+  ]);
+
+  switch (data.type) {
+    case 'profit_loss':
+      writeProfitLoss(writer, data);
+      break;
+    case 'balance_sheet':
+      writeBalanceSheet(writer, data);
+      break;
+    case 'cash_flow':
+      writeCashFlow(writer, data);
+      break;
+    case 'custom':
+      writeCustomReport(writer, data);
+      break;
+  }
+  if (data.type !== 'custom') {
+    writeComparison(writer, data);
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Render a financial statement and start its download
+ */
+export function downloadReportPdf(
+  data: ReportData,
+  meta: Omit<ReportPdfMeta, 'period'> & { period?: string }
+): void {
+  const pdf = renderFinancialReportPdf(data, meta);
+  const name = `${meta.businessName}_${meta.title}`.replace(/[^a-zA-Z0-9-]+/g, '_');
+  downloadPdf(pdf, name);
+}
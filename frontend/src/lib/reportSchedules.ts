@@ -0,0 +1,230 @@
+// Report Schedules
+// Schedules create a draft report for a client business at the start of every
+// month, quarter or year, covering the period that just ended, together with a
+// review task and a notification for the assigned accountant. The database
+// creates the drafts; the app computes their figures from the ledger.
+
+import { supabase } from './supabase';
+import { toISODate } from './reports';
+import { generateComparativeReportData } from './reportComparisons';
+import type { Json, Tables } from './database.types';
+import type {
+  ReportComparisonOptions,
+  ReportDateRange,
+  ReportSchedule,
+  ReportScheduleFrequency,
+  ReportType,
+} from '@/types';
+
+export const REPORT_SCHEDULE_FREQUENCIES: { value: ReportScheduleFrequency; label: string; runs: string }[] = [
+  { value: 'monthly', label: 'Monthly', runs: 'of every month' },
+  { value: 'quarterly', label: 'Quarterly', runs: 'of January, April, July and October' },
+  { value: 'yearly', label: 'Yearly', runs: 'of January' },
+];
+
+// Only statements the app can compute are scheduled
+export const SCHEDULED_REPORT_TYPES: { value: ReportType; label: string }[] = [
+  { value: 'profit_loss', label: 'Profit & Loss Statement' },
+  { value: 'balance_sheet', label: 'Balance Sheet' },
+  { value: 'cash_flow', label: 'Cash Flow Statement' },
+];
+
+const MONTHS_PER_PERIOD: Record<ReportScheduleFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+const parseISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// First day of the month, quarter or year the date falls in
+const startOfPeriod = (date: Date, frequency: ReportScheduleFrequency): Date => {
+  const months = MONTHS_PER_PERIOD[frequency];
+  return new Date(date.getFullYear(), Math.floor(date.getMonth() / months) * months, 1);
+};
+
+/**
+ * First run date on or after the given date. Mirrors
+ * report_schedule_next_run() in the database.
+ */
+export function getNextRunDate(frequency: ReportScheduleFrequency, runDay: number, after: Date = new Date()): string {
+  const from = new Date(after.getFullYear(), after.getMonth(), after.getDate());
+  const start = startOfPeriod(from, frequency);
+  let run = new Date(start.getFullYear(), start.getMonth(), runDay);
+  if (run < from) {
+    run = new Date(start.getFullYear(), start.getMonth() + MONTHS_PER_PERIOD[frequency], runDay);
+  }
+  return toISODate(run);
+}
+
+/**
+ * The period a run covers: the month, quarter or year that ended before it
+ */
+export function getScheduledPeriod(frequency: ReportScheduleFrequency, runDate: string): ReportDateRange {
+  const start = startOfPeriod(parseISODate(runDate), frequency);
+  return {
+    start: toISODate(new Date(start.getFullYear(), start.getMonth() - MONTHS_PER_PERIOD[frequency], 1)),
+    end: toISODate(new Date(start.getFullYear(), start.getMonth(), 0)),
+  };
+}
+
+type UserNameRow = Pick<Tables<'users'>, 'full_name' | 'email'>;
+
+type ScheduleRow = Tables<'report_schedules'> & {
+  business?: (Pick<Tables<'businesses'>, 'name'> & { owner?: UserNameRow | null }) | null;
+  assignee?: UserNameRow | null;
+};
+
+const mapScheduleRow = (row: ScheduleRow): ReportSchedule => ({
+  id: row.id,
+  business_id: row.business_id,
+  business_name: row.business?.name,
+  client_name: row.business?.owner ? row.business.owner.full_name || row.business.owner.email : undefined,
+  report_type: row.report_type as ReportType,
+  frequency: row.frequency as ReportScheduleFrequency,
+  run_day: row.run_day,
+  due_days: row.due_days,
+  comparison: (row.comparison as unknown as ReportComparisonOptions | null) || null,
+  assigned_to: row.assigned_to,
+  assigned_to_name: row.assignee ? row.assignee.full_name || row.assignee.email : undefined,
+  next_run_on: row.next_run_on,
+  last_run_at: row.last_run_at,
+  is_active: row.is_active,
+  created_at: row.created_at || undefined,
+});
+
+/**
+ * All schedules, soonest run first
+ */
+export async function fetchReportSchedules(): Promise<ReportSchedule[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*, business:businesses(name, owner:users(full_name, email)), assignee:users!report_schedules_assigned_to_fkey(full_name, email)')
+    .order('is_active', { ascending: false })
+    .order('next_run_on');
+
+  if (error) throw error;
+
+  return (data || []).map(mapScheduleRow);
+}
+
+export type ReportScheduleInput = Pick<
+  ReportSchedule,
+  'business_id' | 'report_type' | 'frequency' | 'run_day' | 'due_days' | 'comparison' | 'assigned_to'
+>;
+
+export function validateReportSchedule(input: ReportScheduleInput): string | null {
+  if (!input.business_id) return 'Select a business to schedule reports for';
+  if (!Number.isInteger(input.run_day) || input.run_day < 1 || input.run_day > 28) {
+    return 'Run day must be between 1 and 28';
+  }
+  if (!Number.isInteger(input.due_days) || input.due_days < 0) return 'Review deadline cannot be negative';
+  if (!input.assigned_to) return 'Assign an accountant to review the reports';
+  return null;
+}
+
+/**
+ * Create a schedule, or update one when an id is given. The database sets
+ * the next run date whenever the timing changes.
+ */
+export async function saveReportSchedule(input: ReportScheduleInput, userId: string, scheduleId?: string): Promise<void> {
+  const validationError = validateReportSchedule(input);
+  if (validationError) throw new Error(validationError);
+
+  const values = {
+    ...input,
+    comparison: (input.comparison as unknown as Json) || null,
+  };
+
+  const { error } = scheduleId
+    ? await supabase.from('report_schedules').update(values).eq('id', scheduleId)
+    : await supabase.from('report_schedules').insert({ ...values, created_by: userId });
+
+  if (error) throw error;
+}
+
+/**
+ * Pause or resume a schedule. Resumed schedules pick up at the next run day
+ * rather than catching up on the runs they missed.
+ */
+export async function setReportScheduleActive(scheduleId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('report_schedules')
+    .update({ is_active: isActive })
+    .eq('id', scheduleId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a schedule; the reports it created are kept
+ */
+export async function deleteReportSchedule(scheduleId: string): Promise<void> {
+  const { error } = await supabase
+    .from('report_schedules')
+    .delete()
+    .eq('id', scheduleId);
+
+  if (error) throw error;
+}
+
+/**
+ * Compute the figures of scheduled drafts created without them, with the
+ * comparative columns of their schedule. Returns how many were filled in.
+ */
+export async function fillScheduledReports(): Promise<number> {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('id, type, business_id, period_start, period_end, schedule:report_schedules(comparison)')
+    .not('schedule_id', 'is', null)
+    .is('data', null)
+    .eq('status', 'draft')
+    .in('type', SCHEDULED_REPORT_TYPES.map(type => type.value));
+
+  if (error) throw error;
+
+  let filled = 0;
+  for (const report of data || []) {
+    if (!report.period_start || !report.period_end) continue;
+
+    const reportData = await generateComparativeReportData(
+      report.type as ReportType,
+      report.business_id,
+      { start: report.period_start, end: report.period_end },
+      (report.schedule?.comparison as unknown as ReportComparisonOptions | null) || null
+    );
+    if (!reportData) continue;
+
+    // Only fill drafts nobody else has filled in the meantime
+    const { error: updateError } = await supabase
+      .from('reports')
+      .update({ data: reportData as unknown as Json, generated_at: reportData.generated_at })
+      .eq('id', report.id)
+      .is('data', null);
+
+    if (updateError) throw updateError;
+    filled++;
+  }
+
+  return filled;
+}
+
+/**
+ * Create the reports of every run that is due, then compute their figures.
+ * Returns the number of reports created.
+ */
+export async function generateScheduledReports(): Promise<number> {
+  const { data, error } = await supabase.rpc('generate_scheduled_reports', {
+    p_through: toISODate(new Date()),
+  });
+
+  if (error) throw error;
+
+  // Drafts created overnight by the database scheduler are filled in here too
+  await fillScheduledReports();
+
+  return data || 0;
+}
@@ -0,0 +1,415 @@
+// Report Versions
+// Every set of figures written to a report is kept by the database as a
+// numbered, immutable version. Two versions are compared line by line, and the
+// journal entries and transactions changed between them are matched to the
+// lines they moved.
+
+import { supabase } from './supabase';
+import { roundCurrency } from './utils';
+import { fetchBusinessAccounts } from './accounts';
+import { getTransactionCategory, UNCATEGORIZED } from './reports';
+import { generateComparativeReportData } from './reportComparisons';
+import { formatCustomReportColumn, runCustomReport } from './customReports';
+import type { Json, Tables } from './database.types';
+import type { ReportData, ReportLineItem, ReportStatus, ReportType, ReportVersion } from '@/types';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+// A figure of a report, identified by its section and label
+export interface ReportFigure {
+  section: string;
+  category: string;
+  amount: number;
+  is_total: boolean;
+}
+
+export type ReportLineChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ReportLineChange {
+  section: string;
+  category: string;
+  before: number | null;
+  after: number | null;
+  change: number;
+  kind: ReportLineChangeKind;
+  is_total: boolean;
+  adjustments: ReportAdjustment[];
+}
+
+// A journal entry or transaction written or edited between two versions
+export interface ReportAdjustment {
+  id: string;
+  source: 'journal_entry' | 'transaction';
+  date: string;
+  description: string;
+  amount: number;
+  changed_at: string;
+  categories: string[];
+}
+
+export interface ReportVersionDiff {
+  changes: ReportLineChange[];
+  unchanged_count: number;
+  // Adjustments that do not touch any changed line, or could not be matched to one
+  other_adjustments: ReportAdjustment[];
+}
+
+// The report subject a diff needs to look up adjustments
+export interface VersionedReport {
+  id: string;
+  type: ReportType | 'custom';
+  status: ReportStatus;
+  business_id: string;
+  period_start?: string;
+  period_end?: string;
+}
+
+const COMPUTED_REPORT_TYPES: string[] = ['profit_loss', 'balance_sheet', 'cash_flow', 'custom'];
+
+/**
+ * Only drafts and rejected reports can be recomputed; approved figures are fixed
+ */
+export function canRegenerateReport(report: Pick<VersionedReport, 'type' | 'status'>): boolean {
+  return COMPUTED_REPORT_TYPES.includes(report.type) && (report.status === 'draft' || report.status === 'rejected');
+}
+
+const lineFigures = (section: string, lines: ReportLineItem[]): ReportFigure[] =>
+  lines.map(line => ({ section, category: line.category, amount: line.amount, is_total: false }));
+
+const totalFigure = (section: string, category: string, amount: number): ReportFigure => ({
+  section,
+  category,
+  amount,
+  is_total: true,
+});
+
+/**
+ * Flatten a statement into its lines and totals, in statement order
+ */
+export function getReportFigures(data: ReportData): ReportFigure[] {
+  switch (data.type) {
+    case 'profit_loss':
+      return [
+        ...lineFigures('Revenue', data.revenue),
+        totalFigure('Revenue', 'Total Revenue', data.totals.revenue),
+        ...lineFigures('Cost of Goods Sold', data.cost_of_goods_sold),
+        totalFigure('Cost of Goods Sold', 'Total Cost of Goods Sold', data.totals.cost_of_goods_sold),
+        totalFigure('Gross Profit', 'Gross Profit', data.totals.gross_profit),
+        ...lineFigures('Operating Expenses', data.operating_expenses),
+        totalFigure('Operating Expenses', 'Total Operating Expenses', data.totals.operating_expenses),
+        totalFigure('Net Income', 'Net Income', data.totals.net_income),
+      ];
+    case 'balance_sheet':
+      return [
+        ...lineFigures('Assets', data.assets),
+        totalFigure('Assets', 'Total Assets', data.totals.assets),
+        ...lineFigures('Liabilities', data.liabilities),
+        totalFigure('Liabilities', 'Total Liabilities', data.totals.liabilities),
+        ...lineFigures('Equity', data.equity),
+        totalFigure('Equity', 'Total Equity', data.totals.equity),
+        totalFigure('Equity', 'Total Liabilities & Equity', data.totals.liabilities_and_equity),
+      ];
+    case 'cash_flow':
+      return [
+        { section: 'Operating Activities', category: 'Net Income', amount: data.net_income, is_total: false },
+        ...lineFigures('Non-cash Adjustments', data.operating.adjustments),
+        ...lineFigures('Working Capital', data.operating.working_capital),
+        totalFigure('Operating Activities', 'Net Cash from Operating Activities', data.totals.operating),
+        ...lineFigures('Investing Activities', data.investing),
+        totalFigure('Investing Activities', 'Net Cash from Investing Activities', data.totals.investing),
+        ...lineFigures('Financing Activities', data.financing),
+        totalFigure('Financing Activities', 'Net Cash from Financing Activities', data.totals.financing),
+        totalFigure('Cash', 'Net Change in Cash', data.totals.net_change),
+        totalFigure('Cash', 'Cash at Beginning of Period', data.beginning_cash),
+        totalFigure('Cash', 'Cash at End of Period', data.ending_cash),
+      ];
+    case 'custom':
+      // One figure per row and column; the column names the section
+      return data.rows.flatMap(row => data.columns.map((column, index) => ({
+        section: formatCustomReportColumn(column),
+        category: row.label,
+        amount: row.values[index],
+        is_total: row.kind !== 'line',
+      })));
+  }
+}
+
+const toChange = (
+  figure: ReportFigure,
+  before: number | null,
+  after: number | null,
+  kind: ReportLineChangeKind
+): ReportLineChange => ({
+  section: figure.section,
+  category: figure.category,
+  before,
+  after,
+  change: roundCurrency((after ?? 0) - (before ?? 0)),
+  kind,
+  is_total: figure.is_total,
+  adjustments: [],
+});
+
+const figureKey = (figure: Pick<ReportFigure, 'section' | 'category'>) => `${figure.section}\u0000${figure.category}`;
+
+/**
+ * Line-level differences between two sets of figures. Lines in both are
+ * listed in the newer statement's order, followed by the removed lines.
+ */
+export function diffReportData(before: ReportData, after: ReportData): { changes: ReportLineChange[]; unchanged_count: number } {
+  const beforeFigures = getReportFigures(before);
+  const afterFigures = getReportFigures(after);
+  const beforeByKey = new Map(beforeFigures.map(figure => [figureKey(figure), figure]));
+  const afterKeys = new Set(afterFigures.map(figureKey));
+
+  const changes: ReportLineChange[] = [];
+  let unchangedCount = 0;
+
+  afterFigures.forEach(figure => {
+    const previous = beforeByKey.get(figureKey(figure));
+    if (!previous) {
+      changes.push(toChange(figure, null, figure.amount, 'added'));
+      return;
+    }
+    if (roundCurrency(figure.amount - previous.amount) === 0) {
+      unchangedCount++;
+    } else {
+      changes.push(toChange(figure, previous.amount, figure.amount, 'changed'));
+    }
+  });
+
+  beforeFigures
+    .filter(figure => !afterKeys.has(figureKey(figure)))
+    .forEach(figure => {
+      changes.push(toChange(figure, figure.amount, null, 'removed'));
+    });
+
+  return { changes, unchanged_count: unchangedCount };
+}
+
+type VersionRow = Tables<'report_versions'> & {
+  user?: Pick<Tables<'users'>, 'full_name' | 'email'> | null;
+};
+
+const mapVersionRow = (row: VersionRow): ReportVersion => ({
+  id: row.id,
+  report_id: row.report_id,
+  version_number: row.version_number,
+  data: row.data as unknown as ReportData,
+  generated_at: row.generated_at,
+  generated_by: row.generated_by,
+  generated_by_name: row.user ? row.user.full_name || row.user.email : undefined,
+});
+
+/**
+ * All versions of a report, newest first
+ */
+export async function fetchReportVersions(reportId: string): Promise<ReportVersion[]> {
+  const { data, error } = await supabase
+    .from('report_versions')
+    .select('*, user:users(full_name, email)')
+    .eq('report_id', reportId)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapVersionRow);
+}
+
+/**
+ * Load the journal entries and transactions written or edited between two
+ * points in time that fall within the report's period. Deleted records
+ * leave nothing behind to list.
+ */
+export async function fetchAdjustmentsBetween(
+  report: VersionedReport,
+  from: string,
+  to: string
+): Promise<ReportAdjustment[]> {
+  if (!report.period_end) return [];
+
+  // A profit & loss only covers its period; the other statements carry balances from the full history
+  const start = report.type === 'profit_loss' ? report.period_start : undefined;
+
+  const accounts = await fetchBusinessAccounts(report.business_id, { includeInactive: true });
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+  const nameOf = (accountId: string | null) => (accountId && accountNames.get(accountId)) || null;
+
+  const entries: ReportAdjustment[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('journal_entries')
+      .select('id, entry_date, memo, reference, updated_at, journal_lines(account_id, debit, credit)')
+      .eq('business_id', report.business_id)
+      .eq('source', 'manual')
+      .gt('updated_at', from)
+      .lte('updated_at', to)
+      .lte('entry_date', report.period_end);
+
+    if (start) {
+      query = query.gte('entry_date', start);
+    }
+
+    const { data, error } = await query
+      .order('updated_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    entries.push(...(data || []).map((entry): ReportAdjustment => ({
+      id: entry.id,
+      source: 'journal_entry',
+      date: entry.entry_date,
+      description: entry.memo || entry.reference || 'Journal entry',
+      amount: roundCurrency(entry.journal_lines.reduce((sum, line) => sum + Number(line.debit), 0)),
+      changed_at: entry.updated_at || '',
+      categories: entry.journal_lines
+        .map(line => nameOf(line.account_id))
+        .filter((name): name is string => !!name),
+    })));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const transactions: ReportAdjustment[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select('id, date, description, amount, type, category, category_name, account_id, transfer_account_id, updated_at, transaction_splits(category, amount)')
+      .eq('business_id', report.business_id)
+      .gt('updated_at', from)
+      .lte('updated_at', to)
+      .lte('date', report.period_end);
+
+    if (start) {
+      query = query.gte('date', start);
+    }
+
+    const { data, error } = await query
+      .order('updated_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    transactions.push(...(data || []).map(({ transaction_splits, ...transaction }): ReportAdjustment => {
+      const categories = transaction_splits.length > 0
+        ? transaction_splits.map(split => split.category || UNCATEGORIZED)
+        : [getTransactionCategory({ ...transaction, amount: Number(transaction.amount) })];
+
+      return {
+        id: transaction.id,
+        source: 'transaction',
+        date: transaction.date,
+        description: transaction.description || getTransactionCategory({ ...transaction, amount: Number(transaction.amount) }),
+        amount: Number(transaction.amount),
+        changed_at: transaction.updated_at || '',
+        categories: [
+          ...categories,
+          nameOf(transaction.account_id),
+          nameOf(transaction.transfer_account_id),
+        ].filter((name): name is string => !!name),
+      };
+    }));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return [...entries, ...transactions].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+}
+
+/**
+ * Compare two versions and attach to each changed line the adjustments made
+ * between them that post to it
+ */
+export async function compareReportVersions(
+  report: VersionedReport,
+  base: ReportVersion,
+  compare: ReportVersion
+): Promise<ReportVersionDiff> {
+  const { changes, unchanged_count } = diffReportData(base.data, compare.data);
+
+  const [from, to] = [base.generated_at, compare.generated_at].sort();
+  const adjustments = changes.length > 0 ? await fetchAdjustmentsBetween(report, from, to) : [];
+  const matched = new Set<string>();
+
+  changes
+    .filter(change => !change.is_total)
+    .forEach(change => {
+      change.adjustments = adjustments.filter(adjustment => adjustment.categories.includes(change.category));
+      change.adjustments.forEach(adjustment => matched.add(adjustment.id));
+    });
+
+  return {
+    changes,
+    unchanged_count,
+    other_adjustments: adjustments.filter(adjustment => !matched.has(adjustment.id)),
+  };
+}
+
+// Whether any figure of the report or of its comparative columns moved
+const hasChangedFigures = (before: ReportData, after: ReportData): boolean => {
+  if (before.type !== after.type || diffReportData(before, after).changes.length > 0) return true;
+
+  const beforeColumns = (before.type !== 'custom' && before.comparison?.columns) || [];
+  const afterColumns = (after.type !== 'custom' && after.comparison?.columns) || [];
+  return beforeColumns.length !== afterColumns.length || afterColumns.some((column, index) =>
+    column.kind !== beforeColumns[index].kind ||
+    column.data.type !== beforeColumns[index].data.type ||
+    diffReportData(beforeColumns[index].data, column.data).changes.length > 0
+  );
+};
+
+/**
+ * Recompute a report's figures from the ledger, with the comparative columns
+ * it was generated with; custom reports are run again with their own layout.
+ * The database stores them as a new version; nothing is written when no
+ * figure changed. Returns the new version number, or null when the figures
+ * are unchanged.
+ */
+export async function regenerateReport(report: VersionedReport, currentData: ReportData | null | undefined): Promise<number | null> {
+  if (!canRegenerateReport(report)) {
+    throw new Error('Only draft and rejected reports can be regenerated');
+  }
+  if (!report.period_start || !report.period_end) {
+    throw new Error('This report has no period to regenerate');
+  }
+
+  const range = { start: report.period_start, end: report.period_end };
+  let data: ReportData | null;
+  if (report.type === 'custom') {
+    if (currentData?.type !== 'custom') {
+      throw new Error('This custom report has no layout to regenerate');
+    }
+    data = await runCustomReport(currentData.definition, currentData.businesses, range, currentData.template_id);
+  } else {
+    data = await generateComparativeReportData(
+      report.type,
+      report.business_id,
+      range,
+      currentData?.type !== 'custom' ? currentData?.comparison?.options : null
+    );
+  }
+  if (!data) {
+    throw new Error('This report type cannot be regenerated');
+  }
+
+  if (currentData && !hasChangedFigures(currentData, data)) {
+    return null;
+  }
+
+  const { data: updated, error } = await supabase
+    .from('reports')
+    .update({ data: data as unknown as Json, generated_at: data.generated_at })
+    .eq('id', report.id)
+    .select('current_version')
+    .single();
+
+  if (error) throw error;
+
+  return updated.current_version;
+}
@@ -0,0 +1,170 @@
+// Report Workflow
+// The review and approval path a report takes before a client can see it:
+// draft -> pending review -> approved -> published. The database enforces the
+// same transitions and keeps the status history; reviewers discuss a report in
+// threaded comments.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import type { ReportComment, ReportStatus, ReportStatusChange } from '@/types';
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  pending_review: 'Pending Review',
+  approved: 'Approved',
+  published: 'Published',
+  rejected: 'Rejected',
+  archived: 'Archived',
+};
+
+// Mirrors is_report_transition_allowed() in the database
+export const REPORT_STATUS_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  draft: ['pending_review', 'archived'],
+  pending_review: ['approved', 'rejected', 'draft'],
+  approved: ['published', 'rejected'],
+  rejected: ['draft', 'archived'],
+  published: ['archived'],
+  archived: [],
+};
+
+// What each move is called on the buttons that make it
+export const REPORT_TRANSITION_LABELS: Record<ReportStatus, string> = {
+  draft: 'Return to Draft',
+  pending_review: 'Submit for Review',
+  approved: 'Approve',
+  published: 'Publish to Client',
+  rejected: 'Reject',
+  archived: 'Archive',
+};
+
+export function canTransitionReport(from: ReportStatus, to: ReportStatus): boolean {
+  return REPORT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Move a report to a new status. Rejections need a reason, which the
+ * database stores on the report and in its history.
+ */
+export async function transitionReport(
+  reportId: string,
+  from: ReportStatus,
+  to: ReportStatus,
+  reason?: string
+): Promise<void> {
+  if (!canTransitionReport(from, to)) {
+    throw new Error(`A ${REPORT_STATUS_LABELS[from].toLowerCase()} report cannot be moved to ${REPORT_STATUS_LABELS[to].toLowerCase()}`);
+  }
+  if (to === 'rejected' && !reason?.trim()) {
+    throw new Error('A reason is required to reject a report');
+  }
+
+  // Matching on the current status keeps two reviewers from acting on the same report at once
+  const { data, error } = await supabase
+    .from('reports')
+    .update(to === 'rejected' ? { status: to, rejection_reason: reason!.trim() } : { status: to })
+    .eq('id', reportId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('This report was changed by someone else. Refresh and try again.');
+  }
+}
+
+const userName = (user: Pick<Tables<'users'>, 'full_name' | 'email'> | null): string | undefined =>
+  user ? user.full_name || user.email : undefined;
+
+export async function fetchReportHistory(reportId: string): Promise<ReportStatusChange[]> {
+  const { data, error } = await supabase
+    .from('report_status_history')
+    .select('*, user:users(full_name, email)')
+    .eq('report_id', reportId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    report_id: row.report_id,
+    from_status: row.from_status as ReportStatus | null,
+    to_status: row.to_status as ReportStatus,
+    changed_by: row.changed_by,
+    changed_by_name: userName(row.user),
+    reason: row.reason,
+    created_at: row.created_at || '',
+  }));
+}
+
+/**
+ * Nest replies under the comment they answer, oldest first
+ */
+export function buildCommentThreads(comments: ReportComment[]): ReportComment[] {
+  const byId = new Map(comments.map(comment => [comment.id, { ...comment, replies: [] as ReportComment[] }]));
+  const roots: ReportComment[] = [];
+
+  [...byId.values()]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(comment => {
+      const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined;
+      if (parent) {
+        parent.replies.push(comment);
+      } else {
+        roots.push(comment);
+      }
+    });
+
+  return roots;
+}
+
+export async function fetchReportComments(reportId: string): Promise<ReportComment[]> {
+  const { data, error } = await supabase
+    .from('report_comments')
+    .select('*, author:users(full_name, email)')
+    .eq('report_id', reportId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return buildCommentThreads((data || []).map(row => ({
+    id: row.id,
+    report_id: row.report_id,
+    parent_id: row.parent_id,
+    author_id: row.author_id,
+    author_name: userName(row.author),
+    body: row.body,
+    created_at: row.created_at || '',
+    replies: [],
+  })));
+}
+
+export async function addReportComment(
+  reportId: string,
+  authorId: string,
+  body: string,
+  parentId?: string | null
+): Promise<void> {
+  if (!body.trim()) {
+    throw new Error('Comment cannot be empty');
+  }
+
+  const { error } = await supabase
+    .from('report_comments')
+    .insert({
+      report_id: reportId,
+      author_id: authorId,
+      body: body.trim(),
+      parent_id: parentId || null,
+    });
+
+  if (error) throw error;
+}
+
+export async function deleteReportComment(commentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('report_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,694 @@
+// Report Engine
+// Aggregates ledger transactions into financial statements for SwiftBooks reports
+
+import { supabase } from './supabase';
+import { roundCurrency } from './utils';
+import { fetchBusinessAccounts, getCashFlowSection } from './accounts';
+import { fetchJournalEntries } from './ledger';
+import type {
+  Account,
+  BalanceSheetData,
+  CashFlowData,
+  FinancialStatementData,
+  JournalEntry,
+  JournalLine,
+  ProfitLossData,
+  ReportDateRange,
+  ReportLineItem,
+  ReportPeriod,
+  ReportType,
+} from '@/types';
+
+// Expense categories that are direct costs of producing revenue.
+// Everything else recorded as an expense is treated as an operating expense.
+export const COST_OF_GOODS_SOLD_CATEGORIES = [
+  'Cost of Goods Sold',
+  'Inventory Purchases',
+  'Raw Materials',
+  'Direct Labor',
+  'Shipping & Fulfillment',
+];
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+// Minimal transaction shape the engine needs; matches both business and personal rows
+export interface LedgerTransaction {
+  id: string;
+  amount: number;
+  type: string;
+  date: string;
+  description?: string | null;
+  category?: string | null;
+  category_name?: string | null;
+  status?: string | null;
+  account_id?: string | null;
+  transfer_account_id?: string | null;
+  recurring_transaction_id?: string | null;
+  tags?: string[] | null;
+  splits?: { category: string; amount: number }[] | null; // category lines of a split transaction
+}
+
+// Embedded select that loads the split lines with each transaction
+export const TRANSACTION_SPLITS_SELECT = 'transaction_splits(category, amount)';
+
+export const toISODate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Get the most recently completed period of the given length.
+ * A monthly report generated in October covers September, a quarterly one Q3, etc.
+ * Custom periods default to the last 30 days and are expected to be edited by the user.
+ */
+export function getReportDateRange(
+  period: ReportPeriod,
+  referenceDate: Date = new Date()
+): ReportDateRange {
+  const year = referenceDate.getFullYear();
+  const month = referenceDate.getMonth();
+
+  switch (period) {
+    case 'monthly':
+      return {
+        start: toISODate(new Date(year, month - 1, 1)),
+        end: toISODate(new Date(year, month, 0)),
+      };
+    case 'quarterly': {
+      const currentQuarterStart = Math.floor(month / 3) * 3;
+      return {
+        start: toISODate(new Date(year, currentQuarterStart - 3, 1)),
+        end: toISODate(new Date(year, currentQuarterStart, 0)),
+      };
+    }
+    case 'yearly':
+      return {
+        start: toISODate(new Date(year - 1, 0, 1)),
+        end: toISODate(new Date(year - 1, 11, 31)),
+      };
+    case 'custom':
+    default: {
+      const start = new Date(referenceDate);
+      start.setDate(start.getDate() - 30);
+      return {
+        start: toISODate(start),
+        end: toISODate(referenceDate),
+      };
+    }
+  }
+}
+
+/**
+ * Resolve the category label of a transaction.
+ * Business transactions use `category`, personal ones `category_name`.
+ */
+export function getTransactionCategory(transaction: LedgerTransaction): string {
+  return transaction.category || transaction.category_name || UNCATEGORIZED;
+}
+
+/**
+ * Replace each split transaction with one transaction per split line, signed
+ * like the original, so category totals count every line in its own category
+ */
+export function expandSplitTransactions<T extends LedgerTransaction>(transactions: T[]): T[] {
+  return transactions.flatMap(transaction => {
+    if (!transaction.splits || transaction.splits.length === 0) return [transaction];
+
+    const sign = Number(transaction.amount) < 0 ? -1 : 1;
+    return transaction.splits.map(split => ({
+      ...transaction,
+      amount: sign * Math.abs(Number(split.amount)),
+      category: split.category,
+      category_name: split.category,
+      splits: null,
+    }));
+  });
+}
+
+export function isCostOfGoodsSold(category: string): boolean {
+  return COST_OF_GOODS_SOLD_CATEGORIES.includes(category);
+}
+
+/**
+ * Group transactions into one line per category, largest amount first
+ */
+export function summarizeByCategory(transactions: LedgerTransaction[]): ReportLineItem[] {
+  const lines = new Map<string, ReportLineItem>();
+
+  transactions.forEach(transaction => {
+    const category = getTransactionCategory(transaction);
+    const line = lines.get(category) || { category, amount: 0, transaction_count: 0 };
+    line.amount += Math.abs(Number(transaction.amount));
+    line.transaction_count += 1;
+    lines.set(category, line);
+  });
+
+  return Array.from(lines.values())
+    .map(line => ({ ...line, amount: roundCurrency(line.amount) }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+const sumLines = (lines: ReportLineItem[]): number => {
+  return roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+};
+
+// Signed line accumulator used where amounts can net against each other
+const addToLine = (lines: Map<string, ReportLineItem>, label: string, amount: number) => {
+  const line = lines.get(label) || { category: label, amount: 0, transaction_count: 0 };
+  line.amount += amount;
+  line.transaction_count += 1;
+  lines.set(label, line);
+};
+
+const toLineMap = (lines: ReportLineItem[]): Map<string, ReportLineItem> => {
+  return new Map(lines.map(line => [line.category, { ...line }]));
+};
+
+const toSignedLines = (lines: Map<string, ReportLineItem>): ReportLineItem[] => {
+  return Array.from(lines.values())
+    .map(line => ({ ...line, amount: roundCurrency(line.amount) }))
+    .filter(line => line.amount !== 0)
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+};
+
+// A line of a manual journal entry with its resolved account
+interface ManualPosting {
+  date: string;
+  account: Account;
+  debit: number;
+  credit: number;
+  touchesCash: boolean;
+}
+
+/**
+ * Flatten the manual and adjusting journal entries dated within the range.
+ * Entries generated from transactions are skipped; the transactions themselves are counted.
+ */
+const getManualPostings = (
+  accounts: Account[],
+  journalEntries: JournalEntry[],
+  range: { start?: string; end: string }
+): ManualPosting[] => {
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+
+  return journalEntries
+    .filter(entry => entry.source === 'manual')
+    .filter(entry => (!range.start || entry.entry_date >= range.start) && entry.entry_date <= range.end)
+    .flatMap(entry => {
+      const lines = entry.lines
+        .map(line => ({ line, account: accountsById.get(line.account_id) }))
+        .filter((item): item is { line: JournalLine; account: Account } => !!item.account);
+      const touchesCash = lines.some(({ account }) => getCashFlowSection(account) === 'cash');
+
+      return lines.map(({ line, account }) => ({
+        date: entry.entry_date,
+        account,
+        debit: line.debit,
+        credit: line.credit,
+        touchesCash,
+      }));
+    });
+};
+
+/**
+ * Build a Profit & Loss statement from the transactions of a period.
+ * Rejected transactions and transfers do not affect income and are skipped.
+ * Manual journal lines on income and expense accounts are added to the
+ * category of the same name.
+ */
+export function buildProfitAndLoss(
+  transactions: LedgerTransaction[],
+  range: ReportDateRange,
+  accounts: Account[] = [],
+  journalEntries: JournalEntry[] = []
+): ProfitLossData {
+  const posted = transactions.filter(t =>
+    t.status !== 'rejected' && t.date >= range.start && t.date <= range.end
+  );
+
+  const income = posted.filter(t => t.type === 'income');
+  const expenses = posted.filter(t => t.type === 'expense');
+
+  const expenseLines = expandSplitTransactions(expenses);
+  const revenueLines = toLineMap(summarizeByCategory(expandSplitTransactions(income)));
+  const costOfGoodsSoldLines = toLineMap(summarizeByCategory(
+    expenseLines.filter(t => isCostOfGoodsSold(getTransactionCategory(t)))
+  ));
+  const operatingExpenseLines = toLineMap(summarizeByCategory(
+    expenseLines.filter(t => !isCostOfGoodsSold(getTransactionCategory(t)))
+  ));
+
+  getManualPostings(accounts, journalEntries, range).forEach(({ account, debit, credit }) => {
+    if (account.type === 'income') {
+      addToLine(revenueLines, account.name, credit - debit);
+    } else if (account.type === 'expense') {
+      const isDirectCost = account.subtype === 'cost_of_goods_sold' || isCostOfGoodsSold(account.name);
+      addToLine(isDirectCost ? costOfGoodsSoldLines : operatingExpenseLines, account.name, debit - credit);
+    }
+  });
+
+  const revenue = toSignedLines(revenueLines);
+  const costOfGoodsSold = toSignedLines(costOfGoodsSoldLines);
+  const operatingExpenses = toSignedLines(operatingExpenseLines);
+
+  const totalRevenue = sumLines(revenue);
+  const totalCostOfGoodsSold = sumLines(costOfGoodsSold);
+  const grossProfit = roundCurrency(totalRevenue - totalCostOfGoodsSold);
+  const totalOperatingExpenses = sumLines(operatingExpenses);
+
+  return {
+    type: 'profit_loss',
+    period_start: range.start,
+    period_end: range.end,
+    generated_at: new Date().toISOString(),
+    revenue,
+    cost_of_goods_sold: costOfGoodsSold,
+    operating_expenses: operatingExpenses,
+    totals: {
+      revenue: totalRevenue,
+      cost_of_goods_sold: totalCostOfGoodsSold,
+      gross_profit: grossProfit,
+      operating_expenses: totalOperatingExpenses,
+      net_income: roundCurrency(grossProfit - totalOperatingExpenses),
+    },
+    transaction_count: income.length + expenses.length,
+  };
+}
+
+// Looks up the account a transaction moved through, falling back to the default account
+export const createAccountResolver = (accounts: Account[]) => {
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+  const defaultAccount = accounts.find(account => account.is_default);
+
+  return {
+    byId: (id?: string | null) => (id ? accountsById.get(id) : undefined),
+    source: (id?: string | null) => (id && accountsById.get(id)) || defaultAccount,
+  };
+};
+
+// Transactions dated on or before an account's opening balance date are already included in it
+export const isBeforeOpening = (account: Account, date: string): boolean => {
+  return !!account.opening_balance_date && date <= account.opening_balance_date;
+};
+
+interface AccountBalances {
+  balances: Map<string, ReportLineItem>;
+  retainedEarnings: number;
+  unassignedCount: number;
+}
+
+/**
+ * Roll every account forward from its opening balance to the given date.
+ * Net income accumulates into retained earnings, including transactions that
+ * could not be placed in an account, so those surface as an imbalance.
+ * Manual journal entries post their lines directly.
+ */
+export function rollForwardBalances(
+  accounts: Account[],
+  transactions: LedgerTransaction[],
+  asOf: string,
+  journalEntries: JournalEntry[] = []
+): AccountBalances {
+  const resolver = createAccountResolver(accounts);
+  const balances = new Map<string, ReportLineItem>(
+    accounts.map(account => [
+      account.id,
+      { category: account.name, amount: account.opening_balance, transaction_count: 0 },
+    ])
+  );
+
+  // Assets grow with debits; liabilities and equity grow with credits
+  const post = (account: Account, debit: number) => {
+    const line = balances.get(account.id)!;
+    line.amount += account.type === 'asset' ? debit : -debit;
+    line.transaction_count += 1;
+  };
+
+  let retainedEarnings = 0;
+  let unassignedCount = 0;
+
+  transactions
+    .filter(t => t.status !== 'rejected' && t.date <= asOf)
+    .forEach(transaction => {
+      const amount = Math.abs(Number(transaction.amount));
+      const account = resolver.source(transaction.account_id);
+
+      if (account && isBeforeOpening(account, transaction.date)) {
+        return;
+      }
+
+      if (transaction.type === 'income' || transaction.type === 'expense') {
+        const isIncome = transaction.type === 'income';
+        retainedEarnings += isIncome ? amount : -amount;
+
+        if (!account) {
+          unassignedCount += 1;
+          return;
+        }
+        post(account, isIncome ? amount : -amount);
+        return;
+      }
+
+      if (transaction.type === 'transfer') {
+        const destination = resolver.byId(transaction.transfer_account_id);
+
+        if (!account || !destination) {
+          unassignedCount += 1;
+          return;
+        }
+        post(account, -amount);
+        post(destination, amount);
+      }
+    });
+
+  getManualPostings(accounts, journalEntries, { end: asOf }).forEach(({ date, account, debit, credit }) => {
+    if (account.type === 'income' || account.type === 'expense') {
+      retainedEarnings += credit - debit;
+    } else if (!isBeforeOpening(account, date)) {
+      post(account, debit - credit);
+    }
+  });
+
+  return { balances, retainedEarnings, unassignedCount };
+}
+
+/**
+ * Combined balance of the cash and bank accounts as of a date
+ */
+export function getCashBalance(
+  accounts: Account[],
+  transactions: LedgerTransaction[],
+  asOf: string,
+  journalEntries: JournalEntry[] = []
+): number {
+  const { balances } = rollForwardBalances(accounts, transactions, asOf, journalEntries);
+  return roundCurrency(
+    accounts
+      .filter(account => getCashFlowSection(account) === 'cash')
+      .reduce((sum, account) => sum + balances.get(account.id)!.amount, 0)
+  );
+}
+
+/**
+ * Build a point-in-time balance sheet.
+ * Each account starts from its opening balance and is rolled forward by the
+ * transactions that moved through it; net income accumulates into retained earnings.
+ * Transactions without an account fall back to the business's default account.
+ */
+export function buildBalanceSheet(
+  accounts: Account[],
+  transactions: LedgerTransaction[],
+  asOf: string,
+  journalEntries: JournalEntry[] = []
+): BalanceSheetData {
+  const { balances, retainedEarnings, unassignedCount } = rollForwardBalances(
+    accounts, transactions, asOf, journalEntries
+  );
+
+  // Inactive accounts are only listed while they still carry a balance
+  const linesOfType = (type: Account['type']) => accounts
+    .filter(account => account.type === type)
+    .map(account => ({ account, line: balances.get(account.id)! }))
+    .filter(({ account, line }) => account.status !== 'inactive' || roundCurrency(line.amount) !== 0)
+    .map(({ line }) => ({ ...line, amount: roundCurrency(line.amount) }));
+
+  const assets = linesOfType('asset');
+  const liabilities = linesOfType('liability');
+  const equity = [
+    ...linesOfType('equity'),
+    { category: 'Retained Earnings', amount: roundCurrency(retainedEarnings), transaction_count: 0 },
+  ];
+
+  const totalAssets = sumLines(assets);
+  const totalLiabilities = sumLines(liabilities);
+  const totalEquity = sumLines(equity);
+  const liabilitiesAndEquity = roundCurrency(totalLiabilities + totalEquity);
+  const difference = roundCurrency(totalAssets - liabilitiesAndEquity);
+
+  return {
+    type: 'balance_sheet',
+    as_of: asOf,
+    generated_at: new Date().toISOString(),
+    assets,
+    liabilities,
+    equity,
+    totals: {
+      assets: totalAssets,
+      liabilities: totalLiabilities,
+      equity: totalEquity,
+      liabilities_and_equity: liabilitiesAndEquity,
+    },
+    retained_earnings: roundCurrency(retainedEarnings),
+    is_balanced: difference === 0,
+    difference,
+    unassigned_transaction_count: unassignedCount,
+  };
+}
+
+const dayBefore = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toISODate(new Date(year, month - 1, day - 1));
+};
+
+/**
+ * Build a cash flow statement using the indirect method.
+ * Starts from net income, reverses income and expenses that did not touch a
+ * cash or bank account, and classifies transfers between cash and other
+ * accounts as operating (working capital), investing or financing activity.
+ * The result is checked against the change in cash account balances.
+ */
+export function buildCashFlow(
+  accounts: Account[],
+  transactions: LedgerTransaction[],
+  range: ReportDateRange,
+  journalEntries: JournalEntry[] = []
+): CashFlowData {
+  const resolver = createAccountResolver(accounts);
+  const adjustments = new Map<string, ReportLineItem>();
+  const workingCapital = new Map<string, ReportLineItem>();
+  const investing = new Map<string, ReportLineItem>();
+  const financing = new Map<string, ReportLineItem>();
+
+  // Places the cash effect of a non-cash account in its statement section
+  const addActivity = (account: Account, amount: number) => {
+    const section = getCashFlowSection(account);
+    if (section === 'operating') addToLine(workingCapital, `Change in ${account.name}`, amount);
+    if (section === 'investing') addToLine(investing, account.name, amount);
+    if (section === 'financing') addToLine(financing, account.name, amount);
+  };
+
+  let netIncome = 0;
+  let unassignedCount = 0;
+
+  transactions
+    .filter(t => t.status !== 'rejected' && t.date >= range.start && t.date <= range.end)
+    .forEach(transaction => {
+      const amount = Math.abs(Number(transaction.amount));
+      const account = resolver.source(transaction.account_id);
+
+      if (account && isBeforeOpening(account, transaction.date)) {
+        return;
+      }
+
+      if (transaction.type === 'income' || transaction.type === 'expense') {
+        const income = transaction.type === 'income' ? amount : -amount;
+        netIncome += income;
+
+        if (!account) {
+          unassignedCount += 1;
+          return;
+        }
+
+        // Income earned or expenses incurred outside cash accounts did not move cash
+        const section = getCashFlowSection(account);
+        if (section === 'operating') {
+          addToLine(workingCapital, `Change in ${account.name}`, -income);
+        } else if (section !== 'cash') {
+          expandSplitTransactions([transaction]).forEach(line => {
+            const lineIncome = Math.abs(Number(line.amount)) * (transaction.type === 'income' ? 1 : -1);
+            addToLine(adjustments, getTransactionCategory(line), -lineIncome);
+          });
+        }
+        return;
+      }
+
+      if (transaction.type === 'transfer') {
+        const destination = resolver.byId(transaction.transfer_account_id);
+
+        if (!account || !destination) {
+          unassignedCount += 1;
+          return;
+        }
+
+        // Transfers between two cash accounts, or two non-cash accounts, do not change cash
+        const fromCash = getCashFlowSection(account) === 'cash';
+        const toCash = getCashFlowSection(destination) === 'cash';
+        if (fromCash && !toCash) addActivity(destination, -amount);
+        if (!fromCash && toCash) addActivity(account, amount);
+      }
+    });
+
+  // Manual entries that move cash are activity; the rest (e.g. depreciation) are non-cash adjustments
+  getManualPostings(accounts, journalEntries, range).forEach(({ account, debit, credit, touchesCash }) => {
+    const section = getCashFlowSection(account);
+
+    if (account.type === 'income' || account.type === 'expense') {
+      netIncome += credit - debit;
+    } else if (section === 'operating' || (section !== 'cash' && touchesCash)) {
+      addActivity(account, credit - debit);
+    } else if (section !== 'cash') {
+      addToLine(adjustments, account.name, credit - debit);
+    }
+  });
+
+  const adjustmentLines = toSignedLines(adjustments);
+  const workingCapitalLines = toSignedLines(workingCapital);
+  const investingLines = toSignedLines(investing);
+  const financingLines = toSignedLines(financing);
+
+  const totalOperating = roundCurrency(
+    netIncome + sumLines(adjustmentLines) + sumLines(workingCapitalLines)
+  );
+  const totalInvesting = sumLines(investingLines);
+  const totalFinancing = sumLines(financingLines);
+  const netChange = roundCurrency(totalOperating + totalInvesting + totalFinancing);
+
+  const beginningCash = getCashBalance(accounts, transactions, dayBefore(range.start), journalEntries);
+  const endingCash = getCashBalance(accounts, transactions, range.end, journalEntries);
+  const difference = roundCurrency(endingCash - (beginningCash + netChange));
+
+  return {
+    type: 'cash_flow',
+    period_start: range.start,
+    period_end: range.end,
+    generated_at: new Date().toISOString(),
+    net_income: roundCurrency(netIncome),
+    operating: {
+      adjustments: adjustmentLines,
+      working_capital: workingCapitalLines,
+    },
+    investing: investingLines,
+    financing: financingLines,
+    totals: {
+      operating: totalOperating,
+      investing: totalInvesting,
+      financing: totalFinancing,
+      net_change: netChange,
+    },
+    beginning_cash: beginningCash,
+    ending_cash: endingCash,
+    is_reconciled: difference === 0,
+    difference,
+    unassigned_transaction_count: unassignedCount,
+  };
+}
+
+// Load every transaction of a book dated within the range, paging past the
+// select cap. A personal book holds the user's transactions outside any business.
+async function fetchBookTransactions(
+  owner: 'business_id' | 'user_id',
+  ownerId: string,
+  range: { start?: string; end: string }
+): Promise<LedgerTransaction[]> {
+  const transactions: LedgerTransaction[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select(`id, amount, type, date, description, category, category_name, status, account_id, transfer_account_id, recurring_transaction_id, tags, ${TRANSACTION_SPLITS_SELECT}`)
+      .eq(owner, ownerId)
+      .lte('date', range.end);
+
+    if (owner === 'user_id') {
+      query = query.is('business_id', null);
+    }
+    if (range.start) {
+      query = query.gte('date', range.start);
+    }
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    transactions.push(...(data || []).map(({ transaction_splits, ...t }) => ({
+      ...t,
+      amount: Number(t.amount),
+      splits: transaction_splits,
+    })));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return transactions;
+}
+
+/**
+ * Load every transaction of a business dated within the range.
+ * Omitting the start loads the full history up to the end date.
+ */
+export async function fetchBusinessTransactions(
+  businessId: string,
+  range: { start?: string; end: string }
+): Promise<LedgerTransaction[]> {
+  return fetchBookTransactions('business_id', businessId, range);
+}
+
+/**
+ * Load every transaction of a personal book dated within the range.
+ * Omitting the start loads the full history up to the end date.
+ */
+export async function fetchUserTransactions(
+  userId: string,
+  range: { start?: string; end: string }
+): Promise<LedgerTransaction[]> {
+  return fetchBookTransactions('user_id', userId, range);
+}
+
+/**
+ * Compute the figures for a report of the given type.
+ * Returns null for report types the engine does not compute yet.
+ */
+export async function generateReportData(
+  type: ReportType,
+  businessId: string,
+  range: ReportDateRange
+): Promise<FinancialStatementData | null> {
+  switch (type) {
+    case 'profit_loss': {
+      const [accounts, transactions, journalEntries] = await Promise.all([
+        fetchBusinessAccounts(businessId, { includeInactive: true }),
+        fetchBusinessTransactions(businessId, range),
+        fetchJournalEntries({ businessId }, { ...range, source: 'manual' }),
+      ]);
+      return buildProfitAndLoss(transactions, range, accounts, journalEntries);
+    }
+    case 'balance_sheet': {
+      // Point-in-time statement as of the end of the selected period
+      const [accounts, transactions, journalEntries] = await Promise.all([
+        fetchBusinessAccounts(businessId, { includeInactive: true }),
+        fetchBusinessTransactions(businessId, { end: range.end }),
+        fetchJournalEntries({ businessId }, { end: range.end, source: 'manual' }),
+      ]);
+      return buildBalanceSheet(accounts, transactions, range.end, journalEntries);
+    }
+    case 'cash_flow': {
+      // Full history is needed to compute the opening cash balance
+      const [accounts, transactions, journalEntries] = await Promise.all([
+        fetchBusinessAccounts(businessId, { includeInactive: true }),
+        fetchBusinessTransactions(businessId, { end: range.end }),
+        fetchJournalEntries({ businessId }, { end: range.end, source: 'manual' }),
+      ]);
+      return buildCashFlow(accounts, transactions, range, journalEntries);
+    }
+    default:
+      return null;
+  }
+}
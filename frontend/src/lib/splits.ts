@@ -0,0 +1,78 @@
+// Split Transactions
+// Divides one income or expense transaction into several category lines that
+// add up to its amount. The lines are saved and posted to the ledger by the
+// database in one call.
+
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+import { roundCurrency } from './utils';
+import type { TransactionSplit } from '@/types';
+
+// Category shown on a transaction while it is split
+export const SPLIT_CATEGORY = 'Split';
+
+export const isSplitCategory = (category: string | null | undefined): boolean =>
+  category === SPLIT_CATEGORY;
+
+/**
+ * Amount still to be assigned to a line; negative when the lines exceed the total
+ */
+export function getUnassignedAmount(total: number, splits: TransactionSplit[]): number {
+  const assigned = splits.reduce((sum, split) => sum + (Number(split.amount) || 0), 0);
+  return roundCurrency(Math.abs(total) - assigned);
+}
+
+/**
+ * Check split lines before saving. Returns an error message or null.
+ */
+export function validateSplits(total: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return 'A split needs at least two lines';
+  if (splits.some(split => !split.category.trim())) return 'Choose a category for every line';
+  if (splits.some(split => !(Number(split.amount) > 0))) return 'Every line needs an amount greater than zero';
+
+  const unassigned = getUnassignedAmount(total, splits);
+  if (unassigned !== 0) {
+    return unassigned > 0
+      ? `Lines are ${Math.abs(unassigned).toFixed(2)} short of the transaction amount`
+      : `Lines exceed the transaction amount by ${Math.abs(unassigned).toFixed(2)}`;
+  }
+  return null;
+}
+
+export const mapTransactionSplitRow = (row: Tables<'transaction_splits'>): TransactionSplit => ({
+  id: row.id,
+  transaction_id: row.transaction_id,
+  category: row.category,
+  amount: Number(row.amount),
+  memo: row.memo,
+  line_order: row.line_order,
+});
+
+export async function fetchTransactionSplits(transactionId: string): Promise<TransactionSplit[]> {
+  const { data, error } = await supabase
+    .from('transaction_splits')
+    .select('*')
+    .eq('transaction_id', transactionId)
+    .order('line_order');
+
+  if (error) throw error;
+
+  return (data || []).map(mapTransactionSplitRow);
+}
+
+/**
+ * Replace the split lines of a transaction. An empty list removes the split
+ * and restores the category of the largest former line.
+ */
+export async function saveTransactionSplits(transactionId: string, splits: TransactionSplit[]): Promise<void> {
+  const { error } = await supabase.rpc('save_transaction_splits', {
+    p_transaction_id: transactionId,
+    p_splits: splits.map(split => ({
+      category: split.category.trim(),
+      amount: roundCurrency(Number(split.amount)),
+      memo: split.memo || null,
+    })),
+  });
+
+  if (error) throw error;
+}
@@ -3,4 +3,9 @@ import { twMerge } from "tailwind-merge"
  
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-} 
\ No newline at end of file
+} 
+
+// Round to whole cents so sums of currency amounts compare exactly
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -47,7 +47,7 @@ export interface Permission {
 export type TransactionType = 'income' | 'expense' | 'transfer';
 export type TransactionStatus = 'pending' | 'approved' | 'rejected';
 export type ReportType = 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'tax_summary';
-export type ReportStatus = 'draft' | 'pending_review' | 'approved' | 'published';
+export type ReportStatus = 'draft' | 'pending_review' | 'approved' | 'published' | 'rejected' | 'archived';
 export type SubscriptionStatus = 'active' | 'canceled' | 'past_due' | 'unpaid';
 
 export interface Transaction {
@@ -59,11 +59,450 @@ export interface Transaction {
   date: string;
   type: TransactionType;
   status: TransactionStatus;
+  account_id?: string | null;
+  transfer_account_id?: string | null;
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
 }
 
+// A category line of a split transaction
+export interface TransactionSplit {
+  id?: string;
+  transaction_id?: string;
+  category: string;
+  amount: number; // share of the absolute transaction amount
+  memo?: string | null;
+  line_order?: number;
+}
+
+// Recurring Transaction Types
+export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+export type RecurringIntervalUnit = 'day' | 'week' | 'month' | 'year';
+
+// Template the scheduler materializes occurrences from
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  business_id?: string | null;
+  type: 'income' | 'expense';
+  amount: number; // always positive; the type gives the sign
+  description?: string | null;
+  category?: string | null;
+  account_id?: string | null;
+  tags: string[];
+  frequency: RecurringFrequency;
+  interval_count: number; // custom schedules repeat every interval_count interval_units
+  interval_unit: RecurringIntervalUnit;
+  start_date: string;
+  end_date?: string | null;
+  next_index: number; // occurrences already scheduled
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Goal Contribution Types
+export type GoalContributionKind = 'contribution' | 'starting_balance' | 'adjustment';
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  amount: number; // negative for withdrawals
+  contribution_date: string;
+  kind: GoalContributionKind;
+  transaction_id?: string | null;
+  note?: string | null;
+  created_at?: string;
+}
+
+// Debt Payoff Types
+export type DebtPayoffStrategy = 'snowball' | 'avalanche' | 'custom';
+
+export interface Debt {
+  id: string;
+  user_id: string;
+  name: string;
+  balance: number;
+  apr: number; // annual percentage rate, e.g. 19.99
+  minimum_payment: number;
+  custom_order: number;
+  goal_id?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DebtPayoffPlan {
+  strategy: DebtPayoffStrategy;
+  monthly_budget: number;
+}
+
+// Cash Flow Forecast Types
+export type ForecastAdjustmentKind = 'recurring' | 'one_time' | 'percent_change';
+
+export interface ForecastAdjustment {
+  kind: ForecastAdjustmentKind;
+  label: string;
+  amount: number; // signed monthly or one-off amount; a percentage for percent_change
+  start_date: string;
+  end_date?: string | null;
+  applies_to?: 'income' | 'expense'; // what a percent_change scales
+}
+
+export interface CashFlowScenario {
+  id: string;
+  user_id: string;
+  business_id?: string | null;
+  name: string;
+  adjustments: ForecastAdjustment[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Accounts Receivable Types
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void';
+
+export interface Customer {
+  id: string;
+  business_id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  payment_terms_days: number;
+  notes?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface InvoiceLineItem {
+  id?: string;
+  invoice_id?: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  tax_rate: number;
+  amount: number; // quantity x price less the discount, before tax
+  line_order?: number;
+}
+
+export interface InvoicePayment {
+  id: string;
+  invoice_id: string;
+  payment_date: string;
+  amount: number;
+  method?: string | null;
+  reference?: string | null;
+  transaction_id?: string | null; // income transaction the payment posted
+  created_at?: string;
+}
+
+export interface Invoice {
+  id: string;
+  business_id: string;
+  customer_id: string;
+  customer?: Customer;
+  invoice_number: string;
+  issue_date: string;
+  due_date: string;
+  payment_terms_days: number;
+  status: InvoiceStatus;
+  subtotal: number;
+  discount_total: number;
+  tax_total: number;
+  total: number;
+  amount_paid: number; // kept equal to the sum of its payments
+  notes?: string | null;
+  sent_at?: string | null;
+  voided_at?: string | null;
+  template_id?: string | null;
+  pdf_document_id?: string | null; // last rendered PDF, in documents
+  pdf_file_path?: string | null;
+  pdf_generated_at?: string | null;
+  credit_note_document_id?: string | null;
+  credit_note_file_path?: string | null;
+  line_items: InvoiceLineItem[];
+  payments: InvoicePayment[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type InvoiceTemplateLayout = 'classic' | 'modern' | 'compact';
+
+export interface InvoiceTemplate {
+  id: string;
+  business_id: string;
+  name: string;
+  layout: InvoiceTemplateLayout;
+  accent_color: string; // hex, e.g. '#2563eb'
+  logo_path?: string | null; // in the documents bucket
+  payment_instructions?: string | null;
+  notes?: string | null;
+  is_default: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Accounts Payable Types
+export type BillStatus = 'pending_approval' | 'approved' | 'partially_paid' | 'paid' | 'void';
+
+export interface Vendor {
+  id: string;
+  business_id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  payment_terms_days: number;
+  default_category?: string | null; // expense category new bills start with
+  notes?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BillAttachment {
+  document_id: string;
+  filename: string;
+  file_path?: string;
+}
+
+export interface BillPayment {
+  id: string;
+  bill_id: string;
+  payment_date: string;
+  amount: number;
+  method?: string | null;
+  reference?: string | null;
+  transaction_id?: string | null; // expense transaction the payment posted
+  created_at?: string;
+}
+
+export interface Bill {
+  id: string;
+  business_id: string;
+  vendor_id: string;
+  vendor?: Vendor;
+  bill_number?: string | null; // the vendor's own reference
+  bill_date: string;
+  due_date: string;
+  scheduled_payment_date?: string | null;
+  category: string;
+  description?: string | null;
+  amount: number;
+  amount_paid: number; // kept equal to the sum of its payments
+  status: BillStatus;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  voided_at?: string | null;
+  attachments: BillAttachment[];
+  payments: BillPayment[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Budget Types
+export interface Budget {
+  id: string;
+  user_id: string;
+  name: string;
+  category_id?: string | null;
+  category_name?: string | null;
+  monthly_limit: number;
+  period_start: string;
+  period_end: string;
+  spent_amount: number; // kept in sync with expenses by the database
+  status: 'active' | 'inactive';
+  auto_renew: boolean;
+  rollover: boolean;
+  rollover_amount: number; // unused amount carried in from the previous period
+  alert_thresholds: number[]; // percentages of the available amount
+  previous_budget_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Chart of Accounts Types
+export type AccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export interface Account {
+  id: string;
+  business_id: string | null;
+  user_id?: string | null; // set instead of business_id for personal books
+  account_number?: string | null;
+  name: string;
+  type: AccountType;
+  subtype: string;
+  parent_id?: string | null;
+  description?: string | null;
+  opening_balance: number;
+  opening_balance_date?: string | null;
+  is_default?: boolean;
+  balance_source?: AccountBalanceSource;
+  status?: 'active' | 'inactive';
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ledger: rolled forward from transactions; manual: taken from recorded snapshots
+export type AccountBalanceSource = 'ledger' | 'manual';
+
+export interface AccountBalanceSnapshot {
+  id: string;
+  account_id: string;
+  snapshot_date: string;
+  balance: number; // owned for assets, owed for liabilities
+  note?: string | null;
+  created_at?: string;
+}
+
+// General Ledger Types
+export type JournalEntrySource = 'transaction' | 'manual';
+export type AdjustmentType =
+  | 'accrual'
+  | 'deferral'
+  | 'depreciation'
+  | 'reclassification'
+  | 'correction'
+  | 'other';
+
+export interface JournalLine {
+  id?: string;
+  journal_entry_id?: string;
+  account_id: string;
+  debit: number;
+  credit: number;
+  description?: string | null;
+  line_order?: number;
+}
+
+export interface JournalEntry {
+  id: string;
+  business_id: string | null;
+  user_id?: string | null;
+  transaction_id?: string | null;
+  entry_date: string;
+  memo?: string | null;
+  reference?: string | null;
+  source: JournalEntrySource;
+  adjustment_type?: AdjustmentType | null;
+  document_id?: string | null; // supporting document for manual entries
+  created_by?: string | null;
+  lines: JournalLine[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Period Close Types
+export type PeriodType = 'month' | 'quarter';
+
+export interface PeriodClose {
+  id: string;
+  business_id: string;
+  period_type: PeriodType;
+  period_start: string;
+  period_end: string;
+  status: 'closed' | 'reopened';
+  closed_by?: string | null;
+  closed_at?: string | null;
+  reopened_by?: string | null;
+  reopened_at?: string | null;
+  reopen_reason?: string | null;
+}
+
+// Bank Statement Import Types
+export type StatementFormat = 'csv' | 'ofx' | 'qfx';
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface CsvColumnMapping {
+  delimiter: string;
+  has_header: boolean;
+  date_column: number;
+  description_column: number;
+  amount_column: number | null; // single signed amount column
+  debit_column: number | null; // or separate money out / money in columns
+  credit_column: number | null;
+  date_format: StatementDateFormat;
+  invert_amounts: boolean;
+}
+
+export interface BankImportProfile extends CsvColumnMapping {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface StatementRow {
+  date: string;
+  description: string;
+  amount: number; // money in is positive, money out negative
+  external_id: string;
+  counterparty?: string | null; // payee or payer named by the bank
+}
+
+// Categorization Rule Types
+export type RuleDescriptionOperator = 'contains' | 'regex';
+
+export interface CategorizationRule {
+  id: string;
+  business_id: string | null;
+  user_id: string | null; // set instead of business_id for personal books
+  name: string;
+  priority: number; // lower runs first
+  is_active: boolean;
+  description_operator: RuleDescriptionOperator | null;
+  description_pattern: string | null;
+  counterparty: string | null;
+  min_amount: number | null; // compared with the absolute amount
+  max_amount: number | null;
+  transaction_type: 'income' | 'expense' | null;
+  category: string;
+  tags: string[];
+  notes: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Bank Reconciliation Types
+export interface ReconciliationLine {
+  transaction_id: string;
+  date: string;
+  description: string;
+  amount: number; // effect on the account balance
+}
+
+export interface ReconciliationReport {
+  beginning_balance: number;
+  cleared_deposits: number;
+  cleared_payments: number;
+  cleared_balance: number;
+  statement_ending_balance: number;
+  difference: number; // statement ending balance - cleared balance
+  book_balance: number; // cleared balance plus outstanding items
+  cleared: ReconciliationLine[];
+  outstanding: ReconciliationLine[];
+}
+
+export interface Reconciliation {
+  id: string;
+  business_id: string;
+  account_id: string;
+  statement_date: string;
+  beginning_balance: number;
+  statement_ending_balance: number;
+  cleared_balance: number;
+  report: ReconciliationReport;
+  reconciled_by?: string | null;
+  completed_at?: string | null;
+}
+
 export interface CreateTransactionRequest {
   amount: number;
   description?: string;
@@ -86,16 +525,51 @@ export interface Report {
   business_id: string;
   type: ReportType;
   title: string;
-  data: Record<string, any>;
+  data: ReportData | null;
   status: ReportStatus;
   period_start?: string;
   period_end?: string;
   generated_by: string;
+  reviewed_by?: string;
   approved_by?: string;
+  rejection_reason?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface ReportStatusChange {
+  id: string;
+  report_id: string;
+  from_status: ReportStatus | null; // null for the entry recorded when the report was created
+  to_status: ReportStatus;
+  changed_by: string | null;
+  changed_by_name?: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface ReportComment {
+  id: string;
+  report_id: string;
+  parent_id: string | null;
+  author_id: string;
+  author_name?: string;
+  body: string;
+  created_at: string;
+  replies: ReportComment[];
+}
+
+// An immutable set of figures computed for a report
+export interface ReportVersion {
+  id: string;
+  report_id: string;
+  version_number: number;
+  data: ReportData;
+  generated_at: string;
+  generated_by: string | null;
+  generated_by_name?: string;
+}
+
 export interface CreateReportRequest {
   type: ReportType;
   title: string;
@@ -103,6 +577,218 @@ export interface CreateReportRequest {
   period_end?: string;
 }
 
+// Report Engine Types
+export type ReportPeriod = 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+export interface ReportDateRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ReportLineItem {
+  category: string;
+  amount: number;
+  transaction_count: number;
+}
+
+export interface ProfitLossData {
+  type: 'profit_loss';
+  period_start: string;
+  period_end: string;
+  generated_at: string;
+  revenue: ReportLineItem[];
+  cost_of_goods_sold: ReportLineItem[];
+  operating_expenses: ReportLineItem[];
+  totals: {
+    revenue: number;
+    cost_of_goods_sold: number;
+    gross_profit: number;
+    operating_expenses: number;
+    net_income: number;
+  };
+  transaction_count: number;
+  comparison?: ReportComparison;
+}
+
+export interface BalanceSheetData {
+  type: 'balance_sheet';
+  as_of: string;
+  generated_at: string;
+  assets: ReportLineItem[];
+  liabilities: ReportLineItem[];
+  equity: ReportLineItem[];
+  totals: {
+    assets: number;
+    liabilities: number;
+    equity: number;
+    liabilities_and_equity: number;
+  };
+  retained_earnings: number;
+  is_balanced: boolean;
+  difference: number; // assets - (liabilities + equity)
+  unassigned_transaction_count: number;
+  comparison?: ReportComparison;
+}
+
+export interface CashFlowData {
+  type: 'cash_flow';
+  period_start: string;
+  period_end: string;
+  generated_at: string;
+  net_income: number;
+  operating: {
+    adjustments: ReportLineItem[]; // non-cash items such as depreciation
+    working_capital: ReportLineItem[]; // changes in receivables, payables, inventory, etc.
+  };
+  investing: ReportLineItem[];
+  financing: ReportLineItem[];
+  totals: {
+    operating: number;
+    investing: number;
+    financing: number;
+    net_change: number;
+  };
+  beginning_cash: number;
+  ending_cash: number;
+  is_reconciled: boolean;
+  difference: number; // ending cash - (beginning cash + net change)
+  unassigned_transaction_count: number;
+  comparison?: ReportComparison;
+}
+
+export type CustomReportRowSource = 'account' | 'category' | 'account_type';
+
+export type CustomReportPeriodColumn = 'monthly' | 'current' | 'prior_period' | 'prior_year';
+
+// The layout of a custom report, saved in a template and run for any client
+export interface CustomReportDefinition {
+  rows: {
+    source: CustomReportRowSource;
+    account_types: AccountType[]; // categories are limited to income and expense
+    names: string[]; // only these accounts or categories; empty for all
+  };
+  columns: {
+    periods: CustomReportPeriodColumn[];
+    by_business: boolean; // a set of period columns per business, followed by their total
+  };
+  filters: {
+    tags: string[]; // transactions carrying any of these tags
+    statuses: TransactionStatus[]; // empty for every status except rejected
+  };
+  subtotals: {
+    by_group: boolean; // a subtotal after the rows of each account type
+    grand_total: boolean;
+  };
+}
+
+export interface CustomReportColumn {
+  label: string;
+  business_id: string | null; // null for the figures of every business combined
+  business_name?: string;
+  period_start: string;
+  period_end: string;
+}
+
+export interface CustomReportRow {
+  label: string;
+  group: AccountType | null; // null for the grand total
+  kind: 'line' | 'subtotal' | 'total';
+  values: number[]; // one per column
+}
+
+export interface CustomReportData {
+  type: 'custom';
+  template_id: string | null;
+  period_start: string;
+  period_end: string;
+  generated_at: string;
+  definition: CustomReportDefinition;
+  businesses: { id: string; name: string }[];
+  columns: CustomReportColumn[];
+  rows: CustomReportRow[];
+  transaction_count: number;
+}
+
+// Statements the report engine computes, which can carry comparative columns
+export type FinancialStatementData = ProfitLossData | BalanceSheetData | CashFlowData;
+
+export type ReportData = FinancialStatementData | CustomReportData;
+
+// Comparative columns shown next to a statement's own figures
+export type ReportComparisonKind = 'prior_period' | 'prior_year' | 'budget';
+
+export interface ReportComparisonOptions {
+  columns: ReportComparisonKind[];
+  variance_threshold: number; // percent; larger variances are highlighted
+}
+
+export interface ReportComparisonColumn {
+  kind: ReportComparisonKind;
+  label: string;
+  period_start?: string; // absent for balance sheets
+  period_end: string;
+  data: FinancialStatementData;
+}
+
+export interface ReportComparison {
+  options: ReportComparisonOptions;
+  columns: ReportComparisonColumn[];
+}
+
+export interface BusinessBudget {
+  id: string;
+  business_id: string;
+  category: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ReportScheduleFrequency = Exclude<ReportPeriod, 'custom'>;
+
+// Creates a draft report for a client business every period
+export interface ReportSchedule {
+  id: string;
+  business_id: string;
+  business_name?: string;
+  client_name?: string;
+  report_type: ReportType;
+  frequency: ReportScheduleFrequency;
+  run_day: number; // day of the new period the report is created on
+  due_days: number; // review deadline, in days after creation
+  comparison: ReportComparisonOptions | null;
+  assigned_to: string | null;
+  assigned_to_name?: string;
+  next_run_on: string | null;
+  last_run_at: string | null;
+  is_active: boolean;
+  created_at?: string;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: CustomReportDefinition;
+  created_by: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string | null;
+  link: string | null;
+  report_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
 export interface Document {
   id: string;
   business_id: string;
@@ -0,0 +1,13 @@
+-- Migration to store computed financial statements on reports
+-- Reports previously only carried a title, type and due date; the report engine
+-- now writes the aggregated figures for the selected period into `data`.
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS period_start DATE;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS period_end DATE;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS data JSONB;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS generated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_reports_business_period ON reports(business_id, period_start, period_end);
+
+-- Business transactions are aggregated by date range when a report is generated
+CREATE INDEX IF NOT EXISTS idx_transactions_business_date ON transactions(business_id, date);
@@ -0,0 +1,53 @@
+-- Migration to create business balance sheet accounts
+-- Assets, liabilities and equity accounts carry an opening balance; transactions
+-- reference the account the money moved through so balances can be rolled forward.
+
+CREATE TABLE IF NOT EXISTS accounts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('asset', 'liability', 'equity')),
+    subtype TEXT NOT NULL, -- cash, bank, accounts_receivable, credit_card, loan, owner_equity, etc.
+    opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+    opening_balance_date DATE, -- NULL means the balance precedes all transactions
+    is_default BOOLEAN DEFAULT FALSE, -- Receives transactions that do not name an account
+    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one default account per business
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_business_default
+    ON accounts(business_id) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_accounts_business_id ON accounts(business_id);
+
+-- Link transactions to the account they moved through
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+-- Destination account of a transfer (e.g. paying down a loan from checking)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+-- Business owners manage their own accounts
+CREATE POLICY "Owners can manage business accounts" ON accounts
+FOR ALL USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+-- Accountants and admins maintain accounts for their clients
+CREATE POLICY "Accountants can manage client accounts" ON accounts
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_accounts_updated_at
+    BEFORE UPDATE ON accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,13 @@
+-- Migration to let clients read reports once an accountant publishes them
+-- Drafts and reports under review remain visible to accountants only.
+
+CREATE POLICY "Clients can view published reports" ON reports
+FOR SELECT USING (
+    status = 'published'
+    AND (
+        client_id = auth.uid()
+        OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status);
@@ -0,0 +1,349 @@
+-- Migration to create the double-entry general ledger
+-- Extends accounts into a full chart of accounts (asset, liability, equity,
+-- income, expense) with account numbers and a parent hierarchy, for businesses
+-- and personal users alike. Every transaction is posted as a balanced journal
+-- entry so the simple income/expense/transfer entry screens keep working.
+
+-- Chart of accounts -----------------------------------------------------------
+
+-- Personal users keep their own chart; exactly one owner per account
+ALTER TABLE accounts ALTER COLUMN business_id DROP NOT NULL;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE accounts ADD CONSTRAINT accounts_owner_check
+    CHECK ((business_id IS NULL) <> (user_id IS NULL));
+
+ALTER TABLE accounts DROP CONSTRAINT IF EXISTS accounts_type_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_type_check
+    CHECK (type IN ('asset', 'liability', 'equity', 'income', 'expense'));
+
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS account_number TEXT;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS description TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_business_number
+    ON accounts(business_id, account_number) WHERE business_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_user_number
+    ON accounts(user_id, account_number) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_user_default
+    ON accounts(user_id) WHERE is_default AND user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_accounts_parent_id ON accounts(parent_id);
+
+CREATE POLICY "Users can manage personal accounts" ON accounts
+FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Journal entries ---------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    transaction_id UUID UNIQUE REFERENCES transactions(id) ON DELETE CASCADE, -- NULL for manual entries
+    entry_date DATE NOT NULL,
+    memo TEXT,
+    reference TEXT,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('transaction', 'manual')),
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT journal_entries_owner_check CHECK ((business_id IS NULL) <> (user_id IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    journal_entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE RESTRICT,
+    debit DECIMAL(12,2) NOT NULL DEFAULT 0,
+    credit DECIMAL(12,2) NOT NULL DEFAULT 0,
+    description TEXT,
+    line_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Each line is either a debit or a credit, never both
+    CONSTRAINT journal_lines_amount_check CHECK (
+        debit >= 0 AND credit >= 0 AND (debit = 0) <> (credit = 0)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_business_date ON journal_entries(business_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON journal_entries(user_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry_id ON journal_lines(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account_id ON journal_lines(account_id);
+
+-- Debits must equal credits once all lines of an entry are written
+CREATE OR REPLACE FUNCTION check_journal_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entry_id UUID := COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+    v_debits DECIMAL(12,2);
+    v_credits DECIMAL(12,2);
+BEGIN
+    SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+      INTO v_debits, v_credits
+      FROM journal_lines
+     WHERE journal_entry_id = v_entry_id;
+
+    IF v_debits <> v_credits THEN
+        RAISE EXCEPTION 'Journal entry % is not balanced: debits % <> credits %',
+            v_entry_id, v_debits, v_credits;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER journal_lines_balanced
+    AFTER INSERT OR UPDATE OR DELETE ON journal_lines
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION check_journal_entry_balanced();
+
+-- Default chart of accounts -------------------------------------------------------
+
+-- Seeds the header accounts a book needs; existing accounts are left untouched.
+-- Called directly, only the book's owner or an accountant may seed it; calls
+-- from the posting trigger act for a transaction the caller was allowed to write.
+CREATE OR REPLACE FUNCTION ensure_chart_of_accounts(p_business_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_seed RECORD;
+BEGIN
+    IF auth.uid() IS NOT NULL AND pg_trigger_depth() = 0 AND NOT (
+        (p_business_id IS NULL AND p_user_id = auth.uid())
+        OR p_business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+        OR (p_business_id IS NOT NULL
+            AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin')))
+    ) THEN
+        RAISE EXCEPTION 'Only the owner or an accountant can set up the accounts of this book';
+    END IF;
+
+    FOR v_seed IN
+        SELECT * FROM (VALUES
+            ('1000', 'Cash & Bank', 'asset', 'bank'),
+            ('1200', 'Accounts Receivable', 'asset', 'accounts_receivable'),
+            ('2000', 'Accounts Payable', 'liability', 'accounts_payable'),
+            ('3000', 'Owner''s Equity', 'equity', 'owner_equity'),
+            ('4000', 'Income', 'income', 'operating_income'),
+            ('6000', 'Expenses', 'expense', 'operating_expense')
+        ) AS seed(account_number, name, type, subtype)
+        -- Personal books have no receivables or payables
+        WHERE p_business_id IS NOT NULL OR seed.account_number NOT IN ('1200', '2000')
+    LOOP
+        INSERT INTO accounts (business_id, user_id, account_number, name, type, subtype)
+        SELECT p_business_id, p_user_id, v_seed.account_number,
+               CASE WHEN p_user_id IS NOT NULL AND v_seed.account_number = '3000'
+                    THEN 'Net Worth' ELSE v_seed.name END,
+               v_seed.type, v_seed.subtype
+        WHERE NOT EXISTS (
+            SELECT 1 FROM accounts
+             WHERE business_id IS NOT DISTINCT FROM p_business_id
+               AND user_id IS NOT DISTINCT FROM p_user_id
+               AND (account_number = v_seed.account_number
+                    OR (type = v_seed.type AND subtype = v_seed.subtype AND parent_id IS NULL))
+        );
+    END LOOP;
+
+    -- Transactions without an account settle through the default cash account
+    UPDATE accounts SET is_default = TRUE
+     WHERE business_id IS NOT DISTINCT FROM p_business_id
+       AND user_id IS NOT DISTINCT FROM p_user_id
+       AND account_number = '1000'
+       AND NOT EXISTS (
+           SELECT 1 FROM accounts
+            WHERE business_id IS NOT DISTINCT FROM p_business_id
+              AND user_id IS NOT DISTINCT FROM p_user_id
+              AND is_default
+       );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Finds the income or expense account for a category, creating it under the
+-- matching header account (4000 Income / 6000 Expenses) the first time it is used
+CREATE OR REPLACE FUNCTION ledger_category_account(
+    p_business_id UUID,
+    p_user_id UUID,
+    p_type TEXT,
+    p_category TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    v_account_id UUID;
+    v_parent accounts%ROWTYPE;
+    v_next_number INTEGER;
+BEGIN
+    SELECT id INTO v_account_id
+      FROM accounts
+     WHERE business_id IS NOT DISTINCT FROM p_business_id
+       AND user_id IS NOT DISTINCT FROM p_user_id
+       AND type = p_type
+       AND lower(name) = lower(p_category)
+     ORDER BY status = 'active' DESC
+     LIMIT 1;
+
+    IF v_account_id IS NOT NULL THEN
+        RETURN v_account_id;
+    END IF;
+
+    SELECT * INTO v_parent
+      FROM accounts
+     WHERE business_id IS NOT DISTINCT FROM p_business_id
+       AND user_id IS NOT DISTINCT FROM p_user_id
+       AND type = p_type
+       AND parent_id IS NULL
+     ORDER BY account_number
+     LIMIT 1;
+
+    SELECT COALESCE(MAX(account_number::INTEGER), v_parent.account_number::INTEGER) + 10
+      INTO v_next_number
+      FROM accounts
+     WHERE parent_id = v_parent.id
+       AND account_number ~ '^[0-9]+$';
+
+    INSERT INTO accounts (business_id, user_id, account_number, name, type, subtype, parent_id)
+    VALUES (p_business_id, p_user_id, v_next_number::TEXT, p_category, p_type,
+            v_parent.subtype, v_parent.id)
+    RETURNING id INTO v_account_id;
+
+    RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Transaction posting -------------------------------------------------------------
+
+-- Writes the balanced journal entry for a single-sided transaction:
+--   income   -> debit cash account,        credit income category account
+--   expense  -> debit expense category,    credit cash account
+--   transfer -> debit destination account, credit source account
+CREATE OR REPLACE FUNCTION post_transaction_to_ledger(p_transaction transactions)
+RETURNS VOID AS $$
+DECLARE
+    -- Business rows belong to the business's book even when a user_id is also set
+    v_business_id UUID := p_transaction.business_id;
+    v_user_id UUID := CASE WHEN p_transaction.business_id IS NULL THEN p_transaction.user_id END;
+    v_amount DECIMAL(12,2) := ABS(p_transaction.amount);
+    v_category TEXT := COALESCE(
+        NULLIF(p_transaction.category, ''), NULLIF(p_transaction.category_name, ''), 'Uncategorized'
+    );
+    v_cash_account UUID;
+    v_debit_account UUID;
+    v_credit_account UUID;
+    v_entry_id UUID;
+BEGIN
+    DELETE FROM journal_entries WHERE transaction_id = p_transaction.id;
+
+    -- Rejected and zero-value transactions carry no accounting effect
+    IF p_transaction.status = 'rejected' OR v_amount = 0
+       OR (v_business_id IS NULL AND v_user_id IS NULL) THEN
+        RETURN;
+    END IF;
+
+    -- Both accounts must belong to the transaction's own book
+    IF EXISTS (
+        SELECT 1 FROM accounts
+         WHERE id IN (p_transaction.account_id, p_transaction.transfer_account_id)
+           AND (business_id IS DISTINCT FROM v_business_id OR user_id IS DISTINCT FROM v_user_id)
+    ) THEN
+        RAISE EXCEPTION 'The account of this transaction belongs to a different book'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM ensure_chart_of_accounts(v_business_id, v_user_id);
+
+    SELECT id INTO v_cash_account
+      FROM accounts
+     WHERE business_id IS NOT DISTINCT FROM v_business_id
+       AND user_id IS NOT DISTINCT FROM v_user_id
+       AND (id = p_transaction.account_id
+            OR (p_transaction.account_id IS NULL AND is_default))
+     LIMIT 1;
+
+    IF p_transaction.type = 'income' THEN
+        v_debit_account := v_cash_account;
+        v_credit_account := ledger_category_account(
+            v_business_id, v_user_id, 'income', v_category);
+    ELSIF p_transaction.type = 'expense' THEN
+        v_debit_account := ledger_category_account(
+            v_business_id, v_user_id, 'expense', v_category);
+        v_credit_account := v_cash_account;
+    ELSIF p_transaction.type = 'transfer' THEN
+        v_debit_account := p_transaction.transfer_account_id;
+        v_credit_account := v_cash_account;
+    END IF;
+
+    -- A transfer without a destination cannot be balanced; it stays unposted
+    IF v_debit_account IS NULL OR v_credit_account IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO journal_entries (business_id, user_id, transaction_id, entry_date, memo, source, created_by)
+    VALUES (v_business_id, v_user_id, p_transaction.id, p_transaction.date,
+            p_transaction.description, 'transaction', auth.uid())
+    RETURNING id INTO v_entry_id;
+
+    INSERT INTO journal_lines (journal_entry_id, account_id, debit, credit, line_order)
+    VALUES (v_entry_id, v_debit_account, v_amount, 0, 0),
+           (v_entry_id, v_credit_account, 0, v_amount, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION post_transaction_journal_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM post_transaction_to_ledger(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deletes cascade through journal_entries.transaction_id
+CREATE TRIGGER post_transactions_to_ledger
+    AFTER INSERT OR UPDATE ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION post_transaction_journal_entry();
+
+-- Map existing transactions onto the ledger
+SELECT post_transaction_to_ledger(t) FROM transactions t ORDER BY t.date, t.created_at;
+
+-- The posting helpers only run from the transaction trigger and other definer
+-- functions; clients cannot call them over RPC
+REVOKE EXECUTE ON FUNCTION post_transaction_to_ledger(transactions) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_category_account(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ensure_chart_of_accounts(UUID, UUID) FROM PUBLIC, anon;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read the ledger of their businesses and personal books
+CREATE POLICY "Owners can view journal entries" ON journal_entries
+FOR SELECT USING (
+    user_id = auth.uid()
+    OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can view journal lines" ON journal_lines
+FOR SELECT USING (
+    journal_entry_id IN (
+        SELECT id FROM journal_entries
+         WHERE user_id = auth.uid()
+            OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+);
+
+-- Accountants and admins maintain the ledgers of their clients
+CREATE POLICY "Accountants can manage journal entries" ON journal_entries
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can manage journal lines" ON journal_lines
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_journal_entries_updated_at
+    BEFORE UPDATE ON journal_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,86 @@
+-- Migration to support manual and adjusting journal entries
+-- Accountants post multi-line entries (accruals, depreciation, reclassifications)
+-- to a client business, optionally linked to the supporting document.
+
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS adjustment_type TEXT
+    CHECK (adjustment_type IN ('accrual', 'deferral', 'depreciation', 'reclassification', 'correction', 'other'));
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_source ON journal_entries(source);
+
+-- Raises when an entry has no amounts or its debits and credits differ
+CREATE OR REPLACE FUNCTION check_journal_entry_balanced_now(p_entry_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_debits DECIMAL(12,2);
+    v_credits DECIMAL(12,2);
+BEGIN
+    SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+      INTO v_debits, v_credits
+      FROM journal_lines
+     WHERE journal_entry_id = p_entry_id;
+
+    IF v_debits <> v_credits OR v_debits = 0 THEN
+        RAISE EXCEPTION 'Journal entry is not balanced: debits % <> credits %', v_debits, v_credits;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Writes an entry and all of its lines in one transaction so the balance
+-- check sees the complete entry. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION post_journal_entry(
+    p_business_id UUID,
+    p_entry_date DATE,
+    p_memo TEXT,
+    p_reference TEXT,
+    p_document_id UUID,
+    p_adjustment_type TEXT,
+    p_lines JSONB -- [{ account_id, debit, credit, description }]
+)
+RETURNS UUID AS $$
+DECLARE
+    v_entry_id UUID;
+    v_line JSONB;
+    v_order INTEGER := 0;
+BEGIN
+    IF jsonb_array_length(p_lines) < 2 THEN
+        RAISE EXCEPTION 'A journal entry needs at least two lines';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_lines) AS line
+          LEFT JOIN accounts a ON a.id = (line->>'account_id')::UUID
+         WHERE a.id IS NULL OR a.business_id IS DISTINCT FROM p_business_id
+    ) THEN
+        RAISE EXCEPTION 'Every line must use an account of the selected business';
+    END IF;
+
+    INSERT INTO journal_entries (
+        business_id, entry_date, memo, reference, document_id, adjustment_type, source, created_by
+    )
+    VALUES (
+        p_business_id, p_entry_date, p_memo, NULLIF(p_reference, ''), p_document_id,
+        p_adjustment_type, 'manual', auth.uid()
+    )
+    RETURNING id INTO v_entry_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+    LOOP
+        INSERT INTO journal_lines (journal_entry_id, account_id, debit, credit, description, line_order)
+        VALUES (
+            v_entry_id,
+            (v_line->>'account_id')::UUID,
+            COALESCE((v_line->>'debit')::DECIMAL, 0),
+            COALESCE((v_line->>'credit')::DECIMAL, 0),
+            NULLIF(v_line->>'description', ''),
+            v_order
+        );
+        v_order := v_order + 1;
+    END LOOP;
+
+    -- Checked here as well as by the deferred constraint so the caller gets a clear error
+    PERFORM check_journal_entry_balanced_now(v_entry_id);
+
+    RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql;
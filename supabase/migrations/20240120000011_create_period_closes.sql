@@ -0,0 +1,166 @@
+-- Migration to close accounting periods per business
+-- Once an accountant closes a month or quarter, transactions and journal entries
+-- dated in it can no longer be inserted, changed or deleted until the period is
+-- reopened. Reopening is recorded with the user and a required reason.
+
+CREATE TABLE IF NOT EXISTS period_closes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    period_type TEXT NOT NULL CHECK (period_type IN ('month', 'quarter')),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'closed' CHECK (status IN ('closed', 'reopened')),
+    closed_by UUID REFERENCES auth.users(id),
+    closed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reopened_by UUID REFERENCES auth.users(id),
+    reopened_at TIMESTAMP WITH TIME ZONE,
+    reopen_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT period_closes_range_check CHECK (period_start <= period_end),
+    CONSTRAINT period_closes_reopen_check CHECK (
+        status = 'closed' OR (reopened_by IS NOT NULL AND NULLIF(TRIM(reopen_reason), '') IS NOT NULL)
+    )
+);
+
+-- A period can only be closed once at a time; reopened rows stay as history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_period_closes_active
+    ON period_closes(business_id, period_start, period_end) WHERE status = 'closed';
+CREATE INDEX IF NOT EXISTS idx_period_closes_business_id ON period_closes(business_id);
+
+CREATE OR REPLACE FUNCTION is_period_closed(p_business_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM period_closes
+         WHERE business_id = p_business_id
+           AND status = 'closed'
+           AND p_date BETWEEN period_start AND period_end
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Rejects changes that touch a closed period, checking both the old and new date
+CREATE OR REPLACE FUNCTION prevent_closed_period_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_date_column TEXT := TG_ARGV[0];
+    v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+    IF v_old IS NOT NULL AND v_old->>'business_id' IS NOT NULL
+       AND is_period_closed((v_old->>'business_id')::UUID, (v_old->>v_date_column)::DATE) THEN
+        RAISE EXCEPTION 'The period containing % is closed', v_old->>v_date_column
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_new IS NOT NULL AND v_new->>'business_id' IS NOT NULL
+       AND is_period_closed((v_new->>'business_id')::UUID, (v_new->>v_date_column)::DATE) THEN
+        RAISE EXCEPTION 'The period containing % is closed', v_new->>v_date_column
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_closed_period_guard
+    BEFORE INSERT OR UPDATE OR DELETE ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_closed_period_changes('date');
+
+CREATE TRIGGER journal_entries_closed_period_guard
+    BEFORE INSERT OR UPDATE OR DELETE ON journal_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_closed_period_changes('entry_date');
+
+-- Same check for rows that take their date from a parent row. The arguments
+-- name the parent table, the column pointing at it and the parent's date column.
+CREATE OR REPLACE FUNCTION prevent_closed_period_child_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_parent_table TEXT := TG_ARGV[0];
+    v_parent_column TEXT := TG_ARGV[1];
+    v_date_column TEXT := TG_ARGV[2];
+    v_parent_ids UUID[] := ARRAY[]::UUID[];
+    v_business_id UUID;
+    v_date DATE;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        v_parent_ids := v_parent_ids || (to_jsonb(OLD)->>v_parent_column)::UUID;
+    END IF;
+
+    IF TG_OP <> 'DELETE' THEN
+        v_parent_ids := v_parent_ids || (to_jsonb(NEW)->>v_parent_column)::UUID;
+    END IF;
+
+    FOR v_business_id, v_date IN
+        EXECUTE format('SELECT business_id, %I FROM %I WHERE id = ANY($1)', v_date_column, v_parent_table)
+        USING v_parent_ids
+    LOOP
+        IF v_business_id IS NOT NULL AND is_period_closed(v_business_id, v_date) THEN
+            RAISE EXCEPTION 'The period containing % is closed', v_date
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END LOOP;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER journal_lines_closed_period_guard
+    BEFORE INSERT OR UPDATE OR DELETE ON journal_lines
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_closed_period_child_changes('journal_entries', 'journal_entry_id', 'entry_date');
+
+-- Reopening keeps the close row as history and records who reopened it and why.
+-- Runs with elevated rights because it is the only way to reopen a period.
+CREATE OR REPLACE FUNCTION reopen_period(p_period_close_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin')) THEN
+        RAISE EXCEPTION 'Only accountants can reopen closed periods';
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to reopen a closed period';
+    END IF;
+
+    UPDATE period_closes
+       SET status = 'reopened',
+           reopened_by = auth.uid(),
+           reopened_at = NOW(),
+           reopen_reason = TRIM(p_reason)
+     WHERE id = p_period_close_id
+       AND status = 'closed';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Period is not closed';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE period_closes ENABLE ROW LEVEL SECURITY;
+
+-- Owners can see which of their periods are closed
+CREATE POLICY "Owners can view period closes" ON period_closes
+FOR SELECT USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+-- Only accountants and admins close periods; they reopen them through
+-- reopen_period, and rows are never deleted
+CREATE POLICY "Accountants can view period closes" ON period_closes
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can close periods" ON period_closes
+FOR INSERT WITH CHECK (
+    status = 'closed'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_period_closes_updated_at
+    BEFORE UPDATE ON period_closes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
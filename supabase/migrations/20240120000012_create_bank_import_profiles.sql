@@ -0,0 +1,49 @@
+-- Migration to support importing bank statements into transactions
+-- Users save how each bank lays out its CSV exports so later imports map
+-- columns automatically. Imported transactions keep the bank's own id (the
+-- OFX FITID or a hash of the CSV row) so a statement cannot be imported twice.
+
+CREATE TABLE IF NOT EXISTS bank_import_profiles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL, -- Usually the bank, e.g. "Chase Checking"
+    delimiter TEXT NOT NULL DEFAULT ',',
+    has_header BOOLEAN NOT NULL DEFAULT TRUE,
+    date_column INTEGER NOT NULL,
+    description_column INTEGER NOT NULL,
+    -- Either a single signed amount column or separate debit and credit columns
+    amount_column INTEGER,
+    debit_column INTEGER,
+    credit_column INTEGER,
+    date_format TEXT NOT NULL DEFAULT 'YYYY-MM-DD'
+        CHECK (date_format IN ('YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY')),
+    invert_amounts BOOLEAN NOT NULL DEFAULT FALSE, -- Card exports often show charges as positive
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT bank_import_profiles_amount_check CHECK (
+        amount_column IS NOT NULL OR (debit_column IS NOT NULL AND credit_column IS NOT NULL)
+    ),
+    CONSTRAINT bank_import_profiles_name_unique UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_import_profiles_user_id ON bank_import_profiles(user_id);
+
+-- Bank-assigned id of an imported transaction
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_business_external_id
+    ON transactions(business_id, external_id) WHERE external_id IS NOT NULL AND business_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_user_external_id
+    ON transactions(user_id, external_id) WHERE external_id IS NOT NULL AND business_id IS NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE bank_import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own import profiles
+CREATE POLICY "Users can manage own import profiles" ON bank_import_profiles
+FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_bank_import_profiles_updated_at
+    BEFORE UPDATE ON bank_import_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,198 @@
+-- Migration to reconcile business bank and card accounts against statements
+-- An accountant ticks off the transactions that cleared the bank up to the
+-- statement date. A reconciliation can only be completed when the cleared
+-- balance equals the statement ending balance; cleared transactions are then
+-- locked against edits by anyone but accountants.
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    statement_date DATE NOT NULL,
+    beginning_balance DECIMAL(12,2) NOT NULL,
+    statement_ending_balance DECIMAL(12,2) NOT NULL,
+    cleared_balance DECIMAL(12,2) NOT NULL,
+    report JSONB NOT NULL DEFAULT '{}'::jsonb, -- Cleared and outstanding items at completion
+    reconciled_by UUID REFERENCES auth.users(id),
+    completed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliations_business_id ON reconciliations(business_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliations_account_date ON reconciliations(account_id, statement_date);
+
+-- A transaction clears the bank once
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reconciliation_id UUID NOT NULL REFERENCES reconciliations(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_reconciliation_id ON reconciliation_items(reconciliation_id);
+
+-- Completes a reconciliation after checking the cleared transactions against
+-- the ledger postings of the account. The beginning balance is the previous
+-- statement's ending balance, or the account's opening balance.
+CREATE OR REPLACE FUNCTION complete_reconciliation(
+    p_account_id UUID,
+    p_statement_date DATE,
+    p_statement_ending_balance DECIMAL,
+    p_transaction_ids UUID[],
+    p_report JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_account accounts%ROWTYPE;
+    v_beginning DECIMAL(12,2);
+    v_cleared DECIMAL(12,2);
+    v_reconciliation_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin')) THEN
+        RAISE EXCEPTION 'Only accountants can complete reconciliations';
+    END IF;
+
+    SELECT * INTO v_account FROM accounts WHERE id = p_account_id;
+    IF v_account.id IS NULL OR v_account.business_id IS NULL
+       OR v_account.type NOT IN ('asset', 'liability') THEN
+        RAISE EXCEPTION 'Only business asset and liability accounts can be reconciled';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM reconciliations
+         WHERE account_id = p_account_id AND statement_date >= p_statement_date
+    ) THEN
+        RAISE EXCEPTION 'This account is already reconciled through %', p_statement_date;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(p_transaction_ids) AS cleared(id)
+          LEFT JOIN transactions t ON t.id = cleared.id
+         WHERE t.id IS NULL OR t.business_id IS DISTINCT FROM v_account.business_id
+            OR t.date > p_statement_date
+            OR EXISTS (SELECT 1 FROM reconciliation_items ri WHERE ri.transaction_id = cleared.id)
+    ) THEN
+        RAISE EXCEPTION 'Cleared transactions must be unreconciled transactions of this business dated on or before the statement';
+    END IF;
+
+    -- A transaction cleared here can never be reconciled again, so it must
+    -- actually move money through this account
+    IF EXISTS (
+        SELECT 1 FROM unnest(p_transaction_ids) AS cleared(id)
+         WHERE NOT EXISTS (
+             SELECT 1 FROM journal_lines jl
+               JOIN journal_entries je ON je.id = jl.journal_entry_id
+              WHERE je.transaction_id = cleared.id
+                AND jl.account_id = p_account_id
+         )
+    ) THEN
+        RAISE EXCEPTION 'Cleared transactions must be posted to the account being reconciled';
+    END IF;
+
+    SELECT COALESCE(
+        (SELECT statement_ending_balance FROM reconciliations
+          WHERE account_id = p_account_id
+          ORDER BY statement_date DESC
+          LIMIT 1),
+        v_account.opening_balance
+    ) INTO v_beginning;
+
+    -- Assets grow with debits; liabilities grow with credits
+    SELECT COALESCE(SUM(
+        CASE WHEN v_account.type = 'asset' THEN jl.debit - jl.credit ELSE jl.credit - jl.debit END
+    ), 0)
+      INTO v_cleared
+      FROM journal_lines jl
+      JOIN journal_entries je ON je.id = jl.journal_entry_id
+     WHERE jl.account_id = p_account_id
+       AND je.transaction_id = ANY(p_transaction_ids);
+
+    v_cleared := v_beginning + v_cleared;
+
+    IF v_cleared <> p_statement_ending_balance THEN
+        RAISE EXCEPTION 'Cleared balance % does not match the statement ending balance %',
+            v_cleared, p_statement_ending_balance;
+    END IF;
+
+    INSERT INTO reconciliations (
+        business_id, account_id, statement_date, beginning_balance,
+        statement_ending_balance, cleared_balance, report, reconciled_by
+    )
+    VALUES (
+        v_account.business_id, p_account_id, p_statement_date, v_beginning,
+        p_statement_ending_balance, v_cleared, COALESCE(p_report, '{}'::jsonb), auth.uid()
+    )
+    RETURNING id INTO v_reconciliation_id;
+
+    INSERT INTO reconciliation_items (reconciliation_id, transaction_id)
+    SELECT v_reconciliation_id, id FROM unnest(p_transaction_ids) AS cleared(id);
+
+    RETURN v_reconciliation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owners cannot change or delete a reconciled transaction's amount, date,
+-- type or accounts; accountants can still correct it deliberately
+CREATE OR REPLACE FUNCTION prevent_reconciled_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM reconciliation_items WHERE transaction_id = OLD.id)
+       OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin')) THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    IF TG_OP = 'DELETE'
+       OR NEW.amount IS DISTINCT FROM OLD.amount
+       OR NEW.date IS DISTINCT FROM OLD.date
+       OR NEW.type IS DISTINCT FROM OLD.type
+       OR NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.account_id IS DISTINCT FROM OLD.account_id
+       OR NEW.transfer_account_id IS DISTINCT FROM OLD.transfer_account_id
+       OR NEW.business_id IS DISTINCT FROM OLD.business_id THEN
+        RAISE EXCEPTION 'This transaction has been reconciled and can only be changed by your accountant'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER transactions_reconciled_guard
+    BEFORE UPDATE OR DELETE ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_reconciled_transaction_changes();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners can see which of their transactions are reconciled
+CREATE POLICY "Owners can view reconciliations" ON reconciliations
+FOR SELECT USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can view reconciliation items" ON reconciliation_items
+FOR SELECT USING (
+    reconciliation_id IN (
+        SELECT id FROM reconciliations
+         WHERE business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+);
+
+-- Accountants and admins read all reconciliations; they are written by complete_reconciliation
+CREATE POLICY "Accountants can view reconciliations" ON reconciliations
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view reconciliation items" ON reconciliation_items
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_reconciliations_updated_at
+    BEFORE UPDATE ON reconciliations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,70 @@
+-- Migration to categorize transactions automatically
+-- Rules belong to a personal user or a business. The first active rule, in
+-- priority order, whose conditions all match a new or imported transaction
+-- assigns its category, tags and notes.
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 100, -- Lower runs first
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Conditions; empty conditions match everything
+    description_operator TEXT CHECK (description_operator IN ('contains', 'regex')),
+    description_pattern TEXT,
+    counterparty TEXT,
+    min_amount DECIMAL(12,2), -- Compared with the absolute amount
+    max_amount DECIMAL(12,2),
+    transaction_type TEXT CHECK (transaction_type IN ('income', 'expense')),
+    -- Actions
+    category TEXT NOT NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT categorization_rules_owner_check CHECK (
+        (business_id IS NULL) <> (user_id IS NULL)
+    ),
+    CONSTRAINT categorization_rules_pattern_check CHECK (
+        description_operator IS NULL OR NULLIF(description_pattern, '') IS NOT NULL
+    ),
+    CONSTRAINT categorization_rules_amount_check CHECK (
+        min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_business_id ON categorization_rules(business_id);
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_id ON categorization_rules(user_id);
+
+-- Payee or payer as reported by the bank, kept apart from the free-text description
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS counterparty TEXT;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+-- Users manage the rules of their personal book and of the businesses they own
+CREATE POLICY "Owners can manage categorization rules" ON categorization_rules
+FOR ALL USING (
+    user_id = auth.uid()
+    OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    user_id = auth.uid()
+    OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+-- Accountants and admins maintain rules for their clients' businesses
+CREATE POLICY "Accountants can manage business categorization rules" ON categorization_rules
+FOR ALL USING (
+    business_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    business_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_categorization_rules_updated_at
+    BEFORE UPDATE ON categorization_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,233 @@
+-- Migration to split transactions across several categories
+-- A split transaction keeps its single amount, account and date, and divides
+-- the amount into category lines that must add up to it. The parent row is
+-- labelled 'Split' and the ledger posts one category line per split line.
+
+CREATE TABLE IF NOT EXISTS transaction_splits (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    category TEXT NOT NULL CHECK (NULLIF(TRIM(category), '') IS NOT NULL),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0), -- Share of the absolute transaction amount
+    memo TEXT,
+    line_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id ON transaction_splits(transaction_id);
+
+-- Split lines of a transaction in a closed period cannot change
+CREATE TRIGGER transaction_splits_closed_period_guard
+    BEFORE INSERT OR UPDATE OR DELETE ON transaction_splits
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_closed_period_child_changes('transactions', 'transaction_id', 'date');
+
+-- Transaction posting -------------------------------------------------------------
+
+-- Same as before, except that split income and expenses post one category
+-- line per split line against the cash account. Replacing the function keeps
+-- EXECUTE revoked from clients.
+CREATE OR REPLACE FUNCTION post_transaction_to_ledger(p_transaction transactions)
+RETURNS VOID AS $$
+DECLARE
+    -- Business rows belong to the business's book even when a user_id is also set
+    v_business_id UUID := p_transaction.business_id;
+    v_user_id UUID := CASE WHEN p_transaction.business_id IS NULL THEN p_transaction.user_id END;
+    v_amount DECIMAL(12,2) := ABS(p_transaction.amount);
+    v_category TEXT := COALESCE(
+        NULLIF(p_transaction.category, ''), NULLIF(p_transaction.category_name, ''), 'Uncategorized'
+    );
+    v_split_total DECIMAL(12,2);
+    v_cash_account UUID;
+    v_debit_account UUID;
+    v_credit_account UUID;
+    v_entry_id UUID;
+BEGIN
+    DELETE FROM journal_entries WHERE transaction_id = p_transaction.id;
+
+    -- Rejected and zero-value transactions carry no accounting effect
+    IF p_transaction.status = 'rejected' OR v_amount = 0
+       OR (v_business_id IS NULL AND v_user_id IS NULL) THEN
+        RETURN;
+    END IF;
+
+    SELECT SUM(amount) INTO v_split_total
+      FROM transaction_splits
+     WHERE transaction_id = p_transaction.id;
+
+    IF v_split_total IS NOT NULL AND v_split_total <> v_amount THEN
+        RAISE EXCEPTION 'Split lines add up to % but the transaction amount is %', v_split_total, v_amount
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Both accounts must belong to the transaction's own book
+    IF EXISTS (
+        SELECT 1 FROM accounts
+         WHERE id IN (p_transaction.account_id, p_transaction.transfer_account_id)
+           AND (business_id IS DISTINCT FROM v_business_id OR user_id IS DISTINCT FROM v_user_id)
+    ) THEN
+        RAISE EXCEPTION 'The account of this transaction belongs to a different book'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM ensure_chart_of_accounts(v_business_id, v_user_id);
+
+    SELECT id INTO v_cash_account
+      FROM accounts
+     WHERE business_id IS NOT DISTINCT FROM v_business_id
+       AND user_id IS NOT DISTINCT FROM v_user_id
+       AND (id = p_transaction.account_id
+            OR (p_transaction.account_id IS NULL AND is_default))
+     LIMIT 1;
+
+    IF v_split_total IS NOT NULL AND p_transaction.type IN ('income', 'expense') THEN
+        IF v_cash_account IS NULL THEN
+            RETURN;
+        END IF;
+
+        INSERT INTO journal_entries (business_id, user_id, transaction_id, entry_date, memo, source, created_by)
+        VALUES (v_business_id, v_user_id, p_transaction.id, p_transaction.date,
+                p_transaction.description, 'transaction', auth.uid())
+        RETURNING id INTO v_entry_id;
+
+        -- Cash moves once for the whole amount; each split line hits its own category
+        INSERT INTO journal_lines (journal_entry_id, account_id, debit, credit, line_order)
+        VALUES (
+            v_entry_id,
+            v_cash_account,
+            CASE WHEN p_transaction.type = 'income' THEN v_amount ELSE 0 END,
+            CASE WHEN p_transaction.type = 'expense' THEN v_amount ELSE 0 END,
+            0
+        );
+
+        INSERT INTO journal_lines (journal_entry_id, account_id, debit, credit, description, line_order)
+        SELECT v_entry_id,
+               ledger_category_account(v_business_id, v_user_id, p_transaction.type, s.category),
+               CASE WHEN p_transaction.type = 'expense' THEN s.amount ELSE 0 END,
+               CASE WHEN p_transaction.type = 'income' THEN s.amount ELSE 0 END,
+               s.memo,
+               s.line_order + 1
+          FROM transaction_splits s
+         WHERE s.transaction_id = p_transaction.id;
+
+        RETURN;
+    END IF;
+
+    IF p_transaction.type = 'income' THEN
+        v_debit_account := v_cash_account;
+        v_credit_account := ledger_category_account(
+            v_business_id, v_user_id, 'income', v_category);
+    ELSIF p_transaction.type = 'expense' THEN
+        v_debit_account := ledger_category_account(
+            v_business_id, v_user_id, 'expense', v_category);
+        v_credit_account := v_cash_account;
+    ELSIF p_transaction.type = 'transfer' THEN
+        v_debit_account := p_transaction.transfer_account_id;
+        v_credit_account := v_cash_account;
+    END IF;
+
+    -- A transfer without a destination cannot be balanced; it stays unposted
+    IF v_debit_account IS NULL OR v_credit_account IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO journal_entries (business_id, user_id, transaction_id, entry_date, memo, source, created_by)
+    VALUES (v_business_id, v_user_id, p_transaction.id, p_transaction.date,
+            p_transaction.description, 'transaction', auth.uid())
+    RETURNING id INTO v_entry_id;
+
+    INSERT INTO journal_lines (journal_entry_id, account_id, debit, credit, line_order)
+    VALUES (v_entry_id, v_debit_account, v_amount, 0, 0),
+           (v_entry_id, v_credit_account, 0, v_amount, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replaces the split lines of a transaction in one go and reposts it.
+-- An empty list removes the split and restores the category of the largest
+-- former line. Clients can only read split lines, so this is the one way to
+-- write them; the closed period and reconciliation guards still apply.
+CREATE OR REPLACE FUNCTION save_transaction_splits(
+    p_transaction_id UUID,
+    p_splits JSONB -- [{ category, amount, memo }]
+)
+RETURNS VOID AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_count INTEGER := jsonb_array_length(COALESCE(p_splits, '[]'::jsonb));
+    v_total DECIMAL(12,2);
+    v_previous_category TEXT;
+    v_category TEXT;
+BEGIN
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+    -- Owners split their own transactions; accountants split business ones
+    IF NOT FOUND OR NOT (
+        v_transaction.user_id = auth.uid()
+        OR v_transaction.business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+        OR (v_transaction.business_id IS NOT NULL
+            AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin')))
+    ) THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    IF v_count > 0 AND v_transaction.type NOT IN ('income', 'expense') THEN
+        RAISE EXCEPTION 'Only income and expense transactions can be split';
+    END IF;
+
+    IF v_count = 1 THEN
+        RAISE EXCEPTION 'A split needs at least two lines';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(p_splits, '[]'::jsonb)) AS line
+         WHERE NULLIF(TRIM(line->>'category'), '') IS NULL
+            OR COALESCE((line->>'amount')::DECIMAL(12,2), 0) <= 0
+    ) THEN
+        RAISE EXCEPTION 'Every split line needs a category and a positive amount';
+    END IF;
+
+    SELECT COALESCE(SUM((line->>'amount')::DECIMAL(12,2)), 0) INTO v_total
+      FROM jsonb_array_elements(COALESCE(p_splits, '[]'::jsonb)) AS line;
+
+    IF v_count > 0 AND v_total <> ABS(v_transaction.amount) THEN
+        RAISE EXCEPTION 'Split lines add up to % but the transaction amount is %', v_total, ABS(v_transaction.amount);
+    END IF;
+
+    SELECT category INTO v_previous_category
+      FROM transaction_splits
+     WHERE transaction_id = p_transaction_id
+     ORDER BY amount DESC, line_order
+     LIMIT 1;
+
+    DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+    INSERT INTO transaction_splits (transaction_id, category, amount, memo, line_order)
+    SELECT p_transaction_id,
+           TRIM(line->>'category'),
+           (line->>'amount')::DECIMAL(12,2),
+           NULLIF(TRIM(line->>'memo'), ''),
+           (ordinality - 1)::INTEGER
+      FROM jsonb_array_elements(COALESCE(p_splits, '[]'::jsonb)) WITH ORDINALITY AS x(line, ordinality);
+
+    v_category := CASE
+        WHEN v_count > 0 THEN 'Split'
+        ELSE COALESCE(v_previous_category, NULLIF(v_transaction.category, ''), v_transaction.category_name)
+    END;
+
+    -- Updating the parent reposts it to the ledger
+    UPDATE transactions
+       SET category = CASE WHEN business_id IS NOT NULL THEN v_category ELSE category END,
+           category_name = CASE WHEN business_id IS NULL THEN v_category ELSE category_name END,
+           updated_at = NOW()
+     WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- Split lines follow the visibility of their transaction. They are written
+-- only through save_transaction_splits, which checks the total and reposts.
+CREATE POLICY "Users can view splits of visible transactions" ON transaction_splits
+FOR SELECT USING (
+    transaction_id IN (SELECT id FROM transactions)
+);
@@ -0,0 +1,206 @@
+-- Migration to materialize recurring transactions
+-- A recurring template describes a repeating income or expense. The scheduler
+-- creates its occurrences as ordinary transactions up to a horizon ahead of
+-- today, so single occurrences can be edited like any other transaction.
+-- Skipped occurrences are remembered so they are never created again.
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE, -- Set for business books
+    type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    description TEXT,
+    category TEXT,
+    account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0), -- Custom schedules: every N units
+    interval_unit TEXT NOT NULL DEFAULT 'month' CHECK (interval_unit IN ('day', 'week', 'month', 'year')),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    next_index INTEGER NOT NULL DEFAULT 0, -- Number of occurrences already scheduled
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT recurring_transactions_range_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_business_id ON recurring_transactions(business_id);
+
+CREATE TABLE IF NOT EXISTS recurring_transaction_skips (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    recurring_transaction_id UUID NOT NULL REFERENCES recurring_transactions(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (recurring_transaction_id, occurrence_date)
+);
+
+-- Occurrences point back at their template and the date they were scheduled for,
+-- which stays the same when the occurrence itself is moved to another date
+ALTER TABLE transactions
+    ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID REFERENCES recurring_transactions(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence
+    ON transactions(recurring_transaction_id, occurrence_date)
+    WHERE recurring_transaction_id IS NOT NULL;
+
+-- Date of the nth occurrence (0 = start date). Counting from the start date
+-- keeps month-end schedules on the last day instead of drifting earlier.
+CREATE OR REPLACE FUNCTION recurring_occurrence_date(
+    p_start_date DATE,
+    p_frequency TEXT,
+    p_interval_count INTEGER,
+    p_interval_unit TEXT,
+    p_index INTEGER
+)
+RETURNS DATE AS $$
+    SELECT (CASE p_frequency
+        WHEN 'weekly' THEN p_start_date + make_interval(weeks => p_index)
+        WHEN 'biweekly' THEN p_start_date + make_interval(weeks => 2 * p_index)
+        WHEN 'monthly' THEN p_start_date + make_interval(months => p_index)
+        WHEN 'quarterly' THEN p_start_date + make_interval(months => 3 * p_index)
+        WHEN 'yearly' THEN p_start_date + make_interval(years => p_index)
+        ELSE CASE p_interval_unit
+            WHEN 'day' THEN p_start_date + make_interval(days => p_interval_count * p_index)
+            WHEN 'week' THEN p_start_date + make_interval(weeks => p_interval_count * p_index)
+            WHEN 'year' THEN p_start_date + make_interval(years => p_interval_count * p_index)
+            ELSE p_start_date + make_interval(months => p_interval_count * p_index)
+        END
+    END)::DATE;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Creates every occurrence due on or before p_through for the templates the
+-- caller can see. Run by users when they open the app, and daily by pg_cron
+-- where it is installed. Occurrences are never created ahead of today, so a
+-- later p_through is treated as today; upcoming ones are projected from the
+-- templates instead. Skipped dates and dates in closed business periods are
+-- passed over. Returns the number of transactions created.
+CREATE OR REPLACE FUNCTION generate_recurring_transactions(p_through DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    v_template recurring_transactions%ROWTYPE;
+    v_date DATE;
+    v_index INTEGER;
+    v_signed DECIMAL(12,2);
+    v_created INTEGER := 0;
+    v_rows INTEGER;
+BEGIN
+    FOR v_template IN
+        SELECT * FROM recurring_transactions
+         WHERE is_active
+         FOR UPDATE SKIP LOCKED
+    LOOP
+        v_index := v_template.next_index;
+        v_signed := CASE WHEN v_template.type = 'expense' THEN -v_template.amount ELSE v_template.amount END;
+
+        LOOP
+            v_date := recurring_occurrence_date(
+                v_template.start_date, v_template.frequency, v_template.interval_count,
+                v_template.interval_unit, v_index);
+
+            EXIT WHEN v_date > LEAST(p_through, CURRENT_DATE)
+                OR (v_template.end_date IS NOT NULL AND v_date > v_template.end_date);
+
+            IF NOT EXISTS (
+                   SELECT 1 FROM recurring_transaction_skips
+                    WHERE recurring_transaction_id = v_template.id AND occurrence_date = v_date
+               )
+               AND NOT (v_template.business_id IS NOT NULL AND is_period_closed(v_template.business_id, v_date)) THEN
+                INSERT INTO transactions (
+                    user_id, business_id, type, amount, description, category, category_name,
+                    account_id, tags, date, recurring, recurring_frequency,
+                    recurring_transaction_id, occurrence_date
+                )
+                VALUES (
+                    CASE WHEN v_template.business_id IS NULL THEN v_template.user_id END,
+                    v_template.business_id,
+                    v_template.type,
+                    v_signed,
+                    v_template.description,
+                    CASE WHEN v_template.business_id IS NOT NULL THEN v_template.category END,
+                    CASE WHEN v_template.business_id IS NULL THEN v_template.category END,
+                    v_template.account_id,
+                    v_template.tags,
+                    v_date,
+                    TRUE,
+                    v_template.frequency,
+                    v_template.id,
+                    v_date
+                )
+                ON CONFLICT DO NOTHING;
+
+                GET DIAGNOSTICS v_rows = ROW_COUNT;
+                v_created := v_created + v_rows;
+            END IF;
+
+            v_index := v_index + 1;
+        END LOOP;
+
+        UPDATE recurring_transactions
+           SET next_index = v_index,
+               -- Finished schedules stop being picked up
+               is_active = v_template.end_date IS NULL OR v_date <= v_template.end_date
+         WHERE id = v_template.id
+           AND next_index IS DISTINCT FROM v_index;
+    END LOOP;
+
+    RETURN v_created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Skips one occurrence of a template, removing it if it was already created
+CREATE OR REPLACE FUNCTION skip_recurring_occurrence(p_recurring_transaction_id UUID, p_occurrence_date DATE)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM recurring_transactions WHERE id = p_recurring_transaction_id) THEN
+        RAISE EXCEPTION 'Recurring transaction not found';
+    END IF;
+
+    INSERT INTO recurring_transaction_skips (recurring_transaction_id, occurrence_date)
+    VALUES (p_recurring_transaction_id, p_occurrence_date)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM transactions
+     WHERE recurring_transaction_id = p_recurring_transaction_id
+       AND occurrence_date = p_occurrence_date;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_transaction_skips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recurring transactions" ON recurring_transactions
+FOR ALL USING (
+    user_id = auth.uid()
+) WITH CHECK (
+    user_id = auth.uid()
+    AND (business_id IS NULL OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+);
+
+CREATE POLICY "Users can manage skips of their recurring transactions" ON recurring_transaction_skips
+FOR ALL USING (
+    recurring_transaction_id IN (SELECT id FROM recurring_transactions WHERE user_id = auth.uid())
+) WITH CHECK (
+    recurring_transaction_id IN (SELECT id FROM recurring_transactions WHERE user_id = auth.uid())
+);
+
+CREATE TRIGGER update_recurring_transactions_updated_at
+    BEFORE UPDATE ON recurring_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Generate occurrences every night where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'generate-recurring-transactions',
+            '15 2 * * *',
+            'SELECT generate_recurring_transactions()'
+        );
+    END IF;
+END $$;
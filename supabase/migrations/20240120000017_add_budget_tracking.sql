@@ -0,0 +1,188 @@
+-- Migration to keep budget spending in sync with transactions
+-- spent_amount is recomputed from the user's categorized expenses (counting
+-- split lines on their own categories) whenever a transaction or split changes.
+-- Monthly budgets renew themselves and can carry unused amounts forward.
+
+ALTER TABLE budgets
+    ADD COLUMN IF NOT EXISTS auto_renew BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS rollover BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS rollover_amount DECIMAL(12,2) NOT NULL DEFAULT 0, -- Carried in from the previous period
+    ADD COLUMN IF NOT EXISTS alert_thresholds INTEGER[] NOT NULL DEFAULT '{80,100}', -- Percent of the available amount
+    ADD COLUMN IF NOT EXISTS previous_budget_id UUID REFERENCES budgets(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_previous_budget_id ON budgets(previous_budget_id);
+
+-- Category a budget tracks: its custom name, or the shared category it points at
+CREATE OR REPLACE FUNCTION budget_category(p_budget budgets)
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        p_budget.category_name,
+        (SELECT name FROM transaction_categories WHERE id = p_budget.category_id)
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Expenses in a category and period. Split transactions count only their
+-- lines in that category.
+CREATE OR REPLACE FUNCTION calculate_budget_spent(
+    p_user_id UUID,
+    p_category TEXT,
+    p_period_start DATE,
+    p_period_end DATE
+)
+RETURNS DECIMAL(12,2) AS $$
+    SELECT COALESCE(SUM(
+               CASE WHEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+                    THEN (SELECT COALESCE(SUM(s.amount), 0) FROM transaction_splits s
+                           WHERE s.transaction_id = t.id AND s.category = p_category)
+                    WHEN t.category_name = p_category THEN ABS(t.amount)
+                    ELSE 0
+               END), 0)
+      FROM transactions t
+     WHERE t.user_id = p_user_id
+       AND t.business_id IS NULL
+       AND t.type = 'expense'
+       AND t.date BETWEEN p_period_start AND p_period_end;
+$$ LANGUAGE sql STABLE;
+
+-- Recomputes spent_amount for a user's budgets covering any of the given dates
+CREATE OR REPLACE FUNCTION refresh_budget_spent(p_user_id UUID, p_dates DATE[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE budgets b
+       SET spent_amount = calculate_budget_spent(b.user_id, budget_category(b), b.period_start, b.period_end)
+     WHERE b.user_id = p_user_id
+       AND EXISTS (SELECT 1 FROM unnest(p_dates) d WHERE d BETWEEN b.period_start AND b.period_end);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_budget_spent_from_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.user_id IS NOT NULL THEN
+        PERFORM refresh_budget_spent(OLD.user_id, ARRAY[OLD.date]);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.user_id IS NOT NULL THEN
+        PERFORM refresh_budget_spent(NEW.user_id, ARRAY[NEW.date]);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_budget_spent_from_split()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_transaction
+      FROM transactions
+     WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.transaction_id ELSE NEW.transaction_id END;
+
+    IF FOUND AND v_transaction.user_id IS NOT NULL THEN
+        PERFORM refresh_budget_spent(v_transaction.user_id, ARRAY[v_transaction.date]);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_budget_spent_from_budget()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.spent_amount := calculate_budget_spent(NEW.user_id, budget_category(NEW), NEW.period_start, NEW.period_end);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_budget_spent_on_transactions ON transactions;
+CREATE TRIGGER sync_budget_spent_on_transactions
+    AFTER INSERT OR UPDATE OF amount, type, date, category_name, user_id OR DELETE ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_budget_spent_from_transaction();
+
+DROP TRIGGER IF EXISTS sync_budget_spent_on_transaction_splits ON transaction_splits;
+CREATE TRIGGER sync_budget_spent_on_transaction_splits
+    AFTER INSERT OR UPDATE OR DELETE ON transaction_splits
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_budget_spent_from_split();
+
+DROP TRIGGER IF EXISTS sync_budget_spent_on_budgets ON budgets;
+CREATE TRIGGER sync_budget_spent_on_budgets
+    BEFORE INSERT OR UPDATE OF user_id, period_start, period_end, category_id, category_name ON budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_budget_spent_from_budget();
+
+-- Starts the next period of every auto-renewing budget that has ended on or
+-- before p_as_of, carrying forward the unused amount where rollover is on.
+-- Periods keep the month length of the original (monthly budgets stay
+-- monthly). Returns the number of budgets created.
+CREATE OR REPLACE FUNCTION renew_budgets(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    v_budget budgets%ROWTYPE;
+    v_months INTEGER;
+    v_created INTEGER := 0;
+BEGIN
+    LOOP
+        SELECT b.* INTO v_budget
+          FROM budgets b
+         WHERE b.status = 'active'
+           AND b.auto_renew
+           AND b.period_end < p_as_of
+           AND NOT EXISTS (SELECT 1 FROM budgets n WHERE n.previous_budget_id = b.id)
+         ORDER BY b.period_end
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED;
+
+        EXIT WHEN NOT FOUND;
+
+        v_months := GREATEST(
+            (EXTRACT(YEAR FROM age(v_budget.period_end + 1, v_budget.period_start)) * 12
+             + EXTRACT(MONTH FROM age(v_budget.period_end + 1, v_budget.period_start)))::INTEGER,
+            1);
+
+        INSERT INTO budgets (
+            user_id, name, category_id, category_name, monthly_limit,
+            period_start, period_end, status, auto_renew, rollover,
+            rollover_amount, alert_thresholds, previous_budget_id
+        )
+        VALUES (
+            v_budget.user_id,
+            v_budget.name,
+            v_budget.category_id,
+            v_budget.category_name,
+            v_budget.monthly_limit,
+            v_budget.period_end + 1,
+            (v_budget.period_end + 1 + make_interval(months => v_months))::DATE - 1,
+            'active',
+            TRUE,
+            v_budget.rollover,
+            CASE WHEN v_budget.rollover
+                 THEN GREATEST(v_budget.monthly_limit + v_budget.rollover_amount - COALESCE(v_budget.spent_amount, 0), 0)
+                 ELSE 0
+            END,
+            v_budget.alert_thresholds,
+            v_budget.id
+        );
+
+        UPDATE budgets SET status = 'inactive' WHERE id = v_budget.id;
+
+        v_created := v_created + 1;
+    END LOOP;
+
+    RETURN v_created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bring stored amounts up to date for budgets created before this migration
+UPDATE budgets b SET spent_amount = calculate_budget_spent(b.user_id, budget_category(b), b.period_start, b.period_end);
+
+-- Renew budgets every night where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'renew-budgets',
+            '5 0 * * *',
+            'SELECT renew_budgets()'
+        );
+    END IF;
+END $$;
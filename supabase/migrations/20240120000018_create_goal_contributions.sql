@@ -0,0 +1,71 @@
+-- Migration to record contributions to financial goals
+-- Every change to a goal's saved amount is a dated ledger row, optionally
+-- linked to the transaction that moved the money. current_amount is kept
+-- equal to the sum of the goal's contributions.
+
+CREATE TABLE IF NOT EXISTS goal_contributions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    goal_id UUID NOT NULL REFERENCES financial_goals(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0), -- Negative for withdrawals
+    contribution_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    kind TEXT NOT NULL DEFAULT 'contribution' CHECK (kind IN ('contribution', 'starting_balance', 'adjustment')),
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_goal_id ON goal_contributions(goal_id, contribution_date);
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_user_id ON goal_contributions(user_id);
+
+-- Existing saved amounts become each goal's starting balance
+INSERT INTO goal_contributions (goal_id, user_id, amount, contribution_date, kind, note)
+SELECT id, user_id, current_amount, created_at::DATE, 'starting_balance', 'Saved before contributions were tracked'
+  FROM financial_goals
+ WHERE COALESCE(current_amount, 0) <> 0
+   AND NOT EXISTS (SELECT 1 FROM goal_contributions c WHERE c.goal_id = financial_goals.id);
+
+CREATE OR REPLACE FUNCTION sync_goal_current_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_goal_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.goal_id ELSE NEW.goal_id END;
+BEGIN
+    UPDATE financial_goals
+       SET current_amount = (SELECT COALESCE(SUM(amount), 0) FROM goal_contributions WHERE goal_id = v_goal_id)
+     WHERE id = v_goal_id;
+
+    IF TG_OP = 'UPDATE' AND OLD.goal_id <> NEW.goal_id THEN
+        UPDATE financial_goals
+           SET current_amount = (SELECT COALESCE(SUM(amount), 0) FROM goal_contributions WHERE goal_id = OLD.goal_id)
+         WHERE id = OLD.goal_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_goal_current_amount_on_contributions
+    AFTER INSERT OR UPDATE OR DELETE ON goal_contributions
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_goal_current_amount();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE goal_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goal contributions" ON goal_contributions
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own goal contributions" ON goal_contributions
+FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND goal_id IN (SELECT id FROM financial_goals WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update own goal contributions" ON goal_contributions
+FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND goal_id IN (SELECT id FROM financial_goals WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete own goal contributions" ON goal_contributions
+FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,47 @@
+-- Migration to track account balances over time for net worth
+-- Accounts either follow the transactions posted to them or, for things like
+-- property and investments, take their value from balances the owner records.
+-- Recorded balances are kept as dated snapshots.
+
+ALTER TABLE accounts
+    ADD COLUMN IF NOT EXISTS balance_source TEXT NOT NULL DEFAULT 'ledger'
+        CHECK (balance_source IN ('ledger', 'manual')); -- manual: balance comes from snapshots
+
+CREATE TABLE IF NOT EXISTS account_balance_snapshots (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL,
+    balance DECIMAL(14,2) NOT NULL, -- Amount owned for assets, amount owed for liabilities
+    note TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (account_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_balance_snapshots_account_date
+    ON account_balance_snapshots(account_id, snapshot_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE account_balance_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots follow the access rules of their account
+CREATE POLICY "Users can manage snapshots of their accounts" ON account_balance_snapshots
+FOR ALL USING (
+    account_id IN (
+        SELECT id FROM accounts
+         WHERE user_id = auth.uid()
+            OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+) WITH CHECK (
+    account_id IN (
+        SELECT id FROM accounts
+         WHERE user_id = auth.uid()
+            OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+);
+
+CREATE TRIGGER update_account_balance_snapshots_updated_at
+    BEFORE UPDATE ON account_balance_snapshots
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
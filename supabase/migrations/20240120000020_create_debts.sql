@@ -0,0 +1,49 @@
+-- Migration to create the debt payoff planner tables
+-- Users list their debts with an APR and minimum payment and keep one payoff
+-- plan: the ordering strategy and the total they can pay each month. A debt can
+-- be linked to the financial goal created to track paying it off.
+
+CREATE TABLE IF NOT EXISTS debts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    balance DECIMAL(14,2) NOT NULL CHECK (balance >= 0),
+    apr DECIMAL(6,3) NOT NULL DEFAULT 0 CHECK (apr >= 0 AND apr <= 100), -- Annual percentage rate
+    minimum_payment DECIMAL(14,2) NOT NULL CHECK (minimum_payment > 0),
+    custom_order INTEGER NOT NULL DEFAULT 0, -- Position when the plan uses custom ordering
+    goal_id UUID REFERENCES financial_goals(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS debt_payoff_plans (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    strategy TEXT NOT NULL DEFAULT 'avalanche' CHECK (strategy IN ('snowball', 'avalanche', 'custom')),
+    monthly_budget DECIMAL(14,2) NOT NULL DEFAULT 0 CHECK (monthly_budget >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_debts_user_id ON debts(user_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE debt_payoff_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own debts" ON debts
+FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can manage own debt payoff plan" ON debt_payoff_plans
+FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_debts_updated_at
+    BEFORE UPDATE ON debts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_debt_payoff_plans_updated_at
+    BEFORE UPDATE ON debt_payoff_plans
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
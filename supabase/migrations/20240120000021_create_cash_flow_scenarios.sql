@@ -0,0 +1,41 @@
+-- Migration to store what-if scenarios for cash flow forecasts
+-- A scenario is a named list of adjustments (a new hire, a price change, a
+-- large purchase) laid over the baseline forecast of a business or a personal
+-- book, so several can be compared side by side.
+
+CREATE TABLE IF NOT EXISTS cash_flow_scenarios (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE, -- Set for business forecasts
+    name TEXT NOT NULL,
+    adjustments JSONB NOT NULL DEFAULT '[]', -- [{kind, label, amount, start_date, end_date, applies_to}]
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_flow_scenarios_user_id ON cash_flow_scenarios(user_id);
+CREATE INDEX IF NOT EXISTS idx_cash_flow_scenarios_business_id ON cash_flow_scenarios(business_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE cash_flow_scenarios ENABLE ROW LEVEL SECURITY;
+
+-- Personal scenarios belong to their user; business scenarios to the business owner
+CREATE POLICY "Users can manage their cash flow scenarios" ON cash_flow_scenarios
+FOR ALL USING (
+    (business_id IS NULL AND user_id = auth.uid())
+    OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    (business_id IS NULL AND user_id = auth.uid())
+    OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Accountants can view cash flow scenarios" ON cash_flow_scenarios
+FOR SELECT USING (
+    business_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_cash_flow_scenarios_updated_at
+    BEFORE UPDATE ON cash_flow_scenarios
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
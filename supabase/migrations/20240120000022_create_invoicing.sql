@@ -0,0 +1,339 @@
+-- Migration to create customers, invoices and invoice payments
+-- Businesses bill their customers with itemized invoices. Recording a payment
+-- posts an income transaction to the books, and the invoice's amount paid and
+-- status follow its payments. Past-due invoices are flagged overdue nightly.
+
+CREATE TABLE IF NOT EXISTS customers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    email TEXT,
+    phone TEXT,
+    address TEXT,
+    payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0), -- Default terms for new invoices
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+    invoice_number TEXT NOT NULL,
+    issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    due_date DATE NOT NULL,
+    payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0),
+    status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void')),
+    subtotal DECIMAL(14,2) NOT NULL DEFAULT 0,
+    discount_total DECIMAL(14,2) NOT NULL DEFAULT 0,
+    tax_total DECIMAL(14,2) NOT NULL DEFAULT 0,
+    total DECIMAL(14,2) NOT NULL DEFAULT 0,
+    amount_paid DECIMAL(14,2) NOT NULL DEFAULT 0, -- Kept equal to the sum of its payments
+    notes TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (business_id, invoice_number),
+    CONSTRAINT invoices_due_date_check CHECK (due_date >= issue_date)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    quantity DECIMAL(12,3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    unit_price DECIMAL(14,2) NOT NULL CHECK (unit_price >= 0),
+    discount_percent DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+    tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+    amount DECIMAL(14,2) NOT NULL, -- Quantity times price less the discount, before tax
+    line_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    payment_date DATE NOT NULL,
+    amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+    method TEXT,
+    reference TEXT,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL, -- Income transaction the payment posted
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_business_id ON customers(business_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_business_id ON invoices(business_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON invoices(customer_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status_due_date ON invoices(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_id ON invoice_line_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice_id ON invoice_payments(invoice_id);
+
+-- Derives the status of an issued invoice from its payments and due date.
+-- Drafts and void invoices keep their status. amount_paid only changes
+-- through sync_invoice_amount_paid, which updates the invoice from a trigger
+-- on invoice_payments; direct writes to it are ignored.
+CREATE OR REPLACE FUNCTION set_invoice_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.amount_paid := 0;
+    ELSIF pg_trigger_depth() = 1 THEN
+        NEW.amount_paid := OLD.amount_paid;
+    END IF;
+
+    IF NEW.status = 'void' AND NEW.amount_paid > 0 THEN
+        RAISE EXCEPTION 'Remove the payments before voiding invoice %', NEW.invoice_number;
+    END IF;
+
+    IF NEW.status NOT IN ('draft', 'void') THEN
+        NEW.status := CASE
+            WHEN NEW.amount_paid >= NEW.total THEN 'paid'
+            WHEN NEW.due_date < CURRENT_DATE THEN 'overdue'
+            WHEN NEW.amount_paid > 0 THEN 'partially_paid'
+            ELSE 'sent'
+        END;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invoices_set_status
+    BEFORE INSERT OR UPDATE ON invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION set_invoice_status();
+
+-- Keeps amount_paid equal to the sum of the invoice's payments
+CREATE OR REPLACE FUNCTION sync_invoice_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_invoice_id UUID := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+    UPDATE invoices
+       SET amount_paid = (
+           SELECT COALESCE(SUM(amount), 0) FROM invoice_payments WHERE invoice_id = v_invoice_id
+       )
+     WHERE id = v_invoice_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invoice_payments_sync_amount_paid
+    AFTER INSERT OR UPDATE OR DELETE ON invoice_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_invoice_amount_paid();
+
+-- Records a payment against an issued invoice and posts it to the books as
+-- an income transaction, in one step. Returns the payment id.
+-- Clients cannot write payments directly, so this runs with elevated rights.
+CREATE OR REPLACE FUNCTION record_invoice_payment(
+    p_invoice_id UUID,
+    p_amount DECIMAL,
+    p_payment_date DATE,
+    p_method TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_account_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_invoice invoices%ROWTYPE;
+    v_customer_name TEXT;
+    v_transaction_id UUID;
+    v_payment_id UUID;
+BEGIN
+    SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice not found';
+    END IF;
+    IF v_invoice.business_id NOT IN (SELECT id FROM businesses WHERE owner_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the business owner can record invoice payments';
+    END IF;
+    IF v_invoice.status IN ('draft', 'void') THEN
+        RAISE EXCEPTION 'Only sent invoices can be paid';
+    END IF;
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amount must be greater than 0';
+    END IF;
+    IF p_amount > v_invoice.total - v_invoice.amount_paid THEN
+        RAISE EXCEPTION 'Payment exceeds the balance due of %', v_invoice.total - v_invoice.amount_paid;
+    END IF;
+
+    SELECT name INTO v_customer_name FROM customers WHERE id = v_invoice.customer_id;
+
+    INSERT INTO transactions (business_id, type, amount, description, category, date, account_id)
+    VALUES (
+        v_invoice.business_id,
+        'income',
+        p_amount,
+        'Payment for invoice ' || v_invoice.invoice_number || ' from ' || v_customer_name,
+        'Sales',
+        p_payment_date,
+        p_account_id
+    )
+    RETURNING id INTO v_transaction_id;
+
+    INSERT INTO invoice_payments (invoice_id, payment_date, amount, method, reference, transaction_id, created_by)
+    VALUES (p_invoice_id, p_payment_date, p_amount, p_method, p_reference, v_transaction_id, auth.uid())
+    RETURNING id INTO v_payment_id;
+
+    RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removes a payment together with the income transaction it posted
+CREATE OR REPLACE FUNCTION delete_invoice_payment(p_payment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_business_id UUID;
+    v_transaction_id UUID;
+BEGIN
+    SELECT i.business_id INTO v_business_id
+      FROM invoice_payments p
+      JOIN invoices i ON i.id = p.invoice_id
+     WHERE p.id = p_payment_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+    IF v_business_id NOT IN (SELECT id FROM businesses WHERE owner_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the business owner can remove invoice payments';
+    END IF;
+
+    DELETE FROM invoice_payments
+     WHERE id = p_payment_id
+    RETURNING transaction_id INTO v_transaction_id;
+
+    IF v_transaction_id IS NOT NULL THEN
+        DELETE FROM transactions WHERE id = v_transaction_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Re-evaluates issued invoices that have passed their due date.
+-- Returns the number of invoices that became overdue.
+CREATE OR REPLACE FUNCTION mark_overdue_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    UPDATE invoices
+       SET status = status -- the status trigger works out the new value
+     WHERE status IN ('sent', 'partially_paid')
+       AND due_date < CURRENT_DATE;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_line_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+-- Business owners manage their customers and invoices
+CREATE POLICY "Owners can manage their customers" ON customers
+FOR ALL USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can view their invoices" ON invoices
+FOR SELECT USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can add invoices" ON invoices
+FOR INSERT WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can update their invoices" ON invoices
+FOR UPDATE USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+-- Issued invoices are voided rather than deleted
+CREATE POLICY "Owners can delete draft invoices" ON invoices
+FOR DELETE USING (
+    status = 'draft'
+    AND business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can manage their invoice line items" ON invoice_line_items
+FOR ALL USING (
+    invoice_id IN (
+        SELECT id FROM invoices
+         WHERE business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+) WITH CHECK (
+    invoice_id IN (
+        SELECT id FROM invoices
+         WHERE business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+);
+
+-- Payments are written only through record_invoice_payment and
+-- delete_invoice_payment, which post them to the books
+CREATE POLICY "Owners can view their invoice payments" ON invoice_payments
+FOR SELECT USING (
+    invoice_id IN (
+        SELECT id FROM invoices
+         WHERE business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+    )
+);
+
+-- Accountants can review receivables
+CREATE POLICY "Accountants can view customers" ON customers
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view invoices" ON invoices
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view invoice line items" ON invoice_line_items
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view invoice payments" ON invoice_payments
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_customers_updated_at
+    BEFORE UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at
+    BEFORE UPDATE ON invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Flag overdue invoices every night where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'mark-overdue-invoices',
+            '30 2 * * *',
+            'SELECT mark_overdue_invoices()'
+        );
+    END IF;
+END $$;
@@ -0,0 +1,338 @@
+-- Migration to create vendors, bills and bill payments
+-- Businesses enter the bills their vendors send them before paying them. A bill
+-- waits for approval by a business owner or manager, can be scheduled for
+-- payment, and each full or partial payment posts an expense transaction.
+
+-- The caller's role in a business: 'owner' for the business owner, otherwise
+-- their membership role, or NULL when they have no access
+CREATE OR REPLACE FUNCTION get_business_role(p_business_id UUID)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM businesses WHERE id = p_business_id AND owner_id = auth.uid()) THEN 'owner'
+        ELSE (
+            SELECT role FROM user_businesses
+             WHERE business_id = p_business_id AND user_id = auth.uid()
+             LIMIT 1
+        )
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_approve_bills(p_business_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(get_business_role(p_business_id) IN ('owner', 'manager'), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE IF NOT EXISTS vendors (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    email TEXT,
+    phone TEXT,
+    address TEXT,
+    payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0), -- Default terms for new bills
+    default_category TEXT, -- Expense category new bills from this vendor start with
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bills (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE RESTRICT,
+    bill_number TEXT, -- The vendor's own reference
+    bill_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    due_date DATE NOT NULL,
+    scheduled_payment_date DATE, -- When the business plans to pay
+    category TEXT NOT NULL, -- Expense category payments are posted to
+    description TEXT,
+    amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+    amount_paid DECIMAL(14,2) NOT NULL DEFAULT 0, -- Kept equal to the sum of its payments
+    status TEXT NOT NULL DEFAULT 'pending_approval'
+        CHECK (status IN ('pending_approval', 'approved', 'partially_paid', 'paid', 'void')),
+    approved_by UUID REFERENCES auth.users(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT bills_due_date_check CHECK (due_date >= bill_date)
+);
+
+-- Supporting documents (the vendor's invoice, a receipt) from the documents library
+CREATE TABLE IF NOT EXISTS bill_attachments (
+    bill_id UUID NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (bill_id, document_id)
+);
+
+CREATE TABLE IF NOT EXISTS bill_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    bill_id UUID NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+    payment_date DATE NOT NULL,
+    amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+    method TEXT,
+    reference TEXT,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL, -- Expense transaction the payment posted
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendors_business_id ON vendors(business_id);
+CREATE INDEX IF NOT EXISTS idx_bills_business_id ON bills(business_id);
+CREATE INDEX IF NOT EXISTS idx_bills_vendor_id ON bills(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_bills_status_due_date ON bills(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_bill_attachments_document_id ON bill_attachments(document_id);
+CREATE INDEX IF NOT EXISTS idx_bill_payments_bill_id ON bill_payments(bill_id);
+
+-- Enforces the approval workflow and derives the status of approved bills
+-- from their payments. Bills start out pending; only an owner or manager can
+-- approve one, and an approved bill's vendor and amount are fixed.
+-- amount_paid only changes through sync_bill_amount_paid, which updates the
+-- bill from a trigger on bill_payments; direct writes to it are ignored.
+CREATE OR REPLACE FUNCTION set_bill_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'pending_approval' THEN
+            RAISE EXCEPTION 'New bills must be approved before they can be paid';
+        END IF;
+        NEW.amount_paid := 0;
+    ELSE
+        IF pg_trigger_depth() = 1 THEN
+            NEW.amount_paid := OLD.amount_paid;
+        END IF;
+
+        IF OLD.status = 'pending_approval' AND NEW.status NOT IN ('pending_approval', 'void') THEN
+            IF NOT can_approve_bills(NEW.business_id) THEN
+                RAISE EXCEPTION 'Only a business owner or manager can approve bills';
+            END IF;
+            NEW.approved_by := auth.uid();
+            NEW.approved_at := NOW();
+        END IF;
+
+        IF OLD.status NOT IN ('pending_approval', 'void')
+           AND (NEW.amount <> OLD.amount OR NEW.vendor_id <> OLD.vendor_id) THEN
+            RAISE EXCEPTION 'The vendor and amount of an approved bill cannot be changed';
+        END IF;
+    END IF;
+
+    IF NEW.status = 'void' AND NEW.amount_paid > 0 THEN
+        RAISE EXCEPTION 'Remove the payments before voiding this bill';
+    END IF;
+
+    IF NEW.status NOT IN ('pending_approval', 'void') THEN
+        NEW.status := CASE
+            WHEN NEW.amount_paid >= NEW.amount THEN 'paid'
+            WHEN NEW.amount_paid > 0 THEN 'partially_paid'
+            ELSE 'approved'
+        END;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bills_set_status
+    BEFORE INSERT OR UPDATE ON bills
+    FOR EACH ROW
+    EXECUTE FUNCTION set_bill_status();
+
+-- Keeps amount_paid equal to the sum of the bill's payments
+CREATE OR REPLACE FUNCTION sync_bill_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_bill_id UUID := COALESCE(NEW.bill_id, OLD.bill_id);
+BEGIN
+    UPDATE bills
+       SET amount_paid = (
+           SELECT COALESCE(SUM(amount), 0) FROM bill_payments WHERE bill_id = v_bill_id
+       )
+     WHERE id = v_bill_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bill_payments_sync_amount_paid
+    AFTER INSERT OR UPDATE OR DELETE ON bill_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_bill_amount_paid();
+
+-- Records a full or partial payment of an approved bill and posts it to the
+-- books as an expense transaction, in one step. Returns the payment id.
+-- Clients cannot write payments directly, so this runs with elevated rights.
+CREATE OR REPLACE FUNCTION record_bill_payment(
+    p_bill_id UUID,
+    p_amount DECIMAL,
+    p_payment_date DATE,
+    p_method TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_account_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_bill bills%ROWTYPE;
+    v_vendor_name TEXT;
+    v_transaction_id UUID;
+    v_payment_id UUID;
+BEGIN
+    SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bill not found';
+    END IF;
+    IF v_bill.status NOT IN ('approved', 'partially_paid') THEN
+        RAISE EXCEPTION 'Only approved bills can be paid';
+    END IF;
+    IF NOT can_approve_bills(v_bill.business_id) THEN
+        RAISE EXCEPTION 'Only a business owner or manager can pay bills';
+    END IF;
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amount must be greater than 0';
+    END IF;
+    IF p_amount > v_bill.amount - v_bill.amount_paid THEN
+        RAISE EXCEPTION 'Payment exceeds the balance due of %', v_bill.amount - v_bill.amount_paid;
+    END IF;
+
+    SELECT name INTO v_vendor_name FROM vendors WHERE id = v_bill.vendor_id;
+
+    INSERT INTO transactions (business_id, type, amount, description, category, date, account_id)
+    VALUES (
+        v_bill.business_id,
+        'expense',
+        -p_amount,
+        'Payment to ' || v_vendor_name || COALESCE(' for bill ' || v_bill.bill_number, ''),
+        v_bill.category,
+        p_payment_date,
+        p_account_id
+    )
+    RETURNING id INTO v_transaction_id;
+
+    INSERT INTO bill_payments (bill_id, payment_date, amount, method, reference, transaction_id, created_by)
+    VALUES (p_bill_id, p_payment_date, p_amount, p_method, p_reference, v_transaction_id, auth.uid())
+    RETURNING id INTO v_payment_id;
+
+    RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removes a payment together with the expense transaction it posted
+CREATE OR REPLACE FUNCTION delete_bill_payment(p_payment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_business_id UUID;
+    v_transaction_id UUID;
+BEGIN
+    SELECT b.business_id INTO v_business_id
+      FROM bill_payments p
+      JOIN bills b ON b.id = p.bill_id
+     WHERE p.id = p_payment_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+    IF NOT can_approve_bills(v_business_id) THEN
+        RAISE EXCEPTION 'Only a business owner or manager can remove bill payments';
+    END IF;
+
+    DELETE FROM bill_payments
+     WHERE id = p_payment_id
+    RETURNING transaction_id INTO v_transaction_id;
+
+    IF v_transaction_id IS NOT NULL THEN
+        DELETE FROM transactions WHERE id = v_transaction_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_payments ENABLE ROW LEVEL SECURITY;
+
+-- Owners and the business's staff enter vendors and bills; viewers can only look
+CREATE POLICY "Business members can view vendors" ON vendors
+FOR SELECT USING (get_business_role(business_id) IS NOT NULL);
+
+CREATE POLICY "Business staff can manage vendors" ON vendors
+FOR ALL USING (
+    get_business_role(business_id) IN ('owner', 'manager', 'employee')
+) WITH CHECK (
+    get_business_role(business_id) IN ('owner', 'manager', 'employee')
+);
+
+CREATE POLICY "Business members can view bills" ON bills
+FOR SELECT USING (get_business_role(business_id) IS NOT NULL);
+
+CREATE POLICY "Business staff can add bills" ON bills
+FOR INSERT WITH CHECK (
+    get_business_role(business_id) IN ('owner', 'manager', 'employee')
+);
+
+CREATE POLICY "Business staff can update bills" ON bills
+FOR UPDATE USING (
+    get_business_role(business_id) IN ('owner', 'manager', 'employee')
+) WITH CHECK (
+    get_business_role(business_id) IN ('owner', 'manager', 'employee')
+);
+
+-- Approved bills are voided rather than deleted
+CREATE POLICY "Business staff can delete pending bills" ON bills
+FOR DELETE USING (
+    status = 'pending_approval'
+    AND get_business_role(business_id) IN ('owner', 'manager', 'employee')
+);
+
+CREATE POLICY "Business members can view bill attachments" ON bill_attachments
+FOR SELECT USING (
+    bill_id IN (SELECT id FROM bills WHERE get_business_role(business_id) IS NOT NULL)
+);
+
+CREATE POLICY "Business staff can manage bill attachments" ON bill_attachments
+FOR ALL USING (
+    bill_id IN (SELECT id FROM bills WHERE get_business_role(business_id) IN ('owner', 'manager', 'employee'))
+) WITH CHECK (
+    bill_id IN (SELECT id FROM bills WHERE get_business_role(business_id) IN ('owner', 'manager', 'employee'))
+);
+
+-- Payments are written only through record_bill_payment and delete_bill_payment,
+-- which limit them to owners and managers and post them to the books
+CREATE POLICY "Business members can view bill payments" ON bill_payments
+FOR SELECT USING (
+    bill_id IN (SELECT id FROM bills WHERE get_business_role(business_id) IS NOT NULL)
+);
+
+-- Accountants can review payables across their clients
+CREATE POLICY "Accountants can view vendors" ON vendors
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view bills" ON bills
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view bill attachments" ON bill_attachments
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view bill payments" ON bill_payments
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_vendors_updated_at
+    BEFORE UPDATE ON vendors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_bills_updated_at
+    BEFORE UPDATE ON bills
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
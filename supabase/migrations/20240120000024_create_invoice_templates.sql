@@ -0,0 +1,51 @@
+-- Migration to add branded invoice templates and rendered invoice PDFs
+-- A business keeps one or more templates with its logo, colours, payment
+-- instructions and standing notes. Rendered invoices and credit notes are
+-- stored as documents and linked back to the invoice they were made from.
+
+CREATE TABLE IF NOT EXISTS invoice_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    layout TEXT NOT NULL DEFAULT 'classic' CHECK (layout IN ('classic', 'modern', 'compact')),
+    accent_color TEXT NOT NULL DEFAULT '#2563eb' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+    logo_path TEXT, -- Path of the logo image in the documents bucket
+    payment_instructions TEXT,
+    notes TEXT, -- Printed on every invoice, after the invoice's own notes
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (business_id, name)
+);
+
+-- At most one default template per business
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_templates_one_default
+    ON invoice_templates(business_id) WHERE is_default;
+
+ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES invoice_templates(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS pdf_document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS pdf_generated_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS credit_note_document_id UUID REFERENCES documents(id) ON DELETE SET NULL; -- Issued when a sent invoice is voided
+
+CREATE INDEX IF NOT EXISTS idx_invoice_templates_business_id ON invoice_templates(business_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_template_id ON invoices(template_id);
+
+ALTER TABLE invoice_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage their invoice templates" ON invoice_templates
+FOR ALL USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Accountants can view invoice templates" ON invoice_templates
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_invoice_templates_updated_at
+    BEFORE UPDATE ON invoice_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,187 @@
+-- Migration to enforce the report approval workflow
+-- Reports move draft -> pending_review -> approved -> published; a rejection
+-- needs a reason and sends the report back to be revised as a draft. Every
+-- status change is kept in report_status_history, and reviewers discuss a
+-- report in threaded report_comments.
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS rejection_reason TEXT; -- Reason given by the reviewer for the latest rejection
+
+UPDATE reports SET status = 'draft' WHERE status IS NULL;
+
+ALTER TABLE reports
+    ALTER COLUMN status SET DEFAULT 'draft',
+    ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_status_check;
+ALTER TABLE reports ADD CONSTRAINT reports_status_check
+    CHECK (status IN ('draft', 'pending_review', 'approved', 'published', 'rejected', 'archived'));
+
+CREATE TABLE IF NOT EXISTS report_status_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    from_status TEXT, -- NULL when the report was created
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS report_comments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES report_comments(id) ON DELETE CASCADE, -- Set on replies
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_status_history_report_id ON report_status_history(report_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_report_comments_report_id ON report_comments(report_id, created_at);
+
+-- Allowed moves between report statuses
+CREATE OR REPLACE FUNCTION is_report_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE p_from
+        WHEN 'draft' THEN p_to IN ('pending_review', 'archived')
+        WHEN 'pending_review' THEN p_to IN ('approved', 'rejected', 'draft')
+        WHEN 'approved' THEN p_to IN ('published', 'rejected')
+        WHEN 'rejected' THEN p_to IN ('draft', 'archived')
+        WHEN 'published' THEN p_to = 'archived'
+        ELSE FALSE
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rejects moves the workflow does not allow and records who reviewed,
+-- approved and published the report. The review columns are only ever set
+-- here, and an approved report keeps its business and period for good.
+CREATE OR REPLACE FUNCTION enforce_report_workflow()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'draft' THEN
+            RAISE EXCEPTION 'New reports must start as drafts';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status IN ('approved', 'published', 'archived')
+       AND (NEW.business_id IS DISTINCT FROM OLD.business_id
+            OR NEW.period_start IS DISTINCT FROM OLD.period_start
+            OR NEW.period_end IS DISTINCT FROM OLD.period_end) THEN
+        RAISE EXCEPTION 'The business and period of an approved report cannot be changed';
+    END IF;
+
+    IF NEW.status = OLD.status THEN
+        IF OLD.status IN ('approved', 'published') AND NEW.data IS DISTINCT FROM OLD.data THEN
+            RAISE EXCEPTION 'The figures of an approved report cannot be changed';
+        END IF;
+        NEW.reviewed_by := OLD.reviewed_by;
+        NEW.reviewed_at := OLD.reviewed_at;
+        NEW.approved_by := OLD.approved_by;
+        NEW.approved_at := OLD.approved_at;
+        NEW.published_at := OLD.published_at;
+        NEW.rejection_reason := OLD.rejection_reason;
+        RETURN NEW;
+    END IF;
+
+    IF NOT is_report_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'A % report cannot be moved to %', replace(OLD.status, '_', ' '), replace(NEW.status, '_', ' ');
+    END IF;
+
+    IF NEW.status = 'rejected' THEN
+        IF NEW.rejection_reason IS NULL OR length(trim(NEW.rejection_reason)) = 0 THEN
+            RAISE EXCEPTION 'A reason is required to reject a report';
+        END IF;
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := NOW();
+        NEW.approved_by := NULL;
+        NEW.approved_at := NULL;
+    ELSIF NEW.status = 'approved' THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := NOW();
+        NEW.approved_by := auth.uid();
+        NEW.approved_at := NOW();
+    ELSIF NEW.status = 'published' THEN
+        NEW.published_at := NOW();
+    ELSIF NEW.status = 'pending_review' THEN
+        -- A resubmitted report is reviewed afresh; earlier reasons stay in the history
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+        NEW.rejection_reason := NULL;
+    END IF;
+
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reports_enforce_workflow
+    BEFORE INSERT OR UPDATE ON reports
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_report_workflow();
+
+-- Runs as the definer so the history stays append-only for everyone else
+CREATE OR REPLACE FUNCTION record_report_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO report_status_history (report_id, from_status, to_status, changed_by, reason)
+        VALUES (
+            NEW.id,
+            CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+            NEW.status,
+            auth.uid(),
+            CASE WHEN NEW.status = 'rejected' THEN NEW.rejection_reason END
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reports_record_status_change
+    AFTER INSERT OR UPDATE OF status ON reports
+    FOR EACH ROW
+    EXECUTE FUNCTION record_report_status_change();
+
+-- Existing reports start their history at their current status
+INSERT INTO report_status_history (report_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, status, created_by, COALESCE(created_at, NOW())
+FROM reports
+WHERE NOT EXISTS (SELECT 1 FROM report_status_history h WHERE h.report_id = reports.id);
+
+ALTER TABLE report_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Accountants can view report history" ON report_status_history
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can view report comments" ON report_comments
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Accountants can comment on reports" ON report_comments
+FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Authors can edit their report comments" ON report_comments
+FOR UPDATE USING (author_id = auth.uid()) WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors can delete their report comments" ON report_comments
+FOR DELETE USING (author_id = auth.uid());
+
+CREATE TRIGGER update_report_comments_updated_at
+    BEFORE UPDATE ON report_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
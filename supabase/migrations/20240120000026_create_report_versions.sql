@@ -0,0 +1,95 @@
+-- Migration to keep every computed version of a report
+-- Regenerating a report after adjustments used to overwrite its figures. Each
+-- set of figures written to a report is now also stored as an immutable,
+-- numbered version, and the version a client was sent is recorded on publish.
+
+CREATE TABLE IF NOT EXISTS report_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL CHECK (version_number > 0),
+    data JSONB NOT NULL,
+    generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    generated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (report_id, version_number)
+);
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS current_version INTEGER,
+    ADD COLUMN IF NOT EXISTS published_version INTEGER; -- The version the client was sent
+
+CREATE INDEX IF NOT EXISTS idx_report_versions_report_id ON report_versions(report_id, version_number);
+
+-- Existing figures become version 1, before the triggers below take over numbering
+INSERT INTO report_versions (report_id, version_number, data, generated_at, generated_by)
+SELECT id, 1, data, COALESCE(generated_at, created_at, NOW()), created_by
+FROM reports
+WHERE data IS NOT NULL
+ON CONFLICT (report_id, version_number) DO NOTHING;
+
+UPDATE reports SET current_version = 1 WHERE data IS NOT NULL AND current_version IS NULL;
+UPDATE reports SET published_version = 1 WHERE status = 'published' AND data IS NOT NULL AND published_version IS NULL;
+
+-- Numbers each new set of figures and pins the version a report is published at
+CREATE OR REPLACE FUNCTION set_report_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.data IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.data IS DISTINCT FROM OLD.data) THEN
+        NEW.current_version := COALESCE(CASE WHEN TG_OP = 'UPDATE' THEN OLD.current_version END, 0) + 1;
+        NEW.generated_at := COALESCE(NEW.generated_at, NOW());
+    ELSIF TG_OP = 'UPDATE' THEN
+        NEW.current_version := OLD.current_version;
+    END IF;
+
+    IF NEW.status = 'published' AND (TG_OP = 'INSERT' OR OLD.status <> 'published') THEN
+        NEW.published_version := NEW.current_version;
+    ELSIF TG_OP = 'UPDATE' THEN
+        NEW.published_version := OLD.published_version;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reports_set_version
+    BEFORE INSERT OR UPDATE ON reports
+    FOR EACH ROW
+    EXECUTE FUNCTION set_report_version();
+
+-- Runs as the definer so versions can only be written by this trigger
+CREATE OR REPLACE FUNCTION store_report_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.data IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.data IS DISTINCT FROM OLD.data) THEN
+        INSERT INTO report_versions (report_id, version_number, data, generated_at, generated_by)
+        VALUES (NEW.id, NEW.current_version, NEW.data, NEW.generated_at, COALESCE(auth.uid(), NEW.created_by));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reports_store_version
+    AFTER INSERT OR UPDATE OF data ON reports
+    FOR EACH ROW
+    EXECUTE FUNCTION store_report_version();
+
+ALTER TABLE report_versions ENABLE ROW LEVEL SECURITY;
+
+-- No insert, update or delete policies: versions are written by the trigger and never change
+CREATE POLICY "Accountants can view report versions" ON report_versions
+FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE POLICY "Clients can view published report versions" ON report_versions
+FOR SELECT USING (
+    report_id IN (
+        SELECT id FROM reports
+        WHERE status = 'published'
+          AND reports.published_version = report_versions.version_number
+          AND (
+              client_id = auth.uid()
+              OR business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+          )
+    )
+);
@@ -0,0 +1,40 @@
+-- Migration to add business budgets for budget-vs-actual reports
+-- A budget line sets the planned amount of one profit & loss category over a
+-- date range. Reports prorate the lines that overlap their period by day.
+
+CREATE TABLE IF NOT EXISTS business_budgets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    category TEXT NOT NULL, -- Matches a profit & loss line: a transaction category or account name
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    amount DECIMAL(15,2) NOT NULL CHECK (amount >= 0),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (period_end >= period_start),
+    UNIQUE (business_id, category, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_budgets_business_period ON business_budgets(business_id, period_start, period_end);
+
+ALTER TABLE business_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage their business budgets" ON business_budgets
+FOR ALL USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+) WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+);
+
+CREATE POLICY "Accountants can manage business budgets" ON business_budgets
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_business_budgets_updated_at
+    BEFORE UPDATE ON business_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
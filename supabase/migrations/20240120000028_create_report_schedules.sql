@@ -0,0 +1,236 @@
+-- Migration to generate reports on a schedule
+-- A schedule creates a draft report for a client business at the start of
+-- every month, quarter or year, covering the period that just ended. Each
+-- report comes with a review task for the assigned accountant and a
+-- notification. The accountant's app computes the figures of new drafts.
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    report_type TEXT NOT NULL CHECK (report_type IN ('profit_loss', 'balance_sheet', 'cash_flow')),
+    frequency TEXT NOT NULL CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+    run_day INTEGER NOT NULL DEFAULT 1 CHECK (run_day BETWEEN 1 AND 28), -- Day of the new period the report is created on
+    due_days INTEGER NOT NULL DEFAULT 7 CHECK (due_days >= 0), -- Review deadline, in days after creation
+    comparison JSONB, -- Comparative columns to compute, as chosen when generating by hand
+    assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+    next_run_on DATE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_business_id ON report_schedules(business_id);
+CREATE INDEX IF NOT EXISTS idx_report_schedules_next_run ON report_schedules(next_run_on) WHERE is_active;
+
+-- Scheduled reports point back at their schedule; one report per schedule and period
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_schedule_period
+    ON reports(schedule_id, period_start)
+    WHERE schedule_id IS NOT NULL;
+
+ALTER TABLE tasks
+    ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_to ON tasks(assigned_to);
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT,
+    link TEXT, -- App route the notification opens
+    report_id UUID REFERENCES reports(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, created_at DESC) WHERE read_at IS NULL;
+
+-- First run date on or after p_after. Quarterly and yearly schedules run in
+-- the first month of the quarter or year.
+CREATE OR REPLACE FUNCTION report_schedule_next_run(p_frequency TEXT, p_run_day INTEGER, p_after DATE)
+RETURNS DATE AS $$
+DECLARE
+    v_unit TEXT := CASE p_frequency WHEN 'quarterly' THEN 'quarter' WHEN 'yearly' THEN 'year' ELSE 'month' END;
+    v_step INTERVAL := CASE p_frequency WHEN 'quarterly' THEN INTERVAL '3 months' WHEN 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END;
+    v_run DATE;
+BEGIN
+    v_run := (date_trunc(v_unit, p_after) + make_interval(days => p_run_day - 1))::DATE;
+    IF v_run < p_after THEN
+        v_run := (date_trunc(v_unit, p_after) + v_step + make_interval(days => p_run_day - 1))::DATE;
+    END IF;
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- New schedules, and schedules whose timing changes, start from the next run day
+CREATE OR REPLACE FUNCTION set_report_schedule_next_run()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.frequency <> OLD.frequency OR NEW.run_day <> OLD.run_day
+       OR (NEW.is_active AND NOT OLD.is_active) THEN
+        NEW.next_run_on := report_schedule_next_run(NEW.frequency, NEW.run_day, CURRENT_DATE);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER report_schedules_set_next_run
+    BEFORE INSERT OR UPDATE ON report_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION set_report_schedule_next_run();
+
+-- Creates the draft reports of every run due on or before p_through, each
+-- with a review task and a notification for the assigned accountant. Runs
+-- as the definer so it can notify other users; called by accountants when
+-- they open the app, and daily by pg_cron where it is installed. Reports
+-- are created without figures, which the app computes from the ledger.
+-- Returns the number of reports created.
+CREATE OR REPLACE FUNCTION generate_scheduled_reports(p_through DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    v_schedule RECORD;
+    v_run DATE;
+    v_unit TEXT;
+    v_step INTERVAL;
+    v_period_start DATE;
+    v_period_end DATE;
+    v_title TEXT;
+    v_report_id UUID;
+    v_created INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin')) THEN
+        RAISE EXCEPTION 'Only accountants can generate scheduled reports';
+    END IF;
+
+    -- Runs are never brought forward: a period is reported once it has ended
+    p_through := LEAST(p_through, CURRENT_DATE);
+
+    FOR v_schedule IN
+        SELECT s.*, b.name AS business_name, b.owner_id AS client_id,
+               COALESCE(u.full_name, u.email) AS client_name
+          FROM report_schedules s
+          JOIN businesses b ON b.id = s.business_id
+          JOIN users u ON u.id = b.owner_id
+         WHERE s.is_active
+           AND s.next_run_on <= p_through
+           FOR UPDATE OF s SKIP LOCKED
+    LOOP
+        v_unit := CASE v_schedule.frequency WHEN 'quarterly' THEN 'quarter' WHEN 'yearly' THEN 'year' ELSE 'month' END;
+        v_step := CASE v_schedule.frequency WHEN 'quarterly' THEN INTERVAL '3 months' WHEN 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END;
+        v_run := v_schedule.next_run_on;
+
+        WHILE v_run <= p_through LOOP
+            -- The period that ended before the run
+            v_period_end := (date_trunc(v_unit, v_run) - INTERVAL '1 day')::DATE;
+            v_period_start := (date_trunc(v_unit, v_run) - v_step)::DATE;
+            v_title := CASE v_schedule.report_type
+                    WHEN 'profit_loss' THEN 'Profit & Loss Report'
+                    WHEN 'balance_sheet' THEN 'Balance Sheet'
+                    ELSE 'Cash Flow Statement'
+                END || ' – ' || CASE v_schedule.frequency
+                    WHEN 'quarterly' THEN to_char(v_period_start, '"Q"Q YYYY')
+                    WHEN 'yearly' THEN to_char(v_period_start, 'YYYY')
+                    ELSE to_char(v_period_start, 'FMMonth YYYY')
+                END;
+
+            INSERT INTO reports (
+                title, client_id, client_name, business_id, business_name, type, due_date,
+                period, period_start, period_end, status, created_by, schedule_id
+            )
+            VALUES (
+                v_title, v_schedule.client_id, v_schedule.client_name, v_schedule.business_id,
+                v_schedule.business_name, v_schedule.report_type, v_run + v_schedule.due_days,
+                v_schedule.frequency, v_period_start, v_period_end, 'draft',
+                COALESCE(v_schedule.assigned_to, v_schedule.created_by), v_schedule.id
+            )
+            ON CONFLICT DO NOTHING
+            RETURNING id INTO v_report_id;
+
+            IF v_report_id IS NOT NULL THEN
+                INSERT INTO tasks (
+                    title, description, type, priority, status, client_id, client_name,
+                    due_date, created_by, assigned_to, report_id
+                )
+                VALUES (
+                    'Review ' || v_title,
+                    'Review the scheduled ' || v_title || ' for ' || v_schedule.business_name || ' and submit it for approval.',
+                    'review', 'medium', 'pending', v_schedule.client_id, v_schedule.client_name,
+                    v_run + v_schedule.due_days, v_schedule.created_by, v_schedule.assigned_to, v_report_id
+                );
+
+                IF v_schedule.assigned_to IS NOT NULL THEN
+                    INSERT INTO notifications (user_id, type, title, message, link, report_id)
+                    VALUES (
+                        v_schedule.assigned_to,
+                        'scheduled_report',
+                        'Scheduled report ready for review',
+                        v_title || ' for ' || v_schedule.business_name || ' is due ' || to_char(v_run + v_schedule.due_days, 'Mon FMDD, YYYY') || '.',
+                        '/accountant/reports',
+                        v_report_id
+                    );
+                END IF;
+
+                v_created := v_created + 1;
+            END IF;
+
+            v_run := (date_trunc(v_unit, v_run) + v_step + make_interval(days => v_schedule.run_day - 1))::DATE;
+        END LOOP;
+
+        UPDATE report_schedules
+           SET next_run_on = v_run,
+               last_run_at = NOW()
+         WHERE id = v_schedule.id;
+    END LOOP;
+
+    RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_scheduled_reports(DATE) FROM PUBLIC, anon;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Accountants can manage report schedules" ON report_schedules
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+-- No insert policy: notifications are written by definer functions
+CREATE POLICY "Users can view their notifications" ON notifications
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read" ON notifications
+FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their notifications" ON notifications
+FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_report_schedules_updated_at
+    BEFORE UPDATE ON report_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create scheduled reports every morning where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'generate-scheduled-reports',
+            '30 2 * * *',
+            'SELECT generate_scheduled_reports()'
+        );
+    END IF;
+END $$;
@@ -0,0 +1,32 @@
+-- Migration to save custom report templates
+-- A template records the layout of a custom report: its rows, columns,
+-- filters and subtotals. It holds no client data, so accountants can run the
+-- same template for any client business.
+
+CREATE TABLE IF NOT EXISTS report_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    definition JSONB NOT NULL, -- Rows, columns, filters and subtotals chosen in the report builder
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Custom reports point back at the template they were run from
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES report_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE report_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Accountants can manage report templates" ON report_templates
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('accountant', 'admin'))
+);
+
+CREATE TRIGGER update_report_templates_updated_at
+    BEFORE UPDATE ON report_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();